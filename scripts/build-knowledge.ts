@@ -6,15 +6,26 @@
  * versioned knowledge base for the MCP server.
  */
 
-import { promises as fs } from "fs";
-import { join } from "path";
 import { runExtraction, type ExtractionOptions } from "../src/lib/extraction-runner.js";
-import { loadConfig, isRepoEnabled } from "../src/lib/config-loader.js";
-import { KnowledgeStore } from "../src/lib/knowledge-store.js";
+import { loadConfig, isRepoEnabled, type KnowledgeConfig } from "../src/lib/config-loader.js";
+import { KnowledgeStore, knowledgeStoreOptions } from "../src/lib/knowledge-store.js";
+import { outdatedOutputs } from "../src/lib/extractor-base.js";
+import { describeTruncation } from "../src/lib/extraction-budget.js";
+import { parseCacheHitRate } from "../src/lib/parse-cache.js";
+import {
+  createBundle,
+  writeBundle,
+  readBundle,
+  importBundle,
+  BUNDLE_CONFLICT_POLICIES,
+  type BundleConflictPolicy,
+} from "../src/lib/knowledge-bundle.js";
 
 async function main() {
   const args = process.argv.slice(2);
   const options: ExtractionOptions = {};
+  let bundleCommand: { action: "export" | "import"; file: string } | undefined;
+  let conflict: BundleConflictPolicy = "newer";
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
@@ -35,12 +46,32 @@ async function main() {
     } else if (arg === "--prune" || arg === "-p") {
       await pruneDisabled();
       return;
+    } else if (arg === "--gc") {
+      await collectGarbage();
+      return;
+    } else if (arg === "--export" || arg === "--import") {
+      bundleCommand = { action: arg === "--export" ? "export" : "import", file: args[++i] };
+    } else if (arg === "--on-conflict") {
+      conflict = args[++i] as BundleConflictPolicy;
+    } else if (arg === "--export-json") {
+      await exportJson(args[++i]);
+      return;
     } else if (arg === "--help" || arg === "-h") {
       printHelp();
       return;
     }
   }
 
+  // Bundle commands take --repo/--ref filters, so they run after all options are parsed
+  if (bundleCommand?.action === "export") {
+    await exportBundle(bundleCommand.file, options);
+    return;
+  }
+  if (bundleCommand?.action === "import") {
+    await importBundleFile(bundleCommand.file, options, conflict);
+    return;
+  }
+
   console.log("🏗️  Building knowledge base\n");
   console.log("━".repeat(50));
 
@@ -59,6 +90,15 @@ async function main() {
 
     console.log(`  ${status} ${summary.repo}:${summary.refType}/${summary.ref} ${extractors}`);
 
+    if (summary.parseCache) {
+      const { hits, misses } = summary.parseCache;
+      console.log(`     Parse cache: ${hits}/${hits + misses} files (${Math.round(parseCacheHitRate(summary.parseCache) * 100)}%)`);
+    }
+
+    for (const [extractor, truncated] of Object.entries(summary.truncated ?? {})) {
+      console.log(`     Truncated ${extractor}: ${truncated.map(describeTruncation).join("; ")}`);
+    }
+
     if (summary.error) {
       console.log(`     Error: ${summary.error}`);
     }
@@ -71,14 +111,24 @@ async function main() {
   console.log(`\n⏱️  Total time: ${totalTime}s`);
   console.log(`📦 Processed: ${successful} successful, ${failed} failed`);
 
+  const hits = summaries.reduce((sum, s) => sum + (s.parseCache?.hits ?? 0), 0);
+  const misses = summaries.reduce((sum, s) => sum + (s.parseCache?.misses ?? 0), 0);
+  if (hits + misses > 0) {
+    console.log(`🗂️  Parse cache: ${hits}/${hits + misses} files (${Math.round(parseCacheHitRate({ hits, misses }) * 100)}%)`);
+  }
+
   if (failed > 0) {
     process.exit(1);
   }
 }
 
+function openStore(config: KnowledgeConfig): KnowledgeStore {
+  return new KnowledgeStore(config.knowledge_dir || "knowledge/extracted", knowledgeStoreOptions(config));
+}
+
 async function listKnowledge() {
   const config = await loadConfig();
-  const store = new KnowledgeStore(config.knowledge_dir || "knowledge/extracted");
+  const store = openStore(config);
 
   console.log("📚 Available Knowledge:\n");
 
@@ -100,15 +150,19 @@ async function listKnowledge() {
     for (const version of versions) {
       const age = Math.round((Date.now() - version.extractedAt.getTime()) / 1000 / 60);
       const ageStr = age < 60 ? `${age}m ago` : `${Math.round(age / 60)}h ago`;
-      console.log(`    ${version.refType}/${version.ref} (${ageStr})`);
+      const snapshots = version.snapshots === 1 ? "" : `, ${version.snapshots} snapshots`;
+      const outdated = outdatedOutputs(version.outputVersions).map((o) => `${o.extractor} v${o.storedVersion}→v${o.currentVersion}`);
+      const stale = outdated.length > 0 ? ` ⚠️  outdated: ${outdated.join(", ")}` : "";
+      const truncated = Object.keys(version.truncated);
+      const partial = truncated.length > 0 ? ` ✂️  truncated: ${truncated.join(", ")}` : "";
+      console.log(`    ${version.refType}/${version.ref} (${ageStr}${snapshots})${stale}${partial}`);
     }
   }
 }
 
 async function pruneDisabled() {
   const config = await loadConfig();
-  const knowledgeDir = config.knowledge_dir || "knowledge/extracted";
-  const store = new KnowledgeStore(knowledgeDir);
+  const store = openStore(config);
 
   console.log("🧹 Pruning disabled repo data...\n");
 
@@ -124,8 +178,7 @@ async function pruneDisabled() {
       console.log(`  🗑️  Removing ${repo} (${reason})...`);
 
       try {
-        const repoPath = join(knowledgeDir, repo);
-        await fs.rm(repoPath, { recursive: true, force: true });
+        await store.deleteRepo(repo);
         pruned++;
       } catch (error) {
         console.error(`  ❌ Failed to remove ${repo}: ${error}`);
@@ -137,7 +190,76 @@ async function pruneDisabled() {
     console.log("  ✨ No stale data to prune");
   } else {
     console.log(`\n✅ Pruned ${pruned} disabled/removed repo(s)`);
+    await store.gc();
+  }
+}
+
+async function collectGarbage() {
+  const config = await loadConfig();
+  const store = openStore(config);
+
+  console.log("🧹 Removing unreferenced extractor outputs...\n");
+  const { removed, kept, bytesFreed } = await store.gc();
+  console.log(`✅ Removed ${removed} blob(s), freed ${(bytesFreed / 1024).toFixed(1)} KB (${kept} kept)`);
+}
+
+async function exportJson(dir: string | undefined) {
+  if (!dir) {
+    console.error("--export-json needs a target directory");
+    process.exit(1);
+  }
+
+  const config = await loadConfig();
+  const store = openStore(config);
+
+  console.log(`📤 Exporting ${store.getBackendName()} knowledge to ${dir}...\n`);
+  const copied = await store.copyTo(new KnowledgeStore(dir));
+  console.log(`✅ Exported ${copied} version(s)`);
+}
+
+async function exportBundle(file: string | undefined, options: ExtractionOptions) {
+  if (!file) {
+    console.error("--export needs a target file");
+    process.exit(1);
+  }
+
+  const config = await loadConfig();
+  const store = openStore(config);
+  const refs = Array.isArray(options.refs) ? options.refs : undefined;
+
+  console.log(`📦 Exporting knowledge bundle to ${file}...\n`);
+  const bundle = await createBundle(store, { repos: options.repos, refs });
+  for (const { manifest } of bundle.entries) {
+    console.log(`  ${manifest.repo}:${manifest.refType}/${manifest.ref} (${manifest.extractedAt})`);
+  }
+  const bytes = await writeBundle(file, bundle);
+  console.log(`\n✅ Exported ${bundle.entries.length} ref(s), ${(bytes / 1024).toFixed(1)} KB (${bundle.checksum})`);
+}
+
+async function importBundleFile(file: string | undefined, options: ExtractionOptions, conflict: BundleConflictPolicy) {
+  if (!file) {
+    console.error("--import needs a bundle file");
+    process.exit(1);
+  }
+  if (!BUNDLE_CONFLICT_POLICIES.includes(conflict)) {
+    console.error(`--on-conflict must be one of: ${BUNDLE_CONFLICT_POLICIES.join(", ")}`);
+    process.exit(1);
+  }
+
+  const config = await loadConfig();
+  const store = openStore(config);
+
+  console.log(`📥 Importing knowledge bundle ${file} (on conflict: ${conflict})...\n`);
+  const bundle = await readBundle(file);
+  const { imported, skipped } = await importBundle(store, bundle, { repos: options.repos, conflict });
+
+  for (const ref of imported) {
+    console.log(`  ✅ ${ref.repo}:${ref.refType}/${ref.ref} (${ref.extractedAt})`);
+  }
+  for (const ref of skipped) {
+    console.log(`  ⏭️  ${ref.repo}:${ref.refType}/${ref.ref}: ${ref.reason}`);
   }
+  console.log(`\n✅ Imported ${imported.length} ref(s), skipped ${skipped.length}`);
 }
 
 function printHelp() {
@@ -154,6 +276,16 @@ Options:
   --max-age <secs>  Max age in seconds before re-extraction (default: 86400)
   --list, -l        List available knowledge (shows disabled repos)
   --prune, -p       Remove extracted data for disabled/removed repos
+  --gc              Remove stored extractor outputs no snapshot references
+  --export-json <dir>
+                    Copy all stored knowledge to <dir> as JSON files
+                    (e.g. to inspect or back up a SQLite store)
+  --export <file>   Write a knowledge bundle (latest snapshot of each ref) to <file>;
+                    combine with --repo/--ref to select what is packed
+  --import <file>   Merge a knowledge bundle into the store (--repo limits it)
+  --on-conflict <newer|keep|replace>
+                    For --import, refs already stored: keep the more recent
+                    extraction (default), keep the stored one, or replace it
   --help, -h        Show this help
 
 Examples:
@@ -162,6 +294,10 @@ Examples:
   npm run build:knowledge -- --repo example-repo --ref main
   npm run build:knowledge -- --list
   npm run build:knowledge -- --prune
+  npm run build:knowledge -- --gc
+  npm run build:knowledge -- --export-json /tmp/knowledge-json
+  npm run build:knowledge -- --export knowledge.bundle.json.gz
+  npm run build:knowledge -- --import knowledge.bundle.json.gz --on-conflict replace
 `);
 }
 
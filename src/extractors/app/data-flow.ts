@@ -1,5 +1,5 @@
-import type { Extractor, ExtractionContext, ExtractionResult } from "../../lib/extractor-base.js";
-import { registerExtractor } from "../../lib/extractor-base.js";
+import type { Extractor, ExtractionContext, ExtractionResult, IncrementalContext } from "../../lib/extractor-base.js";
+import { registerExtractor, planIncremental, mergeByFile } from "../../lib/extractor-base.js";
 import * as ts from "typescript";
 
 interface ServiceInfo {
@@ -49,6 +49,7 @@ interface DataFlowResult {
 const dataFlowExtractor: Extractor = {
   name: "data_flow",
   description: "Lightweight service dependency hints from imports and HTTP calls",
+  configSchema: { type: "object", properties: {}, additionalProperties: false },
 
   async canExtract(ctx: ExtractionContext): Promise<boolean> {
     const files = await ctx.gitManager.listFilesAtRef(ctx.repoPath, ctx.ref);
@@ -64,132 +65,171 @@ const dataFlowExtractor: Extractor = {
 
   async extract(ctx: ExtractionContext): Promise<ExtractionResult> {
     const allFiles = await ctx.gitManager.listFilesAtRef(ctx.repoPath, ctx.ref);
-    
-    // JavaScript/TypeScript service files
-    const jsServiceFiles = allFiles.filter((f) =>
-      f.includes("/services/") || f.endsWith("Service.ts") || f.endsWith("Service.js")
-    ).slice(0, 50);
-
-    // Rust source files - include monorepo structures like crates/*/src/
-    const rustFiles = allFiles.filter((f) =>
-      f.endsWith(".rs") && (
-        f.startsWith("src/") ||
-        f.includes("/src/") ||  // crates/foo/src/bar.rs
-        f.startsWith("crates/")  // crates/foo/bar.rs (some projects don't use src/)
-      )
-    ).slice(0, 100);
-
-    const services: ServiceInfo[] = [];
-    const externalCalls: Array<{ file: string; line: number; target: string }> = [];
-    const callGraph: Array<{ caller: string; callee: string; file: string; line: number; serviceBoundary?: string }> = [];
-    const apiRoutes: APIEndpoint[] = [];
-    const databaseConnections: DatabaseConnection[] = [];
-    const messageQueues: MessageQueue[] = [];
-
-    // Process JS/TS services with AST analysis
-    for (const file of jsServiceFiles) {
-      try {
-        const content = await ctx.gitManager.getFileAtRef(ctx.repoPath, ctx.ref, file);
-        const name = inferServiceName(file);
-        const dependencies = findImports(content).map(inferServiceName);
-        
-        // Use AST parsing for TypeScript files to get accurate call information
-        const functionCalls: Array<{ callee: string; line: number; args?: string[] }> = [];
-        if (file.endsWith(".ts") || file.endsWith(".tsx")) {
-          const serviceBoundary = inferServiceBoundary(file);
-          const astCalls = extractCallsFromAST(content, file);
-          const imports = extractImports(content);
-          
-          for (const call of astCalls) {
-            functionCalls.push({ callee: call.callee, line: call.line, args: call.args });
-            
-            // Check if callee is from an import (cross-file call)
-            const importedModule = imports.find((imp) => 
-              call.callee.startsWith(imp.localName + ".") || call.callee === imp.localName
-            );
-            
-            callGraph.push({
-              caller: call.caller,
-              callee: call.callee,
-              file,
-              line: call.line,
-              serviceBoundary: importedModule ? undefined : serviceBoundary,
-            });
-          }
-        }
-        
-        services.push({ 
-          name, 
-          file, 
-          dependencies,
-          functionCalls: functionCalls.length > 0 ? functionCalls : undefined,
-        });
-
-        // Still use regex for HTTP calls (AST doesn't help much here)
-        externalCalls.push(...findHttpCalls(content).map((target) => ({ file, line: 0, target })));
-        
-        // Extract API routes
-        apiRoutes.push(...extractAPIRoutes(content, file));
-        
-        // Extract database connections
-        databaseConnections.push(...extractDatabaseConnections(content, file));
-        
-        // Extract message queues
-        messageQueues.push(...extractMessageQueues(content, file));
-      } catch {
-        // skip unreadable
-      }
-    }
-
-    // Process Rust files
-    for (const file of rustFiles) {
-      try {
-        const content = await ctx.gitManager.getFileAtRef(ctx.repoPath, ctx.ref, file);
-        const name = inferRustModuleName(file);
-        const dependencies = findRustImports(content);
-        const description = extractRustAboutMe(content);
-        
-        services.push({ 
-          name: description ? `${name} - ${description}` : name, 
-          file, 
-          dependencies 
-        });
+    const entries = await readServiceFiles(ctx, await ctx.budget.select(ctx, selectServiceFiles(allFiles)));
 
-        externalCalls.push(...findHttpCalls(content).map((target) => ({ file, line: 0, target })));
-        externalCalls.push(...findRustHttpCalls(content).map((target) => ({ file, line: 0, target })));
-        
-        // Extract API routes for Rust
-        apiRoutes.push(...extractRustAPIRoutes(content, file));
-        
-        // Extract database connections for Rust
-        databaseConnections.push(...extractDatabaseConnections(content, file));
-        
-        // Extract message queues for Rust
-        messageQueues.push(...extractMessageQueues(content, file));
-      } catch {
-        // skip unreadable
-      }
-    }
-
-    const data: DataFlowResult = {
-      services,
-      externalCalls,
-      callGraph: callGraph.length > 0 ? callGraph : undefined,
-      apiRoutes: apiRoutes.length > 0 ? apiRoutes : undefined,
-      databaseConnections: databaseConnections.length > 0 ? databaseConnections : undefined,
-      messageQueues: messageQueues.length > 0 ? messageQueues : undefined,
+    return {
+      extractor: this.name,
+      repo: ctx.repoName,
+      ref: ctx.ref,
+      extractedAt: new Date(),
+      data: buildResult(entries),
     };
+  },
+
+  async extractIncremental(ctx: IncrementalContext): Promise<ExtractionResult | null> {
+    const previous = ctx.previous as DataFlowResult;
+    const plan = await planIncremental(ctx, selectServiceFiles);
+    const entries = await readServiceFiles(ctx, plan.parse);
 
     return {
       extractor: this.name,
       repo: ctx.repoName,
       ref: ctx.ref,
       extractedAt: new Date(),
-      data,
+      data: buildResult({
+        services: mergeByFile(plan, previous.services, entries.services),
+        externalCalls: mergeByFile(plan, previous.externalCalls, entries.externalCalls),
+        callGraph: mergeByFile(plan, previous.callGraph, entries.callGraph),
+        apiRoutes: mergeByFile(plan, previous.apiRoutes, entries.apiRoutes),
+        databaseConnections: mergeByFile(plan, previous.databaseConnections, entries.databaseConnections),
+        messageQueues: mergeByFile(plan, previous.messageQueues, entries.messageQueues),
+      }),
     };
   },
 };
 
+/** Per-file results, all lists present */
+type DataFlowEntries = { [K in keyof DataFlowResult]-?: NonNullable<DataFlowResult[K]> };
+
+/**
+ * JS/TS service files, then Rust source files (the budget picks which are read)
+ */
+function selectServiceFiles(allFiles: string[]): string[] {
+  // JavaScript/TypeScript service files
+  const jsServiceFiles = allFiles.filter((f) =>
+    !f.endsWith(".rs") && (f.includes("/services/") || f.endsWith("Service.ts") || f.endsWith("Service.js"))
+  );
+
+  // Rust source files - include monorepo structures like crates/*/src/
+  const rustFiles = allFiles.filter((f) =>
+    f.endsWith(".rs") && (
+      f.startsWith("src/") ||
+      f.includes("/src/") ||  // crates/foo/src/bar.rs
+      f.startsWith("crates/")  // crates/foo/bar.rs (some projects don't use src/)
+    )
+  );
+
+  return [...jsServiceFiles, ...rustFiles];
+}
+
+async function readServiceFiles(ctx: ExtractionContext, files: string[]): Promise<DataFlowEntries> {
+  const services: ServiceInfo[] = [];
+  const externalCalls: Array<{ file: string; line: number; target: string }> = [];
+  const callGraph: Array<{ caller: string; callee: string; file: string; line: number; serviceBoundary?: string }> = [];
+  const apiRoutes: APIEndpoint[] = [];
+  const databaseConnections: DatabaseConnection[] = [];
+  const messageQueues: MessageQueue[] = [];
+
+  // Process JS/TS services with AST analysis
+  for (const file of ctx.budget.timed(files.filter((f) => !f.endsWith(".rs")))) {
+    try {
+      const content = await ctx.gitManager.getFileAtRef(ctx.repoPath, ctx.ref, file);
+      const name = inferServiceName(file);
+      const dependencies = findImports(content).map(inferServiceName);
+      
+      // Use AST parsing for TypeScript files to get accurate call information
+      const functionCalls: Array<{ callee: string; line: number; args?: string[] }> = [];
+      if (file.endsWith(".ts") || file.endsWith(".tsx")) {
+        const serviceBoundary = inferServiceBoundary(file);
+        const astCalls = extractCallsFromAST(content, file);
+        const imports = extractImports(content);
+        
+        for (const call of astCalls) {
+          functionCalls.push({ callee: call.callee, line: call.line, args: call.args });
+          
+          // Check if callee is from an import (cross-file call)
+          const importedModule = imports.find((imp) => 
+            call.callee.startsWith(imp.localName + ".") || call.callee === imp.localName
+          );
+          
+          callGraph.push({
+            caller: call.caller,
+            callee: call.callee,
+            file,
+            line: call.line,
+            serviceBoundary: importedModule ? undefined : serviceBoundary,
+          });
+        }
+      }
+      
+      services.push({ 
+        name, 
+        file, 
+        dependencies,
+        functionCalls: functionCalls.length > 0 ? functionCalls : undefined,
+      });
+
+      // Still use regex for HTTP calls (AST doesn't help much here)
+      externalCalls.push(...findHttpCalls(content).map((target) => ({ file, line: 0, target })));
+      
+      // Extract API routes
+      apiRoutes.push(...extractAPIRoutes(content, file));
+      
+      // Extract database connections
+      databaseConnections.push(...extractDatabaseConnections(content, file));
+      
+      // Extract message queues
+      messageQueues.push(...extractMessageQueues(content, file));
+    } catch {
+      // skip unreadable
+    }
+  }
+
+  // Process Rust files
+  for (const file of ctx.budget.timed(files.filter((f) => f.endsWith(".rs")))) {
+    try {
+      const content = await ctx.gitManager.getFileAtRef(ctx.repoPath, ctx.ref, file);
+      const name = inferRustModuleName(file);
+      const dependencies = findRustImports(content);
+      const description = extractRustAboutMe(content);
+      
+      services.push({ 
+        name: description ? `${name} - ${description}` : name, 
+        file, 
+        dependencies 
+      });
+
+      externalCalls.push(...findHttpCalls(content).map((target) => ({ file, line: 0, target })));
+      externalCalls.push(...findRustHttpCalls(content).map((target) => ({ file, line: 0, target })));
+      
+      // Extract API routes for Rust
+      apiRoutes.push(...extractRustAPIRoutes(content, file));
+      
+      // Extract database connections for Rust
+      databaseConnections.push(...extractDatabaseConnections(content, file));
+      
+      // Extract message queues for Rust
+      messageQueues.push(...extractMessageQueues(content, file));
+    } catch {
+      // skip unreadable
+    }
+  }
+
+  return { services, externalCalls, callGraph, apiRoutes, databaseConnections, messageQueues };
+}
+
+function buildResult(entries: DataFlowEntries): DataFlowResult {
+  const { services, externalCalls, callGraph, apiRoutes, databaseConnections, messageQueues } = entries;
+  return {
+    services,
+    externalCalls,
+    callGraph: callGraph.length > 0 ? callGraph : undefined,
+    apiRoutes: apiRoutes.length > 0 ? apiRoutes : undefined,
+    databaseConnections: databaseConnections.length > 0 ? databaseConnections : undefined,
+    messageQueues: messageQueues.length > 0 ? messageQueues : undefined,
+  };
+}
+
 function inferServiceName(path: string): string {
   const parts = path.split("/");
   const filename = parts[parts.length - 1];
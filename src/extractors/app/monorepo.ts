@@ -47,6 +47,7 @@ interface MonorepoData {
 const monorepoExtractor: Extractor = {
   name: "monorepo",
   description: "Detect and analyze monorepo structure, packages, and internal dependencies",
+  configSchema: { type: "object", properties: {}, additionalProperties: false },
 
   async canExtract(ctx: ExtractionContext): Promise<boolean> {
     const files = await ctx.gitManager.listFilesAtRef(ctx.repoPath, ctx.ref);
@@ -121,11 +122,11 @@ const monorepoExtractor: Extractor = {
     }
 
     // Find all package.json files
-    const packageJsonFiles = files.filter((f) => 
+    const packageJsonFiles = await ctx.budget.select(ctx, files.filter((f) => 
       f.endsWith("package.json") && 
       f !== "package.json" &&
       !f.includes("node_modules")
-    );
+    ));
 
     // Collect all workspace package names first
     const workspacePackages = new Map<string, string>(); // name -> path
@@ -71,6 +71,14 @@ interface NIPUsageData {
 const nipUsageExtractor: Extractor = {
   name: "nip_usage",
   description: "Extract NIP references and event kind usage from codebase",
+  configSchema: {
+    type: "object",
+    properties: {
+      patterns: { type: "array", items: { type: "string" }, description: "Regex patterns to search for" },
+      file_types: { type: "array", items: { type: "string" }, description: "File extensions to scan" },
+    },
+    additionalProperties: false,
+  },
 
   async canExtract(ctx: ExtractionContext): Promise<boolean> {
     const files = await ctx.gitManager.listFilesAtRef(ctx.repoPath, ctx.ref);
@@ -1,11 +1,13 @@
-import type { Extractor, ExtractionContext, ExtractionResult } from "../../lib/extractor-base.js";
-import { registerExtractor } from "../../lib/extractor-base.js";
+import type { Extractor, ExtractionContext, ExtractionResult, IncrementalContext } from "../../lib/extractor-base.js";
+import { registerExtractor, registerOutputMigration, planIncremental, mergeByFile } from "../../lib/extractor-base.js";
 import * as ts from "typescript";
 
 interface Screen {
   name: string;
   file: string;
   navigatesTo: string[];
+  /** First path-like string literal in the screen (source of `routes`) */
+  route?: string;
 }
 
 interface RouteDefinition {
@@ -44,6 +46,20 @@ interface UserFlowResult {
 const userFlowsExtractor: Extractor = {
   name: "user_flows",
   description: "Extract basic screens/pages and navigation targets for UI repos",
+  // v2: screens record their route
+  outputVersion: 2,
+  configSchema: {
+    type: "object",
+    properties: {
+      ignore: { type: "array", items: { type: "string" }, description: "Glob patterns to skip" },
+      limit: { type: "integer", minimum: 1, description: "Max files to read (same as budget.max_files)" },
+    },
+    additionalProperties: false,
+  },
+
+  configBudget(config: UserFlowsConfig) {
+    return { max_files: config.limit };
+  },
 
   async canExtract(ctx: ExtractionContext): Promise<boolean> {
     const files = await ctx.gitManager.listFilesAtRef(ctx.repoPath, ctx.ref);
@@ -51,119 +67,159 @@ const userFlowsExtractor: Extractor = {
   },
 
   async extract(ctx: ExtractionContext): Promise<ExtractionResult> {
-    const config = ctx.config as {
-      ignore?: string[];
-      limit?: number;
-    };
-
+    const config = ctx.config as UserFlowsConfig;
     const allFiles = await ctx.gitManager.listFilesAtRef(ctx.repoPath, ctx.ref);
-    const ignore = config.ignore || [];
-    const limit = config.limit || 50;
-
-    // Built-in patterns to exclude test files and common non-screen files
-    const builtInIgnore = [
-      ".test.", ".spec.", ".nuxt.test.", ".nuxt.spec.",
-      "__tests__", "/tests/", "/test/", "/__mocks__/",
-      ".stories.", ".story."
-    ];
-
-    const screenFiles = allFiles.filter((f) => {
-      const isScreen = f.includes("/screens/") || f.includes("/pages/") || f.includes("/views/");
-      const isTestFile = builtInIgnore.some((pat) => f.includes(pat));
-      const isUserIgnored = ignore.some((pat) => f.includes(pat.replace("**", "")));
-      const isValidExtension = f.endsWith(".dart") || f.endsWith(".tsx") || f.endsWith(".vue") || f.endsWith(".jsx");
-      // Only include .ts/.js if they're not in a test directory and don't have test extensions
-      const isPlainScript = (f.endsWith(".ts") || f.endsWith(".js")) && !isTestFile;
-      return isScreen && !isTestFile && !isUserIgnored && (isValidExtension || isPlainScript);
-    }).slice(0, limit);
-
-    const screens: Screen[] = [];
-    const routes = new Set<string>();
-    const routeDefinitions: RouteDefinition[] = [];
-    const navigations: Navigation[] = [];
-    const componentHierarchy: ComponentHierarchy[] = [];
-
-    // Also look for route config files
-    const routeConfigFiles = allFiles.filter((f) => {
-      const isRouteFile = f.includes("routes") || f.includes("router") || f.includes("routing");
-      const isValidExtension = f.endsWith(".ts") || f.endsWith(".tsx") || f.endsWith(".js") || f.endsWith(".jsx") || f.endsWith(".dart");
-      return isRouteFile && isValidExtension && !builtInIgnore.some((pat) => f.includes(pat));
-    }).slice(0, 20);
-
-    // Extract route definitions from config files
-    for (const file of routeConfigFiles) {
-      try {
-        const content = await ctx.gitManager.getFileAtRef(ctx.repoPath, ctx.ref, file);
-        routeDefinitions.push(...extractRouteDefinitions(content, file));
-      } catch {
-        // skip unreadable files
-      }
-    }
-
-    for (const file of screenFiles) {
-      try {
-        const content = await ctx.gitManager.getFileAtRef(ctx.repoPath, ctx.ref, file);
-        const name = extractScreenName(file);
-        const navigatesTo = findNavigations(content).map(extractScreenName);
-        screens.push({ name, file, navigatesTo });
-
-        // Extract route definitions from screen files
-        routeDefinitions.push(...extractRouteDefinitions(content, file));
-
-        // Extract improved navigation with AST
-        if (file.endsWith(".tsx") || file.endsWith(".ts") || file.endsWith(".jsx") || file.endsWith(".js")) {
-          navigations.push(...extractNavigationsAST(content, file, name));
-        } else {
-          // Fallback to regex for non-TS/JS files
-          const regexNavs = findNavigations(content);
-          for (const nav of regexNavs) {
-            navigations.push({
-              from: name,
-              to: extractScreenName(nav),
-              type: "unknown",
-              file,
-              line: 0,
-            });
-          }
-        }
+    const files = await ctx.budget.select(ctx, selectFlowFiles(allFiles, config));
 
-        // Extract component hierarchy
-        if (file.endsWith(".tsx") || file.endsWith(".jsx")) {
-          const hierarchy = extractComponentHierarchy(content, file, name);
-          if (hierarchy) {
-            componentHierarchy.push(hierarchy);
-          }
-        }
+    const parsed = await readFlowFiles(ctx, files, config);
 
-        // Very rough route detection (keep for backward compatibility)
-        const routeMatch = content.match(/['"]\/(.+?)['"]/);
-        if (routeMatch) routes.add(`/${routeMatch[1]}`);
-      } catch {
-        // skip unreadable files
-      }
-    }
+    return {
+      extractor: this.name,
+      repo: ctx.repoName,
+      ref: ctx.ref,
+      extractedAt: new Date(),
+      data: buildResult(parsed),
+    };
+  },
 
-    const entryPoints = screens.filter((s) => /home|main|splash/i.test(s.file)).map((s) => s.name);
+  async extractIncremental(ctx: IncrementalContext): Promise<ExtractionResult | null> {
+    const config = ctx.config as UserFlowsConfig;
+    const previous = ctx.previous as UserFlowResult;
+    const plan = await planIncremental(ctx, (files) => selectFlowFiles(files, config));
 
-    const data: UserFlowResult = {
-      screens,
-      routes: Array.from(routes).sort(),
-      entryPoints,
-      routeDefinitions: routeDefinitions.length > 0 ? routeDefinitions : undefined,
-      navigations: navigations.length > 0 ? navigations : undefined,
-      componentHierarchy: componentHierarchy.length > 0 ? componentHierarchy : undefined,
-    };
+    const parsed = await readFlowFiles(ctx, plan.parse, config);
 
     return {
       extractor: this.name,
       repo: ctx.repoName,
       ref: ctx.ref,
       extractedAt: new Date(),
-      data,
+      data: buildResult({
+        screens: mergeByFile(plan, previous.screens, parsed.screens),
+        routeDefinitions: mergeByFile(plan, previous.routeDefinitions, parsed.routeDefinitions),
+        navigations: mergeByFile(plan, previous.navigations, parsed.navigations),
+        componentHierarchy: mergeByFile(plan, previous.componentHierarchy, parsed.componentHierarchy),
+      }),
     };
   },
 };
 
+interface UserFlowsConfig {
+  ignore?: string[];
+  /** Same as budget.max_files */
+  limit?: number;
+}
+
+/** Per-file results, before the repo-wide routes and entry points are derived */
+interface FlowEntries {
+  screens: Screen[];
+  routeDefinitions: RouteDefinition[];
+  navigations: Navigation[];
+  componentHierarchy: ComponentHierarchy[];
+}
+
+// Built-in patterns to exclude test files and common non-screen files
+const BUILT_IN_IGNORE = [
+  ".test.", ".spec.", ".nuxt.test.", ".nuxt.spec.",
+  "__tests__", "/tests/", "/test/", "/__mocks__/",
+  ".stories.", ".story."
+];
+
+function selectScreenFiles(allFiles: string[], config: UserFlowsConfig): string[] {
+  const ignore = config.ignore || [];
+
+  return allFiles.filter((f) => {
+    const isScreen = f.includes("/screens/") || f.includes("/pages/") || f.includes("/views/");
+    const isTestFile = BUILT_IN_IGNORE.some((pat) => f.includes(pat));
+    const isUserIgnored = ignore.some((pat) => f.includes(pat.replace("**", "")));
+    const isValidExtension = f.endsWith(".dart") || f.endsWith(".tsx") || f.endsWith(".vue") || f.endsWith(".jsx");
+    // Only include .ts/.js if they're not in a test directory and don't have test extensions
+    const isPlainScript = (f.endsWith(".ts") || f.endsWith(".js")) && !isTestFile;
+    return isScreen && !isTestFile && !isUserIgnored && (isValidExtension || isPlainScript);
+  });
+}
+
+/**
+ * Files to read: route config files, then screens (the budget picks which are read)
+ */
+function selectFlowFiles(allFiles: string[], config: UserFlowsConfig): string[] {
+  const routeConfigFiles = allFiles.filter((f) => {
+    const isRouteFile = f.includes("routes") || f.includes("router") || f.includes("routing");
+    const isValidExtension = f.endsWith(".ts") || f.endsWith(".tsx") || f.endsWith(".js") || f.endsWith(".jsx") || f.endsWith(".dart");
+    return isRouteFile && isValidExtension && !BUILT_IN_IGNORE.some((pat) => f.includes(pat));
+  });
+
+  return [...new Set([...routeConfigFiles, ...selectScreenFiles(allFiles, config)])];
+}
+
+/**
+ * Read route definitions from every file, and screens and navigation from the screen files
+ */
+async function readFlowFiles(ctx: ExtractionContext, files: string[], config: UserFlowsConfig): Promise<FlowEntries> {
+  const entries: FlowEntries = { screens: [], routeDefinitions: [], navigations: [], componentHierarchy: [] };
+  const screenSet = new Set(selectScreenFiles(files, config));
+
+  for (const file of ctx.budget.timed(files)) {
+    try {
+      const content = await ctx.gitManager.getFileAtRef(ctx.repoPath, ctx.ref, file);
+
+      // Extract route definitions from config and screen files
+      entries.routeDefinitions.push(...extractRouteDefinitions(content, file));
+      if (!screenSet.has(file)) continue;
+
+      const name = extractScreenName(file);
+      const navigatesTo = findNavigations(content).map(extractScreenName);
+
+      // Very rough route detection (keep for backward compatibility)
+      const routeMatch = content.match(/['"]\/(.+?)['"]/);
+      entries.screens.push({ name, file, navigatesTo, route: routeMatch ? `/${routeMatch[1]}` : undefined });
+
+      // Extract improved navigation with AST
+      if (file.endsWith(".tsx") || file.endsWith(".ts") || file.endsWith(".jsx") || file.endsWith(".js")) {
+        entries.navigations.push(...extractNavigationsAST(content, file, name));
+      } else {
+        // Fallback to regex for non-TS/JS files
+        const regexNavs = findNavigations(content);
+        for (const nav of regexNavs) {
+          entries.navigations.push({
+            from: name,
+            to: extractScreenName(nav),
+            type: "unknown",
+            file,
+            line: 0,
+          });
+        }
+      }
+
+      // Extract component hierarchy
+      if (file.endsWith(".tsx") || file.endsWith(".jsx")) {
+        const hierarchy = extractComponentHierarchy(content, file, name);
+        if (hierarchy) {
+          entries.componentHierarchy.push(hierarchy);
+        }
+      }
+    } catch {
+      // skip unreadable files
+    }
+  }
+
+  return entries;
+}
+
+function buildResult({ screens, routeDefinitions, navigations, componentHierarchy }: FlowEntries): UserFlowResult {
+  const routes = new Set(screens.map((s) => s.route).filter((route): route is string => Boolean(route)));
+  const entryPoints = screens.filter((s) => /home|main|splash/i.test(s.file)).map((s) => s.name);
+
+  return {
+    screens,
+    routes: Array.from(routes).sort(),
+    entryPoints,
+    routeDefinitions: routeDefinitions.length > 0 ? routeDefinitions : undefined,
+    navigations: navigations.length > 0 ? navigations : undefined,
+    componentHierarchy: componentHierarchy.length > 0 ? componentHierarchy : undefined,
+  };
+}
+
 function extractScreenName(path: string): string {
   const parts = path.split("/");
   const filename = parts[parts.length - 1];
@@ -517,4 +573,6 @@ function getLineNumber(content: string, index: number): number {
 }
 
 registerExtractor(userFlowsExtractor);
+// v1 screens have no route; `routes` is unchanged
+registerOutputMigration("user_flows", 1, (data) => data);
 export { userFlowsExtractor };
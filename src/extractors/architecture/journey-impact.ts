@@ -46,6 +46,7 @@ interface JourneyImpactData {
 const journeyImpactExtractor: Extractor = {
   name: "journey_impact",
   description: "Best-effort mapping of user journeys/docs to screens and services",
+  configSchema: { type: "object", properties: {}, additionalProperties: false },
 
   async canExtract(ctx: ExtractionContext): Promise<boolean> {
     const files = await ctx.gitManager.listFilesAtRef(ctx.repoPath, ctx.ref);
@@ -70,21 +71,21 @@ const journeyImpactExtractor: Extractor = {
         f.toLowerCase().includes("design") ||
         f.toLowerCase().includes("plan")
       )
-    ).slice(0, 50);
+    );
 
     const screenFiles = files.filter((f) =>
       f.includes("/screens/") || f.includes("/pages/") || f.includes("/views/")
-    ).slice(0, 100);
+    );
 
     // JS/TS services
     const jsServiceFiles = files.filter((f) =>
       f.includes("/services/") || f.endsWith("Service.ts") || f.endsWith("Service.js")
-    ).slice(0, 100);
+    );
 
     // Rust modules (src/*.rs)
     const rustServiceFiles = files.filter((f) =>
       f.startsWith("src/") && f.endsWith(".rs") && f !== "src/lib.rs" && f !== "src/main.rs"
-    ).slice(0, 100);
+    );
 
     const screens = screenFiles.map(extractName);
     const services = [...jsServiceFiles.map(extractName), ...rustServiceFiles.map(extractRustName)];
@@ -93,43 +94,43 @@ const journeyImpactExtractor: Extractor = {
     const userStories: UserStory[] = [];
     const featureFlags: FeatureFlag[] = [];
 
-    for (const file of journeyDocs) {
-      try {
-        const content = await ctx.gitManager.getFileAtRef(ctx.repoPath, ctx.ref, file);
-        const title = extractTitle(content) || extractName(file);
-        const summary = summarize(content);
-        const linkedScreens = screens.filter((s) => content.includes(s));
-        const linkedServices = services.filter((s) => content.includes(s));
-        
-        // Parse structured journey
-        const structured = parseStructuredJourney(content, linkedScreens, linkedServices);
-        
-        journeys.push({
-          title,
-          file,
-          summary,
-          screens: linkedScreens,
-          services: linkedServices,
-          steps: structured.steps,
-          actors: structured.actors,
-          outcomes: structured.outcomes,
-        });
-        
-        // Extract user stories
-        const stories = extractUserStories(content, file);
-        userStories.push(...stories);
-      } catch {
-        // skip unreadable
-      }
-    }
+    // Journey docs, then code files to extract feature flags from
+    const docSet = new Set(journeyDocs);
+    const codeSet = new Set([...jsServiceFiles, ...rustServiceFiles, ...screenFiles]);
+    const selected = await ctx.budget.select(ctx, [...new Set([...journeyDocs, ...codeSet])]);
 
-    // Extract feature flags from code files
-    const codeFiles = [...jsServiceFiles, ...rustServiceFiles, ...screenFiles].slice(0, 100);
-    for (const file of codeFiles) {
+    for (const file of ctx.budget.timed(selected)) {
       try {
         const content = await ctx.gitManager.getFileAtRef(ctx.repoPath, ctx.ref, file);
-        const flags = extractFeatureFlags(content, file);
-        featureFlags.push(...flags);
+
+        if (docSet.has(file)) {
+          const title = extractTitle(content) || extractName(file);
+          const summary = summarize(content);
+          const linkedScreens = screens.filter((s) => content.includes(s));
+          const linkedServices = services.filter((s) => content.includes(s));
+          
+          // Parse structured journey
+          const structured = parseStructuredJourney(content, linkedScreens, linkedServices);
+          
+          journeys.push({
+            title,
+            file,
+            summary,
+            screens: linkedScreens,
+            services: linkedServices,
+            steps: structured.steps,
+            actors: structured.actors,
+            outcomes: structured.outcomes,
+          });
+          
+          // Extract user stories
+          const stories = extractUserStories(content, file);
+          userStories.push(...stories);
+        }
+
+        if (codeSet.has(file)) {
+          featureFlags.push(...extractFeatureFlags(content, file));
+        }
       } catch {
         // skip unreadable
       }
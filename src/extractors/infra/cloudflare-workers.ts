@@ -51,6 +51,7 @@ interface CloudflareWorkersData {
 const cloudflareWorkersExtractor: Extractor = {
   name: "cloudflare_workers",
   description: "Extract Cloudflare Workers configuration, routes, KV bindings, queues, and API endpoints",
+  configSchema: { type: "object", properties: {}, additionalProperties: false },
 
   async canExtract(ctx: ExtractionContext): Promise<boolean> {
     const files = await ctx.gitManager.listFilesAtRef(ctx.repoPath, ctx.ref);
@@ -93,28 +94,19 @@ const cloudflareWorkersExtractor: Extractor = {
       }
     }
 
-    // Find API endpoints in Rust source files
-    const rustFiles = allFiles.filter((f) => f.endsWith(".rs")).slice(0, 30);
-    for (const file of rustFiles) {
-      try {
-        const content = await ctx.gitManager.getFileAtRef(ctx.repoPath, ctx.ref, file);
-        data.endpoints.push(...findRustEndpoints(content, file));
-      } catch {
-        // skip
-      }
-    }
-
-    // Find API endpoints in TypeScript/JavaScript source files
+    // Find API endpoints in Rust, then TypeScript/JavaScript source files
+    const rustFiles = allFiles.filter((f) => f.endsWith(".rs"));
     const jsFiles = allFiles.filter((f) => 
       (f.endsWith(".ts") || f.endsWith(".js")) && 
       !f.includes("node_modules") &&
       (f.includes("src/") || f.includes("worker"))
-    ).slice(0, 30);
-    
-    for (const file of jsFiles) {
+    );
+
+    const sourceFiles = await ctx.budget.select(ctx, [...rustFiles, ...jsFiles]);
+    for (const file of ctx.budget.timed(sourceFiles)) {
       try {
         const content = await ctx.gitManager.getFileAtRef(ctx.repoPath, ctx.ref, file);
-        data.endpoints.push(...findJSEndpoints(content, file));
+        data.endpoints.push(...(file.endsWith(".rs") ? findRustEndpoints(content, file) : findJSEndpoints(content, file)));
       } catch {
         // skip
       }
@@ -4,8 +4,8 @@
  * Parses K8s manifests to extract resource topology, ArgoCD apps, and service mesh
  */
 
-import type { Extractor, ExtractionContext, ExtractionResult } from "../../lib/extractor-base.js";
-import { registerExtractor } from "../../lib/extractor-base.js";
+import type { Extractor, ExtractionContext, ExtractionResult, IncrementalContext } from "../../lib/extractor-base.js";
+import { registerExtractor, registerOutputMigration, planIncremental, mergeByFile } from "../../lib/extractor-base.js";
 
 interface K8sResource {
   apiVersion: string;
@@ -21,6 +21,7 @@ interface K8sResource {
 interface ArgoApp {
   name: string;
   namespace: string;
+  file: string;
   source: {
     repoURL?: string;
     path?: string;
@@ -37,6 +38,7 @@ interface ArgoApp {
 interface ServiceTopology {
   name: string;
   namespace: string;
+  file: string;
   type: string;
   ports: Array<{ port: number; targetPort: number; protocol: string }>;
   selector?: Record<string, string>;
@@ -48,6 +50,8 @@ interface ServiceTopology {
 
 interface KustomizeImage {
   name: string;
+  /** kustomization file listing the image */
+  file: string;
   newName?: string;
   newTag?: string;
   digest?: string;
@@ -60,6 +64,7 @@ interface K8sData {
   deployments: Array<{
     name: string;
     namespace: string;
+    file: string;
     replicas: number;
     image: string;
     ports: number[];
@@ -69,11 +74,13 @@ interface K8sData {
   configMaps: Array<{
     name: string;
     namespace: string;
+    file: string;
     keys: string[];
   }>;
   secrets: Array<{
     name: string;
     namespace: string;
+    file: string;
     type: string;
     keys: string[];
   }>;
@@ -109,6 +116,16 @@ interface ParsedK8sDocument {
 const kubernetesExtractor: Extractor = {
   name: "kubernetes",
   description: "Extract Kubernetes resource topology and ArgoCD applications",
+  // v2: entries derived from resources record their file
+  outputVersion: 2,
+  configSchema: {
+    type: "object",
+    properties: {
+      paths: { type: "array", items: { type: "string" }, description: "Path prefixes to scan for manifests" },
+      resource_types: { type: "array", items: { type: "string" }, description: "Resource kinds to include" },
+    },
+    additionalProperties: false,
+  },
 
   async canExtract(ctx: ExtractionContext): Promise<boolean> {
     const files = await ctx.gitManager.listFilesAtRef(ctx.repoPath, ctx.ref);
@@ -119,99 +136,48 @@ const kubernetesExtractor: Extractor = {
   },
 
   async extract(ctx: ExtractionContext): Promise<ExtractionResult> {
-    const config = ctx.config as {
-      paths?: string[];
-      resource_types?: string[];
-    };
-
-    const data: K8sData = {
-      resources: [],
-      argoApps: [],
-      services: [],
-      deployments: [],
-      configMaps: [],
-      secrets: [],
-      kustomizeImages: [],
-      imageToRepo: {},
-      namespaces: [],
-      topology: {
-        nodes: [],
-        edges: [],
-      },
-      summary: {
-        byKind: {},
-        byNamespace: {},
-        totalResources: 0,
-      },
-    };
-
+    const config = ctx.config as K8sConfig;
     const allFiles = await ctx.gitManager.listFilesAtRef(ctx.repoPath, ctx.ref);
-    let yamlFiles = allFiles.filter((f) => 
-      (f.endsWith(".yaml") || f.endsWith(".yml")) &&
-      !f.includes("node_modules")
-    );
 
-    // Filter by paths if configured
-    if (config.paths?.length) {
-      yamlFiles = yamlFiles.filter((f) => 
-        config.paths!.some((p) => f.startsWith(p))
-      );
-    }
+    const data = emptyK8sData();
+    await parseManifests(ctx, await ctx.budget.select(ctx, selectManifestFiles(allFiles, config)), data);
+    buildDerivedData(data);
 
-    for (const file of yamlFiles) {
-      try {
-        const content = await ctx.gitManager.getFileAtRef(ctx.repoPath, ctx.ref, file);
-        await parseK8sFile(file, content, data, config.resource_types);
-      } catch {
-        // Skip unreadable files
-      }
-    }
+    return {
+      extractor: this.name,
+      repo: ctx.repoName,
+      ref: ctx.ref,
+      extractedAt: new Date(),
+      data,
+    };
+  },
 
-    // Parse kustomization.yaml files for image mappings
-    const kustomizeFiles = yamlFiles.filter((f) => 
-      f.endsWith("kustomization.yaml") || f.endsWith("kustomization.yml")
-    );
-    
-    for (const file of kustomizeFiles) {
-      try {
-        const content = await ctx.gitManager.getFileAtRef(ctx.repoPath, ctx.ref, file);
-        parseKustomization(file, content, data);
-      } catch {
-        // Skip unreadable files
-      }
-    }
+  async extractIncremental(ctx: IncrementalContext): Promise<ExtractionResult | null> {
+    const config = ctx.config as K8sConfig;
+    const previous = ctx.previous as K8sData;
+    const plan = await planIncremental(ctx, (files) => selectManifestFiles(files, config));
 
-    // Build image -> repo mapping from kustomize images
-    buildImageToRepoMapping(data);
+    const fresh = emptyK8sData();
+    await parseManifests(ctx, plan.parse, fresh);
 
-    // Update deployments with source repo info
-    for (const deployment of data.deployments) {
-      // Try to match deployment name or image to a source repo
-      const imageName = deployment.image !== "unknown" ? deployment.image : deployment.name;
-      deployment.sourceRepo = data.imageToRepo[deployment.name] || 
-                              data.imageToRepo[imageName] ||
-                              inferRepoFromName(deployment.name);
-    }
+    // Ingress rules attach to Services parsed before them in any file, so
+    // changed Ingresses, or changed Services next to Ingresses, need a full run
+    const dropped = previous.resources.filter((r) => !plan.reuse.has(r.file));
+    const touchedKinds = new Set([...dropped, ...fresh.resources].map((r) => r.kind));
+    const hasIngress = [...previous.resources, ...fresh.resources].some((r) => r.kind === "Ingress");
+    if (touchedKinds.has("Ingress") || (hasIngress && touchedKinds.has("Service"))) return null;
 
-    // Build topology graph
-    buildTopologyGraph(data);
-
-    // Collect unique namespaces
-    data.namespaces = [...new Set(
-      data.resources
-        .map((r) => r.namespace)
-        .filter(Boolean) as string[]
-    )].sort();
-
-    // Build summary
-    for (const resource of data.resources) {
-      data.summary.byKind[resource.kind] = 
-        (data.summary.byKind[resource.kind] || 0) + 1;
-      const ns = resource.namespace || "(cluster)";
-      data.summary.byNamespace[ns] = 
-        (data.summary.byNamespace[ns] || 0) + 1;
-    }
-    data.summary.totalResources = data.resources.length;
+    const data: K8sData = {
+      ...emptyK8sData(),
+      resources: mergeByFile(plan, previous.resources, fresh.resources),
+      argoApps: mergeByFile(plan, previous.argoApps, fresh.argoApps),
+      services: mergeByFile(plan, previous.services, fresh.services),
+      deployments: mergeByFile(plan, previous.deployments, fresh.deployments),
+      configMaps: mergeByFile(plan, previous.configMaps, fresh.configMaps),
+      secrets: mergeByFile(plan, previous.secrets, fresh.secrets),
+      kustomizeImages: mergeByFile(plan, previous.kustomizeImages, fresh.kustomizeImages),
+    };
+    buildDerivedData(data);
 
     return {
       extractor: this.name,
@@ -223,6 +189,119 @@ const kubernetesExtractor: Extractor = {
   },
 };
 
+interface K8sConfig {
+  paths?: string[];
+  resource_types?: string[];
+}
+
+function emptyK8sData(): K8sData {
+  return {
+    resources: [],
+    argoApps: [],
+    services: [],
+    deployments: [],
+    configMaps: [],
+    secrets: [],
+    kustomizeImages: [],
+    imageToRepo: {},
+    namespaces: [],
+    topology: {
+      nodes: [],
+      edges: [],
+    },
+    summary: {
+      byKind: {},
+      byNamespace: {},
+      totalResources: 0,
+    },
+  };
+}
+
+function selectManifestFiles(allFiles: string[], config: K8sConfig): string[] {
+  let yamlFiles = allFiles.filter((f) => 
+    (f.endsWith(".yaml") || f.endsWith(".yml")) &&
+    !f.includes("node_modules")
+  );
+
+  // Filter by paths if configured
+  if (config.paths?.length) {
+    yamlFiles = yamlFiles.filter((f) => 
+      config.paths!.some((p) => f.startsWith(p))
+    );
+  }
+
+  return yamlFiles;
+}
+
+/**
+ * Parse resources from `yamlFiles` (within the time budget), then images from the kustomization files among them
+ */
+async function parseManifests(ctx: ExtractionContext, yamlFiles: string[], data: K8sData): Promise<void> {
+  const config = ctx.config as K8sConfig;
+
+  const read: string[] = [];
+  for (const file of ctx.budget.timed(yamlFiles)) {
+    read.push(file);
+    try {
+      const content = await ctx.gitManager.getFileAtRef(ctx.repoPath, ctx.ref, file);
+      await parseK8sFile(file, content, data, config.resource_types);
+    } catch {
+      // Skip unreadable files
+    }
+  }
+
+  // Parse kustomization.yaml files for image mappings
+  const kustomizeFiles = read.filter((f) => 
+    f.endsWith("kustomization.yaml") || f.endsWith("kustomization.yml")
+  );
+  
+  for (const file of kustomizeFiles) {
+    try {
+      const content = await ctx.gitManager.getFileAtRef(ctx.repoPath, ctx.ref, file);
+      parseKustomization(file, content, data);
+    } catch {
+      // Skip unreadable files
+    }
+  }
+}
+
+/**
+ * Fill in image mappings, source repos, topology, namespaces and summary from the parsed resources
+ */
+function buildDerivedData(data: K8sData): void {
+  // Build image -> repo mapping from kustomize images
+  buildImageToRepoMapping(data);
+
+  // Update deployments with source repo info
+  for (const deployment of data.deployments) {
+    // Try to match deployment name or image to a source repo
+    const imageName = deployment.image !== "unknown" ? deployment.image : deployment.name;
+    deployment.sourceRepo = data.imageToRepo[deployment.name] || 
+                            data.imageToRepo[imageName] ||
+                            inferRepoFromName(deployment.name);
+  }
+
+  // Build topology graph
+  buildTopologyGraph(data);
+
+  // Collect unique namespaces
+  data.namespaces = [...new Set(
+    data.resources
+      .map((r) => r.namespace)
+      .filter(Boolean) as string[]
+  )].sort();
+
+  // Build summary
+  for (const resource of data.resources) {
+    data.summary.byKind[resource.kind] = 
+      (data.summary.byKind[resource.kind] || 0) + 1;
+    const ns = resource.namespace || "(cluster)";
+    data.summary.byNamespace[ns] = 
+      (data.summary.byNamespace[ns] || 0) + 1;
+  }
+  data.summary.totalResources = data.resources.length;
+}
+
 async function parseK8sFile(
   file: string,
   content: string,
@@ -269,6 +348,7 @@ async function parseK8sFile(
           data.argoApps.push({
             name: resource.metadata.name,
             namespace: resource.metadata.namespace || "argocd",
+            file,
             source,
             destination,
             syncPolicy: spec?.syncPolicy as Record<string, unknown> | undefined,
@@ -281,6 +361,7 @@ async function parseK8sFile(
         data.services.push({
           name: resource.metadata.name,
           namespace: resource.metadata.namespace || "default",
+          file,
           type: (spec?.type as string) || "ClusterIP",
           ports: ports.map((p) => ({
             port: p.port as number,
@@ -303,6 +384,7 @@ async function parseK8sFile(
         data.deployments.push({
           name: resource.metadata.name,
           namespace: resource.metadata.namespace || "default",
+          file,
           replicas: (spec?.replicas as number) || 1,
           image: (container.image as string) || "unknown",
           ports: containerPorts.map((p) => p.containerPort),
@@ -315,6 +397,7 @@ async function parseK8sFile(
         data.configMaps.push({
           name: resource.metadata.name,
           namespace: resource.metadata.namespace || "default",
+          file,
           keys: Object.keys(resource.data || {}),
         });
         break;
@@ -323,6 +406,7 @@ async function parseK8sFile(
         data.secrets.push({
           name: resource.metadata.name,
           namespace: resource.metadata.namespace || "default",
+          file,
           type: resource.type || "Opaque",
           keys: Object.keys(resource.data || {}),
         });
@@ -443,6 +527,7 @@ function parseKustomization(file: string, content: string, data: K8sData): void
       if (img.name || img.newName) {
         data.kustomizeImages.push({
           name: img.name || "",
+          file,
           newName: img.newName,
           newTag: img.newTag,
           digest: img.digest,
@@ -466,12 +551,13 @@ function parseKustomization(file: string, content: string, data: K8sData): void
       if (nameMatch || newNameMatch) {
         const imgDef: KustomizeImage = {
           name: nameMatch?.[1] || "",
+          file,
           newName: newNameMatch?.[1],
           newTag: newTagMatch?.[1],
         };
         
-        // Avoid duplicates
-        if (!data.kustomizeImages.some(i => i.name === imgDef.name && i.newName === imgDef.newName)) {
+        // Avoid duplicates within the file
+        if (!data.kustomizeImages.some(i => i.file === file && i.name === imgDef.name && i.newName === imgDef.newName)) {
           data.kustomizeImages.push(imgDef);
         }
       }
@@ -570,5 +656,7 @@ function buildTopologyGraph(data: K8sData): void {
 }
 
 registerExtractor(kubernetesExtractor);
+// v1 entries have no file; the data is otherwise unchanged
+registerOutputMigration("kubernetes", 1, (data) => data);
 
 export { kubernetesExtractor };
@@ -38,6 +38,7 @@ interface TerraformSummary {
 const terraformExtractor: Extractor = {
   name: "terraform",
   description: "Extract Terraform infrastructure including DNS records, domains, and static IPs",
+  configSchema: { type: "object", properties: {}, additionalProperties: false },
 
   async canExtract(ctx: ExtractionContext): Promise<boolean> {
     const files = await ctx.gitManager.listFilesAtRef(ctx.repoPath, ctx.ref);
@@ -46,7 +47,7 @@ const terraformExtractor: Extractor = {
 
   async extract(ctx: ExtractionContext): Promise<ExtractionResult> {
     const files = await ctx.gitManager.listFilesAtRef(ctx.repoPath, ctx.ref, "*.tf");
-    const limited = files.slice(0, 200);
+    const selected = await ctx.budget.select(ctx, files);
 
     const providers = new Set<string>();
     const domains = new Set<string>();
@@ -56,7 +57,7 @@ const terraformExtractor: Extractor = {
     let resourceCount = 0;
     let modules = 0;
 
-    for (const file of limited) {
+    for (const file of ctx.budget.timed(selected)) {
       try {
         const content = await ctx.gitManager.getFileAtRef(ctx.repoPath, ctx.ref, file);
         
@@ -84,7 +85,7 @@ const terraformExtractor: Extractor = {
     }
 
     const data: TerraformSummary = {
-      files: limited,
+      files: selected,
       resources: resourceCount,
       modules,
       providers: Array.from(providers).sort(),
@@ -10,8 +10,8 @@
  * - API contract validation
  */
 
-import type { Extractor, ExtractionContext, ExtractionResult } from "../../lib/extractor-base.js";
-import { registerExtractor } from "../../lib/extractor-base.js";
+import type { Extractor, ExtractionContext, ExtractionResult, IncrementalContext } from "../../lib/extractor-base.js";
+import { registerExtractor, planIncremental, mergeByFile } from "../../lib/extractor-base.js";
 import type {
   TypeDefinition,
   TypeRelationship,
@@ -21,7 +21,15 @@ import type {
   CallDefinition,
   EventType,
 } from "./schema.js";
-import { getParserForFile, supportedExtensions, parseZodSchemas, parseORMModels } from "./parsers/index.js";
+import { buildModules } from "./schema.js";
+import {
+  getParserForFile,
+  supportedExtensions,
+  parseZodSchemas,
+  parseORMModels,
+  parseGraphQLTemplates,
+} from "./parsers/index.js";
+import { ParseCache } from "../../lib/parse-cache.js";
 
 // =============================================================================
 // Configuration
@@ -30,11 +38,11 @@ import { getParserForFile, supportedExtensions, parseZodSchemas, parseORMModels
 interface TypeExtractorConfig {
   /** Glob patterns to ignore */
   ignore?: string[];
-  /** Maximum number of files to process */
+  /** Maximum number of files to process (same as budget.max_files) */
   limit?: number;
   /** Include private/internal types */
   includePrivate?: boolean;
-  /** Directories to prioritize (processed first) */
+  /** Directories to prioritize (same as budget.prioritize) */
   prioritize?: string[];
 }
 
@@ -134,56 +142,6 @@ function buildRelationships(types: TypeDefinition[]): TypeRelationship[] {
   return relationships;
 }
 
-/**
- * Group types into modules based on directory structure
- */
-function buildModules(
-  types: TypeDefinition[],
-  relationships: TypeRelationship[]
-): TypeModule[] {
-  // Group by directory
-  const byDir = new Map<string, TypeDefinition[]>();
-
-  for (const type of types) {
-    const parts = type.file.split("/");
-    const dir = parts.slice(0, -1).join("/") || "/";
-
-    if (!byDir.has(dir)) {
-      byDir.set(dir, []);
-    }
-    byDir.get(dir)!.push(type);
-  }
-
-  const modules: TypeModule[] = [];
-
-  for (const [path, moduleTypes] of byDir) {
-    const typeNamesInModule = new Set(moduleTypes.map((t) => t.name));
-
-    // Partition relationships
-    const internalRelationships: TypeRelationship[] = [];
-    const externalRelationships: TypeRelationship[] = [];
-
-    for (const rel of relationships) {
-      if (typeNamesInModule.has(rel.from)) {
-        if (typeNamesInModule.has(rel.to)) {
-          internalRelationships.push(rel);
-        } else {
-          externalRelationships.push(rel);
-        }
-      }
-    }
-
-    modules.push({
-      path,
-      types: moduleTypes,
-      internalRelationships,
-      externalRelationships,
-    });
-  }
-
-  return modules.sort((a, b) => a.path.localeCompare(b.path));
-}
-
 /**
  * Build summary statistics
  */
@@ -221,6 +179,24 @@ function buildSummary(
 const typeDefinitionsExtractor: Extractor = {
   name: "type_definitions",
   description: "Extract data structures, interfaces, enums, and type definitions across languages",
+  configSchema: {
+    type: "object",
+    properties: {
+      ignore: { type: "array", items: { type: "string" }, description: "Glob patterns to ignore" },
+      limit: { type: "integer", minimum: 1, description: "Maximum number of files to process (same as budget.max_files)" },
+      includePrivate: { type: "boolean", description: "Include private/internal types" },
+      prioritize: {
+        type: "array",
+        items: { type: "string" },
+        description: "Directories to process first (same as budget.prioritize)",
+      },
+    },
+    additionalProperties: false,
+  },
+
+  configBudget(config: TypeExtractorConfig) {
+    return { max_files: config.limit, prioritize: config.prioritize };
+  },
 
   async canExtract(ctx: ExtractionContext): Promise<boolean> {
     const files = await ctx.gitManager.listFilesAtRef(ctx.repoPath, ctx.ref);
@@ -230,145 +206,224 @@ const typeDefinitionsExtractor: Extractor = {
 
   async extract(ctx: ExtractionContext): Promise<ExtractionResult> {
     const config = ctx.config as TypeExtractorConfig;
-    const ignore = config.ignore || [];
-    const limit = config.limit || 300;
-    const includePrivate = config.includePrivate ?? true;
-    const prioritize = config.prioritize || [];
-
     const allFiles = await ctx.gitManager.listFilesAtRef(ctx.repoPath, ctx.ref);
+    const sourceFiles = await ctx.budget.select(ctx, selectSourceFiles(allFiles, config));
 
-    // Built-in patterns to exclude
-    const builtInIgnore = [
-      ".test.", ".spec.", "__tests__", "/tests/", "/test/",
-      "/__mocks__/", ".stories.", ".story.", "/generated/",
-      "/vendor/", "/node_modules/", "/.dart_tool/", "/target/",
-      "/build/", "/dist/", "/.git/",
-    ];
+    const parsed = await parseSourceFiles(ctx, sourceFiles);
 
-    // Filter and sort files
-    const extensions = supportedExtensions();
-    let sourceFiles = allFiles.filter((f) => {
-      const hasExtension = extensions.some((ext) => f.endsWith(ext));
-      if (!hasExtension) return false;
+    return {
+      extractor: this.name,
+      repo: ctx.repoName,
+      ref: ctx.ref,
+      extractedAt: new Date(),
+      data: buildResult(parsed.types, parsed.calls, parsed.eventTypes),
+    };
+  },
 
-      const isBuiltInIgnored = builtInIgnore.some((pat) => f.includes(pat));
-      const isUserIgnored = ignore.some((pat) => f.includes(pat.replace("**", "")));
-      return !isBuiltInIgnored && !isUserIgnored;
-    });
+  async extractIncremental(ctx: IncrementalContext): Promise<ExtractionResult | null> {
+    // Compiler settings apply to every TypeScript file
+    if (ctx.changes.some(({ file }) => TS_BUILD_FILE.test(file))) return null;
+
+    const config = ctx.config as TypeExtractorConfig;
+    const previous = ctx.previous as TypeDefinitionsResult;
+    const plan = await planIncremental(ctx, (files) => selectSourceFiles(files, config));
 
-    // Prioritize certain directories
-    if (prioritize.length > 0) {
-      sourceFiles.sort((a, b) => {
-        const aScore = prioritize.findIndex((p) => a.includes(p));
-        const bScore = prioritize.findIndex((p) => b.includes(p));
-        const aVal = aScore >= 0 ? aScore : 1000;
-        const bVal = bScore >= 0 ? bScore : 1000;
-        return aVal - bVal;
-      });
+    const parsed = await parseSourceFiles(ctx, plan.parse, plan.files);
+
+    return {
+      extractor: this.name,
+      repo: ctx.repoName,
+      ref: ctx.ref,
+      extractedAt: new Date(),
+      data: buildResult(
+        mergeByFile(plan, previous.types, parsed.types),
+        mergeByFile(plan, previous.calls, parsed.calls),
+        mergeByFile(plan, previous.eventTypes, parsed.eventTypes)
+      ),
+    };
+  },
+};
+
+/**
+ * Version of the per-file pipeline around the language parsers (Zod, ORM,
+ * GraphQL template and event extraction) and of the parsing helpers they share;
+ * bump it when their output changes so cached files are parsed again
+ */
+const FILE_PARSE_VERSION = 4;
+
+/** Types, calls and events parsed from one or more files */
+interface ParsedFile {
+  types: TypeDefinition[];
+  calls: CallDefinition[];
+  eventTypes: EventType[];
+}
+
+/** Files whose changes affect how every TypeScript file is parsed */
+const TS_BUILD_FILE = /(^|\/)(package\.json|tsconfig[^/]*\.json)$/;
+
+/** Built-in patterns to exclude */
+const BUILT_IN_IGNORE = [
+  ".test.", ".spec.", "__tests__", "/tests/", "/test/",
+  "/__mocks__/", ".stories.", ".story.", "/generated/",
+  "/vendor/", "/node_modules/", "/.dart_tool/", "/target/",
+  "/build/", "/dist/", "/.git/", "/obj/",
+];
+
+/**
+ * Source files to extract types from (the budget picks which are read)
+ */
+function selectSourceFiles(allFiles: string[], config: TypeExtractorConfig): string[] {
+  const ignore = config.ignore || [];
+
+  const extensions = supportedExtensions();
+  return allFiles.filter((f) => {
+    const hasExtension = extensions.some((ext) => f.endsWith(ext));
+    if (!hasExtension) return false;
+
+    const isBuiltInIgnored = BUILT_IN_IGNORE.some((pat) => f.includes(pat));
+    const isUserIgnored = ignore.some((pat) => f.includes(pat.replace("**", "")));
+    return !isBuiltInIgnored && !isUserIgnored;
+  });
+}
+
+/**
+ * Run the language and supplementary parsers over `files`. `sourceFiles` (all
+ * selected files) decides whether TypeScript settings are detected.
+ */
+async function parseSourceFiles(
+  ctx: ExtractionContext,
+  files: string[],
+  sourceFiles: string[] = files
+): Promise<ParsedFile> {
+  const includePrivate = (ctx.config as TypeExtractorConfig).includePrivate ?? true;
+
+  // Detect TypeScript version/config once per repo (for TypeScript files)
+  const { detectTypeScriptVersion, readTsConfig } = await import("./parsers/typescript-version.js");
+  let tsConfig: { target?: string; strict?: boolean } | undefined;
+  let tsVersion: string | undefined;
+  
+  const hasTypeScriptFiles = sourceFiles.some((f) => f.endsWith(".ts") || f.endsWith(".tsx"));
+  if (hasTypeScriptFiles) {
+    try {
+      tsConfig = await readTsConfig(ctx.repoPath, ctx.ref, ctx.gitManager);
+      tsVersion = await detectTypeScriptVersion(ctx.repoPath, ctx.ref, ctx.gitManager);
+    } catch {
+      // Version detection failed, continue with defaults
     }
+  }
+
+  // Files are cached by blob, so identical files in other refs and repos are parsed once
+  const blobs = ctx.parseCache
+    ? await ctx.gitManager.listBlobsAtRef(ctx.repoPath, ctx.ref).catch(() => new Map<string, string>())
+    : new Map<string, string>();
 
-    sourceFiles = sourceFiles.slice(0, limit);
+  // Extract types from all files
+  const types: TypeDefinition[] = [];
+  const calls: CallDefinition[] = [];
+  const eventTypes: EventType[] = [];
 
-    // Detect TypeScript version/config once per repo (for TypeScript files)
-    const { detectTypeScriptVersion, readTsConfig } = await import("./parsers/typescript-version.js");
-    let tsConfig: { target?: string; strict?: boolean } | undefined;
-    let tsVersion: string | undefined;
+  for (const file of ctx.budget.timed(files)) {
+    const parser = getParserForFile(file);
+    if (!parser) continue;
+
+    const parseCtx: { content: string; file: string; includePrivate: boolean; tsConfig?: { target?: string; strict?: boolean } } = { 
+      content: "", 
+      file, 
+      includePrivate 
+    };
     
-    const hasTypeScriptFiles = sourceFiles.some((f) => f.endsWith(".ts") || f.endsWith(".tsx"));
-    if (hasTypeScriptFiles) {
-      try {
-        tsConfig = await readTsConfig(ctx.repoPath, ctx.ref, ctx.gitManager);
-        tsVersion = await detectTypeScriptVersion(ctx.repoPath, ctx.ref, ctx.gitManager);
-      } catch {
-        // Version detection failed, continue with defaults
-      }
+    // For TypeScript files, pass version info if available
+    if ((file.endsWith(".ts") || file.endsWith(".tsx")) && tsConfig) {
+      parseCtx.tsConfig = {
+        target: tsConfig.target,
+        strict: tsConfig.strict,
+      };
     }
 
-    // Extract types from all files
-    const types: TypeDefinition[] = [];
-    const calls: CallDefinition[] = [];
-    const eventTypes: EventType[] = [];
-
-    for (const file of sourceFiles) {
-      const parser = getParserForFile(file);
-      if (!parser) continue;
-
-      try {
-        const content = await ctx.gitManager.getFileAtRef(ctx.repoPath, ctx.ref, file);
-        const parseCtx: { content: string; file: string; includePrivate: boolean; tsConfig?: { target?: string; strict?: boolean } } = { 
-          content, 
-          file, 
-          includePrivate 
-        };
-        
-        // For TypeScript files, pass version info if available
-        if ((file.endsWith(".ts") || file.endsWith(".tsx")) && tsConfig) {
-          parseCtx.tsConfig = {
-            target: tsConfig.target,
-            strict: tsConfig.strict,
-          };
-        }
+    const blob = blobs.get(file);
+    const cacheKey = blob
+      ? ParseCache.key(blob, file, parser.language, parser.version ?? 1, FILE_PARSE_VERSION, includePrivate, parseCtx.tsConfig)
+      : undefined;
+    const cached = cacheKey ? await ctx.parseCache!.get<ParsedFile>(cacheKey) : undefined;
+    if (cached) {
+      types.push(...cached.types);
+      calls.push(...cached.calls);
+      eventTypes.push(...cached.eventTypes);
+      continue;
+    }
 
-        // Run the primary language parser
-        const result = parser.parse(parseCtx);
-        if (Array.isArray(result)) {
-          types.push(...result);
-        } else {
-          types.push(...result.types);
-          if (result.calls) {
-            calls.push(...result.calls);
-          }
+    const parsed: ParsedFile = { types: [], calls: [], eventTypes: [] };
+    try {
+      parseCtx.content = await ctx.gitManager.getFileAtRef(ctx.repoPath, ctx.ref, file);
+
+      // Run the primary language parser
+      const result = parser.parse(parseCtx);
+      if (Array.isArray(result)) {
+        parsed.types.push(...result);
+      } else {
+        parsed.types.push(...result.types);
+        if (result.calls) {
+          parsed.calls.push(...result.calls);
         }
+      }
 
-        // Run supplementary parsers for applicable files
+      // Run supplementary parsers for applicable files
 
-        // Zod schemas (TypeScript files with Zod imports)
-        if (file.endsWith(".ts") || file.endsWith(".tsx")) {
-          const zodTypes = parseZodSchemas(parseCtx);
-          types.push(...zodTypes);
-        }
+      // Zod schemas (TypeScript files with Zod imports)
+      if (file.endsWith(".ts") || file.endsWith(".tsx")) {
+        const zodTypes = parseZodSchemas(parseCtx);
+        parsed.types.push(...zodTypes);
 
-        // ORM models (various languages)
-        const ormTypes = parseORMModels(parseCtx);
-        types.push(...ormTypes);
+        // GraphQL SDL in gql`...` templates
+        const graphqlTypes = parseGraphQLTemplates(parseCtx);
+        parsed.types.push(...graphqlTypes);
+      }
 
-        // Extract event types
-        if (file.endsWith(".ts") || file.endsWith(".tsx") || file.endsWith(".js") || file.endsWith(".jsx")) {
-          const events = extractEventTypes(parseCtx);
-          eventTypes.push(...events);
-        }
-      } catch {
-        // Skip unreadable files
+      // ORM models (various languages)
+      const ormTypes = parseORMModels(parseCtx);
+      parsed.types.push(...ormTypes);
+
+      // Extract event types
+      if (file.endsWith(".ts") || file.endsWith(".tsx") || file.endsWith(".js") || file.endsWith(".jsx")) {
+        const events = extractEventTypes(parseCtx);
+        parsed.eventTypes.push(...events);
       }
+
+      if (cacheKey) await ctx.parseCache!.put(cacheKey, parsed);
+    } catch {
+      // Skip unreadable files
     }
 
-    // Build relationships and modules
-    const relationships = buildRelationships(types);
-    const modules = buildModules(types, relationships);
-    const summary = buildSummary(types, relationships, modules);
-
-    // Identify API types (cross-reference with data_flow extractor if available)
-    // This is a best-effort identification based on naming patterns
-    identifyAPITypes(types);
-
-    const data: TypeDefinitionsResult = {
-      types,
-      relationships,
-      calls: calls.length > 0 ? calls : undefined,
-      modules,
-      eventTypes: eventTypes.length > 0 ? eventTypes : undefined,
-      summary,
-    };
+    types.push(...parsed.types);
+    calls.push(...parsed.calls);
+    eventTypes.push(...parsed.eventTypes);
+  }
 
-    return {
-      extractor: this.name,
-      repo: ctx.repoName,
-      ref: ctx.ref,
-      extractedAt: new Date(),
-      data,
-    };
-  },
-};
+  return { types, calls, eventTypes };
+}
+
+/**
+ * Derive relationships, modules and summary from the parsed types
+ */
+function buildResult(types: TypeDefinition[], calls: CallDefinition[], eventTypes: EventType[]): TypeDefinitionsResult {
+  // Build relationships and modules
+  const relationships = buildRelationships(types);
+  const modules = buildModules(types, relationships);
+  const summary = buildSummary(types, relationships, modules);
+
+  // Identify API types (cross-reference with data_flow extractor if available)
+  // This is a best-effort identification based on naming patterns
+  identifyAPITypes(types);
+
+  return {
+    types,
+    relationships,
+    calls: calls.length > 0 ? calls : undefined,
+    modules,
+    eventTypes: eventTypes.length > 0 ? eventTypes : undefined,
+    summary,
+  };
+}
 
 /**
  * Identify API types based on naming patterns and usage
@@ -0,0 +1,295 @@
+/**
+ * C# Type Parser (Regex-based)
+ *
+ * Extracts:
+ * - classes, structs and records (properties and fields; positional record
+ *   parameters)
+ * - interfaces (property declarations)
+ * - enums, with explicit values
+ *
+ * Attributes become decorators. EF Core classes with [Table] are marked with
+ * schemaType "entity", like the ORM parsers do, and System.Text.Json
+ * [JsonPropertyName] (or Newtonsoft [JsonProperty], [DataMember]) renames
+ * become wire names.
+ */
+
+import type { TypeDefinition, FieldDefinition, VariantDefinition, TypeRef, Visibility, TypeKind } from "../schema.js";
+import {
+  type TypeParser,
+  type ParseContext,
+  getLineNumber,
+  extractBracedContent,
+  extractDocComment,
+  parseTypeRef,
+  splitTopLevel,
+  withoutNestedBlocks,
+} from "./index.js";
+
+/** Attribute lists, e.g. `[Table("users")]` or `[Key, Column("id")]` */
+const ATTRIBUTES = String.raw`(?:\[[^\]]*\]\s*)*`;
+
+const DECLARATION_PATTERN = new RegExp(
+  String.raw`^[ \t]*(${ATTRIBUTES})((?:(?:public|private|protected|internal|static|sealed|abstract|partial|readonly|ref|unsafe|new|file)\s+)*)(class|struct|interface|enum|record(?:\s+(?:class|struct))?)\s+(\w+)`,
+  "gm"
+);
+
+/** Auto or declared properties; accessor bodies are emptied to `{}` first */
+const PROPERTY_PATTERN = new RegExp(
+  String.raw`(?<=^|[;{}])[ \t]*(${ATTRIBUTES})((?:(?:public|private|protected|internal|static|virtual|override|abstract|sealed|new|required|readonly|unsafe|extern)\s+)*)([\w.]+(?:\s*<[^;={}()]*>)?(?:\[\])*\??)\s+(\w+)\s*\{\}`,
+  "gm"
+);
+
+/** Field declarations, e.g. `public int? Age;` or `public float X, Y;` (not `=>` members) */
+const FIELD_PATTERN = new RegExp(
+  String.raw`(?<=^|[;{}])[ \t]*(${ATTRIBUTES})((?:(?:public|private|protected|internal|static|const|readonly|volatile|required|new|unsafe)\s+)*)([\w.]+(?:\s*<[^;={}()]*>)?(?:\[\])*\??)\s+(\w+(?:\s*,\s*\w+)*)\s*(?:=(?!>)[^;]*)?;`,
+  "gm"
+);
+
+/** Keywords the member patterns would otherwise take for a type */
+const NOT_TYPES = new Set(["class", "struct", "interface", "enum", "record", "event", "namespace", "delegate", "return"]);
+
+/** Attributes marking an EF Core entity */
+const ENTITY_ATTRIBUTES = ["Table"];
+
+const KINDS: Record<string, TypeKind> = {
+  class: "class",
+  struct: "struct",
+  interface: "interface",
+  enum: "enum",
+  record: "class",
+};
+
+/**
+ * Attribute names, without arguments, targets or the `Attribute` suffix
+ */
+function attributeNames(attributes: string): string[] {
+  return Array.from(attributes.matchAll(/\[(?:\w+:\s*)?([^\]]*)\]/g)).flatMap((m) =>
+    splitTopLevel(m[1]).map((attr) => attr.split("(")[0].trim().split(".").pop()!.replace(/(?<=.)Attribute$/, ""))
+  );
+}
+
+/**
+ * Serialized name set by a serializer attribute
+ */
+function serializedName(attributes: string): string | undefined {
+  const match =
+    attributes.match(/\b(?:JsonPropertyName|JsonStringEnumMemberName)\s*\(\s*"([^"]*)"/) ??
+    attributes.match(/\bJsonProperty\s*\(\s*(?:PropertyName\s*=\s*)?"([^"]*)"/) ??
+    attributes.match(/\b(?:DataMember|EnumMember)\s*\([^)]*\b(?:Name|Value)\s*=\s*"([^"]*)"/);
+  return match?.[1];
+}
+
+function parseVisibility(modifiers: string): Visibility {
+  if (/\bpublic\b/.test(modifiers)) return "public";
+  if (/\bprivate\b/.test(modifiers)) return "private";
+  if (/\bprotected\b/.test(modifiers)) return "protected";
+  return "internal";
+}
+
+function csharpTypeToTypeRef(raw: string): TypeRef {
+  const parsed = parseTypeRef(raw.replace(/\s+(?=[<\[?])/g, ""));
+  return {
+    name: parsed.name,
+    generics: parsed.generics?.map((g) => ({ name: g.name, raw: g.raw })),
+    optional: parsed.optional,
+    isCollection: parsed.isCollection,
+    raw: parsed.raw,
+  };
+}
+
+/**
+ * Whether a member is serialized: System.Text.Json writes public properties
+ * only, fields and non-public members need `[JsonInclude]` (or Newtonsoft's
+ * `[JsonProperty]`, or `[DataMember]`)
+ */
+function isSerialized(isProperty: boolean, visibility: Visibility, decorators: string[]): boolean {
+  if (decorators.includes("JsonIgnore")) return false;
+  if (isProperty && visibility === "public") return true;
+  return decorators.some((d) => d === "JsonInclude" || d === "JsonProperty" || d === "DataMember");
+}
+
+function buildField(attributes: string, modifiers: string, type: string, name: string, isProperty = true): FieldDefinition {
+  const typeRef = csharpTypeToTypeRef(type);
+  const decorators = attributeNames(attributes);
+  const wireName = serializedName(attributes);
+  const visibility = parseVisibility(modifiers);
+
+  return {
+    name,
+    typeRef,
+    optional: typeRef.optional,
+    visibility,
+    decorators: decorators.length > 0 ? decorators : undefined,
+    wireName: wireName !== undefined && wireName !== name ? wireName : undefined,
+    serialized: isSerialized(isProperty, visibility, decorators) ? undefined : false,
+  };
+}
+
+/**
+ * Instance properties and fields declared in a type body, in declaration order
+ */
+function parseMembers(body: string, isInterface: boolean): FieldDefinition[] {
+  const members: Array<{ index: number; field: FieldDefinition }> = [];
+
+  PROPERTY_PATTERN.lastIndex = 0;
+  let match;
+  while ((match = PROPERTY_PATTERN.exec(body)) !== null) {
+    const [, attributes, modifiers, type, name] = match;
+    if (/\bstatic\b/.test(modifiers) || NOT_TYPES.has(type)) continue;
+    // Interface members are public unless stated otherwise
+    members.push({ index: match.index, field: buildField(attributes, isInterface && !modifiers.trim() ? "public" : modifiers, type, name) });
+  }
+
+  FIELD_PATTERN.lastIndex = 0;
+  while ((match = FIELD_PATTERN.exec(body)) !== null) {
+    const [, attributes, modifiers, type, names] = match;
+    if (/\b(?:static|const)\b/.test(modifiers) || NOT_TYPES.has(type)) continue;
+    for (const name of names.split(",")) {
+      members.push({ index: match.index, field: buildField(attributes, modifiers, type, name.trim(), false) });
+    }
+  }
+
+  return members.sort((a, b) => a.index - b.index).map((member) => member.field);
+}
+
+/**
+ * Positional record parameters: `([property: JsonPropertyName("id")] long Id, string Name = "")`
+ */
+function parseRecordParameters(params: string): FieldDefinition[] {
+  const paramPattern = new RegExp(String.raw`^(${ATTRIBUTES})([\s\S]+?)\s+(\w+)(?:\s*=\s*[\s\S]+)?$`);
+  return splitTopLevel(params).flatMap((param) => {
+    const match = param.match(paramPattern);
+    return match ? [buildField(match[1], "public", match[2], match[3])] : [];
+  });
+}
+
+/**
+ * Enum members: `Name`, `Name = 1` or `[EnumMember(Value = "x")] Name`
+ */
+function parseEnumMembers(body: string): VariantDefinition[] {
+  const memberPattern = new RegExp(String.raw`^(${ATTRIBUTES})(\w+)\s*(?:=\s*([\s\S]+))?$`);
+
+  return splitTopLevel(body.replace(/\/\/[^\n]*/g, "")).flatMap((member) => {
+    const match = member.match(memberPattern);
+    if (!match) return [];
+
+    const variant: VariantDefinition = { name: match[2] };
+    const value = match[3]?.trim();
+    if (value && /^-?\d+$/.test(value)) variant.value = parseInt(value, 10);
+
+    const wireName = serializedName(match[1]);
+    if (wireName !== undefined && wireName !== variant.name) variant.wireName = wireName;
+    return [variant];
+  });
+}
+
+/**
+ * Read the generics, record parameters, base list and body following a
+ * declaration's name
+ */
+function parseDeclarationTail(content: string, index: number) {
+  let i = index;
+
+  let generics: string[] | undefined;
+  if (content[i] === "<") {
+    const braced = extractBracedContent(content, i, "<", ">");
+    if (braced) {
+      generics = splitTopLevel(braced.content).map((g) => g.replace(/^(?:in|out)\s+/, ""));
+      i = braced.endIndex;
+    }
+  }
+
+  let params: string | undefined;
+  const paren = /\s*\(/y;
+  paren.lastIndex = i;
+  if (paren.test(content)) {
+    const braced = extractBracedContent(content, paren.lastIndex - 1, "(", ")");
+    if (braced) {
+      params = braced.content;
+      i = braced.endIndex;
+    }
+  }
+
+  // The header ends at the body, or at `;` for records without one
+  const ends = [content.indexOf("{", i), content.indexOf(";", i)].filter((end) => end !== -1);
+  const headerEnd = ends.length > 0 ? Math.min(...ends) : -1;
+  const header = headerEnd === -1 ? "" : content.slice(i, headerEnd);
+  const baseList = header.match(/^\s*:\s*([\s\S]+?)(?:\bwhere\b[\s\S]*)?$/);
+  const bases = baseList ? splitTopLevel(baseList[1]).map((b) => b.replace(/\([\s\S]*\)$/, "").trim()) : [];
+
+  const body = headerEnd !== -1 && content[headerEnd] === "{" ? extractBracedContent(content, headerEnd)?.content : undefined;
+  return { generics, params, bases, body };
+}
+
+const csharpParser: TypeParser = {
+  language: "csharp",
+  extensions: [".cs"],
+  version: 4,
+
+  parse(ctx: ParseContext): TypeDefinition[] {
+    const types: TypeDefinition[] = [];
+    const { content, file, includePrivate } = ctx;
+
+    DECLARATION_PATTERN.lastIndex = 0;
+    let match;
+    while ((match = DECLARATION_PATTERN.exec(content)) !== null) {
+      const [, attributes, modifiers, declared, name] = match;
+      const keyword = declared.split(/\s+/)[0];
+      const isStruct = /\bstruct$/.test(declared);
+      const visibility = parseVisibility(modifiers);
+      if (!includePrivate && visibility === "private") continue;
+
+      const tail = parseDeclarationTail(content, match.index + match[0].length);
+      const body = tail.body !== undefined ? withoutNestedBlocks(tail.body) : undefined;
+      const decorators = attributeNames(attributes);
+      const isEntity = decorators.some((d) => ENTITY_ATTRIBUTES.includes(d));
+
+      let fields: FieldDefinition[] | undefined;
+      let variants: VariantDefinition[] | undefined;
+      if (keyword === "enum") {
+        variants = body !== undefined ? parseEnumMembers(body) : [];
+      } else {
+        fields = [
+          ...(tail.params !== undefined ? parseRecordParameters(tail.params) : []),
+          ...(body !== undefined ? parseMembers(body, keyword === "interface") : []),
+        ];
+      }
+
+      // Bases: interfaces by the I-prefix convention; a class's other base is its superclass
+      let extendsTypes: TypeRef[] = [];
+      let implementsTypes: TypeRef[] = [];
+      const bases = keyword === "enum" ? [] : tail.bases.map(csharpTypeToTypeRef);
+      if (keyword === "interface") {
+        extendsTypes = bases;
+      } else {
+        const isInterface = (t: TypeRef) => /^I[A-Z]/.test(t.name);
+        const superclass = !isStruct ? bases.find((t) => !isInterface(t)) : undefined;
+        extendsTypes = superclass ? [superclass] : [];
+        implementsTypes = bases.filter((t) => t !== superclass);
+      }
+
+      const type: TypeDefinition = {
+        name,
+        kind: isStruct ? "struct" : KINDS[keyword],
+        file,
+        line: getLineNumber(content, match.index),
+        language: "csharp",
+        visibility,
+        fields,
+        variants,
+        generics: tail.generics,
+        extends: extendsTypes.length > 0 ? extendsTypes : undefined,
+        implements: implementsTypes.length > 0 ? implementsTypes : undefined,
+        decorators: isEntity ? [...decorators, "ef", "orm"] : decorators.length > 0 ? decorators : undefined,
+        // XML doc comments: keep the text
+        doc: extractDocComment(content, match.index)?.replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim() || undefined,
+      };
+      if (isEntity) type.schemaType = "entity";
+      types.push(type);
+    }
+
+    return types;
+  },
+};
+
+export { csharpParser };
@@ -14,6 +14,9 @@
  * - abstract classes (interfaces)
  * - enum definitions
  * - mixin definitions
+ *
+ * json_serializable's @JsonKey(name: ...) and @JsonSerializable(fieldRename: ...)
+ * give fields their wire names.
  */
 
 import type { TypeDefinition, FieldDefinition, VariantDefinition, TypeRef } from "../schema.js";
@@ -24,9 +27,43 @@ import {
   extractBracedContent,
   extractDocComment,
   parseTypeRef,
+  applyNamingConvention,
 } from "./index.js";
 
-function parseFields(content: string): FieldDefinition[] {
+/** json_serializable `FieldRename` values, by the naming convention they produce */
+const FIELD_RENAMES: Record<string, string> = {
+  snake: "snake_case",
+  kebab: "kebab-case",
+  pascal: "PascalCase",
+  screamingSnake: "SCREAMING_SNAKE_CASE",
+};
+
+/**
+ * Annotations between the previous declaration and the given position
+ */
+function precedingAnnotations(content: string, index: number): string {
+  const start = Math.max(content.lastIndexOf(";", index - 1), content.lastIndexOf("{", index - 1), content.lastIndexOf("}", index - 1));
+  return content.slice(start + 1, index);
+}
+
+/**
+ * Name and exclusion set by a field's @JsonKey(...)
+ */
+function parseJsonKey(annotations: string): { name?: string; ignore: boolean } {
+  const jsonKey = annotations.match(/@JsonKey\s*\(([^)]*)\)/);
+  if (!jsonKey) return { ignore: false };
+
+  return {
+    name: jsonKey[1].match(/\bname\s*:\s*["']([^"']*)["']/)?.[1],
+    ignore: /\b(?:ignore\s*:\s*true|includeToJson\s*:\s*false)\b/.test(jsonKey[1]),
+  };
+}
+
+/**
+ * Parse fields from a class body. `fieldRename` is the naming convention of
+ * the class's @JsonSerializable(fieldRename: ...), if any.
+ */
+function parseFields(content: string, fieldRename?: string): FieldDefinition[] {
   const fields: FieldDefinition[] = [];
 
   // Match field declarations: final Type name; or Type? name; or late Type name;
@@ -46,8 +83,11 @@ function parseFields(content: string): FieldDefinition[] {
     }
 
     const parsed = parseTypeRef(typeStr);
+    const name = match[2];
+    const jsonKey = parseJsonKey(precedingAnnotations(content, match.index));
+    const wireName = jsonKey.name ?? (fieldRename ? applyNamingConvention(name, fieldRename) : undefined);
     fields.push({
-      name: match[2],
+      name,
       typeRef: {
         name: parsed.name,
         generics: parsed.generics?.map((g) => ({ name: g.name, raw: g.raw })),
@@ -56,6 +96,8 @@ function parseFields(content: string): FieldDefinition[] {
         raw: typeStr,
       },
       optional: typeStr.endsWith("?"),
+      wireName: wireName !== undefined && wireName !== name ? wireName : undefined,
+      serialized: jsonKey.ignore ? false : undefined,
     });
   }
 
@@ -130,6 +172,7 @@ function extractDecorators(content: string, index: number): string[] {
 const dartParser: TypeParser = {
   language: "dart",
   extensions: [".dart"],
+  version: 2,
 
   parse(ctx: ParseContext): TypeDefinition[] {
     const types: TypeDefinition[] = [];
@@ -149,6 +192,7 @@ const dartParser: TypeParser = {
       const braced = extractBracedContent(content, match.index);
 
       const extendsType = match[5] ? [{ name: match[5], raw: match[5] } as TypeRef] : undefined;
+      const fieldRename = precedingAnnotations(content, match.index).match(/\bfieldRename\s*:\s*FieldRename\.(\w+)/)?.[1];
 
       // Parse 'with' and 'implements'
       let implementsTypes: TypeRef[] | undefined;
@@ -172,7 +216,7 @@ const dartParser: TypeParser = {
         generics: match[4]?.split(",").map((g) => g.trim().split(/\s+extends\s+/)[0].trim()),
         extends: extendsType,
         implements: implementsTypes,
-        fields: braced ? parseFields(braced.content) : [],
+        fields: braced ? parseFields(braced.content, fieldRename && FIELD_RENAMES[fieldRename]) : [],
         decorators: extractDecorators(content, match.index),
         doc: extractDocComment(content, match.index),
       });
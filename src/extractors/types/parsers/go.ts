@@ -5,6 +5,8 @@
  * - struct definitions with fields
  * - interface definitions
  * - type aliases
+ *
+ * encoding/json struct tags give fields their wire names.
  */
 
 import type { TypeDefinition, FieldDefinition, TypeRef } from "../schema.js";
@@ -12,6 +14,7 @@ import type { TypeParser, ParseContext } from "./index.js";
 import {
   parseSource,
   findNodesOfType,
+  getChildByFieldName,
   getChildrenOfType,
   getNodeText,
   getNodeLine,
@@ -25,6 +28,36 @@ import type Parser from "tree-sitter";
 // Field Parsing
 // =============================================================================
 
+/**
+ * Read the encoding/json options from a struct tag, e.g. `json:"user_id,omitempty"`
+ */
+function parseJsonTag(tagNode: Parser.SyntaxNode | null): { name?: string; omitEmpty: boolean; skip: boolean } | undefined {
+  const tag = tagNode ? getNodeText(tagNode).match(/(?:^|[\s`"])json:"([^"]*)"/) : null;
+  if (!tag) return undefined;
+
+  const [name, ...options] = tag[1].split(",");
+  return {
+    name: name || undefined,
+    omitEmpty: options.includes("omitempty") || options.includes("omitzero"),
+    // `json:"-,"` names the field "-"
+    skip: name === "-" && options.length === 0,
+  };
+}
+
+/**
+ * Wire name and serialization flags for a field, from its struct tag
+ */
+function jsonTagProperties(name: string, tagNode: Parser.SyntaxNode | null): Partial<FieldDefinition> {
+  const json = parseJsonTag(tagNode);
+  if (!json) return {};
+  if (json.skip) return { serialized: false };
+
+  return {
+    wireName: json.name !== undefined && json.name !== name ? json.name : undefined,
+    optional: json.omitEmpty || undefined,
+  };
+}
+
 /**
  * Parse fields from a field_declaration_list node.
  */
@@ -42,6 +75,7 @@ function parseStructFields(fieldListNode: Parser.SyntaxNode): FieldDefinition[]
 
     const typeText = getNodeText(typeNode);
     const parsed = parseTypeRef(typeText);
+    const tagNode = getChildByFieldName(fieldNode, "tag");
 
     // Handle embedded types (no field identifier, just a type)
     if (fieldIds.length === 0) {
@@ -57,6 +91,7 @@ function parseStructFields(fieldListNode: Parser.SyntaxNode): FieldDefinition[]
           raw: typeText,
         },
         visibility: parseGoVisibility(typeName),
+        ...jsonTagProperties(typeName, tagNode),
       });
       continue;
     }
@@ -74,6 +109,7 @@ function parseStructFields(fieldListNode: Parser.SyntaxNode): FieldDefinition[]
           raw: typeText,
         },
         visibility: parseGoVisibility(name),
+        ...jsonTagProperties(name, tagNode),
       });
     }
   }
@@ -172,6 +208,7 @@ function extractGenerics(node: Parser.SyntaxNode): string[] | undefined {
 const goParser: TypeParser = {
   language: "go",
   extensions: [".go"],
+  version: 2,
 
   parse(ctx: ParseContext): TypeDefinition[] {
     const types: TypeDefinition[] = [];
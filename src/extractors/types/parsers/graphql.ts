@@ -0,0 +1,444 @@
+/**
+ * GraphQL SDL Parser
+ *
+ * Extracts type definitions from GraphQL schema files (.graphql, .gql) and
+ * from SDL embedded in gql`...` template literals in TypeScript (.ts/.tsx
+ * only; the type extractor does not read JavaScript files).
+ *
+ * Supports:
+ * - object, input, interface, enum, union and scalar types
+ * - directive definitions (their arguments as fields)
+ * - type extensions (extend type ...)
+ * - field arguments, nullability and lists
+ * - descriptions ("""...""" and "...") and # comments as docs
+ * - Query/Mutation/Subscription root types (or those named in a schema block)
+ *   as "service" types whose fields are the operations (not linked to
+ *   resolvers)
+ */
+
+import type { TypeDefinition, FieldDefinition, VariantDefinition, TypeKind, TypeRef } from "../schema.js";
+import {
+  type TypeParser,
+  type ParseContext,
+  getLineNumber,
+  extractBracedContent,
+} from "./index.js";
+
+/**
+ * Map GraphQL built-in scalars to language-agnostic type names
+ */
+const SCALAR_MAP: Record<string, string> = {
+  Int: "i32",
+  Float: "f64",
+  String: "string",
+  Boolean: "bool",
+  ID: "string",
+};
+
+const ROOT_OPERATIONS = ["query", "mutation", "subscription"] as const;
+
+/**
+ * Parse a GraphQL type reference such as `[User!]!`
+ */
+function graphqlTypeToTypeRef(raw: string): TypeRef {
+  const compact = raw.replace(/\s+/g, "");
+  const name = compact.replace(/[[\]!]/g, "");
+
+  return {
+    name: SCALAR_MAP[name] || name,
+    raw: compact,
+    optional: !compact.endsWith("!"),
+    isCollection: compact.startsWith("["),
+  };
+}
+
+/**
+ * Blank out comments and string contents (keeping quotes, newlines and
+ * offsets) so braces and keywords inside them don't affect parsing
+ */
+function blankNonCode(content: string): string {
+  return content.replace(/"""[\s\S]*?"""|"(?:[^"\\\n]|\\.)*"|#[^\n]*/g, (token) => {
+    const blank = token.replace(/[^\n]/g, " ");
+    return token.startsWith("#") ? blank : `"${blank.slice(1, -1)}"`;
+  });
+}
+
+/** How far back descriptions are looked for */
+const DESCRIPTION_WINDOW = 4000;
+
+/**
+ * Description ("""...""" or "...") or # comments preceding a definition
+ */
+function extractDescription(content: string, index: number): string | undefined {
+  const before = content.slice(Math.max(0, index - DESCRIPTION_WINDOW), index).trimEnd();
+
+  const quote = before.endsWith('"""') ? '"""' : before.endsWith('"') ? '"' : undefined;
+  if (quote) {
+    const start = before.lastIndexOf(quote, before.length - quote.length - 1);
+    // A string after `=` or `:` is a default or directive value, not a description
+    if (start !== -1 && !/[=:]\s*$/.test(before.slice(0, start))) {
+      const text = before.slice(start + quote.length, before.length - quote.length);
+      return text.split("\n").map((line) => line.trim()).filter(Boolean).join(" ") || undefined;
+    }
+  }
+
+  const docLines: string[] = [];
+  for (const line of before.split("\n").reverse()) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("#")) break;
+    docLines.unshift(trimmed.slice(1).trim());
+  }
+  return docLines.length > 0 ? docLines.join(" ") : undefined;
+}
+
+/**
+ * Index of the first non-whitespace character at or after `index`
+ */
+function skipSpace(code: string, index: number): number {
+  while (index < code.length && /\s/.test(code[index])) index++;
+  return index;
+}
+
+/**
+ * Index of the bracket closing the one at `index` (or the end of `code`)
+ */
+function closingBracket(code: string, index: number): number {
+  const open = code[index];
+  const close = open === "(" ? ")" : open === "[" ? "]" : "}";
+  let depth = 0;
+  for (let i = index; i < code.length; i++) {
+    if (code[i] === open) depth++;
+    else if (code[i] === close && --depth === 0) return i;
+  }
+  return code.length;
+}
+
+/**
+ * Directive applications (e.g. `@deprecated(reason: "...")`) in a span of code,
+ * as written in the source
+ */
+function parseDirectives(code: string, content: string, start: number, end: number): string[] {
+  const directives: string[] = [];
+  const pattern = /@\w+/g;
+  pattern.lastIndex = start;
+
+  let match;
+  while ((match = pattern.exec(code)) !== null && match.index < end) {
+    let directiveEnd = match.index + match[0].length;
+    const argsStart = skipSpace(code, directiveEnd);
+    if (code[argsStart] === "(") directiveEnd = closingBracket(code, argsStart) + 1;
+    directives.push(content.slice(match.index, directiveEnd).replace(/\s+/g, " "));
+    pattern.lastIndex = directiveEnd;
+  }
+  return directives;
+}
+
+/**
+ * Parse fields, arguments or input values between `start` and `end`:
+ * `name(args): Type = default @directive ...`
+ */
+function parseFieldList(code: string, content: string, start: number, end: number): FieldDefinition[] {
+  const fields: FieldDefinition[] = [];
+  // Descriptions before a name are blanked strings
+  const name = /(?:\s|,|"[^"]*")*(\w+)\s*/y;
+  const type = /\s*:\s*((?:\[\s*)*\w+\s*!?(?:\s*\]\s*!?)*)/y;
+  const defaultValue = /\s*=\s*("[^"]*"|[^\s,@)([{]+)?/y;
+
+  let i = start;
+  while (i < end) {
+    name.lastIndex = i;
+    const nameMatch = name.exec(code);
+    if (!nameMatch || nameMatch.index + nameMatch[0].length > end) break;
+    const nameIndex = code.indexOf(nameMatch[1], nameMatch.index);
+    i = name.lastIndex;
+
+    let args: FieldDefinition[] | undefined;
+    if (code[i] === "(") {
+      const close = closingBracket(code, i);
+      args = parseFieldList(code, content, i + 1, close);
+      i = close + 1;
+    }
+
+    type.lastIndex = i;
+    const typeMatch = type.exec(code);
+    if (!typeMatch) {
+      // Not a field (e.g. stray tokens); skip to the next word
+      i++;
+      continue;
+    }
+    i = type.lastIndex;
+
+    let hasDefault = false;
+    defaultValue.lastIndex = i;
+    if (defaultValue.exec(code)) {
+      hasDefault = true;
+      i = defaultValue.lastIndex;
+      // Object and list defaults
+      const valueStart = skipSpace(code, i);
+      if (code[valueStart] === "{" || code[valueStart] === "[") i = closingBracket(code, valueStart) + 1;
+    }
+
+    const directivesEnd = nextFieldStart(code, i, end);
+    const decorators = parseDirectives(code, content, i, directivesEnd);
+    i = directivesEnd;
+
+    const typeRef = graphqlTypeToTypeRef(typeMatch[1]);
+    fields.push({
+      name: nameMatch[1],
+      typeRef,
+      optional: typeRef.optional || hasDefault,
+      decorators: decorators.length > 0 ? decorators : undefined,
+      args: args && args.length > 0 ? args : undefined,
+      doc: extractDescription(content, nameIndex),
+    });
+  }
+
+  return fields;
+}
+
+/**
+ * Where the next field begins after `index`: the first word outside directive
+ * applications and their arguments
+ */
+function nextFieldStart(code: string, index: number, end: number): number {
+  let i = index;
+  while (i < end) {
+    const char = code[i];
+    if (char === "@") {
+      i++;
+      while (i < end && /\w/.test(code[i])) i++;
+      const argsStart = skipSpace(code, i);
+      if (code[argsStart] === "(") i = closingBracket(code, argsStart) + 1;
+    } else if (/\w/.test(char)) {
+      return i;
+    } else {
+      i++;
+    }
+  }
+  return end;
+}
+
+/**
+ * Parse enum values: `VALUE @directive ...`
+ */
+function parseEnumValues(code: string, content: string, start: number, end: number): VariantDefinition[] {
+  const variants: VariantDefinition[] = [];
+
+  let i = nextFieldStart(code, start, end);
+  while (i < end) {
+    let nameEnd = i;
+    while (nameEnd < end && /\w/.test(code[nameEnd])) nameEnd++;
+    variants.push({ name: code.slice(i, nameEnd), doc: extractDescription(content, i) });
+    i = nextFieldStart(code, nameEnd, end);
+  }
+
+  return variants;
+}
+
+interface Definition {
+  keyword: string;
+  extension: boolean;
+  index: number;
+  /** Where the next definition starts */
+  end: number;
+}
+
+/**
+ * Top-level definitions (outside any braces, parentheses or brackets)
+ */
+function findDefinitions(code: string): Definition[] {
+  const definitions: Definition[] = [];
+  const pattern = /[{}()[\]]|\b(extend\s+)?(schema|scalar|type|interface|union|enum|input|directive)\b/g;
+
+  let depth = 0;
+  let match;
+  while ((match = pattern.exec(code)) !== null) {
+    const token = match[0];
+    if ("{([".includes(token)) depth++;
+    else if ("})]".includes(token)) depth = Math.max(0, depth - 1);
+    else if (depth === 0) {
+      definitions.push({ keyword: match[2], extension: Boolean(match[1]), index: match.index, end: code.length });
+    }
+  }
+
+  for (let i = 0; i < definitions.length - 1; i++) {
+    definitions[i].end = definitions[i + 1].index;
+  }
+  return definitions;
+}
+
+/**
+ * Root operation type names, from schema blocks or the defaults
+ */
+function rootOperationTypes(code: string, definitions: Definition[]): Map<string, string> {
+  const roots = new Map<string, string>(ROOT_OPERATIONS.map((op) => [op.charAt(0).toUpperCase() + op.slice(1), op]));
+
+  const schemas = definitions.filter((d) => d.keyword === "schema");
+  if (schemas.some((d) => !d.extension)) roots.clear();
+
+  for (const schema of schemas) {
+    const braced = extractBracedContent(code.slice(0, schema.end), schema.index);
+    if (!braced) continue;
+    for (const [, operation, typeName] of braced.content.matchAll(/(query|mutation|subscription)\s*:\s*(\w+)/g)) {
+      roots.set(typeName, operation);
+    }
+  }
+  return roots;
+}
+
+/**
+ * Parse GraphQL SDL. `lineOffset` shifts line numbers for SDL embedded in
+ * another file.
+ */
+function parseSDL(content: string, file: string, lineOffset = 0): TypeDefinition[] {
+  const types: TypeDefinition[] = [];
+  const code = blankNonCode(content);
+  const definitions = findDefinitions(code);
+  const roots = rootOperationTypes(code, definitions);
+
+  for (const definition of definitions) {
+    const { keyword, extension, index, end } = definition;
+    if (keyword === "schema") continue;
+
+    const header = code.slice(index, end).match(/^(?:extend\s+)?\w+\s+(@?\w+)/);
+    if (!header) continue;
+    const name = header[1];
+    const afterName = index + header[0].length;
+
+    // Body, when the definition has one
+    const braceIndex = code.indexOf("{", afterName);
+    const hasBody = keyword !== "union" && keyword !== "scalar" && keyword !== "directive" && braceIndex !== -1 && braceIndex < end;
+    const bodyEnd = hasBody ? closingBracket(code, braceIndex) : end;
+    const headerEnd = hasBody ? braceIndex : end;
+
+    const decorators = ["graphql"];
+    if (extension) decorators.push("extension");
+
+    let kind: TypeKind;
+    let fields: FieldDefinition[] | undefined;
+    let variants: VariantDefinition[] | undefined;
+    let implementsRefs: TypeRef[] | undefined;
+
+    switch (keyword) {
+      case "type":
+      case "interface":
+      case "input": {
+        const operation = keyword === "type" ? roots.get(name) : undefined;
+        kind = operation ? "service" : keyword === "type" ? "struct" : keyword;
+        if (operation) decorators.push(operation);
+
+        const implementsMatch = code.slice(afterName, headerEnd).match(/^\s*implements\s+&?\s*([\w\s&,]+?)\s*(?=@|$)/);
+        if (implementsMatch) {
+          implementsRefs = implementsMatch[1]
+            .split(/[\s&,]+/)
+            .filter(Boolean)
+            .map((iface) => ({ name: iface, raw: iface }));
+        }
+        fields = hasBody ? parseFieldList(code, content, braceIndex + 1, bodyEnd) : [];
+        break;
+      }
+      case "enum":
+        kind = "enum";
+        variants = hasBody ? parseEnumValues(code, content, braceIndex + 1, bodyEnd) : [];
+        break;
+      case "union": {
+        kind = "union";
+        const members = code.slice(afterName, end).match(/=\s*\|?\s*(\w+(?:\s*\|\s*\w+)*)/);
+        variants = members ? members[1].split("|").map((member) => ({ name: member.trim() })) : [];
+        break;
+      }
+      case "scalar":
+        kind = "type_alias";
+        decorators.push("scalar");
+        break;
+      case "directive": {
+        kind = "directive";
+        let locationsStart = skipSpace(code, afterName);
+        if (code[locationsStart] === "(") {
+          const close = closingBracket(code, locationsStart);
+          fields = parseFieldList(code, content, locationsStart + 1, close);
+          locationsStart = close + 1;
+        }
+        const locations = code.slice(locationsStart, end).match(/\bon\s+\|?\s*(\w+(?:\s*\|\s*\w+)*)/);
+        if (locations) decorators.push(`on ${locations[1].split("|").map((l) => l.trim()).join(" | ")}`);
+        break;
+      }
+      default:
+        continue;
+    }
+
+    // Directives applied to the type itself (before a union's members)
+    if (keyword !== "directive") {
+      const equals = keyword === "union" ? code.indexOf("=", afterName) : -1;
+      decorators.push(...parseDirectives(code, content, afterName, equals !== -1 && equals < end ? equals : headerEnd));
+    }
+
+    types.push({
+      name,
+      kind,
+      file,
+      line: getLineNumber(content, index) + lineOffset,
+      language: "graphql",
+      visibility: "public",
+      fields,
+      variants,
+      implements: implementsRefs,
+      doc: extractDescription(content, index),
+      decorators,
+    });
+  }
+
+  return types;
+}
+
+const graphqlParser: TypeParser = {
+  language: "graphql",
+  extensions: [".graphql", ".gql"],
+
+  parse(ctx: ParseContext): TypeDefinition[] {
+    return parseSDL(ctx.content, ctx.file);
+  },
+};
+
+/**
+ * Parse SDL in gql`...`, graphql`...` and /* GraphQL *\/ `...` template
+ * literals (e.g. Apollo typeDefs). Interpolations are dropped; templates
+ * holding queries or fragments yield no types.
+ */
+export function parseGraphQLTemplates(ctx: ParseContext): TypeDefinition[] {
+  const { content, file } = ctx;
+  if (!/\b(?:gql|graphql)\b|\/\*\s*GraphQL\s*\*\//.test(content)) return [];
+
+  const types: TypeDefinition[] = [];
+  const templatePattern = /(?:\b(?:gql|graphql)\s*(?:\(\s*)?|\/\*\s*GraphQL\s*\*\/\s*)`/g;
+
+  let match;
+  while ((match = templatePattern.exec(content)) !== null) {
+    const start = match.index + match[0].length;
+
+    // Find the closing backtick, blanking ${...} interpolations
+    let sdl = "";
+    let i = start;
+    while (i < content.length && content[i] !== "`") {
+      if (content[i] === "\\") {
+        sdl += "  ";
+        i += 2;
+      } else if (content.startsWith("${", i)) {
+        const close = closingBracket(content, i + 1);
+        sdl += content.slice(i, close + 1).replace(/[^\n]/g, " ");
+        i = close + 1;
+      } else {
+        sdl += content[i++];
+      }
+    }
+    templatePattern.lastIndex = i + 1;
+
+    const templateTypes = parseSDL(sdl, file, getLineNumber(content, start) - 1);
+    for (const type of templateTypes) type.decorators = [...(type.decorators ?? []), "gql"];
+    types.push(...templateTypes);
+  }
+
+  return types;
+}
+
+export { graphqlParser };
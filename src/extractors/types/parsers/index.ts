@@ -32,6 +32,8 @@ export interface TypeParser {
   language: Language;
   /** File extensions this parser handles (e.g., [".rs"]) */
   extensions: string[];
+  /** Bump when the parse output changes, so cached results are parsed again (default 1) */
+  version?: number;
   /** Parse types (and optionally calls) from file content */
   parse(ctx: ParseContext): TypeDefinition[] | { types: TypeDefinition[]; calls?: CallDefinition[] };
 }
@@ -125,6 +127,60 @@ export function extractBracedContent(
   return { content: result, endIndex: i };
 }
 
+/**
+ * Split on a separator outside brackets, generics and string literals
+ * (e.g. constructor parameters or enum cases)
+ */
+export function splitTopLevel(content: string, separator = ","): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let start = 0;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if ("([{<".includes(char)) {
+      depth++;
+    } else if (")]}".includes(char) || (char === ">" && content[i - 1] !== "-")) {
+      depth = Math.max(0, depth - 1);
+    } else if (char === separator && depth === 0) {
+      parts.push(content.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(content.slice(start));
+
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+/**
+ * Empty the nested {...} blocks in a body, leaving only its own declarations
+ * (newlines are kept so line-based patterns still work)
+ */
+export function withoutNestedBlocks(content: string): string {
+  let depth = 0;
+  let result = "";
+
+  for (const char of content) {
+    if (char === "{") {
+      if (depth === 0) result += char;
+      depth++;
+    } else if (char === "}") {
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) result += char;
+    } else if (depth === 0 || char === "\n") {
+      result += char;
+    }
+  }
+
+  return result;
+}
+
 /**
  * Extract doc comment preceding a position
  * Supports /// style (Rust), block comment style (JS/TS), and # style (Python)
@@ -156,11 +212,11 @@ export function extractDocComment(
       // Collect the block comment
       let j = i;
       while (j >= 0 && !lines[j].includes("/**")) {
-        docLines.unshift(lines[j].replace(/^\s*\*\s?/, "").replace(/\*\/$/, "").trim());
+        docLines.unshift(lines[j].replace(/\*\/$/, "").replace(/^\s*\*\s?/, "").trim());
         j--;
       }
       if (j >= 0) {
-        docLines.unshift(lines[j].replace(/^\s*\/\*\*\s?/, "").trim());
+        docLines.unshift(lines[j].replace(/^\s*\/\*\*\s?/, "").replace(/\*\/$/, "").trim());
       }
       break;
     }
@@ -256,12 +312,47 @@ export function parseTypeRef(raw: string): {
   };
 }
 
+/**
+ * Rename an identifier to a serializer naming convention (serde's `rename_all`
+ * spellings), e.g. `user_id` to `userId` for camelCase. Returns undefined for
+ * conventions it doesn't know.
+ */
+export function applyNamingConvention(name: string, convention: string): string | undefined {
+  const words = name
+    .split(/[_-]+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+  const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+  switch (convention) {
+    case "lowercase":
+      return name.toLowerCase();
+    case "UPPERCASE":
+      return name.toUpperCase();
+    case "PascalCase":
+      return words.map(capitalize).join("");
+    case "camelCase":
+      return words.map((word, i) => (i === 0 ? word : capitalize(word))).join("");
+    case "snake_case":
+      return words.join("_");
+    case "SCREAMING_SNAKE_CASE":
+      return words.join("_").toUpperCase();
+    case "kebab-case":
+      return words.join("-");
+    case "SCREAMING-KEBAB-CASE":
+      return words.join("-").toUpperCase();
+    default:
+      return undefined;
+  }
+}
+
 // =============================================================================
 // Supplementary Parsers (re-exported for use by main extractor)
 // =============================================================================
 
 export { parseZodSchemas } from "./zod.js";
 export { parseORMModels } from "./orm.js";
+export { parseGraphQLTemplates } from "./graphql.js";
 
 // =============================================================================
 // Parser Registration
@@ -275,6 +366,11 @@ import { dartParser } from "./dart.js";
 import { goParser } from "./go.js";
 import { pythonParser } from "./python.js";
 import { protobufParser } from "./protobuf.js";
+import { graphqlParser } from "./graphql.js";
+import { kotlinParser } from "./kotlin.js";
+import { swiftParser } from "./swift.js";
+import { javaParser } from "./java.js";
+import { csharpParser } from "./csharp.js";
 
 // Explicitly register parsers to avoid ESM hoisting issues
 registerParser(rustParser);
@@ -283,3 +379,8 @@ registerParser(dartParser);
 registerParser(goParser);
 registerParser(pythonParser);
 registerParser(protobufParser);
+registerParser(graphqlParser);
+registerParser(kotlinParser);
+registerParser(swiftParser);
+registerParser(javaParser);
+registerParser(csharpParser);
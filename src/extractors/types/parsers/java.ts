@@ -0,0 +1,278 @@
+/**
+ * Java Type Parser (Regex-based)
+ *
+ * Extracts:
+ * - classes (instance fields) and records (components)
+ * - sealed classes/interfaces (as unions whose variants are their permitted
+ *   subtypes)
+ * - interfaces
+ * - enums, with constructor arguments as values
+ *
+ * Annotations become decorators. JPA @Entity classes are marked with
+ * schemaType "entity", like the ORM parsers do, and Jackson @JsonProperty
+ * renames become wire names.
+ */
+
+import type { TypeDefinition, FieldDefinition, VariantDefinition, TypeRef, Visibility } from "../schema.js";
+import {
+  type TypeParser,
+  type ParseContext,
+  getLineNumber,
+  extractBracedContent,
+  extractDocComment,
+  parseTypeRef,
+  splitTopLevel,
+  withoutNestedBlocks,
+} from "./index.js";
+
+/** Annotations, e.g. `@Entity` or `@Table(name = "users", indexes = @Index(...))` */
+const ANNOTATIONS = String.raw`(?:@[\w.]+(?:\s*\((?:[^()]|\([^()]*\))*\))?\s+)*`;
+
+const DECLARATION_PATTERN = new RegExp(
+  String.raw`^[ \t]*(${ANNOTATIONS})((?:(?:public|private|protected|static|final|abstract|sealed|non-sealed|strictfp)\s+)*)(class|interface|enum|record)\s+(\w+)`,
+  "gm"
+);
+
+const FIELD_PATTERN = new RegExp(
+  String.raw`^[ \t]*(${ANNOTATIONS})((?:(?:public|private|protected|static|final|transient|volatile)\s+)*)([\w.]+(?:\s*<[^;=(){}]*>)?(?:\[\])*)\s+(\w+)\s*(?:=[^;]*)?;`,
+  "gm"
+);
+
+/** Annotations marking a JPA entity */
+const ENTITY_ANNOTATIONS = ["Entity", "Table", "MappedSuperclass", "Embeddable"];
+
+/**
+ * Annotation names, without arguments (or annotations nested in them)
+ */
+function annotationNames(annotations: string): string[] {
+  const topLevel = annotations.replace(/\((?:[^()]|\([^()]*\))*\)/g, "");
+  return Array.from(topLevel.matchAll(/@([\w.]+)/g), (m) => m[1].split(".").pop()!);
+}
+
+/**
+ * Name set by Jackson's @JsonProperty("...")
+ */
+function jsonPropertyName(annotations: string): string | undefined {
+  return annotations.match(/@(?:[\w.]+\.)?JsonProperty\s*\(\s*(?:value\s*=\s*)?"([^"]*)"/)?.[1];
+}
+
+function parseVisibility(modifiers: string): Visibility {
+  if (/\bpublic\b/.test(modifiers)) return "public";
+  if (/\bprivate\b/.test(modifiers)) return "private";
+  if (/\bprotected\b/.test(modifiers)) return "protected";
+  // Package-private
+  return "internal";
+}
+
+function javaTypeToTypeRef(raw: string): TypeRef {
+  const parsed = parseTypeRef(raw.replace(/\s+(?=[<\[])/g, ""));
+  return {
+    name: parsed.name,
+    generics: parsed.generics?.map((g) => ({ name: g.name, raw: g.raw })),
+    optional: parsed.optional,
+    isCollection: parsed.isCollection,
+    raw: parsed.raw,
+  };
+}
+
+/**
+ * Whether a field is left out of the serialized form: `transient`, or
+ * @Transient / @JsonIgnore
+ */
+function isSkipped(modifiers: string, decorators: string[]): boolean {
+  return /\btransient\b/.test(modifiers) || decorators.includes("Transient") || decorators.includes("JsonIgnore");
+}
+
+function buildField(annotations: string, modifiers: string, type: string, name: string): FieldDefinition {
+  const typeRef = javaTypeToTypeRef(type);
+  const decorators = annotationNames(annotations);
+  const wireName = jsonPropertyName(annotations);
+  // References are nullable; only say so when it is declared
+  const optional = typeRef.optional || decorators.includes("Nullable");
+
+  return {
+    name,
+    typeRef: { ...typeRef, optional },
+    optional,
+    visibility: parseVisibility(modifiers),
+    decorators: decorators.length > 0 ? decorators : undefined,
+    wireName: wireName !== undefined && wireName !== name ? wireName : undefined,
+    serialized: isSkipped(modifiers, decorators) ? false : undefined,
+  };
+}
+
+/**
+ * Instance fields declared in a class body
+ */
+function parseFields(body: string): FieldDefinition[] {
+  const fields: FieldDefinition[] = [];
+
+  FIELD_PATTERN.lastIndex = 0;
+  let match;
+  while ((match = FIELD_PATTERN.exec(body)) !== null) {
+    const [, annotations, modifiers, type, name] = match;
+    if (/\bstatic\b/.test(modifiers) || ["return", "throw", "package", "import"].includes(type)) continue;
+    fields.push(buildField(annotations, modifiers, type, name));
+  }
+
+  return fields;
+}
+
+/**
+ * Record components: `(@JsonProperty("id") long id, String name)`
+ */
+function parseRecordComponents(params: string): FieldDefinition[] {
+  const componentPattern = new RegExp(String.raw`^(${ANNOTATIONS})(?:final\s+)?([\s\S]+?)\s+(\w+)$`);
+  return splitTopLevel(params).flatMap((param) => {
+    const match = param.match(componentPattern);
+    return match ? [buildField(match[1], "public", match[2], match[3])] : [];
+  });
+}
+
+/**
+ * Enum constants: `NAME`, `NAME(args)` or `@JsonProperty("x") NAME`, up to the first `;`
+ */
+function parseEnumConstants(body: string): VariantDefinition[] {
+  const variants: VariantDefinition[] = [];
+  const constants = splitTopLevel(body, ";")[0] ?? "";
+  const constantPattern = new RegExp(String.raw`^(${ANNOTATIONS})(\w+)\s*(?:\(([\s\S]*)\))?`);
+
+  for (const constant of splitTopLevel(constants)) {
+    const match = constant.replace(/\/\/[^\n]*/g, "").trim().match(constantPattern);
+    if (!match) continue;
+
+    const variant: VariantDefinition = { name: match[2] };
+    const firstArg = match[3] ? splitTopLevel(match[3])[0] : undefined;
+    if (firstArg && /^-?\d+$/.test(firstArg)) variant.value = parseInt(firstArg, 10);
+    else if (firstArg && /^"[^"]*"$/.test(firstArg)) variant.value = firstArg.slice(1, -1);
+
+    const wireName = jsonPropertyName(match[1]);
+    if (wireName !== undefined && wireName !== variant.name) variant.wireName = wireName;
+    variants.push(variant);
+  }
+
+  return variants;
+}
+
+/**
+ * Read the generics, record components, extends/implements/permits clauses
+ * and body following a declaration's name
+ */
+function parseDeclarationTail(content: string, index: number) {
+  let i = index;
+
+  let generics: string[] | undefined;
+  if (content[i] === "<") {
+    const braced = extractBracedContent(content, i, "<", ">");
+    if (braced) {
+      generics = splitTopLevel(braced.content).map((g) => g.split(/\s+extends\s+/)[0]);
+      i = braced.endIndex;
+    }
+  }
+
+  let params: string | undefined;
+  const paren = /\s*\(/y;
+  paren.lastIndex = i;
+  if (paren.test(content)) {
+    const braced = extractBracedContent(content, paren.lastIndex - 1, "(", ")");
+    if (braced) {
+      params = braced.content;
+      i = braced.endIndex;
+    }
+  }
+
+  const braceIndex = content.indexOf("{", i);
+  const header = braceIndex === -1 ? "" : content.slice(i, braceIndex);
+  const clause = (keyword: string) => {
+    const match = header.match(new RegExp(String.raw`\b${keyword}\s+([\s\S]+?)\s*(?=\b(?:extends|implements|permits)\b|$)`));
+    return match ? splitTopLevel(match[1]).map(javaTypeToTypeRef) : [];
+  };
+
+  const body = braceIndex === -1 ? undefined : extractBracedContent(content, braceIndex)?.content;
+  return {
+    generics,
+    params,
+    extendsTypes: clause("extends"),
+    implementsTypes: clause("implements"),
+    permits: clause("permits"),
+    body,
+  };
+}
+
+const javaParser: TypeParser = {
+  language: "java",
+  extensions: [".java"],
+  version: 3,
+
+  parse(ctx: ParseContext): TypeDefinition[] {
+    const types: TypeDefinition[] = [];
+    const { content, file, includePrivate } = ctx;
+    const permitted = new Map<TypeDefinition, string[]>();
+
+    DECLARATION_PATTERN.lastIndex = 0;
+    let match;
+    while ((match = DECLARATION_PATTERN.exec(content)) !== null) {
+      const [, annotations, modifiers, keyword, name] = match;
+      const visibility = parseVisibility(modifiers);
+      if (!includePrivate && visibility === "private") continue;
+
+      const tail = parseDeclarationTail(content, match.index + match[0].length);
+      const body = tail.body !== undefined ? withoutNestedBlocks(tail.body) : undefined;
+      const decorators = annotationNames(annotations);
+      const isEntity = decorators.some((d) => ENTITY_ANNOTATIONS.includes(d));
+      const isSealed = /(?<!-)\bsealed\b/.test(modifiers);
+
+      let fields: FieldDefinition[] | undefined;
+      let variants: VariantDefinition[] | undefined;
+      if (keyword === "enum") {
+        variants = body !== undefined ? parseEnumConstants(body) : [];
+        // Fields follow the constants' `;`
+        const semicolon = body?.indexOf(";") ?? -1;
+        const enumFields = semicolon !== -1 ? parseFields(body!.slice(semicolon + 1)) : [];
+        fields = enumFields.length > 0 ? enumFields : undefined;
+      } else if (keyword === "record") {
+        fields = tail.params !== undefined ? parseRecordComponents(tail.params) : [];
+      } else if (keyword === "class") {
+        fields = body !== undefined ? parseFields(body) : [];
+      }
+
+      const type: TypeDefinition = {
+        name,
+        kind: isSealed ? "union" : keyword === "interface" ? "interface" : keyword === "enum" ? "enum" : "class",
+        file,
+        line: getLineNumber(content, match.index),
+        language: "java",
+        visibility,
+        fields,
+        variants,
+        generics: tail.generics,
+        extends: tail.extendsTypes.length > 0 ? tail.extendsTypes : undefined,
+        implements: tail.implementsTypes.length > 0 ? tail.implementsTypes : undefined,
+        decorators: isEntity ? [...decorators, "jpa", "orm"] : decorators.length > 0 ? decorators : undefined,
+        doc: extractDocComment(content, match.index),
+      };
+      if (isEntity) type.schemaType = "entity";
+      if (isSealed) permitted.set(type, tail.permits.map((p) => p.name));
+      types.push(type);
+    }
+
+    // Sealed hierarchies: the permitted subtypes (or, without `permits`, the
+    // subtypes in this file) are the variants
+    for (const [sealed, permits] of permitted) {
+      const names =
+        permits.length > 0
+          ? permits
+          : types
+              .filter((t) => [...(t.extends ?? []), ...(t.implements ?? [])].some((s) => s.name === sealed.name))
+              .map((t) => t.name);
+      sealed.variants = names.map((name) => {
+        const subtype = types.find((t) => t.name === name);
+        return { name, fields: subtype?.fields?.length ? subtype.fields : undefined };
+      });
+    }
+
+    return types;
+  },
+};
+
+export { javaParser };
@@ -0,0 +1,307 @@
+/**
+ * Kotlin Type Parser (Regex-based)
+ *
+ * Extracts:
+ * - classes and data classes (primary constructor and body properties)
+ * - sealed classes/interfaces (as unions whose variants are their subtypes
+ *   in the same file)
+ * - enum classes
+ * - interfaces
+ *
+ * Serialized names come from kotlinx.serialization @SerialName, Gson
+ * @SerializedName, Moshi @Json(name = ...) and Jackson @JsonProperty.
+ */
+
+import type { TypeDefinition, FieldDefinition, VariantDefinition, TypeRef, Visibility } from "../schema.js";
+import {
+  type TypeParser,
+  type ParseContext,
+  getLineNumber,
+  extractBracedContent,
+  extractDocComment,
+  parseTypeRef,
+  splitTopLevel,
+  withoutNestedBlocks,
+} from "./index.js";
+
+/** Annotations, e.g. `@Serializable` or `@field:SerializedName("id")` */
+const ANNOTATIONS = String.raw`(?:@[\w.:]+(?:\([^)]*\))?\s+)*`;
+
+const DECLARATION_PATTERN = new RegExp(
+  String.raw`^[ \t]*(${ANNOTATIONS})((?:(?:public|private|internal|protected|open|abstract|sealed|data|enum|inner|value|inline|annotation|final|expect|actual|fun)\s+)*)(class|interface|object)\s+(\w+)`,
+  "gm"
+);
+
+/** Body properties; the type ends at an initializer, delegate, accessor (`get() = ...`) or block */
+const PROPERTY_PATTERN = new RegExp(
+  String.raw`^[ \t]*(${ANNOTATIONS})((?:(?:public|private|internal|protected|override|open|abstract|final|lateinit)\s+)*)(val|var)\s+(\w+)\s*:\s*([^=\n{]+?)\s*(=|by\b|\b[gs]et\s*\(|\{|$)`,
+  "gm"
+);
+
+/**
+ * Annotation names, without arguments or use-site targets
+ */
+function annotationNames(annotations: string): string[] {
+  return Array.from(annotations.matchAll(/@(?:\w+:)?([\w.]+)/g), (m) => m[1].split(".").pop()!);
+}
+
+/**
+ * Serialized name set by a serialization annotation
+ */
+function serialName(annotations: string): string | undefined {
+  const match =
+    annotations.match(/@(?:\w+:)?(?:SerialName|SerializedName|JsonProperty)\(\s*(?:value\s*=\s*)?"([^"]*)"/) ??
+    annotations.match(/@(?:\w+:)?Json\(\s*name\s*=\s*"([^"]*)"/);
+  return match?.[1];
+}
+
+function parseVisibility(modifiers: string): Visibility {
+  if (/\bprivate\b/.test(modifiers)) return "private";
+  if (/\bprotected\b/.test(modifiers)) return "protected";
+  if (/\binternal\b/.test(modifiers)) return "internal";
+  return "public";
+}
+
+function kotlinTypeToTypeRef(raw: string): TypeRef {
+  const parsed = parseTypeRef(raw);
+  return {
+    name: parsed.name,
+    generics: parsed.generics?.map((g) => ({ name: g.name, raw: g.raw })),
+    optional: parsed.optional,
+    isCollection: parsed.isCollection,
+    raw: parsed.raw,
+  };
+}
+
+function buildField(annotations: string, modifiers: string, name: string, type: string, hasDefault: boolean): FieldDefinition {
+  const typeRef = kotlinTypeToTypeRef(type);
+  const wireName = serialName(annotations);
+  const decorators = annotationNames(annotations);
+  const visibility = parseVisibility(modifiers);
+
+  return {
+    name,
+    typeRef,
+    optional: typeRef.optional || hasDefault,
+    visibility: visibility !== "public" ? visibility : undefined,
+    decorators: decorators.length > 0 ? decorators : undefined,
+    wireName: wireName !== undefined && wireName !== name ? wireName : undefined,
+    serialized: decorators.includes("Transient") ? false : undefined,
+  };
+}
+
+/**
+ * Properties declared in a primary constructor (`val`/`var` parameters)
+ */
+function parseConstructorProperties(params: string, includePrivate: boolean): FieldDefinition[] {
+  const fields: FieldDefinition[] = [];
+  const paramPattern = new RegExp(
+    String.raw`^(${ANNOTATIONS})((?:(?:public|private|internal|protected|override|open|final)\s+)*)(val|var)\s+(\w+)\s*:\s*([\s\S]+?)(?:\s*=\s*([\s\S]+))?$`
+  );
+
+  for (const param of splitTopLevel(params)) {
+    const match = param.match(paramPattern);
+    if (!match) continue;
+    const field = buildField(match[1], match[2], match[4], match[5], match[6] !== undefined);
+    if (!includePrivate && field.visibility === "private") continue;
+    fields.push(field);
+  }
+
+  return fields;
+}
+
+/**
+ * Properties declared in a class or interface body
+ */
+function parseBodyProperties(body: string, includePrivate: boolean): FieldDefinition[] {
+  const fields: FieldDefinition[] = [];
+  const topLevel = withoutNestedBlocks(body);
+
+  PROPERTY_PATTERN.lastIndex = 0;
+  let match;
+  while ((match = PROPERTY_PATTERN.exec(topLevel)) !== null) {
+    const field = buildField(match[1], match[2], match[4], match[5], match[6] === "=");
+    if (!includePrivate && field.visibility === "private") continue;
+    // Accessors without an initializer (on the same line or the next): no backing field to serialize
+    const accessor = match[6] ? /^[gs]et/.test(match[6]) : /^\s*[gs]et\s*\(/.test(topLevel.slice(PROPERTY_PATTERN.lastIndex));
+    if (accessor) field.serialized = false;
+    fields.push(field);
+  }
+
+  return fields;
+}
+
+/**
+ * Enum entries: `NAME`, `NAME(args)` or `@SerialName("x") NAME`, up to the first `;`
+ */
+function parseEnumEntries(body: string): VariantDefinition[] {
+  const variants: VariantDefinition[] = [];
+  const entries = splitTopLevel(withoutNestedBlocks(body), ";")[0] ?? "";
+  const entryPattern = new RegExp(String.raw`^(${ANNOTATIONS})(\w+)\s*(?:\(([\s\S]*)\))?`);
+
+  for (const entry of splitTopLevel(entries)) {
+    const match = entry.replace(/\/\/[^\n]*/g, "").trim().match(entryPattern);
+    if (!match) continue;
+
+    const variant: VariantDefinition = { name: match[2] };
+    const firstArg = match[3] ? splitTopLevel(match[3])[0] : undefined;
+    if (firstArg && /^-?\d+$/.test(firstArg)) variant.value = parseInt(firstArg, 10);
+    else if (firstArg && /^"[^"]*"$/.test(firstArg)) variant.value = firstArg.slice(1, -1);
+
+    const wireName = serialName(match[1]);
+    if (wireName !== undefined && wireName !== variant.name) variant.wireName = wireName;
+    variants.push(variant);
+  }
+
+  return variants;
+}
+
+/**
+ * Read the generics, primary constructor, supertypes and body following a
+ * declaration's name
+ */
+function parseDeclarationTail(content: string, index: number) {
+  let i = index;
+
+  let generics: string[] | undefined;
+  if (content[i] === "<") {
+    const braced = extractBracedContent(content, i, "<", ">");
+    if (braced) {
+      generics = splitTopLevel(braced.content).map((g) => g.replace(/^(?:in|out|reified)\s+/, "").split(/\s*:\s*/)[0]);
+      i = braced.endIndex;
+    }
+  }
+
+  // Primary constructor, e.g. `private constructor(...)` or `(...)`
+  const constructorPrefix = new RegExp(String.raw`\s*(?:(?:@[\w.]+(?:\([^)]*\))?|public|private|internal|protected)\s+)*constructor\s*`, "y");
+  constructorPrefix.lastIndex = i;
+  if (constructorPrefix.test(content)) i = constructorPrefix.lastIndex;
+
+  let params: string | undefined;
+  const paren = /\s*\(/y;
+  paren.lastIndex = i;
+  if (paren.test(content)) {
+    const braced = extractBracedContent(content, paren.lastIndex - 1, "(", ")");
+    if (braced) {
+      params = braced.content;
+      i = braced.endIndex;
+    }
+  }
+
+  // Supertypes: `: Base(), Iface` up to the body or the end of the header
+  let supertypes: string[] = [];
+  const colon = /\s*:\s*/y;
+  colon.lastIndex = i;
+  if (colon.test(content)) {
+    const continued = /\s*,/y;
+    let end = colon.lastIndex;
+    let depth = 0;
+    for (; end < content.length; end++) {
+      const char = content[end];
+      if ("(<".includes(char)) depth++;
+      else if (")>".includes(char)) depth--;
+      else if (depth === 0 && char === "{") break;
+      else if (depth === 0 && char === "\n") {
+        // The header continues on the next line only around a comma
+        continued.lastIndex = end;
+        if (!/,\s*$/.test(content.slice(colon.lastIndex, end)) && !continued.test(content)) break;
+      }
+    }
+    supertypes = splitTopLevel(content.slice(colon.lastIndex, end).split(/\bwhere\b/)[0]);
+    i = end;
+  }
+
+  let body: string | undefined;
+  const brace = /\s*\{/y;
+  brace.lastIndex = i;
+  if (brace.test(content)) {
+    body = extractBracedContent(content, brace.lastIndex - 1)?.content;
+  }
+
+  return { generics, params, supertypes, body };
+}
+
+interface KotlinDeclaration {
+  type: TypeDefinition;
+  /** Serialized name of the class (the discriminator value of a sealed subtype) */
+  wireName?: string;
+  isObject: boolean;
+}
+
+const kotlinParser: TypeParser = {
+  language: "kotlin",
+  extensions: [".kt", ".kts"],
+  version: 4,
+
+  parse(ctx: ParseContext): TypeDefinition[] {
+    const { content, file, includePrivate } = ctx;
+    const declarations: KotlinDeclaration[] = [];
+    const sealed = new Set<string>();
+
+    DECLARATION_PATTERN.lastIndex = 0;
+    let match;
+    while ((match = DECLARATION_PATTERN.exec(content)) !== null) {
+      const [, annotations, modifiers, keyword, name] = match;
+      if (/\bannotation\b/.test(modifiers)) continue;
+
+      const visibility = parseVisibility(modifiers);
+      if (!includePrivate && visibility === "private") continue;
+
+      const tail = parseDeclarationTail(content, match.index + match[0].length);
+      const isSealed = /\bsealed\b/.test(modifiers);
+      const isEnum = /\benum\b/.test(modifiers);
+      if (isSealed) sealed.add(name);
+
+      // Supertypes called with arguments are superclasses; `Iface by impl` delegates
+      const extendsTypes: TypeRef[] = [];
+      const implementsTypes: TypeRef[] = [];
+      for (const supertype of tail.supertypes) {
+        const typeRef = kotlinTypeToTypeRef(supertype.split(/\s+by\s+/)[0].replace(/\(.*\)$/s, ""));
+        (supertype.includes("(") || keyword === "interface" ? extendsTypes : implementsTypes).push(typeRef);
+      }
+
+      const fields = [
+        ...(tail.params ? parseConstructorProperties(tail.params, includePrivate) : []),
+        ...(tail.body && !isEnum ? parseBodyProperties(tail.body, includePrivate) : []),
+      ];
+      const decorators = annotationNames(annotations);
+
+      declarations.push({
+        isObject: keyword === "object",
+        wireName: serialName(annotations),
+        type: {
+          name,
+          kind: isSealed ? "union" : isEnum ? "enum" : keyword === "interface" ? "interface" : "class",
+          file,
+          line: getLineNumber(content, match.index),
+          language: "kotlin",
+          visibility,
+          fields: isEnum && fields.length === 0 ? undefined : fields,
+          variants: isEnum && tail.body ? parseEnumEntries(tail.body) : undefined,
+          generics: tail.generics,
+          extends: extendsTypes.length > 0 ? extendsTypes : undefined,
+          implements: implementsTypes.length > 0 ? implementsTypes : undefined,
+          decorators: decorators.length > 0 ? decorators : undefined,
+          doc: extractDocComment(content, match.index),
+        },
+      });
+    }
+
+    // Sealed hierarchies: subtypes declared in the same file are the variants
+    for (const { type } of declarations) {
+      if (!sealed.has(type.name)) continue;
+      type.variants = declarations
+        .filter(({ type: sub }) => [...(sub.extends ?? []), ...(sub.implements ?? [])].some((t) => t.name === type.name))
+        .map(({ type: sub, wireName }) => ({
+          name: sub.name,
+          fields: sub.fields && sub.fields.length > 0 ? sub.fields : undefined,
+          wireName: wireName !== undefined && wireName !== sub.name ? wireName : undefined,
+        }));
+    }
+
+    // Objects only matter as sealed variants
+    return declarations.filter((d) => !d.isObject).map((d) => d.type);
+  },
+};
+
+export { kotlinParser };
@@ -11,6 +11,9 @@
  * - nested messages
  * - map fields
  * - repeated fields
+ *
+ * Fields carry their proto3 JSON names: `json_name` when set, otherwise the
+ * lowerCamelCase form of the field name.
  */
 
 import type { TypeDefinition, FieldDefinition, VariantDefinition, TypeRef } from "../schema.js";
@@ -55,6 +58,17 @@ function protoTypeToTypeRef(protoType: string, isRepeated: boolean): TypeRef {
   };
 }
 
+/**
+ * JSON name of a field: its `json_name` option, or protoc's default
+ * lowerCamelCase form. Returned only when it differs from the field name.
+ */
+function protoJsonName(name: string, line: string): string | undefined {
+  const jsonName =
+    line.match(/\[[^\]]*\bjson_name\s*=\s*"([^"]*)"/)?.[1] ??
+    name.replace(/_+([a-z0-9])/gi, (_, char: string) => char.toUpperCase());
+  return jsonName !== name ? jsonName : undefined;
+}
+
 /**
  * Parse message fields
  */
@@ -84,6 +98,7 @@ function parseMessageFields(content: string): FieldDefinition[] {
             { name: mapMatch[2], raw: mapMatch[2] },
           ],
         },
+        wireName: protoJsonName(mapMatch[3], trimmed),
       });
       continue;
     }
@@ -100,6 +115,7 @@ function parseMessageFields(content: string): FieldDefinition[] {
         name,
         typeRef,
         optional: modifier === "optional",
+        wireName: protoJsonName(name, trimmed),
       });
     }
   }
@@ -162,6 +178,7 @@ function extractProtoDoc(content: string, index: number): string | undefined {
 const protobufParser: TypeParser = {
   language: "rust", // Using rust as placeholder since proto is language-agnostic
   extensions: [".proto"],
+  version: 2,
 
   parse(ctx: ParseContext): TypeDefinition[] {
     const types: TypeDefinition[] = [];
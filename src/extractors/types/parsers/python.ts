@@ -9,10 +9,13 @@
  * - Enum definitions
  * - Protocol definitions
  * - Regular class definitions with type annotations
+ *
+ * Pydantic aliases (`Field(alias=...)` or the model's `alias_generator`)
+ * become wire names.
  */
 
 import type { TypeDefinition, FieldDefinition, VariantDefinition, TypeRef } from "../schema.js";
-import type { TypeParser, ParseContext } from "./index.js";
+import { type TypeParser, type ParseContext, applyNamingConvention } from "./index.js";
 import {
   parseSource,
   findNodesOfType,
@@ -31,11 +34,40 @@ import type Parser from "tree-sitter";
 // Field Parsing
 // =============================================================================
 
+/** Pydantic alias generators, by the naming convention they produce */
+const ALIAS_GENERATORS: Record<string, string> = {
+  to_camel: "camelCase",
+  to_lower_camel: "camelCase",
+  to_pascal: "PascalCase",
+  to_snake: "snake_case",
+};
+
+/**
+ * Naming convention of a model's `alias_generator`, set in `model_config`
+ * or (Pydantic v1) an inner `class Config`
+ */
+function aliasGeneratorConvention(blockNode: Parser.SyntaxNode): string | undefined {
+  const match = getNodeText(blockNode).match(/\balias_generator\s*=\s*(?:\w+\.)*(\w+)/);
+  return match ? ALIAS_GENERATORS[match[1]] : undefined;
+}
+
+/**
+ * Alias and exclusion set by a pydantic `Field(...)` default
+ */
+function parseFieldAlias(valueText: string): { alias?: string; exclude: boolean } {
+  if (!/^(?:\w+\.)*Field\s*\(/.test(valueText)) return { exclude: false };
+
+  const alias =
+    valueText.match(/\bserialization_alias\s*=\s*["']([^"']*)["']/) ?? valueText.match(/\balias\s*=\s*["']([^"']*)["']/);
+  return { alias: alias?.[1], exclude: /\bexclude\s*=\s*True\b/.test(valueText) };
+}
+
 /**
  * Parse fields from a class body block.
  */
 function parseClassFields(blockNode: Parser.SyntaxNode): FieldDefinition[] {
   const fields: FieldDefinition[] = [];
+  const aliasConvention = aliasGeneratorConvention(blockNode);
 
   // Look for expression_statements containing assignments with type annotations
   const exprStatements = getChildrenOfType(blockNode, "expression_statement");
@@ -62,6 +94,9 @@ function parseClassFields(blockNode: Parser.SyntaxNode): FieldDefinition[] {
 
     // Check if there's a default value
     const hasDefault = assignment.children.some((c) => c.type === "=");
+    const valueNode = getChildByFieldName(assignment, "right");
+    const { alias, exclude } = parseFieldAlias(valueNode ? getNodeText(valueNode) : "");
+    const wireName = alias ?? (aliasConvention ? applyNamingConvention(name, aliasConvention) : undefined);
 
     fields.push({
       name,
@@ -74,6 +109,8 @@ function parseClassFields(blockNode: Parser.SyntaxNode): FieldDefinition[] {
       },
       optional: typeText.includes("Optional") || typeText.includes("| None") || hasDefault,
       visibility: parsePythonVisibility(name),
+      wireName: wireName !== undefined && wireName !== name ? wireName : undefined,
+      serialized: exclude ? false : undefined,
     });
   }
 
@@ -247,6 +284,7 @@ function getExtendsTypes(bases: string[]): TypeRef[] | undefined {
 const pythonParser: TypeParser = {
   language: "python",
   extensions: [".py", ".pyi"],
+  version: 2,
 
   parse(ctx: ParseContext): TypeDefinition[] {
     const types: TypeDefinition[] = [];
@@ -6,10 +6,13 @@
  * - enum definitions with variants (including associated data)
  * - trait definitions
  * - type aliases
+ *
+ * Serde attributes give fields and variants their wire names: `rename`, the
+ * container's `rename_all`, and `skip` for fields left out entirely.
  */
 
 import type { TypeDefinition, FieldDefinition, VariantDefinition, TypeRef } from "../schema.js";
-import type { TypeParser, ParseContext } from "./index.js";
+import { type TypeParser, type ParseContext, applyNamingConvention, splitTopLevel } from "./index.js";
 import {
   parseSource,
   findNodesOfType,
@@ -24,14 +27,63 @@ import {
 } from "./tree-sitter-utils.js";
 import type Parser from "tree-sitter";
 
+// =============================================================================
+// Serde Attributes
+// =============================================================================
+
+interface SerdeOptions {
+  rename?: string;
+  renameAll?: string;
+  /** `skip` or `skip_serializing`: never written out */
+  skip: boolean;
+  /** `default` or `skip_serializing_if`: may be absent */
+  mayBeAbsent: boolean;
+}
+
+/**
+ * Read the serde options from attribute contents, e.g. `serde(rename = "id", default)`
+ */
+function parseSerdeOptions(attributes: string[]): SerdeOptions {
+  const options: SerdeOptions = { skip: false, mayBeAbsent: false };
+
+  for (const attribute of attributes) {
+    const serde = attribute.match(/^serde\s*\(([\s\S]*)\)$/);
+    if (!serde) continue;
+
+    for (const item of splitTopLevel(serde[1])) {
+      const option = item.match(/^(\w+)\s*(?:=\s*"([^"]*)"|\(([\s\S]*)\))?$/);
+      if (!option) continue;
+
+      const [, key, literal, nested] = option;
+      // `rename(serialize = "a", deserialize = "b")`: the serialized spelling
+      const value = literal ?? nested?.match(/\bserialize\s*=\s*"([^"]*)"/)?.[1];
+      if (key === "rename") options.rename = value;
+      else if (key === "rename_all") options.renameAll = value;
+      else if (key === "skip" || key === "skip_serializing") options.skip = true;
+      else if (key === "default" || key === "skip_serializing_if") options.mayBeAbsent = true;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Serialized name for a field or variant, when it differs from its name
+ */
+function serdeWireName(name: string, options: SerdeOptions, renameAll: string | undefined): string | undefined {
+  const wireName = options.rename ?? (renameAll ? applyNamingConvention(name, renameAll) : undefined);
+  return wireName !== undefined && wireName !== name ? wireName : undefined;
+}
+
 // =============================================================================
 // Field Parsing
 // =============================================================================
 
 /**
  * Parse fields from a field_declaration_list node (struct fields).
+ * `renameAll` is the container's serde `rename_all` convention.
  */
-function parseStructFields(fieldListNode: Parser.SyntaxNode): FieldDefinition[] {
+function parseStructFields(fieldListNode: Parser.SyntaxNode, renameAll?: string): FieldDefinition[] {
   const fields: FieldDefinition[] = [];
   const fieldNodes = getChildrenOfType(fieldListNode, "field_declaration");
 
@@ -45,9 +97,11 @@ function parseStructFields(fieldListNode: Parser.SyntaxNode): FieldDefinition[]
 
     const typeText = getNodeText(typeNode);
     const parsed = parseTypeRef(typeText);
+    const name = getNodeText(nameNode);
+    const serde = parseSerdeOptions(extractRustAttributes(fieldNode));
 
     fields.push({
-      name: getNodeText(nameNode),
+      name,
       typeRef: {
         name: parsed.name,
         generics: parsed.generics,
@@ -55,7 +109,10 @@ function parseStructFields(fieldListNode: Parser.SyntaxNode): FieldDefinition[]
         isCollection: parsed.isCollection,
         raw: parsed.raw,
       },
+      optional: parsed.optional || serde.mayBeAbsent,
       visibility: parseRustVisibility(visNode),
+      wireName: serdeWireName(name, serde, renameAll),
+      serialized: serde.skip ? false : undefined,
     });
   }
 
@@ -155,8 +212,9 @@ function isTypeNode(node: Parser.SyntaxNode): boolean {
 
 /**
  * Parse enum variants from an enum_variant_list node.
+ * `renameAll` is the enum's serde `rename_all` convention.
  */
-function parseEnumVariants(variantListNode: Parser.SyntaxNode): VariantDefinition[] {
+function parseEnumVariants(variantListNode: Parser.SyntaxNode, renameAll?: string): VariantDefinition[] {
   const variants: VariantDefinition[] = [];
   const variantNodes = getChildrenOfType(variantListNode, "enum_variant");
 
@@ -164,14 +222,16 @@ function parseEnumVariants(variantListNode: Parser.SyntaxNode): VariantDefinitio
     const nameNode = findNodesOfType(variantNode, "identifier")[0];
     if (!nameNode) continue;
 
-    const variant: VariantDefinition = {
-      name: getNodeText(nameNode),
-    };
+    const name = getNodeText(nameNode);
+    const serde = parseSerdeOptions(extractRustAttributes(variantNode));
+    const variant: VariantDefinition = { name };
+    const wireName = serdeWireName(name, serde, renameAll);
+    if (wireName) variant.wireName = wireName;
 
     // Check for struct-style fields: Variant { field: Type }
     const fieldList = findNodesOfType(variantNode, "field_declaration_list")[0];
     if (fieldList) {
-      variant.fields = parseStructFields(fieldList);
+      variant.fields = parseStructFields(fieldList, serde.renameAll);
     }
 
     // Check for tuple-style fields: Variant(Type1, Type2)
@@ -247,6 +307,7 @@ function extractSupertraits(node: Parser.SyntaxNode): TypeRef[] | undefined {
 const rustParser: TypeParser = {
   language: "rust",
   extensions: [".rs"],
+  version: 2,
 
   parse(ctx: ParseContext): TypeDefinition[] {
     const types: TypeDefinition[] = [];
@@ -277,6 +338,7 @@ const rustParser: TypeParser = {
 
       const name = getNodeText(nameNode);
       const line = getNodeLine(structNode);
+      const decorators = extractRustAttributes(structNode);
 
       // Parse fields - could be regular struct or tuple struct
       let fields: FieldDefinition[] = [];
@@ -284,7 +346,7 @@ const rustParser: TypeParser = {
       const orderedList = findNodesOfType(structNode, "ordered_field_declaration_list")[0];
 
       if (fieldList) {
-        fields = parseStructFields(fieldList);
+        fields = parseStructFields(fieldList, parseSerdeOptions(decorators).renameAll);
       } else if (orderedList) {
         fields = parseTupleFields(orderedList);
       }
@@ -299,7 +361,7 @@ const rustParser: TypeParser = {
         visibility,
         generics: extractGenerics(structNode),
         fields,
-        decorators: extractRustAttributes(structNode),
+        decorators,
         doc: extractDocComment(structNode, content),
       });
     }
@@ -319,10 +381,11 @@ const rustParser: TypeParser = {
 
       const name = getNodeText(nameNode);
       const line = getNodeLine(enumNode);
+      const decorators = extractRustAttributes(enumNode);
 
       // Parse variants
       const variantList = findNodesOfType(enumNode, "enum_variant_list")[0];
-      const variants = variantList ? parseEnumVariants(variantList) : [];
+      const variants = variantList ? parseEnumVariants(variantList, parseSerdeOptions(decorators).renameAll) : [];
 
       types.push({
         name,
@@ -333,7 +396,7 @@ const rustParser: TypeParser = {
         visibility,
         generics: extractGenerics(enumNode),
         variants,
-        decorators: extractRustAttributes(enumNode),
+        decorators,
         doc: extractDocComment(enumNode, content),
       });
     }
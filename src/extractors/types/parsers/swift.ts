@@ -0,0 +1,294 @@
+/**
+ * Swift Type Parser (Regex-based)
+ *
+ * Extracts:
+ * - structs, classes and actors (stored properties)
+ * - enums, including associated values and raw values
+ * - protocols (property requirements)
+ *
+ * Serialized names come from Codable: a type's `CodingKeys` enum maps its
+ * properties to keys, and a String-backed enum's raw values are its wire names.
+ */
+
+import type { TypeDefinition, FieldDefinition, VariantDefinition, TypeKind, TypeRef, Visibility } from "../schema.js";
+import {
+  type TypeParser,
+  type ParseContext,
+  getLineNumber,
+  extractBracedContent,
+  extractDocComment,
+  parseTypeRef,
+  splitTopLevel,
+  withoutNestedBlocks,
+} from "./index.js";
+
+/** Attributes, e.g. `@MainActor` or `@available(iOS 15, *)` */
+const ATTRIBUTES = String.raw`(?:@\w+(?:\([^)]*\))?\s+)*`;
+
+const MODIFIERS = String.raw`(?:(?:public|private|fileprivate|internal|open|package|final|indirect|nonisolated)(?:\(set\))?\s+)*`;
+
+const DECLARATION_PATTERN = new RegExp(
+  String.raw`^[ \t]*(${ATTRIBUTES})(${MODIFIERS})(struct|class|actor|enum|protocol)\s+(?!(?:var|let|func|subscript|init)\b)(\w+)`,
+  "gm"
+);
+
+const PROPERTY_PATTERN = new RegExp(
+  String.raw`^[ \t]*(${ATTRIBUTES})((?:(?:public|private|fileprivate|internal|open|package|final|weak|unowned|lazy|override|static|class|nonisolated|dynamic|required)(?:\(set\))?\s+)*)(let|var)\s+(\w+)\s*:\s*([^={\n]+?)\s*(=|\{|$)`,
+  "gm"
+);
+
+const KINDS: Record<string, TypeKind> = {
+  struct: "struct",
+  class: "class",
+  actor: "class",
+  enum: "enum",
+  protocol: "protocol",
+};
+
+/** Types an enum can take raw values from (listed first among its conformances) */
+const RAW_VALUE_TYPES = new Set([
+  "String", "Character", "Int", "Int8", "Int16", "Int32", "Int64",
+  "UInt", "UInt8", "UInt16", "UInt32", "UInt64", "Double", "Float",
+]);
+
+/** Standard protocols, which are never a class's superclass */
+const STANDARD_PROTOCOLS = new Set([
+  "Codable", "Decodable", "Encodable", "Equatable", "Hashable", "Identifiable", "Comparable",
+  "Sendable", "ObservableObject", "CustomStringConvertible", "CaseIterable", "Error", "NSCopying",
+]);
+
+function parseVisibility(modifiers: string): Visibility {
+  // `private(set)` only restricts the setter
+  if (/\b(?:private|fileprivate)\b(?!\(set\))/.test(modifiers)) return "private";
+  if (/\b(?:public|open)\b(?!\(set\))/.test(modifiers)) return "public";
+  return "internal";
+}
+
+function attributeNames(attributes: string): string[] {
+  return Array.from(attributes.matchAll(/@(\w+)/g), (m) => m[1]);
+}
+
+function swiftTypeToTypeRef(raw: string): TypeRef {
+  const trimmed = raw.trim().replace(/!$/, "?");
+
+  // Dictionaries: [Key: Value]
+  const dictionary = trimmed.match(/^\[([^\]:]+):(.+)\](\?)?$/);
+  if (dictionary) {
+    const [key, value] = [dictionary[1].trim(), dictionary[2].trim()];
+    return {
+      name: "Dictionary",
+      generics: [swiftTypeToTypeRef(key), swiftTypeToTypeRef(value)],
+      optional: Boolean(dictionary[3]),
+      raw: trimmed,
+    };
+  }
+
+  const parsed = parseTypeRef(trimmed);
+  return {
+    name: parsed.name,
+    generics: parsed.generics?.map((g) => ({ name: g.name, raw: g.raw })),
+    optional: parsed.optional,
+    isCollection: parsed.isCollection,
+    raw: parsed.raw,
+  };
+}
+
+/**
+ * Enum cases: `case a, b(Int), c(label: String) = "raw"`, one or more per line
+ */
+function parseEnumCases(body: string): VariantDefinition[] {
+  const variants: VariantDefinition[] = [];
+  const casePattern = /^[ \t]*(?:indirect\s+)?case\s+([^\n]+)/gm;
+  const topLevel = withoutNestedBlocks(body);
+
+  let match;
+  while ((match = casePattern.exec(topLevel)) !== null) {
+    let declaration = match[1].replace(/\/\/.*$/, "");
+
+    // Associated values may continue on the next lines
+    let end = match.index + match[0].length;
+    while ((declaration.match(/\(/g)?.length ?? 0) > (declaration.match(/\)/g)?.length ?? 0) && end < topLevel.length) {
+      const next = topLevel.indexOf("\n", end + 1);
+      const lineEnd = next === -1 ? topLevel.length : next;
+      declaration += topLevel.slice(end, lineEnd).replace(/\/\/.*$/, "");
+      end = lineEnd;
+    }
+    casePattern.lastIndex = end;
+
+    for (const item of splitTopLevel(declaration)) {
+      const caseMatch = item.match(/^(\w+)\s*(?:\(([\s\S]*)\))?\s*(?:=\s*(.+))?$/);
+      if (!caseMatch) continue;
+
+      const variant: VariantDefinition = { name: caseMatch[1] };
+      if (caseMatch[2] !== undefined) {
+        variant.fields = splitTopLevel(caseMatch[2]).map((value, i) => {
+          const labeled = value.match(/^(\w+)\s*:\s*([\s\S]+?)(?:\s*=\s*[\s\S]+)?$/);
+          return labeled
+            ? { name: labeled[1], typeRef: swiftTypeToTypeRef(labeled[2]) }
+            : { name: `_${i}`, typeRef: swiftTypeToTypeRef(value) };
+        });
+      }
+
+      const raw = caseMatch[3]?.trim();
+      if (raw && /^-?\d+$/.test(raw)) variant.value = parseInt(raw, 10);
+      else if (raw && /^"[^"]*"$/.test(raw)) variant.value = raw.slice(1, -1);
+
+      variants.push(variant);
+    }
+  }
+
+  return variants;
+}
+
+/**
+ * Keys of a type's nested `CodingKeys` enum, by property name
+ */
+function parseCodingKeys(body: string): Map<string, string> | undefined {
+  const match = body.match(/\benum\s+CodingKeys\b[^{]*\{/);
+  if (!match) return undefined;
+
+  const braced = extractBracedContent(body, match.index!);
+  if (!braced) return undefined;
+
+  return new Map(
+    parseEnumCases(braced.content).map((variant) => [variant.name, typeof variant.value === "string" ? variant.value : variant.name])
+  );
+}
+
+/**
+ * Stored properties declared in a type's body (protocol property requirements
+ * for protocols)
+ */
+function parseProperties(body: string, isProtocol: boolean, includePrivate: boolean): FieldDefinition[] {
+  const fields: FieldDefinition[] = [];
+  const topLevel = withoutNestedBlocks(body);
+  const codingKeys = parseCodingKeys(body);
+
+  PROPERTY_PATTERN.lastIndex = 0;
+  let match;
+  while ((match = PROPERTY_PATTERN.exec(topLevel)) !== null) {
+    const [, attributes, modifiers, , name, type, terminator] = match;
+    if (/\b(?:static|class)\b/.test(modifiers)) continue;
+    // Computed properties aren't stored (but are a protocol's requirements)
+    if (terminator === "{" && !isProtocol) continue;
+
+    const visibility = parseVisibility(modifiers);
+    if (!includePrivate && visibility === "private") continue;
+
+    const typeRef = swiftTypeToTypeRef(type);
+    const decorators = attributeNames(attributes);
+    const wireName = codingKeys?.get(name);
+
+    fields.push({
+      name,
+      typeRef,
+      optional: typeRef.optional,
+      visibility,
+      decorators: decorators.length > 0 ? decorators : undefined,
+      wireName: wireName !== undefined && wireName !== name ? wireName : undefined,
+      // Properties missing from CodingKeys aren't encoded
+      serialized: codingKeys && !codingKeys.has(name) ? false : undefined,
+    });
+  }
+
+  return fields;
+}
+
+/**
+ * Read the generics, inheritance clause and body following a declaration's name
+ */
+function parseDeclarationTail(content: string, index: number) {
+  let i = index;
+
+  let generics: string[] | undefined;
+  if (content[i] === "<") {
+    const braced = extractBracedContent(content, i, "<", ">");
+    if (braced) {
+      generics = splitTopLevel(braced.content).map((g) => g.split(/\s*:\s*/)[0]);
+      i = braced.endIndex;
+    }
+  }
+
+  const braceIndex = content.indexOf("{", i);
+  const header = braceIndex === -1 ? "" : content.slice(i, braceIndex);
+  const inheritance = header.match(/^\s*:\s*([\s\S]+?)(?:\bwhere\b[\s\S]*)?$/);
+  const inherited = inheritance ? splitTopLevel(inheritance[1]) : [];
+
+  const body = braceIndex === -1 ? undefined : extractBracedContent(content, braceIndex)?.content;
+  return { generics, inherited, body };
+}
+
+const swiftParser: TypeParser = {
+  language: "swift",
+  extensions: [".swift"],
+  version: 2,
+
+  parse(ctx: ParseContext): TypeDefinition[] {
+    const types: TypeDefinition[] = [];
+    const { content, file, includePrivate } = ctx;
+
+    // Protocols declared here are never a class's superclass either
+    const protocols = new Set(Array.from(content.matchAll(/\bprotocol\s+(\w+)/g), (m) => m[1]));
+
+    DECLARATION_PATTERN.lastIndex = 0;
+    let match;
+    while ((match = DECLARATION_PATTERN.exec(content)) !== null) {
+      const [, attributes, modifiers, keyword, name] = match;
+      const visibility = parseVisibility(modifiers);
+      if (!includePrivate && visibility === "private") continue;
+
+      const tail = parseDeclarationTail(content, match.index + match[0].length);
+      let inherited = tail.inherited.map(swiftTypeToTypeRef);
+
+      // Codable key enums are folded into their type's fields
+      if (keyword === "enum" && (name === "CodingKeys" || inherited.some((t) => t.name === "CodingKey"))) continue;
+
+      let variants: VariantDefinition[] | undefined;
+      if (keyword === "enum") {
+        variants = tail.body ? parseEnumCases(tail.body) : [];
+        const rawType = inherited[0]?.name;
+        if (rawType && RAW_VALUE_TYPES.has(rawType)) {
+          inherited = inherited.slice(1);
+          // Codable encodes String-backed cases by raw value
+          if (rawType === "String") {
+            for (const variant of variants) {
+              if (typeof variant.value === "string" && variant.value !== variant.name) variant.wireName = variant.value;
+            }
+          }
+        }
+      }
+
+      // A class's first inherited type is its superclass, unless it is a protocol
+      let extendsTypes: TypeRef[] = [];
+      if (keyword === "protocol") {
+        extendsTypes = inherited;
+        inherited = [];
+      } else if (keyword === "class" && inherited[0] && !STANDARD_PROTOCOLS.has(inherited[0].name) && !protocols.has(inherited[0].name)) {
+        extendsTypes = [inherited[0]];
+        inherited = inherited.slice(1);
+      }
+
+      const decorators = attributeNames(attributes);
+
+      types.push({
+        name,
+        kind: KINDS[keyword],
+        file,
+        line: getLineNumber(content, match.index),
+        language: "swift",
+        visibility,
+        fields: keyword !== "enum" && tail.body ? parseProperties(tail.body, keyword === "protocol", includePrivate) : undefined,
+        variants,
+        generics: tail.generics,
+        extends: extendsTypes.length > 0 ? extendsTypes : undefined,
+        implements: inherited.length > 0 ? inherited : undefined,
+        decorators: decorators.length > 0 ? decorators : undefined,
+        doc: extractDocComment(content, match.index),
+      });
+    }
+
+    return types;
+  },
+};
+
+export { swiftParser };
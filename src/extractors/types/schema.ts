@@ -24,6 +24,7 @@ export type TypeKind =
   | "message"    // Protobuf message
   | "service"    // Protobuf/GraphQL service
   | "input"      // GraphQL input type
+  | "directive"  // GraphQL directive definition
   | "model";     // Prisma/ORM model
 
 export type Visibility = "public" | "private" | "internal" | "protected";
@@ -36,6 +37,8 @@ export type Language =
   | "swift"
   | "kotlin"
   | "python"
+  | "java"
+  | "csharp"
   | "protobuf"
   | "graphql"
   | "prisma";
@@ -67,6 +70,12 @@ export interface FieldDefinition {
   visibility?: Visibility;
   /** Field-level decorators/attributes */
   decorators?: string[];
+  /** Arguments, for fields that take them (GraphQL fields and operations) */
+  args?: FieldDefinition[];
+  /** Name in serialized form (e.g. a JSON key), when it differs from `name` */
+  wireName?: string;
+  /** False when the field is left out of the serialized form (e.g. serde `skip`, Go `json:"-"`) */
+  serialized?: boolean;
   /** Documentation comment if present */
   doc?: string;
 }
@@ -80,6 +89,8 @@ export interface VariantDefinition {
   fields?: FieldDefinition[];
   /** For simple enums with explicit values */
   value?: string | number;
+  /** Name in serialized form, when it differs from `name` */
+  wireName?: string;
   /** Documentation comment if present */
   doc?: string;
 }
@@ -239,6 +250,56 @@ export function relationshipId(r: TypeRelationship): string {
   return `${r.from}_${r.kind}_${r.to}`.replace(/[^a-zA-Z0-9_]/g, "_");
 }
 
+/**
+ * Group types into modules based on directory structure
+ */
+export function buildModules(
+  types: TypeDefinition[],
+  relationships: TypeRelationship[]
+): TypeModule[] {
+  // Group by directory
+  const byDir = new Map<string, TypeDefinition[]>();
+
+  for (const type of types) {
+    const parts = type.file.split("/");
+    const dir = parts.slice(0, -1).join("/") || "/";
+
+    if (!byDir.has(dir)) {
+      byDir.set(dir, []);
+    }
+    byDir.get(dir)!.push(type);
+  }
+
+  const modules: TypeModule[] = [];
+
+  for (const [path, moduleTypes] of byDir) {
+    const typeNamesInModule = new Set(moduleTypes.map((t) => t.name));
+
+    // Partition relationships
+    const internalRelationships: TypeRelationship[] = [];
+    const externalRelationships: TypeRelationship[] = [];
+
+    for (const rel of relationships) {
+      if (typeNamesInModule.has(rel.from)) {
+        if (typeNamesInModule.has(rel.to)) {
+          internalRelationships.push(rel);
+        } else {
+          externalRelationships.push(rel);
+        }
+      }
+    }
+
+    modules.push({
+      path,
+      types: moduleTypes,
+      internalRelationships,
+      externalRelationships,
+    });
+  }
+
+  return modules.sort((a, b) => a.path.localeCompare(b.path));
+}
+
 /**
  * Check if a type is a "domain entity" (likely to appear in ER diagrams)
  * Heuristic: has multiple fields and isn't a simple wrapper
@@ -1,65 +1,178 @@
+import { join } from "path";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { z } from "zod";
-import { loadConfig } from "./lib/config-loader.js";
+import { loadConfig, validateConfigFile, onConfigChange, type KnowledgeConfig } from "./lib/config-loader.js";
+import { watchConfig } from "./lib/config-watcher.js";
+import { buildConfigSchema, formatConfigIssue } from "./lib/config-schema.js";
+import { startHttpServer } from "./lib/http-server.js";
+import { jsonSchemaToZod, jsonSchemaToZodShape } from "./lib/json-schema-zod.js";
+import { createAuthenticator, getAccessPolicy, assertToolAllowed, runWithAccessPolicy } from "./lib/auth.js";
 import { toolHandlers } from "./tools.js";
 import { allTools } from "./tools/index.js";
+import { ToolHandler, isErrorResult, getKnowledgeDir, withTruncationWarning } from "./tools/shared.js";
 import { registerResources } from "./resources.js";
 import { registerPrompts } from "./prompts.js";
+import { initJobStore, runWithJobObserver, type JobObserver } from "./lib/job-manager.js";
+import { startScheduler } from "./lib/scheduler.js";
+import { collectTruncations } from "./lib/extraction-budget.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
 
-// Convert JSON Schema to Zod shape (for server.tool())
-function jsonSchemaToZodShape(schema: Record<string, unknown>): Record<string, z.ZodTypeAny> {
-  const properties = schema.properties as
-    | Record<string, { type?: string; description?: string; enum?: string[] }>
-    | undefined;
-  const required = (schema.required as string[]) || [];
+interface ServerOptions {
+  transport: "stdio" | "http";
+  host: string;
+  port: number;
+}
 
-  if (!properties || Object.keys(properties).length === 0) {
-    return {};
+/**
+ * Resolve transport options from CLI flags (--transport, --host, --port),
+ * falling back to ORGBRAIN_TRANSPORT / ORGBRAIN_HOST / ORGBRAIN_PORT.
+ */
+function parseServerOptions(argv: string[]): ServerOptions {
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const match = arg.match(/^--(transport|host|port)(?:=(.*))?$/);
+    if (match) {
+      flags[match[1]] = match[2] ?? argv[++i];
+    } else if (arg === "--http") {
+      flags.transport = "http";
+    }
   }
 
-  const shape: Record<string, z.ZodTypeAny> = {};
+  const transport = flags.transport ?? process.env.ORGBRAIN_TRANSPORT ?? "stdio";
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(`Invalid transport "${transport}" (expected "stdio" or "http")`);
+  }
 
-  for (const [key, prop] of Object.entries(properties)) {
-    let field: z.ZodTypeAny;
+  const port = parseInt(flags.port ?? process.env.ORGBRAIN_PORT ?? "3000", 10);
+  if (isNaN(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${flags.port ?? process.env.ORGBRAIN_PORT}"`);
+  }
 
-    if (prop.enum) {
-      field = z.enum(prop.enum as [string, ...string[]]);
-    } else if (prop.type === "number") {
-      field = z.number();
-    } else if (prop.type === "boolean") {
-      field = z.boolean();
-    } else {
-      field = z.string();
-    }
+  return {
+    transport,
+    host: flags.host ?? process.env.ORGBRAIN_HOST ?? "127.0.0.1",
+    port,
+  };
+}
 
-    if (prop.description) {
-      field = field.describe(prop.description);
-    }
+/** Connected servers (one per HTTP session, or the single stdio server) */
+const liveServers = new Set<McpServer>();
 
-    if (!required.includes(key)) {
-      field = field.optional();
+/**
+ * Enabled repos, in a comparable form
+ */
+function repoSetKey(config: KnowledgeConfig | undefined): string {
+  if (!config) return "";
+  return Object.entries(config.repositories)
+    .filter(([, repo]) => repo.enabled !== false)
+    .map(([name]) => name)
+    .sort()
+    .join("\n");
+}
+
+/**
+ * Tell connected clients to re-list resources when the set of enabled repos changes
+ */
+function notifyRepoSetChanges(): void {
+  onConfigChange((next, previous) => {
+    if (repoSetKey(next) === repoSetKey(previous)) return;
+
+    for (const server of liveServers) {
+      if (server.isConnected()) server.sendResourceListChanged();
     }
+  });
+}
 
-    shape[key] = field;
-  }
+/**
+ * Stream the jobs a tool call starts to the calling client: job events become
+ * notifications/message (subject to logging/setLevel) for as long as the job runs,
+ * and progress becomes notifications/progress while the call is open and the
+ * client asked for it with a progressToken. Call `close()` once the call returns.
+ */
+function streamJobsToClient(
+  server: McpServer,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): JobObserver & { close(): void } {
+  const progressToken = extra._meta?.progressToken;
+  let open = true;
+  let lastProgress = -1;
 
-  return shape;
+  return {
+    progress(_job, progress) {
+      // Progress must increase with every notification and stop with the response
+      if (!open || progressToken === undefined || progress.current <= lastProgress) return;
+      lastProgress = progress.current;
+      extra
+        .sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress: progress.current, total: progress.total, message: progress.message },
+        })
+        .catch(() => {});
+    },
+    event(job, event) {
+      if (!server.isConnected()) return;
+      server
+        .sendLoggingMessage(
+          {
+            level: event.level,
+            logger: `orgbrain.jobs.${job.type}`,
+            data: { jobId: job.id, message: event.message, repo: event.repo, ref: event.ref },
+          },
+          extra.sessionId
+        )
+        .catch(() => {});
+    },
+    close() {
+      open = false;
+    },
+  };
 }
 
-async function main() {
-  const configPath = process.env.MCP_CONFIG ?? "config/repos.yaml";
-  await loadConfig(configPath);
+/**
+ * Build an McpServer with all tools, resources and prompts registered.
+ * In HTTP mode this is called once per client session.
+ */
+async function createServer(): Promise<McpServer> {
+  const server = new McpServer(
+    {
+      name: "orgbrain",
+      version: "0.1.0",
+    },
+    { capabilities: { logging: {} } }
+  );
+  liveServers.add(server);
+  server.server.onclose = () => liveServers.delete(server);
 
-  const server = new McpServer({
-    name: "orgbrain",
-    version: "0.1.0",
-  });
+  // Register all tools (legacy + refactored v2), enforcing the caller's access policy
+  const tools: ToolHandler[] = [...toolHandlers, ...allTools];
+  tools.forEach(({ name, description, schema, outputSchema, handler }) => {
+    const inputSchema = jsonSchemaToZodShape(schema);
+    server.registerTool(
+      name,
+      {
+        description,
+        inputSchema,
+        outputSchema: outputSchema ? jsonSchemaToZod(outputSchema) : undefined,
+      },
+      async (args: Record<string, unknown>, extra) => {
+        const policy = getAccessPolicy(extra.authInfo);
+        assertToolAllowed(policy, name, args);
+        const jobStream = streamJobsToClient(server, extra);
+        const answer = await runWithAccessPolicy(policy, () =>
+          runWithJobObserver(jobStream, () => collectTruncations(() => handler(args)))
+        ).finally(() => jobStream.close());
+        const result = withTruncationWarning(answer.result, answer.notices);
 
-  // Register all tools (legacy + refactored v2)
-  [...toolHandlers, ...allTools].forEach(({ name, description, schema, handler }) => {
-    const zodShape = jsonSchemaToZodShape(schema);
-    server.tool(name, description, zodShape, handler);
+        // Only tools with an output schema return structuredContent; error
+        // payloads are flagged so they are not validated against the schema
+        if (!outputSchema) {
+          return { content: result.content };
+        }
+        return isErrorResult(result) ? { ...result, isError: true } : result;
+      }
+    );
   });
 
   // Register resources for direct file access
@@ -68,6 +181,139 @@ async function main() {
   // Register prompts (slash commands)
   await registerPrompts(server);
 
+  return server;
+}
+
+/**
+ * --validate-config [path]: validate the config and exit (non-zero if invalid)
+ */
+async function validateConfigCommand(configPath: string): Promise<number> {
+  const result = await validateConfigFile(configPath);
+
+  if (result.valid) {
+    console.log(`${result.path}: OK`);
+    return 0;
+  }
+
+  console.error(`${result.path}: ${result.issues.length} problem(s)`);
+  for (const issue of result.issues) {
+    console.error(`  ${formatConfigIssue(issue)}`);
+  }
+  return 1;
+}
+
+/**
+ * --check-type-compatibility <type> [--producer repo[:Type]] [--consumer repo[:Type]] [--fail-on severity]:
+ * check the extracted definitions of a type against each other and exit
+ * non-zero when they are incompatible (for CI)
+ */
+async function checkTypeCompatibilityCommand(argv: string[], configPath: string): Promise<number> {
+  const flags: Record<string, string | undefined> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^--(check-type-compatibility|producer|consumer|fail-on)(?:=(.*))?$/);
+    if (match) {
+      flags[match[1]] = match[2] ?? (argv[i + 1]?.startsWith("--") ? undefined : argv[++i]);
+    }
+  }
+  const [producerRepo, producerType] = flags.producer?.split(":") ?? [];
+  const [consumerRepo, consumerType] = flags.consumer?.split(":") ?? [];
+
+  await loadConfig(configPath);
+  const tool = allTools.find((t) => t.name === "check_type_compatibility")!;
+  const result = await tool.handler({
+    name: flags["check-type-compatibility"],
+    producerRepo,
+    producerType,
+    consumerRepo,
+    consumerType,
+    failOn: flags["fail-on"],
+  });
+
+  const output = result.structuredContent ?? {};
+  if (isErrorResult(result)) {
+    console.error(`${output.error}: ${output.message}`);
+    return 1;
+  }
+
+  type Side = { repo: string; name: string; language: string };
+  const pairs = output.pairs as Array<{
+    producer: Side;
+    consumer: Side;
+    compatible: boolean;
+    findings: Array<{ severity: string; message: string }>;
+  }>;
+  for (const { producer, consumer, compatible, findings } of pairs) {
+    console.log(
+      `${producer.repo}/${producer.name} (${producer.language}) -> ${consumer.repo}/${consumer.name} (${consumer.language}): ${compatible ? "OK" : "incompatible"}`
+    );
+    for (const finding of findings) {
+      console.log(`  ${finding.severity.padEnd(7)} ${finding.message}`);
+    }
+  }
+  return output.compatible ? 0 : 1;
+}
+
+async function main() {
+  const argv = process.argv.slice(2);
+  const configPath = process.env.MCP_CONFIG ?? "config/repos.yaml";
+
+  const validateIndex = argv.indexOf("--validate-config");
+  if (validateIndex !== -1) {
+    const pathArg = argv[validateIndex + 1];
+    process.exit(await validateConfigCommand(pathArg && !pathArg.startsWith("--") ? pathArg : configPath));
+  }
+
+  if (argv.some((arg) => arg.startsWith("--check-type-compatibility"))) {
+    process.exit(await checkTypeCompatibilityCommand(argv, configPath));
+  }
+
+  if (argv.includes("--print-config-schema")) {
+    console.log(JSON.stringify(buildConfigSchema(), null, 2));
+    return;
+  }
+
+  const options = parseServerOptions(argv);
+  const config = await loadConfig(configPath);
+
+  notifyRepoSetChanges();
+  if (!["0", "false"].includes(process.env.ORGBRAIN_WATCH_CONFIG ?? "")) {
+    await watchConfig();
+  }
+
+  // Job history lives next to the extracted knowledge; orphaned unfinished jobs are resumed or marked interrupted
+  const jobs = await initJobStore(join(await getKnowledgeDir(), ".jobs"));
+  if (jobs.resumed.length > 0 || jobs.interrupted.length > 0) {
+    console.error(`Jobs: ${jobs.resumed.length} resumed, ${jobs.interrupted.length} interrupted by the last shutdown`);
+  }
+
+  if (!["0", "false"].includes(process.env.ORGBRAIN_SCHEDULER ?? "")) {
+    startScheduler();
+  }
+
+  if (options.transport === "http") {
+    let authenticate = config.auth ? createAuthenticator(config.auth) : undefined;
+
+    if (authenticate) {
+      // Pick up token changes on reload; removing the auth section still requires a restart
+      onConfigChange((next) => {
+        authenticate = createAuthenticator(next.auth ?? { tokens: [] });
+      });
+    } else {
+      console.error("Warning: no auth section in config - HTTP server accepts unauthenticated requests");
+    }
+
+    await startHttpServer(createServer, {
+      host: options.host,
+      port: options.port,
+      authenticate: authenticate ? (req) => authenticate!(req) : undefined,
+    });
+    console.error(
+      `MCP server ready on http://${options.host}:${options.port}/mcp (SSE fallback at /sse) with config: ${configPath}`
+    );
+    return;
+  }
+
+  const server = await createServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
@@ -0,0 +1,208 @@
+/**
+ * Bearer-token authentication and per-token access policies for the
+ * networked (HTTP) server.
+ *
+ * Tokens are defined under `auth.tokens` in repos.yaml. Each token resolves to
+ * an AccessPolicy that limits which tools, resource URIs and repositories the
+ * caller may touch. The policy for the current request is tracked with
+ * AsyncLocalStorage so shared helpers can filter repos without every handler
+ * having to thread it through.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash, timingSafeEqual } from "crypto";
+import type { IncomingMessage } from "http";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { AuthConfig, AuthRole } from "./config-loader.js";
+
+/** JSON-RPC error code used when a call is rejected by an access policy */
+export const ACCESS_DENIED_ERROR_CODE = -32003;
+
+/** Tools that modify config/repos.yaml or the knowledge store */
+const ORG_MANAGEMENT_TOOLS = ["connect_org", "disconnect_repo", "toggle_repo"];
+const EXTRACTION_TOOLS = ["extract_ref", "extract_all", "cancel_job", "export_knowledge", "import_knowledge"];
+
+/** Tool argument names that carry a repository name (or comma-separated list) */
+const REPO_ARGUMENTS = ["repo", "repos"];
+
+export interface AccessPolicy {
+  name: string;
+  role: AuthRole;
+  tools?: string[];
+  resources?: string[];
+  repos?: string[];
+}
+
+interface ResolvedToken {
+  digest: Buffer;
+  policy: AccessPolicy;
+}
+
+const policyStorage = new AsyncLocalStorage<AccessPolicy | undefined>();
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+function roleAllowsTool(role: AuthRole, tool: string): boolean {
+  switch (role) {
+    case "admin":
+      return true;
+    case "maintainer":
+      return !ORG_MANAGEMENT_TOOLS.includes(tool);
+    case "reader":
+      return !ORG_MANAGEMENT_TOOLS.includes(tool) && !EXTRACTION_TOOLS.includes(tool);
+  }
+}
+
+/**
+ * Resolve configured tokens, reading token_env values from the environment.
+ * Entries without a usable token value are skipped with a warning.
+ */
+function resolveTokens(config: AuthConfig): ResolvedToken[] {
+  const resolved: ResolvedToken[] = [];
+
+  for (const entry of config.tokens || []) {
+    const value = entry.token_env ? process.env[entry.token_env] : entry.token;
+    if (!value) {
+      console.warn(
+        `Auth token "${entry.name}" has no value${entry.token_env ? ` (env ${entry.token_env} is not set)` : ""}; skipping`
+      );
+      continue;
+    }
+
+    resolved.push({
+      digest: digest(value),
+      policy: {
+        name: entry.name,
+        role: entry.role || "reader",
+        tools: entry.tools,
+        resources: entry.resources,
+        repos: entry.repos,
+      },
+    });
+  }
+
+  return resolved;
+}
+
+/**
+ * Build an HTTP request authenticator from the auth config.
+ * Returns AuthInfo for a valid bearer token, or null if the request is rejected.
+ */
+export function createAuthenticator(config: AuthConfig): (req: IncomingMessage) => AuthInfo | null {
+  const tokens = resolveTokens(config);
+
+  return (req) => {
+    const header = req.headers.authorization;
+    const match = header?.match(/^Bearer\s+(.+)$/i);
+    if (!match) return null;
+
+    const presented = digest(match[1].trim());
+    const found = tokens.find((t) => timingSafeEqual(t.digest, presented));
+    if (!found) return null;
+
+    return {
+      token: match[1].trim(),
+      clientId: found.policy.name,
+      scopes: [found.policy.role],
+      extra: { policy: found.policy },
+    };
+  };
+}
+
+/**
+ * Extract the access policy attached to a request, if any.
+ * Requests without one (stdio, or HTTP without auth configured) are unrestricted.
+ */
+export function getAccessPolicy(authInfo?: AuthInfo): AccessPolicy | undefined {
+  return authInfo?.extra?.policy as AccessPolicy | undefined;
+}
+
+/**
+ * Run `fn` with `policy` as the current request's access policy
+ */
+export function runWithAccessPolicy<T>(policy: AccessPolicy | undefined, fn: () => T): T {
+  return policyStorage.run(policy, fn);
+}
+
+/**
+ * Access policy of the request currently being handled (undefined = unrestricted)
+ */
+export function currentAccessPolicy(): AccessPolicy | undefined {
+  return policyStorage.getStore();
+}
+
+export function isToolAllowed(policy: AccessPolicy | undefined, tool: string): boolean {
+  if (!policy) return true;
+  if (policy.tools) return policy.tools.includes(tool);
+  return roleAllowsTool(policy.role, tool);
+}
+
+export function isRepoAllowed(policy: AccessPolicy | undefined, repo: string): boolean {
+  if (!policy?.repos) return true;
+  return policy.repos.includes(repo);
+}
+
+export function isResourceAllowed(policy: AccessPolicy | undefined, uri: string): boolean {
+  if (!policy?.resources) return true;
+  return policy.resources.some((prefix) => uri.startsWith(prefix));
+}
+
+/**
+ * Filter repo names down to those the current request may access
+ */
+export function filterAllowedRepos(repos: string[]): string[] {
+  const policy = currentAccessPolicy();
+  return repos.filter((repo) => isRepoAllowed(policy, repo));
+}
+
+function accessDenied(message: string): McpError {
+  return new McpError(ACCESS_DENIED_ERROR_CODE, `Access denied: ${message}`);
+}
+
+/**
+ * Throw an MCP error if the policy does not permit calling `tool` with `args`
+ */
+export function assertToolAllowed(
+  policy: AccessPolicy | undefined,
+  tool: string,
+  args: Record<string, unknown>
+): void {
+  if (!policy) return;
+
+  if (!isToolAllowed(policy, tool)) {
+    throw accessDenied(`token "${policy.name}" (role: ${policy.role}) is not permitted to call tool "${tool}"`);
+  }
+
+  for (const key of REPO_ARGUMENTS) {
+    const value = args[key];
+    const repos = Array.isArray(value)
+      ? value.filter((r): r is string => typeof r === "string")
+      : typeof value === "string"
+        ? value.split(",").map((r) => r.trim()).filter(Boolean)
+        : [];
+
+    for (const repo of repos) {
+      if (!isRepoAllowed(policy, repo)) {
+        throw accessDenied(`token "${policy.name}" is not permitted to access repository "${repo}"`);
+      }
+    }
+  }
+}
+
+/**
+ * Throw an MCP error if the policy does not permit reading resource `uri`
+ */
+export function assertResourceAllowed(policy: AccessPolicy | undefined, uri: string, repo?: string): void {
+  if (!policy) return;
+
+  if (!isResourceAllowed(policy, uri)) {
+    throw accessDenied(`token "${policy.name}" is not permitted to read resource "${uri}"`);
+  }
+
+  if (repo && !isRepoAllowed(policy, repo)) {
+    throw accessDenied(`token "${policy.name}" is not permitted to access repository "${repo}"`);
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Content-addressed blob storage for extractor outputs.
+ *
+ * Each value is serialized to compact JSON, hashed (SHA-256) and stored
+ * gzip-compressed as `<dir>/<first 2 hash chars>/<hash>.json.gz`. Identical
+ * outputs (e.g. an extractor whose result did not change between tags) are
+ * stored once, whichever repo, ref or snapshot they belong to.
+ */
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import { join } from "path";
+import { promisify } from "util";
+import { gzip, gunzip, gzipSync, gunzipSync } from "zlib";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+/** Blobs younger than this are never collected, so a save in progress doesn't lose blobs it wrote before its manifest */
+export const GC_GRACE_MS = 60 * 60 * 1000;
+
+export interface GcResult {
+  /** Blobs removed */
+  removed: number;
+  /** Blobs still referenced (or too recent to collect) */
+  kept: number;
+  /** Compressed bytes freed */
+  bytesFreed: number;
+}
+
+/**
+ * Serialize a value for storage; returns its hash and compressed bytes
+ */
+export function encodeBlob(value: unknown): { hash: string; data: Buffer } {
+  const json = JSON.stringify(value);
+  return { hash: createHash("sha256").update(json).digest("hex"), data: gzipSync(json) };
+}
+
+export function decodeBlob(data: Buffer): unknown {
+  return JSON.parse(gunzipSync(data).toString("utf-8"));
+}
+
+export class BlobStore {
+  constructor(private dir: string) {}
+
+  private path(hash: string): string {
+    return join(this.dir, hash.slice(0, 2), `${hash}.json.gz`);
+  }
+
+  /**
+   * Store a value, returning its hash. Existing blobs are not rewritten.
+   */
+  async put(value: unknown): Promise<string> {
+    const json = JSON.stringify(value);
+    const hash = createHash("sha256").update(json).digest("hex");
+    const file = this.path(hash);
+
+    try {
+      // Already stored: refresh its mtime so a concurrent gc sees it as recent
+      const now = new Date();
+      await fs.utimes(file, now, now);
+      return hash;
+    } catch {
+      // not stored yet
+    }
+
+    await fs.mkdir(join(this.dir, hash.slice(0, 2)), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, await gzipAsync(json));
+    await fs.rename(tmp, file);
+    return hash;
+  }
+
+  async get(hash: string): Promise<unknown | null> {
+    try {
+      const content = await gunzipAsync(await fs.readFile(this.path(hash)));
+      return JSON.parse(content.toString("utf-8"));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Remove blobs that are not in `referenced` and older than the grace period
+   */
+  async gc(referenced: Set<string>, now: number = Date.now()): Promise<GcResult> {
+    const result: GcResult = { removed: 0, kept: 0, bytesFreed: 0 };
+
+    let prefixes: string[];
+    try {
+      prefixes = await fs.readdir(this.dir);
+    } catch {
+      return result;
+    }
+
+    for (const prefix of prefixes) {
+      let files: string[];
+      try {
+        files = await fs.readdir(join(this.dir, prefix));
+      } catch {
+        continue;
+      }
+
+      for (const file of files) {
+        const hash = file.replace(/\.json\.gz$/, "");
+        const path = join(this.dir, prefix, file);
+        if (referenced.has(hash)) {
+          result.kept++;
+          continue;
+        }
+
+        try {
+          const stat = await fs.stat(path);
+          if (now - stat.mtimeMs < GC_GRACE_MS) {
+            result.kept++;
+            continue;
+          }
+          await fs.rm(path, { force: true });
+          result.removed++;
+          result.bytesFreed += stat.size;
+        } catch {
+          // removed concurrently
+        }
+      }
+    }
+
+    return result;
+  }
+}
@@ -1,7 +1,21 @@
 import { promises as fs } from "fs";
-import { parse } from "yaml";
 import { join, dirname, resolve } from "path";
 import { fileURLToPath } from "url";
+import { glob, hasMagic } from "glob";
+import {
+  parseConfigSource,
+  validateEffectiveConfig,
+  sortConfigIssues,
+  formatConfigIssue,
+  type ConfigIssue,
+  type ConfigOrigin,
+  type ConfigSource,
+  type ConfigValidationResult,
+  type PathSegment,
+} from "./config-schema.js";
+import type { StorageBackendName } from "./knowledge-store.js";
+import type { RetentionPolicy } from "./snapshots.js";
+import type { BudgetConfig } from "./extraction-budget.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -10,6 +24,8 @@ const DEFAULT_CONFIG = join(__dirname, "..", "..", "config", "repos.yaml");
 export interface ExtractorConfig {
   name: string;
   config?: Record<string, unknown>;
+  /** Overrides the repo's budget for this extractor */
+  budget?: BudgetConfig;
 }
 
 export interface TrackConfig {
@@ -21,14 +37,19 @@ export interface TrackConfig {
 }
 
 export interface RepoConfig {
-  url: string;
+  url?: string; // git URL, cloned into cache_dir (either url or path is required)
+  path?: string; // local checkout read in place, including uncommitted changes
+
   description: string;
   type: "frontend" | "backend" | "infrastructure" | "library" | "documentation" | "unknown" | string;
   language: string;
   default_branch: string;
   private?: boolean;
   enabled?: boolean; // defaults to true; set to false to exclude from extraction/queries
-  track: TrackConfig;
+  profile?: string | string[]; // profiles applied (in order) on top of `defaults`
+  track?: TrackConfig; // required for url repos; optional for local paths (working tree is always extracted)
+  schedule?: string | false; // cron expression for scheduled re-extraction (overrides the global one); false disables
+  budget?: BudgetConfig; // limits on what each extractor reads (see extraction-budget.ts)
   extractors: ExtractorConfig[];
 }
 
@@ -36,17 +57,74 @@ export interface DiagramStyles {
   [key: string]: string;
 }
 
+export type AuthRole = "admin" | "maintainer" | "reader";
+
+export interface AuthTokenConfig {
+  /** Human-readable name, reported as the client ID */
+  name: string;
+  /** Literal token value (prefer token_env to keep secrets out of the file) */
+  token?: string;
+  /** Environment variable holding the token value */
+  token_env?: string;
+  /** Role granting a default set of tools; defaults to "reader" */
+  role?: AuthRole;
+  /** Explicit tool allowlist; replaces the role's defaults when set */
+  tools?: string[];
+  /** Allowed resource URI prefixes (e.g., "knowledge://extracted/my-app/"); all when omitted */
+  resources?: string[];
+  /** Allowed repository names; all when omitted */
+  repos?: string[];
+}
+
+export interface AuthConfig {
+  tokens: AuthTokenConfig[];
+}
+
+export interface StorageConfig {
+  backend?: StorageBackendName;
+  /** Snapshots kept per ref (default: daily for 30 days, weekly for 52 weeks) */
+  retention?: RetentionPolicy;
+}
+
 export interface KnowledgeConfig {
   version: string;
+  /** Other config files or globs merged into this one, relative to the including file */
+  include?: string[];
   cache_dir: string;
   knowledge_dir: string;
   diagram_styles?: DiagramStyles;
+  /** Cron expression for re-extracting repos whose tracked refs changed (repos can override it) */
+  schedule?: string;
+  /** Storage for extracted knowledge: JSON files (default) or an indexed SQLite database */
+  storage?: StorageConfig;
+  /** Settings applied to every repo, before profiles and the repo's own settings */
+  defaults?: Partial<RepoConfig>;
+  /** Named repo settings, referenced by `profile` */
+  profiles?: Record<string, Partial<RepoConfig>>;
+  /** Effective repo configs (defaults and profiles applied) */
   repositories: Record<string, RepoConfig>;
   analysis?: Record<string, unknown>;
+  /** API tokens for the networked (HTTP) server; ignored on stdio */
+  auth?: AuthConfig;
 }
 
-let cachedConfig: KnowledgeConfig | null = null;
+/** Result of loading a config file together with everything it includes */
+export interface ComposedConfig extends ConfigValidationResult {
+  path: string;
+  /** Effective config (absent if a file could not be read or parsed) */
+  config?: KnowledgeConfig;
+  /** Every file that contributed, in merge order (includes before the including file) */
+  files: string[];
+  /** File each repo is defined in (the last one, if several) */
+  repoSources: Record<string, string>;
+}
+
+/** Called after a reload swaps in a new config */
+export type ConfigChangeListener = (next: KnowledgeConfig, previous: KnowledgeConfig | undefined) => void;
+
+let cachedConfig: ComposedConfig | null = null;
 let cachedPath: string | null = null;
+const changeListeners = new Set<ConfigChangeListener>();
 
 function getConfigPath(): string {
   if (process.env.MCP_CONFIG) {
@@ -55,19 +133,204 @@ function getConfigPath(): string {
   return DEFAULT_CONFIG;
 }
 
-export async function loadConfig(customPath?: string): Promise<KnowledgeConfig> {
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Merge `override` into `base`: objects merge recursively, arrays and scalars are replaced
+ */
+function deepMerge(base: unknown, override: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override === undefined ? base : override;
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = deepMerge(merged[key], value);
+  }
+  return merged;
+}
+
+function toArray(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+/**
+ * Read a config file and (depth-first) the files it includes.
+ * Sources are appended in merge order: a file's includes before the file itself.
+ */
+async function readSources(
+  path: string,
+  content: string | undefined,
+  sources: ConfigSource[],
+  issues: ConfigIssue[],
+  stack: string[] = []
+): Promise<void> {
+  if (stack.includes(path)) {
+    issues.push({ file: stack[stack.length - 1], path: "include", message: `include cycle: ${[...stack, path].join(" -> ")}` });
+    return;
+  }
+  if (sources.some((s) => s.file === path)) return;
+
+  if (content === undefined) {
+    try {
+      content = await fs.readFile(path, "utf-8");
+    } catch (error) {
+      issues.push({ file: stack[stack.length - 1] ?? path, path: "include", message: `cannot read ${path}: ${error}` });
+      return;
+    }
+  }
+
+  const parsed = parseConfigSource(content, path);
+  issues.push(...parsed.issues);
+  if (!parsed.source) return;
+
+  for (const pattern of toArray(parsed.source.value.include)) {
+    const dir = dirname(path);
+    const files = hasMagic(pattern) ? (await glob(pattern, { cwd: dir, absolute: true, nodir: true })).sort() : [resolve(dir, pattern)];
+    for (const file of files) {
+      await readSources(file, undefined, sources, issues, [...stack, path]);
+    }
+  }
+
+  sources.push(parsed.source);
+}
+
+/**
+ * Load a config file with its includes, merge them, apply `defaults` and
+ * `profiles` to every repo, and validate the result.
+ * `content` replaces the main file's content (e.g. to validate an unsaved edit).
+ */
+export async function composeConfig(customPath?: string, content?: string): Promise<ComposedConfig> {
+  const path = customPath ? resolve(customPath) : getConfigPath();
+  const sources: ConfigSource[] = [];
+  const issues: ConfigIssue[] = [];
+
+  await readSources(path, content, sources, issues);
+
+  const files = sources.map((s) => s.file);
+  if (!sources.some((s) => s.file === path)) {
+    return { path, valid: false, issues: sortConfigIssues(issues), files, repoSources: {} };
+  }
+
+  // Merge files in order; later files override earlier ones
+  let merged: Record<string, unknown> = {};
+  let defaults: unknown = {};
+  const profiles: Record<string, unknown> = {};
+  const repositories: Record<string, unknown> = {};
+  const defaultsOrigins: ConfigSource[] = [];
+  const profileOrigins = new Map<string, ConfigSource[]>();
+  const repoOrigins = new Map<string, ConfigSource[]>();
+
+  for (const source of sources) {
+    const { include: _include, defaults: fileDefaults, profiles: fileProfiles, repositories: fileRepos, ...rest } =
+      source.value;
+    merged = deepMerge(merged, rest) as Record<string, unknown>;
+
+    if (isPlainObject(fileDefaults)) {
+      defaults = deepMerge(defaults, fileDefaults);
+      defaultsOrigins.push(source);
+    }
+    for (const [name, profile] of Object.entries(isPlainObject(fileProfiles) ? fileProfiles : {})) {
+      profiles[name] = deepMerge(profiles[name], profile);
+      profileOrigins.set(name, [...(profileOrigins.get(name) || []), source]);
+    }
+    for (const [name, repo] of Object.entries(isPlainObject(fileRepos) ? fileRepos : {})) {
+      // Local paths are relative to the file that declares them
+      const local = isPlainObject(repo) && typeof repo.path === "string" ? { path: resolve(dirname(source.file), repo.path) } : {};
+      repositories[name] = deepMerge(repositories[name], { ...(repo as object), ...local });
+      repoOrigins.set(name, [...(repoOrigins.get(name) || []), source]);
+    }
+  }
+
+  // Apply defaults, then profiles in order, then the repo's own settings
+  const effectiveRepos: Record<string, unknown> = {};
+  const repoProfiles = new Map<string, string[]>();
+
+  for (const [name, repo] of Object.entries(repositories)) {
+    const names = toArray((deepMerge(defaults, repo) as Record<string, unknown> | undefined)?.profile);
+    repoProfiles.set(name, names);
+
+    let effective = defaults;
+    for (const profile of names) {
+      if (!(profile in profiles)) {
+        const definers = repoOrigins.get(name)!;
+        const origin = [...definers].reverse().find((s) => s.doc.hasIn(["repositories", name, "profile"])) ?? definers.at(-1)!;
+        const available = Object.keys(profiles);
+        issues.push({
+          ...locateIn(origin, ["repositories", name, "profile"]),
+          path: `repositories.${name}.profile`,
+          message: `unknown profile "${profile}"${available.length ? ` (available: ${available.join(", ")})` : ""}`,
+        });
+        continue;
+      }
+      effective = deepMerge(effective, profiles[profile]);
+    }
+    effectiveRepos[name] = deepMerge(effective, repo) ?? {};
+  }
+
+  const config = { ...merged, defaults, profiles, repositories: effectiveRepos } as unknown as KnowledgeConfig;
+
+  // Map a path in the effective config back to the files that may define it
+  const origins = (target: PathSegment[]): ConfigOrigin[] => {
+    if (target[0] === "repositories" && target.length >= 2) {
+      const name = String(target[1]);
+      const rest = target.slice(2);
+      return [
+        ...(repoOrigins.get(name) || []).map((source) => ({ source, path: target })).reverse(),
+        ...[...(repoProfiles.get(name) || [])].reverse().flatMap((profile) =>
+          (profileOrigins.get(profile) || []).map((source) => ({ source, path: ["profiles", profile, ...rest] })).reverse()
+        ),
+        ...defaultsOrigins.map((source) => ({ source, path: ["defaults", ...rest] })).reverse(),
+      ];
+    }
+    return [...sources].reverse().map((source) => ({ source, path: target }));
+  };
+
+  issues.push(...validateEffectiveConfig(config, origins));
+
+  const repoSources = Object.fromEntries([...repoOrigins].map(([name, origin]) => [name, origin.at(-1)!.file]));
+  return { path, valid: issues.length === 0, issues: sortConfigIssues(issues), config, files, repoSources };
+}
+
+/**
+ * File, line and column of a path within one source
+ */
+function locateIn(source: ConfigSource, path: PathSegment[]): Pick<ConfigIssue, "file" | "line" | "column"> {
+  const node = source.doc.getIn(path, true) as { range?: [number, number, number] } | undefined;
+  const pos = node?.range ? source.lineCounter.linePos(node.range[0]) : undefined;
+  return { file: source.file, line: pos?.line, column: pos?.col };
+}
+
+/**
+ * Load the composed config (cached), throwing if any file is invalid
+ */
+export async function loadComposedConfig(customPath?: string): Promise<ComposedConfig> {
   const path = customPath ? resolve(customPath) : getConfigPath();
 
   if (cachedConfig && cachedPath === path) return cachedConfig;
 
-  try {
-    const content = await fs.readFile(path, "utf-8");
-    cachedConfig = parse(content) as KnowledgeConfig;
-    cachedPath = path;
-    return cachedConfig;
-  } catch (error) {
-    throw new Error(`Failed to load config from ${path}: ${error}`);
+  const result = await composeConfig(path);
+  if (!result.valid || !result.config) {
+    throw new Error(`Invalid config ${path}:\n${result.issues.map((i) => `  ${formatConfigIssue(i)}`).join("\n")}`);
   }
+
+  cachedConfig = result;
+  cachedPath = path;
+  return cachedConfig;
+}
+
+export async function loadConfig(customPath?: string): Promise<KnowledgeConfig> {
+  return (await loadComposedConfig(customPath)).config!;
+}
+
+/**
+ * Validate a config file (and its includes) without loading it or touching the cache
+ */
+export async function validateConfigFile(customPath?: string, content?: string): Promise<ComposedConfig> {
+  return composeConfig(customPath, content);
 }
 
 export function clearConfigCache(): void {
@@ -75,6 +338,37 @@ export function clearConfigCache(): void {
   cachedPath = null;
 }
 
+/**
+ * Subscribe to config reloads. Returns an unsubscribe function.
+ */
+export function onConfigChange(listener: ConfigChangeListener): () => void {
+  changeListeners.add(listener);
+  return () => changeListeners.delete(listener);
+}
+
+/**
+ * Re-read the active config and, if it is valid, swap it in and notify listeners.
+ * An invalid config is reported in the result and the current one stays in use.
+ */
+export async function reloadConfig(): Promise<ComposedConfig> {
+  const path = getConfigPath();
+  const result = await composeConfig(path);
+  if (!result.valid || !result.config) return result;
+
+  const previous = cachedPath === path ? cachedConfig?.config : undefined;
+  cachedConfig = result;
+  cachedPath = path;
+
+  for (const listener of changeListeners) {
+    try {
+      listener(result.config, previous);
+    } catch (error) {
+      console.error("Config change listener failed:", error);
+    }
+  }
+  return result;
+}
+
 export async function getRepoConfig(repoName: string): Promise<RepoConfig> {
   const config = await loadConfig();
   const repo = config.repositories[repoName];
@@ -0,0 +1,536 @@
+/**
+ * JSON Schema for config/repos.yaml and validation with YAML source locations.
+ *
+ * Each config file (the main one and anything it includes) is parsed,
+ * env-interpolated and checked against the source schema, where repos may be
+ * partial. The merged config is then checked against the effective schema,
+ * which requires the fields every repo needs and validates each extractor's
+ * `config` block against that extractor's own `configSchema`.
+ */
+
+import {
+  parseDocument,
+  visit,
+  LineCounter,
+  isMap,
+  isNode,
+  isPair,
+  isScalar,
+  isSeq,
+  type Document,
+} from "yaml";
+import type { ZodIssue } from "zod";
+import { jsonSchemaToZod, type JsonSchema } from "./json-schema-zod.js";
+import { listExtractors } from "./extractor-base.js";
+import { parseCron } from "./cron.js";
+import "../extractors/index.js"; // Register all extractors
+
+export interface ConfigIssue {
+  /** Config file the issue was found in */
+  file?: string;
+  /** Dotted path to the offending value (e.g. "repositories.my-app.track.tags") */
+  path: string;
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export interface ConfigValidationResult {
+  valid: boolean;
+  issues: ConfigIssue[];
+}
+
+export type PathSegment = string | number;
+
+/** A parsed (and env-interpolated) config file, kept for locating issues */
+export interface ConfigSource {
+  file: string;
+  doc: Document;
+  lineCounter: LineCounter;
+  value: Record<string, unknown>;
+}
+
+/** Where a value of the merged config was (or may have been) defined */
+export interface ConfigOrigin {
+  source: ConfigSource;
+  path: PathSegment[];
+}
+
+const STRING_ARRAY: JsonSchema = { type: "array", items: { type: "string" } };
+
+const TRACK_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    branches: { ...STRING_ARRAY, description: "Branches to extract" },
+    tags: {
+      type: "object",
+      properties: {
+        pattern: { type: "string", description: "Glob pattern for tags to track (e.g. \"v*\")" },
+        latest: { type: "integer", minimum: 1, description: "Number of most recent matching tags (default: 5)" },
+      },
+      required: ["pattern"],
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
+
+const BUDGET_SCHEMA: JsonSchema = {
+  type: "object",
+  description: "Limits on what each extractor reads; outputs record what they left out",
+  properties: {
+    max_files: { type: "integer", minimum: 1, description: "Most files one extractor reads (default: 5000)" },
+    max_bytes: { type: "integer", minimum: 1, description: "Most bytes one extractor reads (default: 100 MB)" },
+    max_seconds: { type: "number", exclusiveMinimum: 0, description: "Seconds before an extractor stops reading (default: 600)" },
+    prioritize: { ...STRING_ARRAY, description: "Path fragments whose files are read first, in order" },
+  },
+  additionalProperties: false,
+};
+
+const EXTRACTOR_ENTRY_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string", description: "Registered extractor name" },
+    config: { type: "object", description: "Extractor-specific options" },
+    budget: { ...BUDGET_SCHEMA, description: "Overrides the repo's budget for this extractor" },
+  },
+  required: ["name"],
+  additionalProperties: false,
+};
+
+function repoProperties(extractorEntry: JsonSchema): Record<string, JsonSchema> {
+  return {
+    url: { type: "string", minLength: 1, description: "Git clone URL" },
+    path: {
+      type: "string",
+      minLength: 1,
+      description: "Local checkout to read in place instead of cloning (relative to this file); its working tree is extracted",
+    },
+    description: { type: "string" },
+    type: { type: "string", description: "frontend, backend, infrastructure, library, documentation, ..." },
+    language: { type: "string" },
+    default_branch: { type: "string" },
+    private: { type: "boolean" },
+    enabled: { type: "boolean", description: "Set to false to exclude from extraction/queries (default: true)" },
+    profile: {
+      type: ["string", "array"],
+      items: { type: "string" },
+      description: "Profile name(s) from `profiles` to apply, in order",
+    },
+    track: TRACK_SCHEMA,
+    schedule: {
+      type: ["string", "boolean"],
+      description: "Cron expression for scheduled re-extraction (overrides the global `schedule`); false disables it",
+    },
+    budget: BUDGET_SCHEMA,
+    extractors: { type: "array", items: extractorEntry },
+  };
+}
+
+/** Repo settings as written in a file: any subset, completed by defaults/profiles */
+function repoFragmentSchema(extractorEntry: JsonSchema): JsonSchema {
+  return { type: "object", properties: repoProperties(extractorEntry), additionalProperties: false };
+}
+
+const AUTH_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    tokens: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string", minLength: 1 },
+          token: { type: "string", minLength: 1 },
+          token_env: { type: "string", minLength: 1 },
+          role: { type: "string", enum: ["admin", "maintainer", "reader"] },
+          tools: STRING_ARRAY,
+          resources: STRING_ARRAY,
+          repos: STRING_ARRAY,
+        },
+        required: ["name"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["tokens"],
+  additionalProperties: false,
+};
+
+function sourceSchema(extractorEntry: JsonSchema): JsonSchema {
+  const fragment = repoFragmentSchema(extractorEntry);
+  return {
+    type: "object",
+    properties: {
+      version: { type: ["string", "number"] },
+      include: { ...STRING_ARRAY, description: "Other config files or globs to merge, relative to this file" },
+      cache_dir: { type: "string" },
+      knowledge_dir: { type: "string" },
+      diagram_styles: { type: "object", additionalProperties: { type: "string" } },
+      schedule: {
+        type: "string",
+        description: "Cron expression (5 fields or @hourly/@daily/...) for re-extracting repos whose tracked refs changed",
+      },
+      storage: {
+        type: "object",
+        properties: {
+          backend: { type: "string", enum: ["json", "sqlite"], description: "Where extracted knowledge is stored (default: json)" },
+          retention: {
+            type: "object",
+            description:
+              "Snapshots kept per ref: the `last` N, plus the newest per day/week/month within the last N days/weeks/months (the latest is always kept)",
+            properties: {
+              last: { type: "integer", minimum: 0 },
+              daily: { type: "integer", minimum: 0 },
+              weekly: { type: "integer", minimum: 0 },
+              monthly: { type: "integer", minimum: 0 },
+            },
+            additionalProperties: false,
+          },
+        },
+        additionalProperties: false,
+      },
+      defaults: { ...fragment, description: "Settings applied to every repo (overridden by profiles and the repo)" },
+      profiles: { type: "object", additionalProperties: fragment, description: "Named settings repos can reference" },
+      repositories: { type: "object", additionalProperties: fragment },
+      analysis: { type: "object" },
+      auth: AUTH_SCHEMA,
+    },
+    additionalProperties: false,
+  };
+}
+
+/** Schema for a single config file (main or included), without extractor config schemas */
+export const CONFIG_SOURCE_SCHEMA: JsonSchema = sourceSchema(EXTRACTOR_ENTRY_SCHEMA);
+
+/** Schema for a repo once defaults and profiles have been applied */
+export const EFFECTIVE_REPO_SCHEMA: JsonSchema = {
+  ...repoFragmentSchema(EXTRACTOR_ENTRY_SCHEMA),
+  required: ["extractors"],
+};
+
+/**
+ * A repo needs exactly one of url or path; cloned repos also need track
+ */
+function checkRepoSource(repo: unknown, repoPath: PathSegment[]): FoundIssue[] {
+  if (!repo || typeof repo !== "object") return [];
+  const { url, path, track } = repo as Record<string, unknown>;
+
+  if (url !== undefined && path !== undefined) {
+    return [{ path: [...repoPath, "path"], node: [...repoPath, "path"], message: `"url" and "path" cannot both be set` }];
+  }
+  if (url === undefined && path === undefined) {
+    return [{ path: repoPath, node: repoPath, message: `missing required property "url" (or "path" for a local checkout)` }];
+  }
+  if (url !== undefined && track === undefined) {
+    return [{ path: repoPath, node: repoPath, message: `missing required property "track"` }];
+  }
+  return [];
+}
+
+/**
+ * A schedule must be a valid cron expression (repos may also set false)
+ */
+function checkSchedule(schedule: unknown, schedulePath: PathSegment[]): FoundIssue[] {
+  if (schedule === true) {
+    return [{ path: schedulePath, node: schedulePath, message: "must be a cron expression or false" }];
+  }
+  if (typeof schedule !== "string") return [];
+
+  try {
+    parseCron(schedule);
+    return [];
+  } catch (error) {
+    return [{ path: schedulePath, node: schedulePath, message: `invalid cron expression: ${(error as Error).message}` }];
+  }
+}
+
+/**
+ * Full JSON Schema for a repos.yaml file, including every registered
+ * extractor's config schema (for editors and other tooling)
+ */
+export function buildConfigSchema(): Record<string, unknown> {
+  const extractors = listExtractors();
+
+  const extractorEntry = {
+    ...EXTRACTOR_ENTRY_SCHEMA,
+    properties: {
+      ...EXTRACTOR_ENTRY_SCHEMA.properties,
+      name: { type: "string", enum: extractors.map((e) => e.name) },
+    },
+    allOf: extractors
+      .filter((e) => e.configSchema)
+      .map((e) => ({
+        if: { properties: { name: { const: e.name } } },
+        then: { properties: { config: e.configSchema } },
+      })),
+  };
+
+  // Share one repo definition between defaults, profiles and repositories
+  const schema = sourceSchema(extractorEntry as JsonSchema);
+  const repoRef = { $ref: "#/definitions/repo" };
+  const properties = schema.properties!;
+
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    title: "OrgBrain repository configuration",
+    ...schema,
+    properties: {
+      ...properties,
+      defaults: { ...repoRef, description: properties.defaults.description },
+      profiles: { ...properties.profiles, additionalProperties: repoRef },
+      repositories: { ...properties.repositories, additionalProperties: repoRef },
+    },
+    definitions: { repo: repoFragmentSchema(extractorEntry as JsonSchema) },
+  };
+}
+
+function formatPath(path: PathSegment[]): string {
+  return path.length > 0 ? path.join(".") : "(root)";
+}
+
+interface FoundIssue {
+  /** Path reported to the user */
+  path: PathSegment[];
+  /** Node used to locate the issue in the YAML source */
+  node: PathSegment[];
+  /** Map key within `node` to point at, if any */
+  key?: string;
+  message: string;
+}
+
+/**
+ * Translate a Zod issue into config issues (one per unknown key)
+ */
+function toIssues(issue: ZodIssue, prefix: PathSegment[]): FoundIssue[] {
+  const path = [...prefix, ...issue.path];
+
+  if (issue.code === "unrecognized_keys") {
+    return issue.keys.map((key) => ({ path: [...path, key], node: path, key, message: `unknown property "${key}"` }));
+  }
+
+  if (issue.code === "invalid_type" && issue.received === "undefined") {
+    const key = String(path[path.length - 1]);
+    return [{ path: path.slice(0, -1), node: path.slice(0, -1), message: `missing required property "${key}"` }];
+  }
+
+  return [{ path, node: path, message: issue.message }];
+}
+
+/**
+ * Find the line/column of a path (or of `key` within the map at that path).
+ * Falls back to the nearest existing ancestor when the node doesn't exist.
+ */
+function locate(source: ConfigSource, path: PathSegment[], key?: string): { line: number; column: number } | undefined {
+  const { doc, lineCounter } = source;
+
+  for (let depth = path.length; depth >= 0; depth--) {
+    const node = depth === 0 ? doc.contents : doc.getIn(path.slice(0, depth), true);
+    if (!isNode(node) || !node.range) continue;
+
+    if (key !== undefined && depth === path.length && isMap(node)) {
+      const pair = node.items.find((item) => isScalar(item.key) && String(item.key.value) === key);
+      if (pair && isScalar(pair.key) && pair.key.range) {
+        const { line, col } = lineCounter.linePos(pair.key.range[0]);
+        return { line, column: col };
+      }
+    }
+
+    const { line, col } = lineCounter.linePos(node.range[0]);
+    return { line, column: col };
+  }
+  return undefined;
+}
+
+/**
+ * Locate an issue in the first origin that defines the path, or else at the
+ * nearest ancestor in the first origin
+ */
+function locateIssue(found: FoundIssue, origins: ConfigOrigin[]): ConfigIssue {
+  const issue: ConfigIssue = { path: formatPath(found.path), message: found.message };
+  const defines = (origin: ConfigOrigin, path: PathSegment[]) => path.length === 0 || origin.source.doc.hasIn(path);
+  const origin =
+    (found.key !== undefined && origins.find((o) => defines(o, [...o.path, found.key!]))) ||
+    origins.find((o) => defines(o, o.path)) ||
+    origins[0];
+
+  if (origin) {
+    issue.file = origin.source.file;
+    Object.assign(issue, locate(origin.source, origin.path, found.key));
+  }
+  return issue;
+}
+
+/**
+ * Dotted path of a node from its visit() ancestry
+ */
+function nodePath(ancestors: readonly unknown[], node: unknown): PathSegment[] {
+  const chain = [...ancestors, node];
+  const path: PathSegment[] = [];
+
+  for (let i = 0; i < chain.length - 1; i++) {
+    const parent = chain[i];
+    const child = chain[i + 1];
+    if (isPair(parent) && isScalar(parent.key) && parent.value === child) {
+      path.push(String(parent.key.value));
+    } else if (isSeq(parent)) {
+      path.push(parent.items.indexOf(child));
+    }
+  }
+  return path;
+}
+
+/** ${VAR}, ${VAR:-default}; $${...} is left as a literal ${...} */
+const ENV_PATTERN = /\$(\$)?\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * Replace ${VAR} references in string values with environment variables.
+ * Returns an issue for every reference to an unset variable without a default.
+ */
+function interpolateEnv(doc: Document, file: string, lineCounter: LineCounter): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+
+  visit(doc, {
+    Scalar(key, node, ancestors) {
+      if (key === "key" || typeof node.value !== "string" || !node.value.includes("${")) return;
+
+      node.value = node.value.replace(ENV_PATTERN, (match, escaped, name: string, fallback?: string) => {
+        if (escaped) return match.slice(1);
+
+        const value = process.env[name] ?? fallback;
+        if (value === undefined) {
+          const pos = node.range ? lineCounter.linePos(node.range[0]) : undefined;
+          issues.push({
+            file,
+            path: formatPath(nodePath(ancestors, node)),
+            message: `environment variable "${name}" is not set (use \${${name}:-default} for a fallback)`,
+            line: pos?.line,
+            column: pos?.col,
+          });
+          return match;
+        }
+        return value;
+      });
+    },
+  });
+
+  return issues;
+}
+
+/**
+ * Parse one config file: YAML syntax, ${ENV} interpolation and the source schema.
+ * `source` is absent only when the YAML itself could not be parsed.
+ */
+export function parseConfigSource(content: string, file: string): { source?: ConfigSource; issues: ConfigIssue[] } {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter });
+
+  if (doc.errors.length > 0) {
+    return {
+      issues: doc.errors.map((error) => ({
+        file,
+        path: "(yaml)",
+        message: error.message.split("\n")[0].replace(/ at line \d+, column \d+:?$/, ""),
+        line: error.linePos?.[0].line,
+        column: error.linePos?.[0].col,
+      })),
+    };
+  }
+
+  const issues = interpolateEnv(doc, file, lineCounter);
+  const parsed = doc.toJS();
+  const value = parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  const source: ConfigSource = { file, doc, lineCounter, value };
+
+  const result = jsonSchemaToZod(CONFIG_SOURCE_SCHEMA).safeParse(parsed ?? {});
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      for (const found of toIssues(issue, [])) {
+        issues.push(locateIssue(found, [{ source, path: found.node }]));
+      }
+    }
+  }
+
+  return { source, issues };
+}
+
+/**
+ * Validate the merged config: required repo fields, extractor names and each
+ * extractor's config block. `origins` maps a path in the merged config to the
+ * places in the source files it may have come from, most specific first.
+ */
+export function validateEffectiveConfig(
+  config: { repositories?: unknown; schedule?: unknown },
+  origins: (path: PathSegment[]) => ConfigOrigin[]
+): ConfigIssue[] {
+  const found: FoundIssue[] = [...checkSchedule(config.schedule, ["schedule"])];
+
+  if (!config.repositories || typeof config.repositories !== "object") {
+    found.push({ path: [], node: [], message: `missing required property "repositories"` });
+  } else {
+    const repoSchema = jsonSchemaToZod(EFFECTIVE_REPO_SCHEMA);
+    const extractors = new Map(listExtractors().map((e) => [e.name, e]));
+
+    for (const [repoName, repo] of Object.entries(config.repositories as Record<string, unknown>)) {
+      const repoPath: PathSegment[] = ["repositories", repoName];
+
+      const result = repoSchema.safeParse(repo);
+      if (!result.success) {
+        // Unknown keys were already reported where they are written, by parseConfigSource
+        for (const issue of result.error.issues) {
+          if (issue.code !== "unrecognized_keys") found.push(...toIssues(issue, repoPath));
+        }
+      }
+      found.push(...checkRepoSource(repo, repoPath));
+      found.push(...checkSchedule((repo as { schedule?: unknown } | null)?.schedule, [...repoPath, "schedule"]));
+
+      const entries = (repo as { extractors?: unknown } | null)?.extractors;
+      if (!Array.isArray(entries)) continue;
+
+      entries.forEach((entry: { name?: unknown; config?: unknown } | null, index) => {
+        if (!entry || typeof entry.name !== "string") return;
+        const entryPath: PathSegment[] = [...repoPath, "extractors", index];
+        const extractor = extractors.get(entry.name);
+
+        if (!extractor) {
+          found.push({
+            path: [...entryPath, "name"],
+            node: [...entryPath, "name"],
+            message: `unknown extractor "${entry.name}" (available: ${[...extractors.keys()].join(", ")})`,
+          });
+          return;
+        }
+
+        if (extractor.configSchema && entry.config !== undefined) {
+          const configResult = jsonSchemaToZod(extractor.configSchema).safeParse(entry.config);
+          if (!configResult.success) {
+            for (const issue of configResult.error.issues) found.push(...toIssues(issue, [...entryPath, "config"]));
+          }
+        }
+      });
+    }
+  }
+
+  return found.map((issue) => locateIssue(issue, origins(issue.node)));
+}
+
+/**
+ * Sort issues by file, then position
+ */
+export function sortConfigIssues(issues: ConfigIssue[]): ConfigIssue[] {
+  return [...issues].sort(
+    (a, b) =>
+      (a.file ?? "").localeCompare(b.file ?? "") ||
+      (a.line ?? 0) - (b.line ?? 0) ||
+      (a.column ?? 0) - (b.column ?? 0)
+  );
+}
+
+/**
+ * Format an issue as "file:line:column path: message"
+ */
+export function formatConfigIssue(issue: ConfigIssue): string {
+  const position = issue.line !== undefined ? `:${issue.line}:${issue.column ?? 1}` : "";
+  const location = issue.file || position ? `${issue.file ?? ""}${position} ` : "";
+  return `${location}${issue.path}: ${issue.message}`;
+}
@@ -0,0 +1,101 @@
+/**
+ * Config watcher - reloads repos.yaml (and the files it includes) when they change
+ */
+
+import { watch, type FSWatcher } from "fs";
+import { dirname, basename } from "path";
+import { loadComposedConfig, reloadConfig } from "./config-loader.js";
+import { formatConfigIssue } from "./config-schema.js";
+
+export interface ConfigWatcher {
+  close(): void;
+}
+
+export interface WatchConfigOptions {
+  /** Quiet period before reloading, so editors' multi-step saves reload once (default: 250ms) */
+  debounceMs?: number;
+}
+
+/**
+ * Watch the active config and its includes. Each change reloads the config;
+ * a valid result is swapped in (see onConfigChange), an invalid one is logged
+ * and ignored. Directories are watched rather than files so that editors that
+ * save by renaming, and new files matching an include glob, are picked up.
+ */
+export async function watchConfig(options: WatchConfigOptions = {}): Promise<ConfigWatcher> {
+  const debounceMs = options.debounceMs ?? 250;
+  const watchers = new Map<string, FSWatcher>();
+  let timer: NodeJS.Timeout | undefined;
+  let reloading = false;
+  let pending = false;
+  let closed = false;
+
+  const isConfigFile = (name: string) => /\.ya?ml$/.test(name);
+
+  const watchFiles = (files: string[]) => {
+    for (const dir of new Set(files.map((file) => dirname(file)))) {
+      if (watchers.has(dir)) continue;
+      try {
+        const watcher = watch(dir, (_event, filename) => {
+          if (!filename || isConfigFile(basename(filename.toString()))) schedule();
+        });
+        watcher.on("error", (error) => {
+          console.error(`Config watcher for ${dir} failed:`, error);
+          watcher.close();
+          watchers.delete(dir);
+        });
+        watchers.set(dir, watcher);
+      } catch (error) {
+        console.error(`Cannot watch ${dir}:`, error);
+      }
+    }
+  };
+
+  const reload = async () => {
+    if (reloading) {
+      pending = true;
+      return;
+    }
+    reloading = true;
+
+    try {
+      const result = await reloadConfig();
+      watchFiles(result.files);
+
+      if (result.valid) {
+        const repoCount = Object.keys(result.config!.repositories).length;
+        console.error(`Config reloaded from ${result.path} (${repoCount} repos, ${result.files.length} files)`);
+      } else {
+        console.error(`Config change ignored, ${result.path} is invalid:`);
+        for (const issue of result.issues) {
+          console.error(`  ${formatConfigIssue(issue)}`);
+        }
+      }
+    } catch (error) {
+      console.error("Config reload failed:", error);
+    } finally {
+      reloading = false;
+      if (pending && !closed) {
+        pending = false;
+        schedule();
+      }
+    }
+  };
+
+  const schedule = () => {
+    if (closed) return;
+    clearTimeout(timer);
+    timer = setTimeout(reload, debounceMs);
+  };
+
+  watchFiles((await loadComposedConfig()).files);
+
+  return {
+    close() {
+      closed = true;
+      clearTimeout(timer);
+      for (const watcher of watchers.values()) watcher.close();
+      watchers.clear();
+    },
+  };
+}
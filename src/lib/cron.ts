@@ -0,0 +1,155 @@
+/**
+ * Cron expressions for scheduled extraction.
+ *
+ * Standard five fields (minute hour day-of-month month day-of-week) with `*`,
+ * lists, ranges, steps and month/day names, plus the @hourly, @daily,
+ * @weekly, @monthly and @yearly shorthands. Times are in server local time.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Day-of-month / day-of-week were `*` (cron matches either field when both are restricted) */
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+const SHORTHANDS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  /** Names accepted in place of numbers, starting at `min` */
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES },
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES },
+];
+
+/** Give up looking for a next run after this many steps (e.g. "0 0 30 2 *" never matches) */
+const MAX_SEARCH_STEPS = 100_000;
+
+function parseValue(value: string, spec: FieldSpec): number {
+  const index = spec.names?.indexOf(value.toLowerCase()) ?? -1;
+  const n = index >= 0 ? spec.min + index : /^\d+$/.test(value) ? Number(value) : NaN;
+  if (Number.isNaN(n) || n < spec.min || n > spec.max) {
+    throw new Error(`invalid ${spec.name} "${value}" (expected ${spec.min}-${spec.max})`);
+  }
+  return n;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`invalid step "${stepText}" in ${spec.name}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) throw new Error(`invalid range "${range}" in ${spec.name}`);
+    } else {
+      start = parseValue(range, spec);
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let n = start; n <= end; n += step) values.add(n);
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression. Throws an Error describing the first problem.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (SHORTHANDS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`expected 5 fields (minute hour day-of-month month day-of-week) or @hourly/@daily/@weekly/@monthly/@yearly, got "${expression}"`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) => parseField(field, FIELDS[i]));
+
+  // 7 is an alias for Sunday
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] === "*",
+    anyWeekday: fields[4] === "*",
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayMatches = schedule.days.has(date.getDate());
+  const weekdayMatches = schedule.weekdays.has(date.getDay());
+
+  if (schedule.anyDay && schedule.anyWeekday) return true;
+  if (schedule.anyDay) return weekdayMatches;
+  if (schedule.anyWeekday) return dayMatches;
+  return dayMatches || weekdayMatches;
+}
+
+/**
+ * First time strictly after `after` that matches the schedule, or undefined if it never matches
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date): Date | undefined {
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,222 @@
+/**
+ * Extraction budgets: how much of a repo each extractor may read.
+ *
+ * Extractors pick their candidate files and let the budget decide which ones
+ * to read: candidates are ordered by `prioritize`, then cut at `max_files` and
+ * `max_bytes`, and reading stops once the extractor has run for `max_seconds`.
+ * Every cut is recorded, so outputs (and answers built from them) built from
+ * part of a repo say so instead of looking complete.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import type { GitManager } from "./git-manager.js";
+
+export interface BudgetConfig {
+  /** Most files one extractor reads */
+  max_files?: number;
+  /** Most bytes one extractor reads (summed file sizes) */
+  max_bytes?: number;
+  /** Seconds after which an extractor stops reading files */
+  max_seconds?: number;
+  /** Path fragments whose files are read first, in order (e.g. "src/models/") */
+  prioritize?: string[];
+}
+
+export type BudgetLimit = "max_files" | "max_bytes" | "max_seconds";
+
+/** A budget limit that left files out of an extractor's output */
+export interface Truncation {
+  limit: BudgetLimit;
+  /** The limit's value when it was hit */
+  value: number;
+  /** Candidate files */
+  total: number;
+  /** Candidate files not read */
+  skipped: number;
+}
+
+export const DEFAULT_BUDGET: Required<Omit<BudgetConfig, "prioritize">> = {
+  max_files: 5000,
+  max_bytes: 100 * 1024 * 1024,
+  max_seconds: 600,
+};
+
+/**
+ * Combine budget settings; later ones win, unset fields don't override
+ */
+export function mergeBudgets(...configs: Array<BudgetConfig | undefined>): BudgetConfig {
+  const merged: BudgetConfig = {};
+  for (const config of configs) {
+    for (const [key, value] of Object.entries(config ?? {})) {
+      if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * One-line description, e.g. "max_files (5000): 1200 of 6200 files skipped"
+ */
+export function describeTruncation({ limit, value, total, skipped }: Truncation): string {
+  return `${limit} (${value}): ${skipped} of ${total} files skipped`;
+}
+
+/**
+ * Truncations recorded in an extractor output (see runExtractors)
+ */
+export function truncationsOf(output: unknown): Truncation[] {
+  const truncated = output && typeof output === "object" ? (output as { truncated?: unknown }).truncated : undefined;
+  return Array.isArray(truncated) ? (truncated as Truncation[]) : [];
+}
+
+/** Where a budget reads file sizes from */
+export interface BudgetSource {
+  gitManager: GitManager;
+  repoPath: string;
+  ref: string;
+}
+
+/**
+ * The budget of one extractor run. Extractors select their input files with
+ * one select() call and read them through timed().
+ */
+export class ExtractionBudget {
+  private readonly startedAt = Date.now();
+  private readonly truncations = new Map<BudgetLimit, Truncation>();
+
+  constructor(readonly config: BudgetConfig = {}) {}
+
+  limit(limit: BudgetLimit): number {
+    return this.config[limit] ?? DEFAULT_BUDGET[limit];
+  }
+
+  /**
+   * Order files by `prioritize` (unmatched files last, otherwise in their given order)
+   */
+  prioritized(files: string[]): string[] {
+    const prioritize = this.config.prioritize ?? [];
+    if (prioritize.length === 0) return files;
+
+    const rank = (file: string) => {
+      const index = prioritize.findIndex((p) => file.includes(p));
+      return index >= 0 ? index : prioritize.length;
+    };
+    return [...files].sort((a, b) => rank(a) - rank(b));
+  }
+
+  /**
+   * The candidates to read, prioritized and within max_files/max_bytes. Files
+   * too large for the bytes left are skipped so smaller ones still fit. Pass
+   * `record: false` to select without recording truncations (e.g. to see what
+   * an earlier commit's selection was).
+   */
+  async select(
+    source: BudgetSource,
+    candidates: string[],
+    { ref = source.ref, record = true }: { ref?: string; record?: boolean } = {}
+  ): Promise<string[]> {
+    const maxFiles = this.limit("max_files");
+    const maxBytes = this.limit("max_bytes");
+    const sizes =
+      candidates.length > 0 && Number.isFinite(maxBytes)
+        ? await source.gitManager.listFileSizesAtRef(source.repoPath, ref, candidates)
+        : new Map<string, number>();
+
+    const selected: string[] = [];
+    let bytes = 0;
+    let overFiles = 0;
+    let overBytes = 0;
+    for (const file of this.prioritized(candidates)) {
+      const size = sizes.get(file) ?? 0;
+      if (bytes + size > maxBytes) {
+        overBytes++;
+      } else if (selected.length >= maxFiles) {
+        overFiles++;
+      } else {
+        selected.push(file);
+        bytes += size;
+      }
+    }
+
+    if (record) {
+      if (overFiles > 0) this.record({ limit: "max_files", value: maxFiles, total: candidates.length, skipped: overFiles });
+      if (overBytes > 0) this.record({ limit: "max_bytes", value: maxBytes, total: candidates.length, skipped: overBytes });
+    }
+    return selected;
+  }
+
+  /**
+   * Iterate items until the time budget runs out, recording what was left
+   */
+  *timed<T>(items: T[]): Generator<T> {
+    const maxSeconds = this.limit("max_seconds");
+    for (let i = 0; i < items.length; i++) {
+      if (Date.now() - this.startedAt > maxSeconds * 1000) {
+        this.record({ limit: "max_seconds", value: maxSeconds, total: items.length, skipped: items.length - i });
+        return;
+      }
+      yield items[i];
+    }
+  }
+
+  truncated(): Truncation[] {
+    return Array.from(this.truncations.values());
+  }
+
+  /**
+   * Whether an output truncated as `previous` can be updated incrementally
+   * under this budget: it must not have run out of time, and the limits that
+   * cut it must be unchanged (or the reused entries would not match the
+   * files this budget selects)
+   */
+  canUpdate(previous: Truncation[]): boolean {
+    return previous.every((t) => t.limit !== "max_seconds" && t.value === this.limit(t.limit));
+  }
+
+  private record(truncation: Truncation): void {
+    const existing = this.truncations.get(truncation.limit);
+    this.truncations.set(
+      truncation.limit,
+      existing
+        ? { ...truncation, total: existing.total + truncation.total, skipped: existing.skipped + truncation.skipped }
+        : truncation
+    );
+  }
+}
+
+// =============================================================================
+// Truncation notices for tool answers
+// =============================================================================
+
+/** Truncated output a tool answered from */
+export interface TruncationNotice {
+  repo: string;
+  extractor: string;
+  truncated: Truncation[];
+}
+
+const noticeStorage = new AsyncLocalStorage<Map<string, TruncationNotice>>();
+
+/**
+ * Run `fn`, collecting the truncated outputs it reads from the knowledge store
+ */
+export async function collectTruncations<T>(fn: () => Promise<T>): Promise<{ result: T; notices: TruncationNotice[] }> {
+  const notices = new Map<string, TruncationNotice>();
+  const result = await noticeStorage.run(notices, fn);
+  return { result, notices: Array.from(notices.values()) };
+}
+
+/** Whether truncations are being collected (so callers can skip looking them up) */
+export function collectingTruncations(): boolean {
+  return noticeStorage.getStore() !== undefined;
+}
+
+/**
+ * Note that the current tool call read a repo's extractor output (no-op when
+ * nothing is collecting or the output is complete)
+ */
+export function noteTruncations(repo: string, extractor: string, truncated: Truncation[] | undefined): void {
+  const notices = noticeStorage.getStore();
+  if (!notices || !truncated || truncated.length === 0) return;
+  notices.set(`${repo}\0${extractor}`, { repo, extractor, truncated });
+}
@@ -1,8 +1,17 @@
 import pLimit from "p-limit";
-import { GitManager } from "./git-manager.js";
+import { GitManager, WORKING_TREE_REF, type FileChange } from "./git-manager.js";
 import { loadConfig, isRepoEnabled, type RepoConfig } from "./config-loader.js";
-import { runExtractors, listExtractors, type ExtractionResult } from "./extractor-base.js";
-import { KnowledgeStore } from "./knowledge-store.js";
+import {
+  runExtractors,
+  listExtractors,
+  currentOutputVersion,
+  type ExtractionResult,
+  type PreviousExtraction,
+} from "./extractor-base.js";
+import { KnowledgeStore, knowledgeStoreOptions, type KnowledgeStoreOptions } from "./knowledge-store.js";
+import { currentJobSignal, reportJobProgress, reportJobEvent } from "./job-manager.js";
+import { ParseCache, parseCacheHitRate, type ParseCacheStats } from "./parse-cache.js";
+import { describeTruncation, type Truncation } from "./extraction-budget.js";
 import "../extractors/index.js";
 
 // Concurrency limit for parallel repo extraction
@@ -12,6 +21,14 @@ const REPO_CONCURRENCY = parseInt(process.env.ORGBRAIN_REPO_CONCURRENCY || "6",
 // Higher concurrency for git fetches (network-bound, can run more in parallel)
 const GIT_FETCH_CONCURRENCY = parseInt(process.env.ORGBRAIN_GIT_FETCH_CONCURRENCY || "10", 10);
 
+// Refs with more changed files than this since their last snapshot are re-extracted in full
+// Can be overridden via ORGBRAIN_INCREMENTAL_MAX_CHANGES env var
+const INCREMENTAL_MAX_CHANGES = parseInt(process.env.ORGBRAIN_INCREMENTAL_MAX_CHANGES || "1000", 10);
+
+// Cached file parses not used for this many days are removed after each run
+// Can be overridden via ORGBRAIN_PARSE_CACHE_DAYS env var
+const PARSE_CACHE_MAX_AGE_DAYS = parseInt(process.env.ORGBRAIN_PARSE_CACHE_DAYS || "30", 10);
+
 export interface ExtractionOptions {
   repos?: string[];
   refs?: string[] | Record<string, string[]>; // Can be array (applies to all) or object (per-repo)
@@ -19,6 +36,8 @@ export interface ExtractionOptions {
   maxAgeSecs?: number;
   /** Use shallow clones for faster fetching (only gets default branch tip, no tags/history) */
   shallow?: boolean;
+  /** Only re-extract refs whose SHA differs from the stored manifest (or that were never extracted), regardless of age */
+  changedOnly?: boolean;
 }
 
 export interface ExtractionSummary {
@@ -29,15 +48,21 @@ export interface ExtractionSummary {
   success: boolean;
   error?: string;
   duration: number;
+  /** Extractors that updated the previous snapshot instead of extracting in full */
+  incremental?: string[];
+  /** Files whose parse results were reused from the parse cache (hits) or parsed (misses) */
+  parseCache?: ParseCacheStats;
+  /** Budget limits that left files out, by extractor */
+  truncated?: Record<string, Truncation[]>;
 }
 
 export class ExtractionRunner {
   private gitManager: GitManager;
   private store: KnowledgeStore;
 
-  constructor(cacheDir: string, knowledgeDir?: string) {
+  constructor(cacheDir: string, knowledgeDir?: string, storeOptions: KnowledgeStoreOptions = {}) {
     this.gitManager = new GitManager(cacheDir);
-    this.store = new KnowledgeStore(knowledgeDir);
+    this.store = new KnowledgeStore(knowledgeDir, storeOptions);
   }
 
   async init(): Promise<void> {
@@ -70,17 +95,34 @@ export class ExtractionRunner {
     const shallowMode = options.shallow ?? false;
     console.log(`\n📥 Fetching ${enabledRepos.length} repos (${GIT_FETCH_CONCURRENCY} concurrent${shallowMode ? ', shallow' : ''})...`);
     const fetchStart = Date.now();
-    
+
+    // Progress of the job running this extraction (if any): one step per repo
+    let completed = 0;
+    let failed = 0;
+    const active = new Map<string, string>();
+    const updateProgress = (message: string) =>
+      reportJobProgress({
+        current: completed,
+        total: enabledRepos.length,
+        message,
+        active: Array.from(active, ([name, startedAt]) => ({ name, status: "extracting", startedAt })),
+        completed,
+        failed,
+      });
+    updateProgress(`Fetching ${enabledRepos.length} repos...`);
+
     const repoPathMap = new Map<string, string>();
     const fetchResults = await Promise.allSettled(
       enabledRepos.map(({ name, config: repoConfig }) =>
         fetchLimit(async () => {
           try {
-            const path = await this.gitManager.ensureRepo(name, repoConfig.url, { shallow: shallowMode, forceFetch: true });
+            currentJobSignal()?.throwIfAborted();
+            const path = await this.gitManager.resolveRepo(name, repoConfig, { shallow: shallowMode, forceFetch: true });
             repoPathMap.set(name, path);
             return { name, path, success: true };
           } catch (error) {
             console.error(`  ❌ Failed to fetch ${name}: ${error}`);
+            reportJobEvent({ level: "error", message: `Failed to fetch ${name}: ${error}`, repo: name });
             return { name, path: null, success: false, error };
           }
         })
@@ -90,6 +132,7 @@ export class ExtractionRunner {
     const fetchDuration = Date.now() - fetchStart;
     const successfulFetches = fetchResults.filter(r => r.status === 'fulfilled' && r.value.success).length;
     console.log(`✅ Fetched ${successfulFetches}/${enabledRepos.length} repos in ${fetchDuration}ms\n`);
+    completed = failed = enabledRepos.length - successfulFetches;
 
     // Phase 2: Run extractions in parallel (CPU-bound, lower concurrency)
     const extractLimit = pLimit(REPO_CONCURRENCY);
@@ -116,9 +159,37 @@ export class ExtractionRunner {
           // Use per-repo refs if specified, otherwise use default from config
           const repoRefs = perRepoRefs[name];
           const repoOptions = repoRefs ? { ...options, refs: repoRefs } : options;
-          return extractLimit(() => this.runRepoWithPath(name, repoConfig, repoPathMap.get(name)!, repoOptions));
+          return extractLimit(async () => {
+            active.set(name, new Date().toISOString());
+            reportJobEvent({ level: "info", message: `Extracting ${name}`, repo: name });
+            updateProgress(`Extracting repos (${REPO_CONCURRENCY} concurrent)...`);
+
+            const summaries = await this.runRepoWithPath(name, repoConfig, repoPathMap.get(name)!, repoOptions);
+
+            const errors = summaries.filter((s) => !s.success).length;
+            active.delete(name);
+            completed++;
+            if (errors > 0) failed++;
+            reportJobEvent({
+              level: errors > 0 ? "error" : "info",
+              message: `Finished ${name}: ${summaries.length - errors}/${summaries.length} refs extracted`,
+              repo: name,
+            });
+            updateProgress(`Extracting repos (${REPO_CONCURRENCY} concurrent)...`);
+            return summaries;
+          });
         })
     );
+    // Retention may have pruned snapshots whose outputs nothing else references
+    const gc = await this.store.gc();
+    if (gc.removed > 0) {
+      console.log(`🧹 Removed ${gc.removed} unreferenced blobs (${Math.round(gc.bytesFreed / 1024)} KB)`);
+    }
+    const pruned = await new ParseCache(this.gitManager.parseCacheDir).prune(PARSE_CACHE_MAX_AGE_DAYS * 86400 * 1000);
+    if (pruned > 0) {
+      console.log(`🧹 Removed ${pruned} parse cache entries unused for ${PARSE_CACHE_MAX_AGE_DAYS} days`);
+    }
+    updateProgress("Done");
 
     // Add failed fetch results as summaries
     for (const result of fetchResults) {
@@ -156,28 +227,38 @@ export class ExtractionRunner {
 
     const refsToProcess: Array<{ type: "branch" | "tag"; name: string }> = [];
 
+    // Local checkouts extract their working tree; their branches and tags only if they are git repos
+    const isLocal = Boolean(repoConfig.path);
+    const hasGit = !isLocal || (await this.gitManager.isGitRepo(repoPath));
+
     // Handle refs override - can be array (applies to all) or object (per-repo, handled in runAll)
     const refsToUse = Array.isArray(options.refs) ? options.refs : undefined;
     
     if (refsToUse?.length) {
-      const branches = await this.gitManager.listBranches(repoPath, { verify: true });
-      const tags = await this.gitManager.listTags(repoPath);
+      const branches = hasGit ? await this.gitManager.listBranches(repoPath, { verify: true }) : [];
+      const tags = hasGit ? await this.gitManager.listTags(repoPath) : [];
 
       for (const ref of refsToUse) {
-        if (branches.find((b) => b.name === ref)) {
+        if (isLocal && ref === WORKING_TREE_REF) {
+          refsToProcess.push({ type: "branch", name: ref });
+        } else if (branches.find((b) => b.name === ref)) {
           refsToProcess.push({ type: "branch", name: ref });
         } else if (tags.find((t) => t.name === ref)) {
           refsToProcess.push({ type: "tag", name: ref });
         }
       }
     } else {
-      if (repoConfig.track.branches) {
+      if (isLocal) {
+        refsToProcess.push({ type: "branch", name: WORKING_TREE_REF });
+      }
+
+      if (hasGit && repoConfig.track?.branches) {
         for (const branch of repoConfig.track.branches) {
           refsToProcess.push({ type: "branch", name: branch });
         }
       }
 
-      if (repoConfig.track.tags) {
+      if (hasGit && repoConfig.track?.tags) {
         const tags = await this.gitManager.listTags(repoPath, repoConfig.track.tags.pattern);
         const latestTags = tags.slice(0, repoConfig.track.tags.latest || 5);
         for (const tag of latestTags) {
@@ -187,21 +268,29 @@ export class ExtractionRunner {
     }
 
     for (const { type, name } of refsToProcess) {
+      // Stop between refs when the job running this extraction is cancelled
+      currentJobSignal()?.throwIfAborted();
+
+      // The working tree has no SHA to compare, so it is always re-extracted
+      const isWorkingTree = isLocal && name === WORKING_TREE_REF;
+
       // Get current SHA for the ref to detect changes
       let currentSha: string | undefined;
-      try {
-        const branches = await this.gitManager.listBranches(repoPath, { verify: true });
-        const tags = await this.gitManager.listTags(repoPath);
-        const version = [...branches, ...tags].find((v) => v.name === name);
-        currentSha = version?.sha;
-      } catch {
-        // ignore - will fall back to time-based freshness
-      }
+      if (!isWorkingTree) {
+        try {
+          const branches = await this.gitManager.listBranches(repoPath, { verify: true });
+          const tags = await this.gitManager.listTags(repoPath);
+          const version = [...branches, ...tags].find((v) => v.name === name);
+          currentSha = version?.sha;
+        } catch {
+          // ignore - will fall back to time-based freshness
+        }
 
-      const maxAge = (options.maxAgeSecs || 86400) * 1000;
-      if (!options.force && await this.store.isFresh(repoName, type, name, maxAge, currentSha)) {
-        console.log(`  ⏭️  Skipping ${type}:${name} (fresh, sha: ${currentSha?.slice(0, 7) || 'unknown'})`);
-        continue;
+        const maxAge = options.changedOnly ? Infinity : (options.maxAgeSecs || 86400) * 1000;
+        if (!options.force && await this.store.isFresh(repoName, type, name, maxAge, currentSha)) {
+          console.log(`  ⏭️  Skipping ${type}:${name} (fresh, sha: ${currentSha?.slice(0, 7) || 'unknown'})`);
+          continue;
+        }
       }
 
       console.log(`  🔍 Extracting ${type}:${name}...`);
@@ -213,15 +302,17 @@ export class ExtractionRunner {
         // Config extractors can still be used to provide custom config options
         const allExtractors = listExtractors();
         const configExtractorMap = new Map(
-          (repoConfig.extractors || []).map((e) => [e.name, e.config || {}])
+          (repoConfig.extractors || []).map((e) => [e.name, e])
         );
         
-        // Build extractor configs: all registered extractors, with config from repos.yaml if available
+        // Build extractor configs: all registered extractors, with config and budget from repos.yaml if available
         const extractors = allExtractors.map((ext) => ({
           name: ext.name,
-          config: configExtractorMap.get(ext.name) || {},
+          config: configExtractorMap.get(ext.name)?.config || {},
+          budget: configExtractorMap.get(ext.name)?.budget,
         }));
 
+        const parseCache = new ParseCache(this.gitManager.parseCacheDir);
         const results = await runExtractors(
           {
             repoName,
@@ -229,33 +320,59 @@ export class ExtractionRunner {
             ref: name,
             refType: type,
             gitManager: this.gitManager,
+            parseCache,
+            budget: repoConfig.budget,
           },
-          extractors
+          extractors,
+          options.force ? undefined : await this.previousExtraction(repoName, repoPath, type, name, currentSha)
         );
 
         // Get SHA for this ref - try from branch/tag list first, then fallback to direct git lookup
+        // (none for the working tree: it may hold uncommitted changes)
         let sha: string | undefined;
-        try {
-          const branches = await this.gitManager.listBranches(repoPath, { verify: true });
-          const tags = await this.gitManager.listTags(repoPath);
-          const version = [...branches, ...tags].find((v) => v.name === name);
-          sha = version?.sha;
-        } catch {
-          // ignore
-        }
-        
-        // Fallback: get SHA directly from git if not found in list
-        if (!sha) {
-          const refSha = await this.gitManager.getRefSha(repoPath, name);
-          if (refSha) {
-            sha = refSha;
+        if (!isWorkingTree) {
+          try {
+            const branches = await this.gitManager.listBranches(repoPath, { verify: true });
+            const tags = await this.gitManager.listTags(repoPath);
+            const version = [...branches, ...tags].find((v) => v.name === name);
+            sha = version?.sha;
+          } catch {
+            // ignore
+          }
+
+          // Fallback: get SHA directly from git if not found in list
+          if (!sha) {
+            const refSha = await this.gitManager.getRefSha(repoPath, name);
+            if (refSha) {
+              sha = refSha;
+            }
           }
         }
 
         await this.store.save(repoName, type, name, results, sha);
 
         const duration = Date.now() - startTime;
-        console.log(`  ✅ Completed in ${duration}ms (${results.length} extractors)`);
+        const incremental = results.filter((r) => r.incremental).map((r) => r.extractor);
+        console.log(
+          `  ✅ Completed in ${duration}ms (${results.length} extractors${incremental.length ? `, ${incremental.length} incremental` : ""})`
+        );
+        const cacheStats = parseCache.stats();
+        if (cacheStats.hits + cacheStats.misses > 0) {
+          console.log(
+            `  🗂️  Parse cache: ${cacheStats.hits}/${cacheStats.hits + cacheStats.misses} files (${Math.round(parseCacheHitRate(cacheStats) * 100)}%)`
+          );
+        }
+        const truncated = results.filter((r) => r.truncated);
+        for (const result of truncated) {
+          const reasons = result.truncated!.map(describeTruncation).join("; ");
+          console.warn(`  ✂️  ${result.extractor} truncated: ${reasons}`);
+          reportJobEvent({
+            level: "warning",
+            message: `${result.extractor} output for ${repoName}@${name} is truncated: ${reasons}`,
+            repo: repoName,
+            ref: name,
+          });
+        }
 
         summaries.push({
           repo: repoName,
@@ -264,10 +381,14 @@ export class ExtractionRunner {
           extractors: results.map((r) => r.extractor),
           success: true,
           duration,
+          incremental: incremental.length ? incremental : undefined,
+          parseCache: cacheStats.hits + cacheStats.misses > 0 ? cacheStats : undefined,
+          truncated: truncated.length ? Object.fromEntries(truncated.map((r) => [r.extractor, r.truncated!])) : undefined,
         });
       } catch (error) {
         const duration = Date.now() - startTime;
         console.error(`  ❌ Failed: ${error}`);
+        reportJobEvent({ level: "error", message: `Failed to extract ${repoName}@${name}: ${error}`, repo: repoName, ref: name });
 
         summaries.push({
           repo: repoName,
@@ -284,6 +405,46 @@ export class ExtractionRunner {
     return summaries;
   }
 
+  /**
+   * The ref's latest snapshot and the files changed since it was extracted, for
+   * extractors to update instead of starting over. Undefined when the ref has to
+   * be extracted in full: never extracted, same commit, history not available
+   * (e.g. shallow clones) or too many changes.
+   */
+  private async previousExtraction(
+    repoName: string,
+    repoPath: string,
+    refType: "branch" | "tag",
+    ref: string,
+    currentSha: string | undefined
+  ): Promise<PreviousExtraction | undefined> {
+    if (!currentSha) return undefined;
+
+    const stored = (await this.store.listVersions(repoName)).find((v) => v.refType === refType && v.ref === ref);
+    if (!stored?.sha || stored.sha === currentSha) return undefined;
+
+    let changes: FileChange[];
+    try {
+      changes = await this.gitManager.diffRefs(repoPath, stored.sha, currentSha);
+    } catch {
+      return undefined;
+    }
+    if (changes.length > INCREMENTAL_MAX_CHANGES) return undefined;
+
+    const knowledge = await this.store.load(repoName, refType, ref);
+    if (!knowledge) return undefined;
+
+    // Outputs stored in an older shape (even if migrated on load) are extracted in full
+    const data = Object.fromEntries(
+      Object.entries(knowledge.data).filter(
+        ([extractor]) => stored.outputVersions[extractor] === currentOutputVersion(extractor)
+      )
+    );
+
+    console.log(`  ♻️  ${changes.length} files changed since ${stored.sha.slice(0, 7)}`);
+    return { sha: stored.sha, changes, data };
+  }
+
   /**
    * Run extraction for a single repo (fetches first if needed)
    * Used by extract_ref tool for single-repo extraction
@@ -295,7 +456,7 @@ export class ExtractionRunner {
   ): Promise<ExtractionSummary[]> {
     let repoPath: string;
     try {
-      repoPath = await this.gitManager.ensureRepo(repoName, repoConfig.url, { shallow: options.shallow });
+      repoPath = await this.gitManager.resolveRepo(repoName, repoConfig, { shallow: options.shallow });
     } catch (error) {
       console.error(`  ❌ Failed to clone/update repo: ${error}`);
       return [{
@@ -325,7 +486,8 @@ export async function runExtraction(options: ExtractionOptions = {}): Promise<Ex
   const config = await loadConfig();
   const runner = new ExtractionRunner(
     config.cache_dir || ".repo-cache",
-    config.knowledge_dir || "knowledge/extracted"
+    config.knowledge_dir || "knowledge/extracted",
+    knowledgeStoreOptions(config)
   );
 
   await runner.init();
@@ -1,5 +1,8 @@
 import pLimit from "p-limit";
-import type { GitManager } from "./git-manager.js";
+import type { FileChange, GitManager } from "./git-manager.js";
+import type { ParseCache } from "./parse-cache.js";
+import { ExtractionBudget, mergeBudgets, truncationsOf, type BudgetConfig, type Truncation } from "./extraction-budget.js";
+import { currentJobSignal, reportJobEvent } from "./job-manager.js";
 
 // Concurrency limit for running extractors in parallel within a single repo
 // Can be overridden via ORGBRAIN_EXTRACTOR_CONCURRENCY env var
@@ -12,6 +15,31 @@ export interface ExtractionContext {
   refType: "branch" | "tag";
   gitManager: GitManager;
   config: Record<string, unknown>;
+  /** Limits on what this extractor reads; select input files with budget.select() */
+  budget: ExtractionBudget;
+  /** Cache of per-file parse results, shared across refs and repos */
+  parseCache?: ParseCache;
+}
+
+/**
+ * Context for updating an extractor's output from the previous snapshot of the
+ * ref instead of extracting every file again
+ */
+export interface IncrementalContext extends ExtractionContext {
+  /** This extractor's output in the previous snapshot (at its current output version) */
+  previous: unknown;
+  /** Commit the previous snapshot was extracted from */
+  previousSha: string;
+  /** Files changed between previousSha and the ref */
+  changes: FileChange[];
+}
+
+/** The previous snapshot of a ref, passed to runExtractors for incremental extraction */
+export interface PreviousExtraction {
+  sha: string;
+  changes: FileChange[];
+  /** Outputs by extractor */
+  data: Record<string, unknown>;
 }
 
 export interface ExtractionResult {
@@ -20,16 +48,40 @@ export interface ExtractionResult {
   ref: string;
   extractedAt: Date;
   data: unknown;
+  /** Set when the output was updated from the previous snapshot */
+  incremental?: boolean;
+  /** Budget limits that left files out (also recorded in the output's `truncated`) */
+  truncated?: Truncation[];
 }
 
 export interface Extractor {
   name: string;
   description: string;
+  /** JSON Schema for this extractor's `config` block in repos.yaml (validated at config load) */
+  configSchema?: Record<string, unknown>;
+  /**
+   * Version of the output shape (default 1), recorded with stored data. Bump it
+   * when the output changes incompatibly and register a migration from the
+   * previous version with registerOutputMigration().
+   */
+  outputVersion?: number;
   canExtract(ctx: ExtractionContext): Promise<boolean>;
   extract(ctx: ExtractionContext): Promise<ExtractionResult>;
+  /**
+   * Update the previous output for the changed files only. Return null when the
+   * changes need a full extract() (e.g. a build config changed).
+   */
+  extractIncremental?(ctx: IncrementalContext): Promise<ExtractionResult | null>;
+  /** Budget settings implied by this extractor's own (older) config options, e.g. a file limit */
+  configBudget?(config: Record<string, unknown>): BudgetConfig;
 }
 
+/** Upgrades an extractor's stored output by one version */
+export type OutputMigration = (data: unknown) => unknown;
+
 const extractors = new Map<string, Extractor>();
+/** Keyed by `<extractor>@<from version>` */
+const outputMigrations = new Map<string, OutputMigration>();
 
 export function registerExtractor(extractor: Extractor): void {
   extractors.set(extractor.name, extractor);
@@ -43,11 +95,155 @@ export function listExtractors(): Extractor[] {
   return Array.from(extractors.values());
 }
 
+/**
+ * Register how to upgrade `extractor` output from `fromVersion` to `fromVersion + 1`
+ */
+export function registerOutputMigration(extractor: string, fromVersion: number, migrate: OutputMigration): void {
+  outputMigrations.set(`${extractor}@${fromVersion}`, migrate);
+}
+
+/**
+ * Output version an extractor currently writes (undefined for unknown extractors)
+ */
+export function currentOutputVersion(name: string): number | undefined {
+  const extractor = extractors.get(name);
+  return extractor ? (extractor.outputVersion ?? 1) : undefined;
+}
+
+/**
+ * Whether output stored at `version` can be migrated to the current version
+ */
+export function canMigrateOutput(name: string, version: number): boolean {
+  const current = currentOutputVersion(name) ?? version;
+  for (let v = version; v < current; v++) {
+    if (!outputMigrations.has(`${name}@${v}`)) return false;
+  }
+  return true;
+}
+
+/**
+ * Upgrade stored output one version at a time towards the extractor's current
+ * version. Stops at the last version reached if a migration is missing; the
+ * `{ error }` output of a failed extraction is passed through unchanged.
+ */
+export function migrateOutput(name: string, data: unknown, version: number): { data: unknown; version: number } {
+  const current = currentOutputVersion(name) ?? version;
+  if (isFailedOutput(data)) return { data, version };
+
+  while (version < current) {
+    const migrate = outputMigrations.get(`${name}@${version}`);
+    if (!migrate) break;
+    data = migrate(data);
+    version++;
+  }
+  return { data, version };
+}
+
+export interface OutdatedOutput {
+  extractor: string;
+  storedVersion: number;
+  currentVersion: number;
+  /** Whether registered migrations upgrade it on load */
+  migratable: boolean;
+}
+
+/**
+ * Outputs stored at an older version than their extractor now writes
+ */
+export function outdatedOutputs(outputVersions: Record<string, number>): OutdatedOutput[] {
+  return Object.entries(outputVersions)
+    .map(([extractor, storedVersion]) => ({
+      extractor,
+      storedVersion,
+      currentVersion: currentOutputVersion(extractor) ?? storedVersion,
+      migratable: canMigrateOutput(extractor, storedVersion),
+    }))
+    .filter((output) => output.storedVersion < output.currentVersion);
+}
+
+export interface IncrementalPlan {
+  /** Input files at the ref, in the order a full extraction reads them */
+  files: string[];
+  /** Files whose entries in the previous output are still valid */
+  reuse: Set<string>;
+  /** Files to read again: changed, or not an input last time */
+  parse: string[];
+}
+
+/**
+ * Split an extractor's input files into reusable and changed ones. `select`
+ * picks the candidate inputs from a list of repo files; it and the budget are
+ * applied at both commits, so files that enter the selection (e.g. under
+ * max_files) without changing are read too.
+ */
+export async function planIncremental(
+  ctx: IncrementalContext,
+  select: (files: string[]) => string[]
+): Promise<IncrementalPlan> {
+  const [before, after] = await Promise.all([
+    ctx.gitManager.listFilesAtRef(ctx.repoPath, ctx.previousSha),
+    ctx.gitManager.listFilesAtRef(ctx.repoPath, ctx.ref),
+  ]);
+  const changed = new Set(ctx.changes.map((change) => change.file));
+  const selectedBefore = new Set(await ctx.budget.select(ctx, select(before), { ref: ctx.previousSha, record: false }));
+  const files = await ctx.budget.select(ctx, select(after));
+  const reuse = new Set(files.filter((file) => selectedBefore.has(file) && !changed.has(file)));
+  return { files, reuse, parse: files.filter((file) => !reuse.has(file)) };
+}
+
+/**
+ * Combine previous entries of reused files with fresh entries of re-read
+ * files, grouped in input file order like a full extraction
+ */
+export function mergeByFile<T extends { file: string }>(
+  plan: IncrementalPlan,
+  previous: T[] | undefined,
+  fresh: T[]
+): T[] {
+  const byFile = new Map<string, T[]>();
+  const entries = [...(previous ?? []).filter((entry) => plan.reuse.has(entry.file)), ...fresh];
+  for (const entry of entries) {
+    if (!byFile.has(entry.file)) byFile.set(entry.file, []);
+    byFile.get(entry.file)!.push(entry);
+  }
+  return plan.files.flatMap((file) => byFile.get(file) ?? []);
+}
+
+function isFailedOutput(data: unknown): boolean {
+  return Boolean(data) && typeof data === "object" && Object.keys(data as object).length === 1 && "error" in (data as object);
+}
+
+/** What runExtractors shares with every extractor; `budget` is the repo's budget settings */
+export type RunContext = Omit<ExtractionContext, "config" | "budget"> & { budget?: BudgetConfig };
+
+/**
+ * Record the budget's truncations in the result and, for object outputs, the output
+ */
+function withTruncations(result: ExtractionResult, budget: ExtractionBudget): ExtractionResult {
+  const truncated = budget.truncated();
+  if (truncated.length === 0) return result;
+
+  const data = result.data;
+  return {
+    ...result,
+    truncated,
+    data: data && typeof data === "object" && !Array.isArray(data) ? { ...data, truncated } : data,
+  };
+}
+
+/**
+ * Run extractors on a ref. Each gets its own budget: the repo's settings, then
+ * the extractor's config-implied ones, then its entry's `budget`. With
+ * `previous`, extractors that support it update their previous output for the
+ * changed files, falling back to a full extraction when they can't.
+ */
 export async function runExtractors(
-  ctx: Omit<ExtractionContext, "config">,
-  extractorConfigs: Array<{ name: string; config?: Record<string, unknown> }>
+  ctx: RunContext,
+  extractorConfigs: Array<{ name: string; config?: Record<string, unknown>; budget?: BudgetConfig }>,
+  previous?: PreviousExtraction
 ): Promise<ExtractionResult[]> {
   const limit = pLimit(EXTRACTOR_CONCURRENCY);
+  const signal = currentJobSignal();
 
   // Build list of valid extractors with their contexts
   const extractorTasks = extractorConfigs
@@ -58,30 +254,62 @@ export async function runExtractors(
         return null;
       }
 
-      const fullCtx: ExtractionContext = {
-        ...ctx,
-        config: extractorConfig.config || {},
-      };
+      const config = extractorConfig.config || {};
+      const budget = mergeBudgets(ctx.budget, extractor.configBudget?.(config), extractorConfig.budget);
 
-      return { extractor, fullCtx, name: extractorConfig.name };
+      return { extractor, config, budget, name: extractorConfig.name };
     })
     .filter(Boolean) as Array<{
       extractor: Extractor;
-      fullCtx: ExtractionContext;
+      config: Record<string, unknown>;
+      budget: BudgetConfig;
       name: string;
     }>;
 
   // Run extractors in parallel with concurrency limit
   const results = await Promise.all(
-    extractorTasks.map(({ extractor, fullCtx, name }) =>
+    extractorTasks.map(({ extractor, config, budget: budgetConfig, name }) =>
       limit(async (): Promise<ExtractionResult | null> => {
+        // Don't start queued extractors once the job is cancelled
+        if (signal?.aborted) return null;
         try {
+          // The time budget starts when the extractor does, not when it was queued
+          let budget = new ExtractionBudget(budgetConfig);
+          const fullCtx: ExtractionContext = { ...ctx, config, budget };
           if (await extractor.canExtract(fullCtx)) {
-            return await extractor.extract(fullCtx);
+            const previousData = previous?.data[name];
+            if (
+              previous &&
+              extractor.extractIncremental &&
+              previousData !== undefined &&
+              !isFailedOutput(previousData) &&
+              budget.canUpdate(truncationsOf(previousData))
+            ) {
+              try {
+                const result = await extractor.extractIncremental({
+                  ...fullCtx,
+                  previous: previousData,
+                  previousSha: previous.sha,
+                  changes: previous.changes,
+                });
+                if (result) return withTruncations({ ...result, incremental: true }, budget);
+              } catch (error) {
+                console.warn(`Incremental ${name} failed, extracting in full:`, error);
+              }
+              // What the incremental attempt selected doesn't count towards the full extraction
+              budget = new ExtractionBudget(budgetConfig);
+            }
+            return withTruncations(await extractor.extract({ ...fullCtx, budget }), budget);
           }
           return null;
         } catch (error) {
           console.error(`Extractor ${name} failed:`, error);
+          reportJobEvent({
+            level: "warning",
+            message: `Extractor ${name} failed on ${ctx.repoName}@${ctx.ref}: ${error}`,
+            repo: ctx.repoName,
+            ref: ctx.ref,
+          });
           return {
             extractor: name,
             repo: ctx.repoName,
@@ -94,6 +322,9 @@ export async function runExtractors(
     )
   );
 
+  // Partial results of a cancelled job must not be saved
+  signal?.throwIfAborted();
+
   // Filter out nulls (extractors that couldn't extract or didn't apply)
   return results.filter(Boolean) as ExtractionResult[];
 }
@@ -1,6 +1,20 @@
 import { spawn } from "child_process";
 import { promises as fs } from "fs";
-import { join } from "path";
+import { join, resolve, sep } from "path";
+import { glob } from "glob";
+import { currentJobSignal } from "./job-manager.js";
+
+/** Ref name that reads a local checkout's working tree, uncommitted changes included */
+export const WORKING_TREE_REF = "working-tree";
+
+/** Skipped when listing the working tree of a directory that is not a git repo */
+const WORKING_TREE_IGNORE = ["**/.git/**", "**/node_modules/**"];
+
+/** Where a configured repo's files come from (see RepoConfig.url / RepoConfig.path) */
+export interface RepoSource {
+  url?: string;
+  path?: string;
+}
 
 export interface RepoVersion {
   type: "branch" | "tag";
@@ -9,9 +23,15 @@ export interface RepoVersion {
   date: Date;
 }
 
+/** A file that differs between two commits */
+export interface FileChange {
+  status: "added" | "modified" | "deleted";
+  file: string;
+}
+
 export interface RepoState {
   name: string;
-  url: string;
+  url?: string;
   localPath: string;
   currentRef: string;
   branches: RepoVersion[];
@@ -28,12 +48,26 @@ export class GitManager {
     this.cacheDir = cacheDir;
   }
 
+  /** Where per-file parse results are cached (see ParseCache) */
+  get parseCacheDir(): string {
+    return join(this.cacheDir, "parse-cache");
+  }
+
   private async git(args: string[], cwd?: string, timeoutMs: number = 45000): Promise<string> {
+    // Commands run on behalf of a background job are killed when the job is cancelled
+    const signal = currentJobSignal();
+
     return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error(`git ${args.join(" ")} cancelled`));
+        return;
+      }
+
       const proc = spawn("git", args, {
         cwd: cwd || this.cacheDir,
         stdio: ["ignore", "pipe", "pipe"],
         env: { ...process.env, GIT_SSH_COMMAND: "ssh -o BatchMode=yes -o StrictHostKeyChecking=no" }, // Prevent SSH prompts
+        signal,
       });
 
       let stdout = "";
@@ -76,7 +110,7 @@ export class GitManager {
         if (resolved) return; // Already resolved/rejected
         clearTimeout(timeout);
         resolved = true;
-        reject(new Error(`git ${args.join(" ")} spawn failed: ${error.message}`));
+        reject(new Error(signal?.aborted ? `git ${args.join(" ")} cancelled` : `git ${args.join(" ")} spawn failed: ${error.message}`));
       });
     });
   }
@@ -186,6 +220,37 @@ export class GitManager {
     return repoPath;
   }
 
+  /**
+   * Local path for a configured repo: a `path` checkout is used in place (never
+   * fetched), a `url` is cloned into or fetched in the cache
+   */
+  async resolveRepo(
+    name: string,
+    source: RepoSource,
+    options: { shallow?: boolean; skipFetch?: boolean; forceFetch?: boolean; skipClone?: boolean } = {}
+  ): Promise<string> {
+    if (source.path) {
+      const stat = await fs.stat(source.path).catch(() => null);
+      if (!stat?.isDirectory()) {
+        throw new Error(`Local repository ${name} not found at ${source.path}`);
+      }
+      return source.path;
+    }
+    if (!source.url) {
+      throw new Error(`Repository ${name} has neither a url nor a path`);
+    }
+    return this.ensureRepo(name, source.url, options);
+  }
+
+  async isGitRepo(dir: string): Promise<boolean> {
+    try {
+      await this.git(["rev-parse", "--git-dir"], dir, 5000);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   async listBranches(repoPath: string, options: { verify?: boolean } = {}): Promise<RepoVersion[]> {
     const output = await this.git(
       ["for-each-ref", "--format=%(refname:short)|%(objectname)|%(creatordate:iso8601)", "refs/heads"],
@@ -271,17 +336,46 @@ export class GitManager {
 
   async getFileAtRef(repoPath: string, ref: string, filePath: string): Promise<string> {
     try {
+      if (ref === WORKING_TREE_REF) {
+        return await this.readWorkingTreeFile(repoPath, filePath);
+      }
       return await this.git(["show", `${ref}:${filePath}`], repoPath);
     } catch {
       throw new Error(`File ${filePath} not found at ref ${ref}`);
     }
   }
 
-  async listFilesAtRef(repoPath: string, ref: string, pathPattern?: string): Promise<string[]> {
-    const args = ["ls-tree", "-r", "--name-only", ref];
+  private async readWorkingTreeFile(repoPath: string, filePath: string): Promise<string> {
+    const root = resolve(repoPath);
+    const fullPath = resolve(root, filePath);
+    if (!fullPath.startsWith(root + sep)) {
+      throw new Error(`${filePath} is outside ${repoPath}`);
+    }
+    return (await fs.readFile(fullPath, "utf-8")).trim();
+  }
 
-    const output = await this.git(args, repoPath);
-    let files = output.split("\n").filter(Boolean);
+  /**
+   * Files in a local checkout: tracked and untracked (but not ignored) files,
+   * without deletions that haven't been committed yet
+   */
+  private async listWorkingTreeFiles(repoPath: string): Promise<string[]> {
+    if (!(await this.isGitRepo(repoPath))) {
+      return (await glob("**/*", { cwd: repoPath, nodir: true, dot: true, ignore: WORKING_TREE_IGNORE })).sort();
+    }
+
+    const files = await this.git(["ls-files", "--cached", "--others", "--exclude-standard"], repoPath);
+    const deleted = new Set((await this.git(["ls-files", "--deleted"], repoPath)).split("\n").filter(Boolean));
+    return [...new Set(files.split("\n").filter(Boolean))].filter((file) => !deleted.has(file));
+  }
+
+  async listFilesAtRef(repoPath: string, ref: string, pathPattern?: string): Promise<string[]> {
+    let files: string[];
+    if (ref === WORKING_TREE_REF) {
+      files = await this.listWorkingTreeFiles(repoPath);
+    } else {
+      const output = await this.git(["ls-tree", "-r", "--name-only", ref], repoPath);
+      files = output.split("\n").filter(Boolean);
+    }
 
     // Filter by pattern if provided (supports glob-like patterns)
     if (pathPattern) {
@@ -299,13 +393,57 @@ export class GitManager {
     return files;
   }
 
+  /**
+   * Git blob SHA of each file at a ref (empty for the working tree, whose files
+   * may differ from any blob)
+   */
+  async listBlobsAtRef(repoPath: string, ref: string): Promise<Map<string, string>> {
+    const blobs = new Map<string, string>();
+    if (ref === WORKING_TREE_REF) return blobs;
+
+    const output = await this.git(["ls-tree", "-r", ref], repoPath);
+    for (const line of output.split("\n")) {
+      // <mode> blob <sha>\t<path>
+      const match = line.match(/^\d+ blob ([0-9a-f]+)\t(.+)$/);
+      if (match) blobs.set(match[2], match[1]);
+    }
+    return blobs;
+  }
+
+  /**
+   * Size in bytes of files at a ref: every file from git, or `files` (stat'ed)
+   * in the working tree
+   */
+  async listFileSizesAtRef(repoPath: string, ref: string, files: string[]): Promise<Map<string, number>> {
+    const sizes = new Map<string, number>();
+    if (ref === WORKING_TREE_REF) {
+      for (const file of files) {
+        const stat = await fs.stat(join(repoPath, file)).catch(() => null);
+        if (stat) sizes.set(file, stat.size);
+      }
+      return sizes;
+    }
+
+    const output = await this.git(["ls-tree", "-r", "-l", ref], repoPath);
+    for (const line of output.split("\n")) {
+      // <mode> blob <sha> <size>\t<path>
+      const match = line.match(/^\d+ blob [0-9a-f]+ +(\d+)\t(.+)$/);
+      if (match) sizes.set(match[2], parseInt(match[1], 10));
+    }
+    return sizes;
+  }
+
   async grepAtRef(
     repoPath: string,
     ref: string,
     pattern: string,
     filePatterns?: string | string[]
   ): Promise<Array<{ file: string; line: number; content: string }>> {
-    const args = ["grep", "-n", "-E", pattern, ref];
+    // In the working tree, output lines have no "<ref>:" prefix
+    const workingTree = ref === WORKING_TREE_REF;
+    const args = workingTree
+      ? ["grep", "-n", "-E", (await this.isGitRepo(repoPath)) ? "--untracked" : "--no-index", pattern]
+      : ["grep", "-n", "-E", pattern, ref];
     if (filePatterns) {
       args.push("--");
       // Support both single pattern and array of patterns
@@ -319,7 +457,7 @@ export class GitManager {
         .split("\n")
         .filter(Boolean)
         .map((line) => {
-          const match = line.match(/^[^:]+:([^:]+):(\d+):(.*)$/);
+          const match = workingTree ? line.match(/^([^:]+):(\d+):(.*)$/) : line.match(/^[^:]+:([^:]+):(\d+):(.*)$/);
           if (match) {
             return {
               file: match[1],
@@ -405,10 +543,12 @@ export class GitManager {
     }
   }
 
-  async getRepoState(name: string, url: string, options: { skipFetch?: boolean; verify?: boolean; skipClone?: boolean } = {}): Promise<RepoState> {
-    const repoPath = await this.ensureRepo(name, url, { skipFetch: options.skipFetch, skipClone: options.skipClone });
-    const branches = await this.listBranches(repoPath, { verify: options.verify });
-    const tags = await this.listTags(repoPath);
+  async getRepoState(name: string, source: RepoSource, options: { skipFetch?: boolean; verify?: boolean; skipClone?: boolean } = {}): Promise<RepoState> {
+    const repoPath = await this.resolveRepo(name, source, { skipFetch: options.skipFetch, skipClone: options.skipClone });
+    // A local checkout that isn't a git repo only has its working tree
+    const hasGit = !source.path || (await this.isGitRepo(repoPath));
+    const branches = hasGit ? await this.listBranches(repoPath, { verify: options.verify }) : [];
+    const tags = hasGit ? await this.listTags(repoPath) : [];
 
     let currentRef = "unknown";
     // Skip HEAD resolution for list_refs (not needed and can be slow)
@@ -422,7 +562,7 @@ export class GitManager {
 
     return {
       name,
-      url,
+      url: source.url,
       localPath: repoPath,
       currentRef,
       branches,
@@ -431,17 +571,18 @@ export class GitManager {
     };
   }
 
-  async diffRefs(
-    repoPath: string,
-    fromRef: string,
-    toRef: string
-  ): Promise<Array<{ status: string; file: string }>> {
-    const output = await this.git(["diff", "--name-status", fromRef, toRef], repoPath);
+  /**
+   * Files changed between two commits. Renames are reported as a deletion plus
+   * an addition, so every path is one that exists at one of the two commits.
+   */
+  async diffRefs(repoPath: string, fromRef: string, toRef: string): Promise<FileChange[]> {
+    const output = await this.git(["diff", "--name-status", "--no-renames", fromRef, toRef], repoPath);
 
     return output.split("\n").filter(Boolean).map((line) => {
       const [status, ...fileParts] = line.split("\t");
+      const code = status.trim();
       return {
-        status: status.trim(),
+        status: code === "A" ? "added" : code === "D" ? "deleted" : "modified",
         file: fileParts.join("\t"),
       };
     });
@@ -0,0 +1,192 @@
+/**
+ * HTTP transport host for running OrgBrain as a shared, long-lived server.
+ *
+ * Serves the MCP Streamable HTTP transport on /mcp, with the legacy SSE
+ * transport (/sse + /messages) as a fallback for older clients. Each client
+ * session gets its own McpServer instance; all sessions share the same
+ * module-level KnowledgeStore and GitManager singletons.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse, type Server } from "http";
+import { randomUUID } from "crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+// Reject request bodies larger than this (JSON-RPC messages are small)
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Validate the request's credentials; return null to reject with 401. Omit to allow all. */
+  authenticate?: (req: IncomingMessage) => AuthInfo | null;
+}
+
+type Session =
+  | { kind: "streamable"; transport: StreamableHTTPServerTransport; server: McpServer }
+  | { kind: "sse"; transport: SSEServerTransport; server: McpServer };
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on("end", () => {
+      if (chunks.length === 0) {
+        resolve(undefined);
+        return;
+      }
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf-8")));
+      } catch (error) {
+        reject(new Error(`Invalid JSON body: ${error instanceof Error ? error.message : String(error)}`));
+      }
+    });
+
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code, message }, id: null });
+}
+
+/**
+ * Start an HTTP server exposing MCP over Streamable HTTP and SSE.
+ * `createMcpServer` is called once per client session.
+ */
+export async function startHttpServer(
+  createMcpServer: () => Promise<McpServer>,
+  options: HttpServerOptions
+): Promise<Server> {
+  const sessions = new Map<string, Session>();
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || session.kind !== "streamable") {
+        sendJsonRpcError(res, 404, -32001, `Session "${sessionId}" not found`);
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: no valid session ID provided");
+      return;
+    }
+
+    const server = await createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { kind: "streamable", transport, server });
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+      server.close().catch(() => {});
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseConnect = async (res: ServerResponse): Promise<void> => {
+    const server = await createMcpServer();
+    const transport = new SSEServerTransport("/messages", res);
+    sessions.set(transport.sessionId, { kind: "sse", transport, server });
+
+    res.on("close", () => {
+      sessions.delete(transport.sessionId);
+      server.close().catch(() => {});
+    });
+
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> => {
+    const sessionId = url.searchParams.get("sessionId");
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session || session.kind !== "sse") {
+      sendJsonRpcError(res, 404, -32001, `Session "${sessionId ?? ""}" not found`);
+      return;
+    }
+    const body = await readJsonBody(req);
+    await session.transport.handlePostMessage(req, res, body);
+  };
+
+  const httpServer = createServer(async (req: IncomingMessage & { auth?: AuthInfo }, res) => {
+    const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
+
+    try {
+      if (options.authenticate && url.pathname !== "/health") {
+        const authInfo = options.authenticate(req);
+        if (!authInfo) {
+          res.setHeader("WWW-Authenticate", 'Bearer realm="orgbrain"');
+          sendJsonRpcError(res, 401, -32001, "Unauthorized: missing or invalid bearer token");
+          return;
+        }
+        req.auth = authInfo;
+      }
+
+      if (url.pathname === "/mcp") {
+        await handleStreamable(req, res);
+      } else if (url.pathname === "/sse" && req.method === "GET") {
+        await handleSseConnect(res);
+      } else if (url.pathname === "/messages" && req.method === "POST") {
+        await handleSseMessage(req, res, url);
+      } else if (url.pathname === "/health" && req.method === "GET") {
+        sendJson(res, 200, { status: "ok", sessions: sessions.size });
+      } else {
+        sendJson(res, 404, { error: `Not found: ${req.method} ${url.pathname}` });
+      }
+    } catch (error) {
+      console.error(`HTTP ${req.method} ${url.pathname} failed:`, error);
+      sendJsonRpcError(res, 500, -32603, error instanceof Error ? error.message : String(error));
+    }
+  });
+
+  httpServer.on("close", () => {
+    for (const session of sessions.values()) {
+      session.transport.close().catch(() => {});
+    }
+    sessions.clear();
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  return httpServer;
+}
@@ -1,7 +1,23 @@
 /**
- * Simple in-memory job manager for background tasks
+ * Job manager for background tasks.
+ *
+ * Jobs are kept in memory and, once initJobStore() has been called, persisted
+ * as one JSON file per job so they survive restarts. Active jobs record the
+ * process that owns them and a heartbeat; on startup, jobs whose owner is gone
+ * or has stopped beating are resumed if their type is resumable, or marked
+ * interrupted. Jobs of another live server sharing the directory are left alone.
+ * Each running job has an AbortSignal, tracked with AsyncLocalStorage so git
+ * and extraction code can stop in-flight work when the job is cancelled, and
+ * can report progress and events to the observers of the job (e.g. the MCP
+ * request that started it).
  */
 
+import { AsyncLocalStorage } from "async_hooks";
+import { setMaxListeners } from "events";
+import { promises as fs } from "fs";
+import { hostname } from "os";
+import { join } from "path";
+
 export interface JobProgress {
   current: number;
   total: number;
@@ -18,46 +34,391 @@ export interface JobProgress {
   failed?: number;
 }
 
+export const JOB_STATUSES = ["pending", "running", "completed", "failed", "cancelled", "interrupted"] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
 export interface Job {
   id: string;
   type: string;
-  status: "pending" | "running" | "completed" | "failed";
+  status: JobStatus;
+  /** Arguments the job was started with (used to resume it after a restart) */
+  params?: Record<string, unknown>;
   progress?: JobProgress;
   result?: unknown;
   error?: string;
   startedAt: Date;
   completedAt?: Date;
+  /** Number of times the job was resumed after a restart */
+  resumed?: number;
+  /** Server process running the job */
+  owner?: JobOwner;
+}
+
+export interface JobOwner {
+  pid: number;
+  hostname: string;
+  /** Last time the owner reported it was alive */
+  heartbeatAt: Date;
+}
+
+export type JobEventLevel = "debug" | "info" | "warning" | "error";
+
+/** Something that happened while a job ran (a repo started or finished, an extractor failed, ...) */
+export interface JobEvent {
+  level: JobEventLevel;
+  message: string;
+  repo?: string;
+  ref?: string;
+}
+
+/**
+ * Receives a job's progress updates and events until the job finishes
+ */
+export interface JobObserver {
+  progress?(job: Job, progress: JobProgress): void;
+  event?(job: Job, event: JobEvent): void;
 }
 
+/**
+ * Work done by a job type. Returns the job's result; throws to fail the job.
+ * Should stop early (by throwing) once `signal` is aborted.
+ */
+export type JobRunner = (job: Job, signal: AbortSignal) => Promise<unknown>;
+
+interface JobType {
+  run: JobRunner;
+  /** Restart the job from its params if the server stopped while it was running */
+  resumable: boolean;
+}
+
+interface RunningJob {
+  controller: AbortController;
+  done: Promise<void>;
+}
+
+/** Finished jobs kept in history (older ones are deleted) */
+const JOB_HISTORY_LIMIT = 200;
+
+/** How often the owner of active jobs refreshes their heartbeat */
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+/** Heartbeat age after which an active job's owner is presumed dead */
+const HEARTBEAT_STALE_MS = 4 * HEARTBEAT_INTERVAL_MS;
+
 const jobs = new Map<string, Job>();
+const jobTypes = new Map<string, JobType>();
+const running = new Map<string, RunningJob>();
+const observers = new Map<string, Set<JobObserver>>();
+const runStorage = new AsyncLocalStorage<{ job: Job; signal: AbortSignal }>();
+const observerStorage = new AsyncLocalStorage<JobObserver>();
 
-// Clean up old jobs after 1 hour
-const JOB_TTL_MS = 60 * 60 * 1000;
+let jobsDir: string | null = null;
+let heartbeatTimer: NodeJS.Timeout | null = null;
+const pendingWrites = new Map<string, Promise<void>>();
+const queuedWrites = new Set<string>();
 
 function generateJobId(): string {
   return `job_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 }
 
+function isActive(job: Job): boolean {
+  return job.status === "pending" || job.status === "running";
+}
+
+function currentOwner(): JobOwner {
+  return { pid: process.pid, hostname: hostname(), heartbeatAt: new Date() };
+}
+
+/**
+ * Whether the process that owns a persisted job may still be running it: its
+ * heartbeat is recent and, on this host, the process still exists
+ */
+function isOwnerAlive(owner: JobOwner): boolean {
+  if (Date.now() - owner.heartbeatAt.getTime() > HEARTBEAT_STALE_MS) return false;
+  if (owner.hostname !== hostname()) return true;
+  // Our own pid belongs to an earlier run (e.g. pid 1 in a restarted container)
+  if (owner.pid === process.pid) return false;
+  try {
+    process.kill(owner.pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Refresh the heartbeat of every active job, all of which this process owns
+ */
+function beat(): void {
+  for (const job of jobs.values()) {
+    if (!isActive(job)) continue;
+    job.owner = currentOwner();
+    persist(job);
+  }
+}
+
+/**
+ * Write a job to disk. Writes for a job are serialized, and updates made while
+ * a write is queued are folded into it.
+ */
+function persist(job: Job): void {
+  if (!jobsDir || queuedWrites.has(job.id)) return;
+
+  const file = join(jobsDir, `${job.id}.json`);
+  queuedWrites.add(job.id);
+  const previous = pendingWrites.get(job.id) ?? Promise.resolve();
+  const write = previous
+    .then(async () => {
+      queuedWrites.delete(job.id);
+      await fs.writeFile(`${file}.tmp`, JSON.stringify(job, null, 2));
+      await fs.rename(`${file}.tmp`, file);
+    })
+    .catch((error) => console.error(`Failed to persist job ${job.id}:`, error));
+
+  pendingWrites.set(job.id, write);
+  write.then(() => {
+    if (pendingWrites.get(job.id) === write) pendingWrites.delete(job.id);
+  });
+}
+
 function cleanupOldJobs(): void {
-  const now = Date.now();
-  for (const [id, job] of jobs.entries()) {
-    if (job.completedAt && now - job.completedAt.getTime() > JOB_TTL_MS) {
-      jobs.delete(id);
+  const finished = Array.from(jobs.values())
+    .filter((job) => !isActive(job))
+    .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+
+  for (const job of finished.slice(JOB_HISTORY_LIMIT)) {
+    jobs.delete(job.id);
+    if (jobsDir) {
+      const file = join(jobsDir, `${job.id}.json`);
+      (pendingWrites.get(job.id) ?? Promise.resolve()).then(() => fs.rm(file, { force: true })).catch(() => {});
     }
   }
 }
 
-export function createJob(type: string): Job {
+function notify(job: Job, call: (observer: JobObserver) => void): void {
+  for (const observer of observers.get(job.id) ?? []) {
+    try {
+      call(observer);
+    } catch (error) {
+      console.error(`Job observer for ${job.id} failed:`, error);
+    }
+  }
+}
+
+function emit(job: Job, event: JobEvent): void {
+  notify(job, (observer) => observer.event?.(job, event));
+}
+
+function reviveJob(
+  raw: Job & { startedAt: string; completedAt?: string; owner?: JobOwner & { heartbeatAt: string } }
+): Job {
+  return {
+    ...raw,
+    startedAt: new Date(raw.startedAt),
+    completedAt: raw.completedAt ? new Date(raw.completedAt) : undefined,
+    owner: raw.owner ? { ...raw.owner, heartbeatAt: new Date(raw.owner.heartbeatAt) } : undefined,
+  };
+}
+
+/**
+ * Register the runner for a job type, so startJob() and restart recovery can run it
+ */
+export function registerJobType(type: string, run: JobRunner, options: { resumable?: boolean } = {}): void {
+  jobTypes.set(type, { run, resumable: options.resumable ?? false });
+}
+
+/**
+ * Persist jobs under `dir` and load the history saved there. Active jobs whose
+ * owner is gone are resumed (resumable types) or marked interrupted; those still
+ * owned by another live server are not loaded.
+ */
+export async function initJobStore(dir: string): Promise<{ resumed: Job[]; interrupted: Job[] }> {
+  await fs.mkdir(dir, { recursive: true });
+  jobsDir = dir;
+
+  const resumed: Job[] = [];
+  const interrupted: Job[] = [];
+
+  for (const entry of await fs.readdir(dir)) {
+    if (!entry.endsWith(".json")) continue;
+
+    let job: Job;
+    try {
+      job = reviveJob(JSON.parse(await fs.readFile(join(dir, entry), "utf-8")));
+    } catch (error) {
+      console.error(`Skipping unreadable job file ${entry}: ${error}`);
+      continue;
+    }
+    if (jobs.has(job.id)) continue;
+    if (isActive(job) && job.owner && isOwnerAlive(job.owner)) continue;
+    jobs.set(job.id, job);
+
+    if (!isActive(job)) continue;
+
+    if (jobTypes.get(job.type)?.resumable) {
+      job.resumed = (job.resumed ?? 0) + 1;
+      job.owner = currentOwner();
+      resumed.push(job);
+    } else {
+      Object.assign(job, {
+        status: "interrupted",
+        error: "The server stopped while this job was running",
+        completedAt: new Date(),
+      });
+      interrupted.push(job);
+    }
+    persist(job);
+  }
+
+  cleanupOldJobs();
+  for (const job of resumed) execute(job);
+
+  heartbeatTimer ??= setInterval(beat, HEARTBEAT_INTERVAL_MS);
+  heartbeatTimer.unref();
+
+  return { resumed, interrupted };
+}
+
+/**
+ * Run a job's registered runner in the background
+ */
+function execute(job: Job): void {
+  const type = jobTypes.get(job.type);
+  if (!type) {
+    updateJob(job.id, { status: "failed", error: `Unknown job type "${job.type}"`, completedAt: new Date() });
+    return;
+  }
+
+  const controller = new AbortController();
+  // Every in-flight git command of the job listens to this signal
+  setMaxListeners(0, controller.signal);
+  const done = (async () => {
+    updateJob(job.id, { status: "running" });
+    emit(job, { level: "info", message: `Job ${job.type} started` });
+    try {
+      const context = { job, signal: controller.signal };
+      const result = await runStorage.run(context, () => type.run(job, controller.signal));
+      if (controller.signal.aborted) throw controller.signal.reason;
+      updateJob(job.id, { status: "completed", result, completedAt: new Date() });
+      emit(job, { level: "info", message: `Job ${job.type} completed` });
+    } catch (error) {
+      const cancelled = controller.signal.aborted;
+      updateJob(job.id, {
+        status: cancelled ? "cancelled" : "failed",
+        error: cancelled ? "Cancelled" : error instanceof Error ? error.message : String(error),
+        completedAt: new Date(),
+      });
+      emit(job, {
+        level: cancelled ? "warning" : "error",
+        message: cancelled ? `Job ${job.type} cancelled` : `Job ${job.type} failed: ${job.error}`,
+      });
+    } finally {
+      running.delete(job.id);
+      observers.delete(job.id);
+    }
+  })();
+
+  running.set(job.id, { controller, done });
+}
+
+/**
+ * Create a job of a registered type and start it in the background.
+ * The observer set with runWithJobObserver() (if any) follows the job.
+ */
+export function startJob(type: string, params: Record<string, unknown> = {}): Job {
+  const job = createJob(type, params);
+  const observer = observerStorage.getStore();
+  if (observer) observeJob(job.id, observer);
+  execute(job);
+  return job;
+}
+
+/**
+ * Run `fn` so that jobs it starts report to `observer`
+ */
+export function runWithJobObserver<T>(observer: JobObserver, fn: () => T): T {
+  return observerStorage.run(observer, fn);
+}
+
+/**
+ * Follow an active job's progress and events. Returns a function that stops observing.
+ */
+export function observeJob(id: string, observer: JobObserver): () => void {
+  const job = jobs.get(id);
+  if (!job || !isActive(job)) return () => {};
+
+  const set = observers.get(id) ?? new Set<JobObserver>();
+  set.add(observer);
+  observers.set(id, set);
+  return () => {
+    set.delete(observer);
+  };
+}
+
+/**
+ * Wait for a started job to finish (resolves immediately if it isn't running)
+ */
+export async function waitForJob(id: string): Promise<Job | undefined> {
+  await running.get(id)?.done;
+  return jobs.get(id);
+}
+
+/**
+ * Request cancellation of an active job. In-flight git commands are killed and
+ * extraction stops; the job becomes "cancelled" once its work has unwound.
+ */
+export function cancelJob(id: string): Job | undefined {
+  const job = jobs.get(id);
+  if (!job || !isActive(job)) return job;
+
+  const run = running.get(id);
+  if (run) {
+    run.controller.abort(new Error("Cancelled"));
+  } else {
+    updateJob(id, { status: "cancelled", error: "Cancelled", completedAt: new Date() });
+  }
+  return job;
+}
+
+/**
+ * Cancellation signal of the job whose work is currently executing (if any)
+ */
+export function currentJobSignal(): AbortSignal | undefined {
+  return runStorage.getStore()?.signal;
+}
+
+/**
+ * Update the progress of the job whose work is currently executing (no-op outside a job)
+ */
+export function reportJobProgress(progress: JobProgress): void {
+  const job = runStorage.getStore()?.job;
+  if (job) updateJob(job.id, { progress });
+}
+
+/**
+ * Report an event of the job whose work is currently executing to its observers
+ * (no-op outside a job)
+ */
+export function reportJobEvent(event: JobEvent): void {
+  const job = runStorage.getStore()?.job;
+  if (job) emit(job, event);
+}
+
+export function createJob(type: string, params?: Record<string, unknown>): Job {
   cleanupOldJobs();
 
   const job: Job = {
     id: generateJobId(),
     type,
     status: "pending",
+    params,
     startedAt: new Date(),
+    owner: currentOwner(),
   };
 
   jobs.set(job.id, job);
+  persist(job);
   return job;
 }
 
@@ -69,16 +430,21 @@ export function updateJob(id: string, updates: Partial<Job>): void {
   const job = jobs.get(id);
   if (job) {
     Object.assign(job, updates);
+    persist(job);
+    if (updates.progress) {
+      const progress = updates.progress;
+      notify(job, (observer) => observer.progress?.(job, progress));
+    }
   }
 }
 
-export function listJobs(): Job[] {
+export function listJobs(filter: { type?: string; status?: JobStatus } = {}): Job[] {
   cleanupOldJobs();
-  return Array.from(jobs.values()).sort(
-    (a, b) => b.startedAt.getTime() - a.startedAt.getTime()
-  );
+  return Array.from(jobs.values())
+    .filter((j) => (!filter.type || j.type === filter.type) && (!filter.status || j.status === filter.status))
+    .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
 }
 
 export function listActiveJobs(): Job[] {
-  return listJobs().filter((j) => j.status === "pending" || j.status === "running");
+  return listJobs().filter(isActive);
 }
@@ -0,0 +1,232 @@
+/**
+ * JSON Schema to Zod conversion for tool parameter schemas.
+ *
+ * Tools declare their parameters as plain JSON Schema objects; McpServer wants a
+ * Zod shape. This converter covers the subset of JSON Schema (draft 7) that tool
+ * schemas use, so invalid arguments are rejected before they reach a handler.
+ *
+ * Supported: type (incl. type arrays), enum, const, string constraints
+ * (minLength/maxLength/pattern/format), number constraints (minimum/maximum and
+ * their exclusive forms, integer), arrays (items/minItems/maxItems/uniqueItems),
+ * objects (properties/required/additionalProperties), oneOf/anyOf/allOf,
+ * nullable, default and description.
+ */
+
+import { z } from "zod";
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  nullable?: boolean;
+  // string
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  // number / integer
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  // array
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  // object
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  // composition
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+}
+
+type JsonSchemaType = "string" | "number" | "integer" | "boolean" | "array" | "object" | "null";
+
+function union(members: z.ZodTypeAny[]): z.ZodTypeAny {
+  if (members.length === 0) return z.never();
+  if (members.length === 1) return members[0];
+  return z.union(members as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+function literal(value: unknown): z.ZodTypeAny {
+  if (value === null) return z.null();
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return z.literal(value);
+  }
+  throw new Error(`Unsupported enum/const value in JSON Schema: ${JSON.stringify(value)}`);
+}
+
+function stringSchema(schema: JsonSchema): z.ZodTypeAny {
+  let field = z.string();
+  if (schema.minLength !== undefined) field = field.min(schema.minLength);
+  if (schema.maxLength !== undefined) field = field.max(schema.maxLength);
+  if (schema.pattern !== undefined) field = field.regex(new RegExp(schema.pattern));
+
+  switch (schema.format) {
+    case "uri":
+      field = field.url();
+      break;
+    case "email":
+      field = field.email();
+      break;
+    case "date-time":
+      field = field.datetime({ offset: true });
+      break;
+    case "uuid":
+      field = field.uuid();
+      break;
+  }
+
+  return field;
+}
+
+function numberSchema(schema: JsonSchema, integer: boolean): z.ZodTypeAny {
+  let field = z.number();
+  if (integer) field = field.int();
+  if (schema.minimum !== undefined) field = field.gte(schema.minimum);
+  if (schema.maximum !== undefined) field = field.lte(schema.maximum);
+  if (schema.exclusiveMinimum !== undefined) field = field.gt(schema.exclusiveMinimum);
+  if (schema.exclusiveMaximum !== undefined) field = field.lt(schema.exclusiveMaximum);
+  return field;
+}
+
+function arraySchema(schema: JsonSchema): z.ZodTypeAny {
+  let field = z.array(schema.items ? jsonSchemaToZod(schema.items) : z.unknown());
+  if (schema.minItems !== undefined) field = field.min(schema.minItems);
+  if (schema.maxItems !== undefined) field = field.max(schema.maxItems);
+
+  if (schema.uniqueItems) {
+    return field.refine(
+      (items) => new Set(items.map((item) => JSON.stringify(item))).size === items.length,
+      { message: "Array items must be unique" }
+    );
+  }
+
+  return field;
+}
+
+function objectSchema(schema: JsonSchema): z.ZodTypeAny {
+  const object = z.object(jsonSchemaToZodShape(schema));
+  const additional = schema.additionalProperties;
+
+  if (additional === false) return object.strict();
+  if (additional && typeof additional === "object") return object.catchall(jsonSchemaToZod(additional));
+  return object.passthrough();
+}
+
+function typedSchema(schema: JsonSchema, type: JsonSchemaType): z.ZodTypeAny {
+  switch (type) {
+    case "string":
+      return stringSchema(schema);
+    case "number":
+      return numberSchema(schema, false);
+    case "integer":
+      return numberSchema(schema, true);
+    case "boolean":
+      return z.boolean();
+    case "null":
+      return z.null();
+    case "array":
+      return arraySchema(schema);
+    case "object":
+      return objectSchema(schema);
+    default:
+      throw new Error(`Unsupported JSON Schema type: ${String(type)}`);
+  }
+}
+
+/**
+ * Infer the type of a schema that omits `type` from the keywords it uses
+ */
+function inferType(schema: JsonSchema): JsonSchemaType | undefined {
+  if (schema.properties || schema.additionalProperties !== undefined) return "object";
+  if (schema.items) return "array";
+  if (schema.pattern !== undefined || schema.minLength !== undefined || schema.maxLength !== undefined) return "string";
+  if (schema.minimum !== undefined || schema.maximum !== undefined) return "number";
+  return undefined;
+}
+
+/**
+ * Convert a JSON Schema to a Zod type, before nullable/description are applied
+ */
+function convert(schema: JsonSchema): z.ZodTypeAny {
+  if (schema.const !== undefined) {
+    return literal(schema.const);
+  }
+
+  if (schema.enum) {
+    const values = schema.enum;
+    if (values.length > 0 && values.every((v) => typeof v === "string")) {
+      return z.enum(values as [string, ...string[]]);
+    }
+    return union(values.map(literal));
+  }
+
+  if (schema.oneOf || schema.anyOf) {
+    // oneOf is treated like anyOf: tool arguments only need to match one branch
+    return union((schema.oneOf || schema.anyOf)!.map(jsonSchemaToZod));
+  }
+
+  if (schema.allOf) {
+    const [first, ...rest] = schema.allOf.map(jsonSchemaToZod);
+    return rest.reduce((acc, next) => z.intersection(acc, next), first ?? z.unknown());
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  if (types.length === 0) {
+    const inferred = inferType(schema);
+    return inferred ? typedSchema(schema, inferred) : z.unknown();
+  }
+
+  return union(types.map((type) => typedSchema(schema, type)));
+}
+
+/**
+ * Convert a JSON Schema to a Zod type
+ */
+export function jsonSchemaToZod(schema: JsonSchema): z.ZodTypeAny {
+  let field = convert(schema);
+
+  if (schema.nullable) {
+    field = field.nullable();
+  }
+
+  if (schema.description) {
+    field = field.describe(schema.description);
+  }
+
+  return field;
+}
+
+/**
+ * Convert an object JSON Schema to a Zod shape (for server.tool()).
+ * Properties not listed in `required` become optional, or take their `default`.
+ */
+export function jsonSchemaToZodShape(schema: JsonSchema | Record<string, unknown>): Record<string, z.ZodTypeAny> {
+  const properties = (schema as JsonSchema).properties;
+  const required = (schema as JsonSchema).required || [];
+
+  if (!properties || Object.keys(properties).length === 0) {
+    return {};
+  }
+
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const [key, prop] of Object.entries(properties)) {
+    let field = jsonSchemaToZod(prop);
+
+    if (!required.includes(key)) {
+      field = prop.default !== undefined ? field.default(prop.default) : field.optional();
+    }
+
+    shape[key] = field;
+  }
+
+  return shape;
+}
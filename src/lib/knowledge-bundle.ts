@@ -0,0 +1,244 @@
+/**
+ * Knowledge bundles: portable archives of extracted knowledge.
+ *
+ * A bundle is one gzip-compressed JSON file holding the latest snapshot of
+ * selected repos and refs (manifest and extractor outputs), a schema version
+ * and a SHA-256 checksum of its entries. CI can extract once and publish a
+ * bundle; developers import it instead of cloning and extracting every repo.
+ */
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import { dirname } from "path";
+import { promisify } from "util";
+import { gzip, gunzip } from "zlib";
+import type { KnowledgeStore } from "./knowledge-store.js";
+import type { Truncation } from "./extraction-budget.js";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export const BUNDLE_FORMAT = "orgbrain-knowledge-bundle";
+
+/** Bump when the bundle layout changes; imports reject bundles newer than this */
+export const BUNDLE_SCHEMA_VERSION = 1;
+
+export interface BundleEntry {
+  manifest: {
+    repo: string;
+    ref: string;
+    refType: "branch" | "tag";
+    /** ISO timestamp */
+    extractedAt: string;
+    extractors: string[];
+    sha?: string;
+    /** Output version of each extractor's data (missing in bundles from before output versions: 1) */
+    outputVersions?: Record<string, number>;
+    /** Budget limits that left files out, by extractor */
+    truncated?: Record<string, Truncation[]>;
+  };
+  data: Record<string, unknown>;
+}
+
+export interface KnowledgeBundle {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  createdAt: string;
+  /** `sha256:<hex>` of the JSON-serialized entries */
+  checksum: string;
+  entries: BundleEntry[];
+}
+
+export interface BundleExportOptions {
+  /** Repos to include (default: every stored repo) */
+  repos?: string[];
+  /** Branch/tag names to include (default: every stored ref) */
+  refs?: string[];
+}
+
+/**
+ * What to do when a bundled ref is already in the store:
+ * - `newer`: keep whichever was extracted more recently
+ * - `keep`: never touch refs already in the store
+ * - `replace`: the bundle wins; the ref's existing snapshots are dropped
+ */
+export type BundleConflictPolicy = "newer" | "keep" | "replace";
+
+export const BUNDLE_CONFLICT_POLICIES: BundleConflictPolicy[] = ["newer", "keep", "replace"];
+
+export interface BundleImportOptions {
+  /** Only import these repos */
+  repos?: string[];
+  conflict?: BundleConflictPolicy;
+}
+
+export interface BundleRef {
+  repo: string;
+  refType: "branch" | "tag";
+  ref: string;
+  extractedAt: string;
+}
+
+export interface BundleImportResult {
+  imported: BundleRef[];
+  skipped: Array<BundleRef & { reason: string }>;
+}
+
+function checksum(entries: BundleEntry[]): string {
+  return `sha256:${createHash("sha256").update(JSON.stringify(entries)).digest("hex")}`;
+}
+
+/** Repo names as the config and tools accept them */
+const REPO_NAME = /^[a-zA-Z0-9._-]{1,100}$/;
+
+/**
+ * Why a bundled manifest can't be stored, if it can't. Its repo, ref and SHA
+ * become store paths, so they must not be able to leave the knowledge dir.
+ */
+function invalidManifestReason({ repo, refType, ref, sha }: BundleEntry["manifest"]): string | undefined {
+  if (typeof repo !== "string" || !REPO_NAME.test(repo) || repo === "." || repo === "..") {
+    return "invalid repo name";
+  }
+  if (refType !== "branch" && refType !== "tag") return "invalid ref type";
+  // Branch names may contain `/` (the store flattens it), but no path segments of their own
+  if (
+    typeof ref !== "string" ||
+    ref.length === 0 ||
+    ref.length > 250 ||
+    /\.\.|^\/|\/\/|\/$|\\|[\x00-\x1F\x7F]/.test(ref) ||
+    ref.split("/").includes(".")
+  ) {
+    return "invalid ref name";
+  }
+  if (sha !== undefined && (typeof sha !== "string" || !/^[0-9a-f]{7,64}$/i.test(sha))) return "invalid commit SHA";
+  return undefined;
+}
+
+function bundleRef({ manifest }: BundleEntry): BundleRef {
+  return { repo: manifest.repo, refType: manifest.refType, ref: manifest.ref, extractedAt: manifest.extractedAt };
+}
+
+/**
+ * Pack the latest snapshot of each selected ref
+ */
+export async function createBundle(store: KnowledgeStore, options: BundleExportOptions = {}): Promise<KnowledgeBundle> {
+  const entries: BundleEntry[] = [];
+  const repos = options.repos ?? (await store.listRepos());
+
+  for (const repo of repos) {
+    for (const version of await store.listVersions(repo)) {
+      if (options.refs && !options.refs.includes(version.ref)) continue;
+
+      const knowledge = await store.load(repo, version.refType as "branch" | "tag", version.ref);
+      if (!knowledge) continue;
+
+      const { manifest, data } = knowledge;
+      entries.push({
+        manifest: {
+          repo,
+          ref: manifest.ref,
+          refType: manifest.refType,
+          extractedAt: manifest.extractedAt.toISOString(),
+          extractors: manifest.extractors,
+          sha: manifest.sha,
+          outputVersions: manifest.outputVersions,
+          truncated: manifest.truncated,
+        },
+        data,
+      });
+    }
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    checksum: checksum(entries),
+    entries,
+  };
+}
+
+export async function writeBundle(file: string, bundle: KnowledgeBundle): Promise<number> {
+  const compressed = await gzipAsync(JSON.stringify(bundle));
+  await fs.mkdir(dirname(file), { recursive: true });
+  await fs.writeFile(file, compressed);
+  return compressed.length;
+}
+
+/**
+ * Read and verify a bundle file. Throws if it is not a bundle, was written by
+ * a newer version, or fails its checksum.
+ */
+export async function readBundle(file: string): Promise<KnowledgeBundle> {
+  let bundle: KnowledgeBundle;
+  try {
+    bundle = JSON.parse((await gunzipAsync(await fs.readFile(file))).toString("utf-8"));
+  } catch (error) {
+    throw new Error(`Cannot read knowledge bundle ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (bundle?.format !== BUNDLE_FORMAT || !Array.isArray(bundle.entries)) {
+    throw new Error(`${file} is not a knowledge bundle`);
+  }
+  if (typeof bundle.schemaVersion !== "number" || bundle.schemaVersion > BUNDLE_SCHEMA_VERSION) {
+    throw new Error(
+      `Knowledge bundle schema version ${bundle.schemaVersion} is not supported (this version reads up to ${BUNDLE_SCHEMA_VERSION})`
+    );
+  }
+  if (checksum(bundle.entries) !== bundle.checksum) {
+    throw new Error(`Knowledge bundle ${file} failed its checksum; it may be truncated or modified`);
+  }
+
+  return bundle;
+}
+
+/**
+ * Merge a bundle into the store, resolving refs that already exist with the conflict policy
+ */
+export async function importBundle(
+  store: KnowledgeStore,
+  bundle: KnowledgeBundle,
+  options: BundleImportOptions = {}
+): Promise<BundleImportResult> {
+  const conflict = options.conflict ?? "newer";
+  const result: BundleImportResult = { imported: [], skipped: [] };
+
+  for (const entry of bundle.entries) {
+    const { repo, refType, ref } = entry.manifest;
+    const extractedAt = new Date(entry.manifest.extractedAt);
+    if (options.repos && !options.repos.includes(repo)) continue;
+
+    const invalid = invalidManifestReason(entry.manifest);
+    if (invalid) {
+      result.skipped.push({ ...bundleRef(entry), reason: invalid });
+      continue;
+    }
+    if (Number.isNaN(extractedAt.getTime())) {
+      result.skipped.push({ ...bundleRef(entry), reason: "invalid extraction time" });
+      continue;
+    }
+
+    const existing = (await store.listVersions(repo)).find((v) => v.refType === refType && v.ref === ref);
+    if (existing) {
+      if (conflict === "keep") {
+        result.skipped.push({ ...bundleRef(entry), reason: "already in store" });
+        continue;
+      }
+      if (conflict === "newer" && existing.extractedAt.getTime() >= extractedAt.getTime()) {
+        result.skipped.push({ ...bundleRef(entry), reason: `store has a newer or same extraction (${existing.extractedAt.toISOString()})` });
+        continue;
+      }
+      if (conflict === "replace") {
+        await store.delete(repo, refType, ref);
+      }
+    }
+
+    await store.saveVersion({ manifest: { ...entry.manifest, extractedAt }, data: entry.data });
+    result.imported.push(bundleRef(entry));
+  }
+
+  // Replaced snapshots may have left outputs nothing references
+  if (conflict === "replace" && result.imported.length > 0) await store.gc();
+
+  return result;
+}
@@ -0,0 +1,290 @@
+/**
+ * Normalized rows derived from extractor output.
+ *
+ * Types, relationships, routes, screens, services and k8s resources are
+ * flattened into rows so storage backends can index and filter them: the
+ * SQLite backend stores them in tables, the JSON backend builds them on the
+ * fly. Both apply the same filter semantics (see the match* functions).
+ */
+
+import type { TypeDefinition, TypeDefinitionsResult } from "../extractors/types/schema.js";
+
+export interface TypeRow {
+  repo: string;
+  name: string;
+  kind: string;
+  language: string;
+  file: string;
+  line: number;
+  visibility?: string;
+  fieldCount: number;
+  definition: TypeDefinition;
+}
+
+export interface RelationshipRow {
+  repo: string;
+  from: string;
+  to: string;
+  kind: string;
+  viaField?: string;
+  file: string;
+}
+
+export type RouteSource = "data_flow" | "user_flows" | "cloudflare_workers";
+
+export interface RouteRow {
+  repo: string;
+  source: RouteSource;
+  path: string;
+  method?: string;
+  component?: string;
+  file?: string;
+  line?: number;
+}
+
+export interface ScreenRow {
+  repo: string;
+  name: string;
+  file: string;
+  route?: string;
+}
+
+export type ServiceSource = "data_flow" | "kubernetes";
+
+export interface ServiceRow {
+  repo: string;
+  source: ServiceSource;
+  name: string;
+  namespace?: string;
+  /** Service type (k8s), e.g. ClusterIP */
+  type?: string;
+  file?: string;
+  /** Ingress paths (k8s) */
+  ingressHost?: string;
+  ingressPaths?: string[];
+  /** Services this one imports (data_flow) */
+  dependencies?: string[];
+}
+
+export interface K8sResourceRow {
+  repo: string;
+  kind: string;
+  name: string;
+  namespace?: string;
+  apiVersion: string;
+  file: string;
+}
+
+export interface KnowledgeRows {
+  types: TypeRow[];
+  relationships: RelationshipRow[];
+  routes: RouteRow[];
+  screens: ScreenRow[];
+  services: ServiceRow[];
+  k8sResources: K8sResourceRow[];
+}
+
+// Filters. Every filter applies to the latest extraction of each repo; `repos`
+// limits the repos searched, name/path filters match substrings.
+
+export interface TypeFilter {
+  repos?: string[];
+  /** Substring of the type name, compared with normalizeTypeName() */
+  name?: string;
+  kind?: string;
+  language?: string;
+}
+
+export interface RelationshipFilter {
+  repos?: string[];
+  /** Substring of either end's type name, compared with normalizeTypeName() */
+  type?: string;
+  kind?: string;
+}
+
+export interface RouteFilter {
+  repos?: string[];
+  /** Substring of the route path */
+  path?: string;
+  /** HTTP method (case-insensitive) */
+  method?: string;
+  source?: RouteSource;
+}
+
+export interface ScreenFilter {
+  repos?: string[];
+  /** Substring of the screen name (case-insensitive) */
+  name?: string;
+}
+
+export interface ServiceFilter {
+  repos?: string[];
+  /** Substring of the service name (case-insensitive) */
+  name?: string;
+  source?: ServiceSource;
+}
+
+export interface K8sResourceFilter {
+  repos?: string[];
+  kinds?: string[];
+  namespace?: string;
+  /** Substring of the resource name */
+  name?: string;
+}
+
+/**
+ * Normalize a type name for fuzzy comparison (case, underscores and hyphens ignored)
+ */
+export function normalizeTypeName(name: string): string {
+  return name.replace(/[_-]/g, "").toLowerCase();
+}
+
+/**
+ * Sort key for types: public types with more fields first
+ */
+export function typeImportanceScore(row: Pick<TypeRow, "visibility" | "fieldCount">): number {
+  return (row.visibility === "public" ? 100 : 0) + row.fieldCount;
+}
+
+function asArray<T>(value: unknown): T[] {
+  return Array.isArray(value) ? (value as T[]) : [];
+}
+
+/**
+ * Flatten one repo's extracted data into normalized rows
+ */
+export function knowledgeRows(repo: string, data: Record<string, unknown>): KnowledgeRows {
+  const rows: KnowledgeRows = { types: [], relationships: [], routes: [], screens: [], services: [], k8sResources: [] };
+
+  const typeData = data.type_definitions as Partial<TypeDefinitionsResult> | undefined;
+  for (const type of asArray<TypeDefinition>(typeData?.types)) {
+    rows.types.push({
+      repo,
+      name: type.name,
+      kind: type.kind,
+      language: type.language,
+      file: type.file,
+      line: type.line,
+      visibility: type.visibility,
+      fieldCount: type.fields?.length ?? 0,
+      definition: type,
+    });
+  }
+  for (const rel of asArray<RelationshipRow>(typeData?.relationships)) {
+    rows.relationships.push({ repo, from: rel.from, to: rel.to, kind: rel.kind, viaField: rel.viaField, file: rel.file });
+  }
+
+  const dataFlow = data.data_flow as Record<string, unknown> | undefined;
+  for (const route of asArray<{ method: string; path: string; file: string; line: number }>(dataFlow?.apiRoutes)) {
+    rows.routes.push({ repo, source: "data_flow", path: route.path, method: route.method, file: route.file, line: route.line });
+  }
+  for (const service of asArray<{ name: string; file: string; dependencies?: string[] }>(dataFlow?.services)) {
+    rows.services.push({ repo, source: "data_flow", name: service.name, file: service.file, dependencies: service.dependencies });
+  }
+
+  const userFlows = data.user_flows as Record<string, unknown> | undefined;
+  for (const route of asArray<{ path: string; component?: string; file: string; line: number }>(userFlows?.routeDefinitions)) {
+    rows.routes.push({ repo, source: "user_flows", path: route.path, component: route.component, file: route.file, line: route.line });
+  }
+  for (const screen of asArray<{ name: string; file: string; route?: string }>(userFlows?.screens)) {
+    rows.screens.push({ repo, name: screen.name, file: screen.file, route: screen.route });
+  }
+
+  const workers = data.cloudflare_workers as Record<string, unknown> | undefined;
+  for (const endpoint of asArray<{ method: string; path: string; file: string }>(workers?.endpoints)) {
+    rows.routes.push({ repo, source: "cloudflare_workers", path: endpoint.path, method: endpoint.method, file: endpoint.file });
+  }
+
+  const k8s = data.kubernetes as Record<string, unknown> | undefined;
+  for (const resource of asArray<K8sResourceRow>(k8s?.resources)) {
+    rows.k8sResources.push({
+      repo,
+      kind: resource.kind,
+      name: resource.name,
+      namespace: resource.namespace,
+      apiVersion: resource.apiVersion,
+      file: resource.file,
+    });
+  }
+  for (const service of asArray<{ name: string; namespace: string; type: string; ingress?: { host: string; paths: string[] } }>(
+    k8s?.services
+  )) {
+    rows.services.push({
+      repo,
+      source: "kubernetes",
+      name: service.name,
+      namespace: service.namespace,
+      type: service.type,
+      ingressHost: service.ingress?.host,
+      ingressPaths: service.ingress?.paths,
+    });
+  }
+
+  return rows;
+}
+
+function inRepos(repo: string, repos?: string[]): boolean {
+  return !repos || repos.includes(repo);
+}
+
+function contains(value: string | undefined, search: string | undefined, normalize: (s: string) => string): boolean {
+  return !search || normalize(value ?? "").includes(normalize(search));
+}
+
+const lower = (s: string) => s.toLowerCase();
+const same = (s: string) => s;
+
+export function matchesType(row: TypeRow, filter: TypeFilter): boolean {
+  return (
+    inRepos(row.repo, filter.repos) &&
+    contains(row.name, filter.name, normalizeTypeName) &&
+    (!filter.kind || row.kind === filter.kind) &&
+    (!filter.language || row.language === filter.language)
+  );
+}
+
+export function matchesRelationship(row: RelationshipRow, filter: RelationshipFilter): boolean {
+  return (
+    inRepos(row.repo, filter.repos) &&
+    (!filter.type || contains(row.from, filter.type, normalizeTypeName) || contains(row.to, filter.type, normalizeTypeName)) &&
+    (!filter.kind || row.kind === filter.kind)
+  );
+}
+
+export function matchesRoute(row: RouteRow, filter: RouteFilter): boolean {
+  return (
+    inRepos(row.repo, filter.repos) &&
+    contains(row.path, filter.path, same) &&
+    (!filter.method || lower(row.method ?? "") === lower(filter.method)) &&
+    (!filter.source || row.source === filter.source)
+  );
+}
+
+export function matchesScreen(row: ScreenRow, filter: ScreenFilter): boolean {
+  return inRepos(row.repo, filter.repos) && contains(row.name, filter.name, lower);
+}
+
+export function matchesService(row: ServiceRow, filter: ServiceFilter): boolean {
+  return inRepos(row.repo, filter.repos) && contains(row.name, filter.name, lower) && (!filter.source || row.source === filter.source);
+}
+
+export function matchesK8sResource(row: K8sResourceRow, filter: K8sResourceFilter): boolean {
+  return (
+    inRepos(row.repo, filter.repos) &&
+    (!filter.kinds || filter.kinds.includes(row.kind)) &&
+    (!filter.namespace || row.namespace === filter.namespace) &&
+    contains(row.name, filter.name, same)
+  );
+}
+
+/**
+ * Type counts by kind, keyed by repo
+ */
+export function countTypesByKind(types: Array<Pick<TypeRow, "repo" | "kind">>): Record<string, Record<string, number>> {
+  const counts: Record<string, Record<string, number>> = {};
+  for (const { repo, kind } of types) {
+    counts[repo] ??= {};
+    counts[repo][kind] = (counts[repo][kind] ?? 0) + 1;
+  }
+  return counts;
+}
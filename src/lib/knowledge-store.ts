@@ -1,12 +1,53 @@
 import { promises as fs } from "fs";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
-import type { ExtractionResult } from "./extractor-base.js";
+import { currentOutputVersion, migrateOutput, outdatedOutputs, type ExtractionResult } from "./extractor-base.js";
+import type { KnowledgeConfig } from "./config-loader.js";
+import { BlobStore, type GcResult } from "./blob-store.js";
+import { collectingTruncations, noteTruncations, truncationsOf, type Truncation } from "./extraction-budget.js";
+import {
+  knowledgeRows,
+  matchesType,
+  matchesRelationship,
+  matchesRoute,
+  matchesService,
+  matchesK8sResource,
+  matchesScreen,
+  typeImportanceScore,
+  countTypesByKind,
+  type KnowledgeRows,
+  type TypeRow,
+  type RelationshipRow,
+  type RouteRow,
+  type ScreenRow,
+  type ServiceRow,
+  type K8sResourceRow,
+  type TypeFilter,
+  type RelationshipFilter,
+  type RouteFilter,
+  type ScreenFilter,
+  type ServiceFilter,
+  type K8sResourceFilter,
+} from "./knowledge-index.js";
+import {
+  DEFAULT_RETENTION,
+  expiredSnapshots,
+  selectSnapshot,
+  snapshotId,
+  type RetentionPolicy,
+  type SnapshotInfo,
+  type SnapshotSelector,
+} from "./snapshots.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const DEFAULT_KNOWLEDGE_DIR = join(__dirname, "..", "..", "knowledge", "extracted");
 
+/** Code-unit order, like SQLite's default BINARY collation */
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
 export interface KnowledgeManifest {
   repo: string;
   ref: string;
@@ -14,6 +55,14 @@ export interface KnowledgeManifest {
   extractedAt: Date;
   extractors: string[];
   sha?: string;
+  /** Snapshot the data was loaded from */
+  snapshot?: string;
+  /** Content hash of each extractor's output (see blob-store.ts) */
+  blobs?: Record<string, string>;
+  /** Output version of each extractor's data (see Extractor.outputVersion); missing means 1 */
+  outputVersions?: Record<string, number>;
+  /** Budget limits that left files out of an extractor's output (complete outputs are not listed) */
+  truncated?: Record<string, Truncation[]>;
 }
 
 export interface VersionedKnowledge {
@@ -21,113 +70,431 @@ export interface VersionedKnowledge {
   data: Record<string, unknown>;
 }
 
-export class KnowledgeStore {
-  private baseDir: string;
+/** A ref and its latest snapshot */
+export interface KnowledgeVersion {
+  refType: string;
+  ref: string;
+  extractedAt: Date;
+  sha?: string;
+  extractors: string[];
+  /** Number of snapshots kept for the ref */
+  snapshots: number;
+  /** Output version each extractor's data was stored with */
+  outputVersions: Record<string, number>;
+  /** Budget limits that left files out, by extractor (empty when every output is complete) */
+  truncated: Record<string, Truncation[]>;
+}
 
-  constructor(baseDir?: string) {
-    this.baseDir = baseDir || DEFAULT_KNOWLEDGE_DIR;
-  }
+/** One extractor's stored output, as written (before migrations) */
+export interface StoredOutput {
+  data: unknown;
+  version: number;
+}
 
-  private getPath(repo: string, refType: "branch" | "tag", ref: string): string {
-    const safeRef = ref.replace(/[/\\:*?"<>|]/g, "-");
-    return join(this.baseDir, repo, `${refType}-${safeRef}`);
-  }
+export type StorageBackendName = "json" | "sqlite";
 
-  async save(
+export interface KnowledgeStoreOptions {
+  /** Storage backend (default: "json") */
+  backend?: StorageBackendName;
+  /** Snapshots kept per ref after each save (default: DEFAULT_RETENTION) */
+  retention?: RetentionPolicy;
+}
+
+/**
+ * Store options from the config's `storage` settings
+ */
+export function knowledgeStoreOptions(config: KnowledgeConfig): KnowledgeStoreOptions {
+  return { backend: config.storage?.backend, retention: config.storage?.retention };
+}
+
+/**
+ * Where and how extracted knowledge is persisted. Each save adds a snapshot to
+ * the ref's history; loads return the latest snapshot unless a selector picks
+ * an older one. Queries apply to the latest extraction of each repo (the most
+ * recently extracted ref).
+ */
+export interface KnowledgeBackend {
+  save(manifest: KnowledgeManifest, data: Record<string, unknown>): Promise<void>;
+  load(repo: string, refType: "branch" | "tag", ref: string, at?: SnapshotSelector): Promise<VersionedKnowledge | null>;
+  loadExtractor(
     repo: string,
     refType: "branch" | "tag",
     ref: string,
-    results: ExtractionResult[],
-    sha?: string
-  ): Promise<void> {
-    const dir = this.getPath(repo, refType, ref);
-    await fs.mkdir(dir, { recursive: true });
+    extractor: string,
+    at?: SnapshotSelector
+  ): Promise<StoredOutput | null>;
+  /** Refs of a repo, most recently extracted first */
+  listVersions(repo: string): Promise<KnowledgeVersion[]>;
+  /** Snapshots of a ref, newest first */
+  listSnapshots(repo: string, refType: "branch" | "tag", ref: string): Promise<SnapshotInfo[]>;
+  listRepos(): Promise<string[]>;
+  delete(repo: string, refType: "branch" | "tag", ref: string): Promise<void>;
+  /** Drop snapshots from a ref's history (the ref goes away with its last snapshot) */
+  deleteSnapshots(repo: string, refType: "branch" | "tag", ref: string, ids: string[]): Promise<void>;
+  deleteRepo(repo: string): Promise<void>;
+  /** Remove stored extractor outputs no snapshot references any more */
+  gc(): Promise<GcResult>;
+
+  /** One extractor's output from the latest extraction of each repo that has it */
+  loadLatestExtractor(extractor: string, repos?: string[]): Promise<Record<string, StoredOutput>>;
+  queryTypes(filter: TypeFilter): Promise<TypeRow[]>;
+  countTypes(repos?: string[]): Promise<Record<string, Record<string, number>>>;
+  queryRelationships(filter: RelationshipFilter): Promise<RelationshipRow[]>;
+  queryRoutes(filter: RouteFilter): Promise<RouteRow[]>;
+  queryScreens(filter: ScreenFilter): Promise<ScreenRow[]>;
+  queryServices(filter: ServiceFilter): Promise<ServiceRow[]>;
+  queryK8sResources(filter: K8sResourceFilter): Promise<K8sResourceRow[]>;
+}
 
-    const manifest: KnowledgeManifest = {
-      repo,
-      ref,
-      refType,
-      extractedAt: new Date(),
-      extractors: results.map((r) => r.extractor),
-      sha,
-    };
+/** A ref's history in the JSON layout (refs/<refType>-<ref>.json), oldest first */
+interface RefIndex {
+  repo: string;
+  ref: string;
+  refType: "branch" | "tag";
+  snapshots: Array<{
+    id: string;
+    sha?: string;
+    extractedAt: string;
+    extractors: string[];
+    outputVersions?: Record<string, number>;
+    truncated?: Record<string, Truncation[]>;
+  }>;
+}
+
+const REFS_DIR = "refs";
+/** Shared by all repos; dot-prefixed so listRepos() skips it */
+const BLOBS_DIR = ".blobs";
+const SNAPSHOTS_DIR = "snapshots";
+
+/**
+ * Stored output version of each extractor (outputs saved before versioning are version 1)
+ */
+export function outputVersionsOf(extractors: string[], stored?: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(extractors.map((extractor) => [extractor, stored?.[extractor] ?? 1]));
+}
+
+/**
+ * Upgrade each extractor's output to the version its extractor writes now
+ * (see registerOutputMigration); the manifest records the versions reached
+ */
+function migrateKnowledge({ manifest, data }: VersionedKnowledge): VersionedKnowledge {
+  const migrated: Record<string, unknown> = {};
+  const outputVersions: Record<string, number> = {};
+  for (const [extractor, value] of Object.entries(data)) {
+    const output = migrateOutput(extractor, value, manifest.outputVersions?.[extractor] ?? 1);
+    migrated[extractor] = output.data;
+    outputVersions[extractor] = output.version;
+  }
+  return { manifest: { ...manifest, outputVersions }, data: migrated };
+}
+
+/**
+ * Add the outputs of an earlier extraction of the same commit that `next` did
+ * not re-run, so re-extracting a commit with other extractors keeps them
+ */
+export function mergeSnapshot(
+  previous: { manifest: Pick<KnowledgeManifest, "extractors" | "outputVersions" | "truncated">; data: Record<string, unknown> },
+  next: VersionedKnowledge
+): VersionedKnowledge {
+  const kept = previous.manifest.extractors.filter((extractor) => !(extractor in next.data) && extractor in previous.data);
+  if (kept.length === 0) return next;
+
+  const truncated = { ...next.manifest.truncated };
+  for (const extractor of kept) {
+    const truncations = previous.manifest.truncated?.[extractor];
+    if (truncations) truncated[extractor] = truncations;
+  }
+
+  return {
+    manifest: {
+      ...next.manifest,
+      extractors: [...kept, ...next.manifest.extractors.filter((extractor) => !kept.includes(extractor))],
+      outputVersions: { ...outputVersionsOf(kept, previous.manifest.outputVersions), ...next.manifest.outputVersions },
+      truncated: Object.keys(truncated).length > 0 ? truncated : undefined,
+    },
+    data: { ...Object.fromEntries(kept.map((extractor) => [extractor, previous.data[extractor]])), ...next.data },
+  };
+}
+
+function toSnapshotInfo(entry: RefIndex["snapshots"][number]): SnapshotInfo {
+  return { id: entry.id, sha: entry.sha, extractedAt: new Date(entry.extractedAt), extractors: entry.extractors };
+}
+
+/**
+ * Per repo: snapshots/<id>/manifest.json referencing each extractor's output
+ * by hash, and refs/<refType>-<ref>.json listing each ref's snapshots. The
+ * outputs themselves are compressed blobs in .blobs/, shared by every repo.
+ * Queries scan the latest snapshot of every repo.
+ */
+export class JsonKnowledgeBackend implements KnowledgeBackend {
+  /** Conversion of each repo's pre-snapshot directories, run once per repo */
+  private migrations = new Map<string, Promise<void>>();
+  private blobs: BlobStore;
+
+  constructor(private baseDir: string) {
+    this.blobs = new BlobStore(join(baseDir, BLOBS_DIR));
+  }
+
+  private refPath(repo: string, refType: "branch" | "tag", ref: string): string {
+    const safeRef = ref.replace(/[/\\:*?"<>|]/g, "-");
+    return join(this.baseDir, repo, REFS_DIR, `${refType}-${safeRef}.json`);
+  }
 
-    await fs.writeFile(join(dir, "manifest.json"), JSON.stringify(manifest, null, 2));
+  private snapshotPath(repo: string, id: string): string {
+    return join(this.baseDir, repo, SNAPSHOTS_DIR, id);
+  }
 
-    for (const result of results) {
-      await fs.writeFile(join(dir, `${result.extractor}.json`), JSON.stringify(result.data, null, 2));
+  /**
+   * Convert the pre-snapshot layout (one <refType>-<ref>/ directory per ref,
+   * overwritten on every extraction) into a single snapshot per ref
+   */
+  private migrateLegacy(repo: string): Promise<void> {
+    let migration = this.migrations.get(repo);
+    if (!migration) {
+      migration = this.convertLegacyDirs(repo);
+      this.migrations.set(repo, migration);
     }
+    return migration;
   }
 
-  async load(
-    repo: string,
-    refType: "branch" | "tag",
-    ref: string
-  ): Promise<VersionedKnowledge | null> {
-    const dir = this.getPath(repo, refType, ref);
+  private async convertLegacyDirs(repo: string): Promise<void> {
+    const repoDir = join(this.baseDir, repo);
+    let entries: string[];
+    try {
+      entries = await fs.readdir(repoDir);
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (entry === REFS_DIR || entry === SNAPSHOTS_DIR) continue;
+      const legacyDir = join(repoDir, entry);
+      let manifest: KnowledgeManifest;
+      try {
+        manifest = JSON.parse(await fs.readFile(join(legacyDir, "manifest.json"), "utf-8")) as KnowledgeManifest;
+      } catch {
+        continue;
+      }
 
+      const extractedAt = new Date(manifest.extractedAt);
+      const id = snapshotId(manifest.sha, extractedAt);
+      await fs.mkdir(join(repoDir, SNAPSHOTS_DIR), { recursive: true });
+      await fs.rm(this.snapshotPath(repo, id), { recursive: true, force: true });
+      await fs.rename(legacyDir, this.snapshotPath(repo, id));
+      await this.writeRef({
+        repo,
+        ref: manifest.ref,
+        refType: manifest.refType,
+        snapshots: [{ id, sha: manifest.sha, extractedAt: extractedAt.toISOString(), extractors: manifest.extractors }],
+      });
+    }
+  }
+
+  private async readRef(repo: string, refType: "branch" | "tag", ref: string): Promise<RefIndex | null> {
+    await this.migrateLegacy(repo);
     try {
-      const manifestContent = await fs.readFile(join(dir, "manifest.json"), "utf-8");
-      const manifest = JSON.parse(manifestContent) as KnowledgeManifest;
+      return JSON.parse(await fs.readFile(this.refPath(repo, refType, ref), "utf-8")) as RefIndex;
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeRef(index: RefIndex): Promise<void> {
+    const file = this.refPath(index.repo, index.refType, index.ref);
+    await fs.mkdir(dirname(file), { recursive: true });
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(index, null, 2));
+    await fs.rename(`${file}.tmp`, file);
+  }
 
-      const data: Record<string, unknown> = {};
-      for (const extractor of manifest.extractors) {
+  private async readRefs(repo: string): Promise<RefIndex[]> {
+    await this.migrateLegacy(repo);
+    const refsDir = join(this.baseDir, repo, REFS_DIR);
+    const refs: RefIndex[] = [];
+
+    try {
+      for (const entry of await fs.readdir(refsDir)) {
+        if (!entry.endsWith(".json")) continue;
         try {
-          const content = await fs.readFile(join(dir, `${extractor}.json`), "utf-8");
-          data[extractor] = JSON.parse(content);
+          refs.push(JSON.parse(await fs.readFile(join(refsDir, entry), "utf-8")) as RefIndex);
         } catch {
-          // skip missing
+          // ignore
         }
       }
+    } catch {
+      // repo not found
+    }
+
+    return refs;
+  }
+
+  /**
+   * Remove snapshots no ref points at any more
+   */
+  private async removeUnreferencedSnapshots(repo: string): Promise<void> {
+    const referenced = new Set((await this.readRefs(repo)).flatMap((index) => index.snapshots.map((s) => s.id)));
+    try {
+      for (const id of await fs.readdir(join(this.baseDir, repo, SNAPSHOTS_DIR))) {
+        if (!referenced.has(id)) await fs.rm(this.snapshotPath(repo, id), { recursive: true, force: true });
+      }
+    } catch {
+      // no snapshots
+    }
+  }
 
-      return { manifest, data };
+  /**
+   * A snapshot's stored manifest (`blobs` is missing for snapshots written before blobs existed)
+   */
+  private async readSnapshotManifest(repo: string, id: string): Promise<Partial<KnowledgeManifest>> {
+    try {
+      return JSON.parse(await fs.readFile(join(this.snapshotPath(repo, id), "manifest.json"), "utf-8")) as KnowledgeManifest;
     } catch {
-      return null;
+      return {};
     }
   }
 
-  async loadExtractor(
+  private async readExtractor(
     repo: string,
-    refType: "branch" | "tag",
-    ref: string,
-    extractor: string
+    id: string,
+    extractor: string,
+    blobs: Record<string, string> | undefined
   ): Promise<unknown | null> {
-    const dir = this.getPath(repo, refType, ref);
+    const hash = blobs?.[extractor];
+    if (hash) return this.blobs.get(hash);
 
+    // Older snapshots hold one pretty-printed JSON file per extractor
     try {
-      const content = await fs.readFile(join(dir, `${extractor}.json`), "utf-8");
+      const content = await fs.readFile(join(this.snapshotPath(repo, id), `${extractor}.json`), "utf-8");
       return JSON.parse(content);
     } catch {
       return null;
     }
   }
 
-  async listVersions(repo: string): Promise<Array<{ refType: string; ref: string; extractedAt: Date }>> {
-    const repoDir = join(this.baseDir, repo);
-    const versions: Array<{ refType: string; ref: string; extractedAt: Date }> = [];
+  private async resolveSnapshot(
+    repo: string,
+    refType: "branch" | "tag",
+    ref: string,
+    at?: SnapshotSelector
+  ): Promise<SnapshotInfo | undefined> {
+    return selectSnapshot(await this.listSnapshots(repo, refType, ref), at);
+  }
 
-    try {
-      const entries = await fs.readdir(repoDir);
+  async save(saved: KnowledgeManifest, savedData: Record<string, unknown>): Promise<void> {
+    const { repo, refType, ref } = saved;
+    const extractedAt = new Date(saved.extractedAt);
+    const id = snapshotId(saved.sha, extractedAt);
+
+    // A re-extraction of the same commit updates that commit's snapshot, keeping
+    // the outputs of extractors it did not run
+    const previous = await this.readSnapshotManifest(repo, id);
+    const previousData: Record<string, unknown> = {};
+    for (const extractor of previous.extractors ?? []) {
+      if (extractor in savedData) continue;
+      const value = await this.readExtractor(repo, id, extractor, previous.blobs);
+      if (value !== null) previousData[extractor] = value;
+    }
+    const { manifest, data } = mergeSnapshot(
+      { manifest: { ...previous, extractors: previous.extractors ?? [] }, data: previousData },
+      { manifest: saved, data: savedData }
+    );
+
+    // Blobs first: a snapshot manifest only ever references blobs that exist
+    const blobs: Record<string, string> = {};
+    for (const [extractor, value] of Object.entries(data)) {
+      blobs[extractor] = await this.blobs.put(value);
+    }
 
-      for (const entry of entries) {
-        const manifestPath = join(repoDir, entry, "manifest.json");
-        try {
-          const content = await fs.readFile(manifestPath, "utf-8");
-          const manifest = JSON.parse(content) as KnowledgeManifest;
-          versions.push({
-            refType: manifest.refType,
-            ref: manifest.ref,
-            extractedAt: new Date(manifest.extractedAt),
-          });
-        } catch {
-          // ignore
-        }
-      }
-    } catch {
-      // repo not found
+    const dir = this.snapshotPath(repo, id);
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(join(dir, "manifest.json"), JSON.stringify({ ...manifest, snapshot: undefined, blobs }, null, 2));
+
+    const index = (await this.readRef(repo, refType, ref)) ?? { repo, ref, refType, snapshots: [] };
+    index.snapshots = index.snapshots.filter((s) => s.id !== id);
+    index.snapshots.push({
+      id,
+      sha: manifest.sha,
+      extractedAt: extractedAt.toISOString(),
+      extractors: manifest.extractors,
+      outputVersions: manifest.outputVersions,
+      truncated: manifest.truncated,
+    });
+    index.snapshots.sort((a, b) => new Date(a.extractedAt).getTime() - new Date(b.extractedAt).getTime());
+    await this.writeRef(index);
+  }
+
+  async load(repo: string, refType: "branch" | "tag", ref: string, at?: SnapshotSelector): Promise<VersionedKnowledge | null> {
+    const snapshot = await this.resolveSnapshot(repo, refType, ref, at);
+    if (!snapshot) return null;
+
+    const { blobs, outputVersions, truncated } = await this.readSnapshotManifest(repo, snapshot.id);
+    const manifest: KnowledgeManifest = {
+      repo,
+      ref,
+      refType,
+      extractedAt: snapshot.extractedAt,
+      extractors: snapshot.extractors,
+      sha: snapshot.sha,
+      snapshot: snapshot.id,
+      blobs,
+      outputVersions,
+      truncated,
+    };
+
+    const data: Record<string, unknown> = {};
+    for (const extractor of manifest.extractors) {
+      const value = await this.readExtractor(repo, snapshot.id, extractor, blobs);
+      if (value !== null) data[extractor] = value; // skip missing
+    }
+
+    return { manifest, data };
+  }
+
+  async loadExtractor(
+    repo: string,
+    refType: "branch" | "tag",
+    ref: string,
+    extractor: string,
+    at?: SnapshotSelector
+  ): Promise<StoredOutput | null> {
+    const snapshot = await this.resolveSnapshot(repo, refType, ref, at);
+    if (!snapshot) return null;
+
+    const { blobs, outputVersions } = await this.readSnapshotManifest(repo, snapshot.id);
+    const data = await this.readExtractor(repo, snapshot.id, extractor, blobs);
+    return data === null ? null : { data, version: outputVersions?.[extractor] ?? 1 };
+  }
+
+  async listVersions(repo: string): Promise<KnowledgeVersion[]> {
+    const versions: KnowledgeVersion[] = [];
+
+    for (const index of await this.readRefs(repo)) {
+      const latest = index.snapshots[index.snapshots.length - 1];
+      if (!latest) continue;
+      versions.push({
+        refType: index.refType,
+        ref: index.ref,
+        extractedAt: new Date(latest.extractedAt),
+        sha: latest.sha,
+        extractors: latest.extractors,
+        snapshots: index.snapshots.length,
+        outputVersions: outputVersionsOf(latest.extractors, latest.outputVersions),
+        truncated: latest.truncated ?? {},
+      });
     }
 
-    return versions.sort((a, b) => b.extractedAt.getTime() - a.extractedAt.getTime());
+    // Ties (e.g. refs extracted in the same run) are broken by ref, matching the SQLite backend
+    return versions.sort(
+      (a, b) =>
+        b.extractedAt.getTime() - a.extractedAt.getTime() ||
+        compareStrings(a.refType, b.refType) ||
+        compareStrings(a.ref, b.ref)
+    );
+  }
+
+  async listSnapshots(repo: string, refType: "branch" | "tag", ref: string): Promise<SnapshotInfo[]> {
+    const index = await this.readRef(repo, refType, ref);
+    return (index?.snapshots ?? []).map(toSnapshotInfo).reverse();
   }
 
   async listRepos(): Promise<string[]> {
@@ -136,6 +503,7 @@ export class KnowledgeStore {
       const repos: string[] = [];
 
       for (const entry of entries) {
+        if (entry.startsWith(".")) continue; // internal data (e.g. .jobs), not a repo
         const stat = await fs.stat(join(this.baseDir, entry));
         if (stat.isDirectory()) {
           repos.push(entry);
@@ -148,6 +516,214 @@ export class KnowledgeStore {
     }
   }
 
+  async delete(repo: string, refType: "branch" | "tag", ref: string): Promise<void> {
+    await this.migrateLegacy(repo);
+    await fs.rm(this.refPath(repo, refType, ref), { force: true });
+    await this.removeUnreferencedSnapshots(repo);
+  }
+
+  async deleteSnapshots(repo: string, refType: "branch" | "tag", ref: string, ids: string[]): Promise<void> {
+    const index = await this.readRef(repo, refType, ref);
+    if (!index) return;
+
+    index.snapshots = index.snapshots.filter((s) => !ids.includes(s.id));
+    if (index.snapshots.length === 0) {
+      await fs.rm(this.refPath(repo, refType, ref), { force: true });
+    } else {
+      await this.writeRef(index);
+    }
+    await this.removeUnreferencedSnapshots(repo);
+  }
+
+  async deleteRepo(repo: string): Promise<void> {
+    const repoDir = join(this.baseDir, repo);
+    await fs.rm(repoDir, { recursive: true, force: true });
+    this.migrations.delete(repo);
+  }
+
+  async gc(): Promise<GcResult> {
+    const referenced = new Set<string>();
+    for (const repo of await this.listRepos()) {
+      await this.migrateLegacy(repo);
+      let ids: string[];
+      try {
+        ids = await fs.readdir(join(this.baseDir, repo, SNAPSHOTS_DIR));
+      } catch {
+        continue;
+      }
+      for (const id of ids) {
+        for (const hash of Object.values((await this.readSnapshotManifest(repo, id)).blobs ?? {})) referenced.add(hash);
+      }
+    }
+    return this.blobs.gc(referenced);
+  }
+
+  async loadLatestExtractor(extractor: string, repos?: string[]): Promise<Record<string, StoredOutput>> {
+    const result: Record<string, StoredOutput> = {};
+    for (const repo of repos ?? (await this.listRepos())) {
+      const latest = (await this.listVersions(repo))[0];
+      if (!latest) continue;
+      const output = await this.loadExtractor(repo, latest.refType as "branch" | "tag", latest.ref, extractor);
+      if (output?.data) result[repo] = output;
+    }
+    return result;
+  }
+
+  /**
+   * Normalized rows of the latest version of each repo (in repo order)
+   */
+  private async latestRows(repos?: string[]): Promise<KnowledgeRows[]> {
+    const rows: KnowledgeRows[] = [];
+    for (const repo of [...(repos ?? (await this.listRepos()))].sort()) {
+      const latest = (await this.listVersions(repo))[0];
+      if (!latest) continue;
+      const knowledge = await this.load(repo, latest.refType as "branch" | "tag", latest.ref);
+      if (knowledge) rows.push(knowledgeRows(repo, migrateKnowledge(knowledge).data));
+    }
+    return rows;
+  }
+
+  async queryTypes(filter: TypeFilter): Promise<TypeRow[]> {
+    const rows = (await this.latestRows(filter.repos)).flatMap((r) => r.types).filter((row) => matchesType(row, filter));
+    return rows.sort((a, b) => typeImportanceScore(b) - typeImportanceScore(a));
+  }
+
+  async countTypes(repos?: string[]): Promise<Record<string, Record<string, number>>> {
+    return countTypesByKind((await this.latestRows(repos)).flatMap((r) => r.types));
+  }
+
+  async queryRelationships(filter: RelationshipFilter): Promise<RelationshipRow[]> {
+    return (await this.latestRows(filter.repos))
+      .flatMap((r) => r.relationships)
+      .filter((row) => matchesRelationship(row, filter));
+  }
+
+  async queryRoutes(filter: RouteFilter): Promise<RouteRow[]> {
+    return (await this.latestRows(filter.repos)).flatMap((r) => r.routes).filter((row) => matchesRoute(row, filter));
+  }
+
+  async queryScreens(filter: ScreenFilter): Promise<ScreenRow[]> {
+    return (await this.latestRows(filter.repos)).flatMap((r) => r.screens).filter((row) => matchesScreen(row, filter));
+  }
+
+  async queryServices(filter: ServiceFilter): Promise<ServiceRow[]> {
+    return (await this.latestRows(filter.repos)).flatMap((r) => r.services).filter((row) => matchesService(row, filter));
+  }
+
+  async queryK8sResources(filter: K8sResourceFilter): Promise<K8sResourceRow[]> {
+    return (await this.latestRows(filter.repos))
+      .flatMap((r) => r.k8sResources)
+      .filter((row) => matchesK8sResource(row, filter));
+  }
+}
+
+export class KnowledgeStore {
+  private baseDir: string;
+  private backendName: StorageBackendName;
+  private retention: RetentionPolicy;
+  private backendPromise: Promise<KnowledgeBackend> | null = null;
+
+  constructor(baseDir?: string, options: KnowledgeStoreOptions = {}) {
+    this.baseDir = baseDir || DEFAULT_KNOWLEDGE_DIR;
+    this.backendName = options.backend ?? "json";
+    this.retention = options.retention ?? DEFAULT_RETENTION;
+  }
+
+  /**
+   * The storage backend, created on first use (the SQLite driver is only loaded when selected)
+   */
+  private backend(): Promise<KnowledgeBackend> {
+    if (!this.backendPromise) {
+      this.backendPromise =
+        this.backendName === "sqlite"
+          ? import("./sqlite-backend.js").then(({ SqliteKnowledgeBackend }) => new SqliteKnowledgeBackend(this.baseDir))
+          : Promise.resolve(new JsonKnowledgeBackend(this.baseDir));
+    }
+    return this.backendPromise;
+  }
+
+  getBackendName(): StorageBackendName {
+    return this.backendName;
+  }
+
+  async save(
+    repo: string,
+    refType: "branch" | "tag",
+    ref: string,
+    results: ExtractionResult[],
+    sha?: string
+  ): Promise<void> {
+    const manifest: KnowledgeManifest = {
+      repo,
+      ref,
+      refType,
+      extractedAt: new Date(),
+      extractors: results.map((r) => r.extractor),
+      sha,
+      outputVersions: Object.fromEntries(results.map((r) => [r.extractor, currentOutputVersion(r.extractor) ?? 1])),
+      truncated: results.some((r) => r.truncated)
+        ? Object.fromEntries(results.filter((r) => r.truncated).map((r) => [r.extractor, r.truncated!]))
+        : undefined,
+    };
+
+    const data = Object.fromEntries(results.map((r) => [r.extractor, r.data]));
+    await (await this.backend()).save(manifest, data);
+    await this.pruneRef(repo, refType, ref, this.retention);
+  }
+
+  /**
+   * Save knowledge extracted elsewhere (e.g. an imported bundle), keeping its
+   * extraction time and SHA
+   */
+  async saveVersion({ manifest, data }: VersionedKnowledge): Promise<void> {
+    const { repo, refType, ref } = manifest;
+    await (await this.backend()).save({ ...manifest, snapshot: undefined, blobs: undefined }, data);
+    await this.pruneRef(repo, refType, ref, this.retention);
+  }
+
+  /**
+   * Load a ref: its latest snapshot, or the one picked by `at` (a SHA, or "as of" a date)
+   */
+  async load(
+    repo: string,
+    refType: "branch" | "tag",
+    ref: string,
+    at?: SnapshotSelector
+  ): Promise<VersionedKnowledge | null> {
+    const knowledge = await (await this.backend()).load(repo, refType, ref, at);
+    for (const [extractor, truncated] of Object.entries(knowledge?.manifest.truncated ?? {})) {
+      noteTruncations(repo, extractor, truncated);
+    }
+    return knowledge && migrateKnowledge(knowledge);
+  }
+
+  async loadExtractor(
+    repo: string,
+    refType: "branch" | "tag",
+    ref: string,
+    extractor: string,
+    at?: SnapshotSelector
+  ): Promise<unknown | null> {
+    const output = await (await this.backend()).loadExtractor(repo, refType, ref, extractor, at);
+    noteTruncations(repo, extractor, truncationsOf(output?.data));
+    return output && migrateOutput(extractor, output.data, output.version).data;
+  }
+
+  async listVersions(repo: string): Promise<KnowledgeVersion[]> {
+    return (await this.backend()).listVersions(repo);
+  }
+
+  /**
+   * Snapshots of a ref, newest first
+   */
+  async listSnapshots(repo: string, refType: "branch" | "tag", ref: string): Promise<SnapshotInfo[]> {
+    return (await this.backend()).listSnapshots(repo, refType, ref);
+  }
+
+  async listRepos(): Promise<string[]> {
+    return (await this.backend()).listRepos();
+  }
+
   async getLatest(repo: string, refType?: "branch" | "tag"): Promise<VersionedKnowledge | null> {
     const versions = await this.listVersions(repo);
     const filtered = refType ? versions.filter((v) => v.refType === refType) : versions;
@@ -157,6 +733,70 @@ export class KnowledgeStore {
     return this.load(repo, latest.refType as "branch" | "tag", latest.ref);
   }
 
+  /**
+   * One extractor's output from the latest extraction of each repo, keyed by repo
+   */
+  async loadLatestExtractor(extractor: string, repos?: string[]): Promise<Record<string, unknown>> {
+    const outputs = await (await this.backend()).loadLatestExtractor(extractor, repos);
+    for (const [repo, output] of Object.entries(outputs)) noteTruncations(repo, extractor, truncationsOf(output.data));
+    return Object.fromEntries(
+      Object.entries(outputs).map(([repo, output]) => [repo, migrateOutput(extractor, output.data, output.version).data])
+    );
+  }
+
+  /**
+   * Note truncated outputs of `extractors` in the latest extraction of each
+   * queried repo, so the tool answering from them can warn (see collectTruncations)
+   */
+  private async noteQueried(extractors: string[], repos?: string[]): Promise<void> {
+    if (!collectingTruncations()) return;
+    for (const repo of repos ?? (await this.listRepos())) {
+      const latest = (await this.listVersions(repo))[0];
+      for (const extractor of extractors) noteTruncations(repo, extractor, latest?.truncated[extractor]);
+    }
+  }
+
+  /**
+   * Types across repos, most important (public, most fields) first
+   */
+  async queryTypes(filter: TypeFilter = {}): Promise<TypeRow[]> {
+    await this.noteQueried(["type_definitions"], filter.repos);
+    return (await this.backend()).queryTypes(filter);
+  }
+
+  /**
+   * Type counts by kind, keyed by repo
+   */
+  async countTypes(repos?: string[]): Promise<Record<string, Record<string, number>>> {
+    await this.noteQueried(["type_definitions"], repos);
+    return (await this.backend()).countTypes(repos);
+  }
+
+  async queryRelationships(filter: RelationshipFilter = {}): Promise<RelationshipRow[]> {
+    await this.noteQueried(["type_definitions"], filter.repos);
+    return (await this.backend()).queryRelationships(filter);
+  }
+
+  async queryRoutes(filter: RouteFilter = {}): Promise<RouteRow[]> {
+    await this.noteQueried(["data_flow", "user_flows", "cloudflare_workers"], filter.repos);
+    return (await this.backend()).queryRoutes(filter);
+  }
+
+  async queryScreens(filter: ScreenFilter = {}): Promise<ScreenRow[]> {
+    await this.noteQueried(["user_flows"], filter.repos);
+    return (await this.backend()).queryScreens(filter);
+  }
+
+  async queryServices(filter: ServiceFilter = {}): Promise<ServiceRow[]> {
+    await this.noteQueried(["data_flow", "kubernetes"], filter.repos);
+    return (await this.backend()).queryServices(filter);
+  }
+
+  async queryK8sResources(filter: K8sResourceFilter = {}): Promise<K8sResourceRow[]> {
+    await this.noteQueried(["kubernetes"], filter.repos);
+    return (await this.backend()).queryK8sResources(filter);
+  }
+
   async isFresh(
     repo: string,
     refType: "branch" | "tag",
@@ -164,9 +804,13 @@ export class KnowledgeStore {
     maxAgeMs: number = 24 * 60 * 60 * 1000,
     currentSha?: string
   ): Promise<boolean> {
-    const knowledge = await this.load(repo, refType, ref);
+    // Versions as stored: data written by an older extractor version is stale even if migrations can read it
+    const knowledge = await (await this.backend()).load(repo, refType, ref);
     if (!knowledge) return false;
 
+    const { extractors, outputVersions } = knowledge.manifest;
+    if (outdatedOutputs(outputVersionsOf(extractors, outputVersions)).length > 0) return false;
+
     // If current SHA is provided and differs from stored SHA, it's stale
     if (currentSha && knowledge.manifest.sha && currentSha !== knowledge.manifest.sha) {
       return false;
@@ -177,24 +821,39 @@ export class KnowledgeStore {
   }
 
   async delete(repo: string, refType: "branch" | "tag", ref: string): Promise<void> {
-    const dir = this.getPath(repo, refType, ref);
-    await fs.rm(dir, { recursive: true, force: true });
+    await (await this.backend()).delete(repo, refType, ref);
   }
 
-  async prune(repo: string, keep: number = 5): Promise<number> {
-    const versions = await this.listVersions(repo);
-    const toDelete = versions.slice(keep);
-
-    for (const version of toDelete) {
-      await this.delete(repo, version.refType as "branch" | "tag", version.ref);
+  private async pruneRef(repo: string, refType: "branch" | "tag", ref: string, policy: RetentionPolicy): Promise<number> {
+    const expired = expiredSnapshots(await this.listSnapshots(repo, refType, ref), policy);
+    if (expired.length > 0) {
+      await (await this.backend()).deleteSnapshots(repo, refType, ref, expired.map((s) => s.id));
     }
+    return expired.length;
+  }
 
-    return toDelete.length;
+  /**
+   * Delete the snapshots of each of a repo's refs that the retention policy
+   * no longer keeps. Returns the number of snapshots deleted.
+   */
+  async prune(repo: string, policy: RetentionPolicy = this.retention): Promise<number> {
+    let pruned = 0;
+    for (const version of await this.listVersions(repo)) {
+      pruned += await this.pruneRef(repo, version.refType as "branch" | "tag", version.ref, policy);
+    }
+    return pruned;
   }
 
   async deleteRepo(repo: string): Promise<void> {
-    const repoDir = join(this.baseDir, repo);
-    await fs.rm(repoDir, { recursive: true, force: true });
+    await (await this.backend()).deleteRepo(repo);
+  }
+
+  /**
+   * Remove stored extractor outputs that no snapshot references any more
+   * (left behind by pruned or deleted snapshots)
+   */
+  async gc(): Promise<GcResult> {
+    return (await this.backend()).gc();
   }
 
   async deleteAll(): Promise<number> {
@@ -204,4 +863,29 @@ export class KnowledgeStore {
     }
     return repos.length;
   }
+
+  /**
+   * Copy every stored snapshot into `target` (e.g. to export SQLite-backed
+   * knowledge in the JSON directory layout). Returns the number of snapshots copied.
+   */
+  async copyTo(target: KnowledgeStore): Promise<number> {
+    const source = await this.backend();
+    const destination = await target.backend();
+    let copied = 0;
+
+    for (const repo of await source.listRepos()) {
+      for (const version of await source.listVersions(repo)) {
+        const refType = version.refType as "branch" | "tag";
+        // Oldest first, so the latest snapshot ends up as the ref's latest in the target
+        for (const snapshot of (await source.listSnapshots(repo, refType, version.ref)).reverse()) {
+          const knowledge = await source.load(repo, refType, version.ref, { id: snapshot.id });
+          if (!knowledge) continue;
+          await destination.save({ ...knowledge.manifest, snapshot: undefined }, knowledge.data);
+          copied++;
+        }
+      }
+    }
+
+    return copied;
+  }
 }
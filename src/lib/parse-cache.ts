@@ -0,0 +1,118 @@
+/**
+ * Persistent cache of per-file parse results.
+ *
+ * Entries are keyed by the file's git blob SHA plus everything else the result
+ * depends on (path, parser versions, options), so a file that is identical
+ * across branches and tags is parsed once. Each entry is stored gzip-compressed
+ * as `<dir>/<first 2 key chars>/<key>.json.gz`; entries unused for a while are
+ * pruned.
+ */
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import { join } from "path";
+import { promisify } from "util";
+import { gzip, gunzip } from "zlib";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export interface ParseCacheStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Share of lookups served from the cache (0 when there were none)
+ */
+export function parseCacheHitRate({ hits, misses }: ParseCacheStats): number {
+  return hits + misses > 0 ? hits / (hits + misses) : 0;
+}
+
+export class ParseCache {
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private dir: string) {}
+
+  /**
+   * Cache key for a file: its blob SHA and whatever else the parse result depends on
+   */
+  static key(blobSha: string, ...inputs: unknown[]): string {
+    return createHash("sha256").update(JSON.stringify([blobSha, ...inputs])).digest("hex");
+  }
+
+  private path(key: string): string {
+    return join(this.dir, key.slice(0, 2), `${key}.json.gz`);
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const file = this.path(key);
+    try {
+      const value = JSON.parse((await gunzipAsync(await fs.readFile(file))).toString("utf-8")) as T;
+      this.hits++;
+      // Mark as used so prune() keeps it
+      const now = new Date();
+      await fs.utimes(file, now, now).catch(() => {});
+      return value;
+    } catch {
+      this.misses++;
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a result. Failures are ignored: the file is simply parsed again next time.
+   */
+  async put(key: string, value: unknown): Promise<void> {
+    const file = this.path(key);
+    const tmp = `${file}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+    try {
+      await fs.mkdir(join(this.dir, key.slice(0, 2)), { recursive: true });
+      await fs.writeFile(tmp, await gzipAsync(JSON.stringify(value)));
+      await fs.rename(tmp, file);
+    } catch {
+      await fs.rm(tmp, { force: true }).catch(() => {});
+    }
+  }
+
+  /** Lookups made through this instance */
+  stats(): ParseCacheStats {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  /**
+   * Remove entries not used within `maxAgeMs`; returns how many were removed
+   */
+  async prune(maxAgeMs: number, now: number = Date.now()): Promise<number> {
+    let removed = 0;
+    let prefixes: string[];
+    try {
+      prefixes = await fs.readdir(this.dir);
+    } catch {
+      return removed;
+    }
+
+    for (const prefix of prefixes) {
+      let files: string[];
+      try {
+        files = await fs.readdir(join(this.dir, prefix));
+      } catch {
+        continue;
+      }
+
+      for (const file of files) {
+        const path = join(this.dir, prefix, file);
+        try {
+          if (now - (await fs.stat(path)).mtimeMs < maxAgeMs) continue;
+          await fs.rm(path, { force: true });
+          removed++;
+        } catch {
+          // removed concurrently
+        }
+      }
+    }
+
+    return removed;
+  }
+}
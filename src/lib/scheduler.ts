@@ -0,0 +1,202 @@
+/**
+ * Scheduler for background re-extraction.
+ *
+ * Repos get a cron schedule from the global `schedule` setting or their own
+ * (`schedule: false` opts out). When schedules come due, the due repos are
+ * fetched and each tracked ref whose SHA differs from the stored manifest is
+ * re-extracted. Every run is a "scheduled_extraction" job, so runs show up in
+ * job_status and last-run information comes from the job history.
+ */
+
+import { loadConfig, isRepoEnabled, onConfigChange, type KnowledgeConfig } from "./config-loader.js";
+import { parseCron, nextCronRun } from "./cron.js";
+import { runExtraction } from "./extraction-runner.js";
+import { registerJobType, startJob, listJobs, listActiveJobs, type Job, type JobStatus } from "./job-manager.js";
+
+export const SCHEDULED_JOB_TYPE = "scheduled_extraction";
+
+/** Longest single wait, so clock changes (DST, suspend) are picked up within the hour */
+const MAX_TIMER_MS = 60 * 60 * 1000;
+
+export interface Scheduler {
+  close(): void;
+}
+
+export interface RepoScheduleStatus {
+  repo: string;
+  schedule: string;
+  nextRun?: string;
+  lastRun?: {
+    jobId: string;
+    status: JobStatus;
+    startedAt: string;
+    completedAt?: string;
+    extracted: number;
+    errors: number;
+  };
+}
+
+interface ScheduledRunResult {
+  results: Array<{ repo: string; ref: string; status: "extracted" | "error"; error?: string }>;
+}
+
+let running = false;
+
+async function runScheduledExtraction(job: Job): Promise<unknown> {
+  const { repos } = job.params as { repos: string[] };
+  const summaries = await runExtraction({ repos, changedOnly: true });
+
+  const results = summaries.map((s) => ({
+    repo: s.repo,
+    ref: s.ref,
+    status: s.success ? ("extracted" as const) : ("error" as const),
+    error: s.error,
+  }));
+
+  return {
+    repos,
+    summary: {
+      checked: repos.length,
+      extracted: results.filter((r) => r.status === "extracted").length,
+      errors: results.filter((r) => r.status === "error").length,
+    },
+    results,
+  };
+}
+
+// Resumable: refs finished before a restart match their stored SHA and are skipped
+registerJobType(SCHEDULED_JOB_TYPE, runScheduledExtraction, { resumable: true });
+
+/**
+ * Effective cron expression of each enabled repo that is scheduled
+ */
+export function repoSchedules(config: KnowledgeConfig): Map<string, string> {
+  const schedules = new Map<string, string>();
+  for (const [name, repo] of Object.entries(config.repositories)) {
+    if (!isRepoEnabled(repo) || repo.schedule === false) continue;
+    const expression = repo.schedule ?? config.schedule;
+    if (expression) schedules.set(name, expression);
+  }
+  return schedules;
+}
+
+/**
+ * Next run of each scheduled repo after `now` (repos whose expression never matches are left out)
+ */
+function nextRuns(config: KnowledgeConfig, now: Date): Map<string, Date> {
+  const runs = new Map<string, Date>();
+  for (const [repo, expression] of repoSchedules(config)) {
+    try {
+      const next = nextCronRun(parseCron(expression), now);
+      if (next) runs.set(repo, next);
+    } catch (error) {
+      console.error(`Invalid schedule for ${repo}: ${(error as Error).message}`);
+    }
+  }
+  return runs;
+}
+
+/**
+ * Repos that a scheduled job is currently checking
+ */
+function reposInFlight(): Set<string> {
+  const repos = new Set<string>();
+  for (const job of listActiveJobs()) {
+    if (job.type !== SCHEDULED_JOB_TYPE) continue;
+    for (const repo of (job.params?.repos as string[] | undefined) ?? []) repos.add(repo);
+  }
+  return repos;
+}
+
+/**
+ * Start running scheduled extractions. Schedules follow config reloads.
+ */
+export function startScheduler(): Scheduler {
+  let timer: NodeJS.Timeout | undefined;
+  let planned = new Map<string, Date>();
+  let closed = false;
+
+  const arm = async () => {
+    clearTimeout(timer);
+    if (closed) return;
+
+    planned = nextRuns(await loadConfig(), new Date());
+    if (planned.size === 0) return;
+
+    const earliest = Math.min(...Array.from(planned.values(), (date) => date.getTime()));
+    timer = setTimeout(tick, Math.min(Math.max(earliest - Date.now(), 0), MAX_TIMER_MS));
+    timer.unref();
+  };
+
+  const tick = async () => {
+    const now = Date.now();
+    const inFlight = reposInFlight();
+    const due: string[] = [];
+
+    for (const [repo, at] of planned) {
+      if (at.getTime() > now) continue;
+      if (inFlight.has(repo)) {
+        console.error(`Scheduled extraction of ${repo} skipped: the previous run is still going`);
+      } else {
+        due.push(repo);
+      }
+    }
+
+    if (due.length > 0) {
+      const job = startJob(SCHEDULED_JOB_TYPE, { repos: due });
+      console.error(`Scheduled extraction started for ${due.length} repo(s) (job ${job.id})`);
+    }
+
+    await arm().catch((error) => console.error("Scheduler failed:", error));
+  };
+
+  const unsubscribe = onConfigChange(() => {
+    arm().catch((error) => console.error("Scheduler failed:", error));
+  });
+
+  running = true;
+  arm().catch((error) => console.error("Scheduler failed:", error));
+
+  return {
+    close() {
+      closed = true;
+      running = false;
+      clearTimeout(timer);
+      unsubscribe();
+    },
+  };
+}
+
+/**
+ * Whether startScheduler() is active in this process
+ */
+export function isSchedulerRunning(): boolean {
+  return running;
+}
+
+/**
+ * Schedule, next run and last run of each scheduled repo
+ */
+export function getScheduleStatus(config: KnowledgeConfig, now: Date = new Date()): RepoScheduleStatus[] {
+  const runs = nextRuns(config, now);
+  const history = listJobs({ type: SCHEDULED_JOB_TYPE });
+
+  return Array.from(repoSchedules(config), ([repo, schedule]) => {
+    const status: RepoScheduleStatus = { repo, schedule, nextRun: runs.get(repo)?.toISOString() };
+
+    const last = history.find((job) => (job.params?.repos as string[] | undefined)?.includes(repo));
+    if (last) {
+      const results = (last.result as ScheduledRunResult | undefined)?.results.filter((r) => r.repo === repo) ?? [];
+      status.lastRun = {
+        jobId: last.id,
+        status: last.status,
+        startedAt: last.startedAt.toISOString(),
+        completedAt: last.completedAt?.toISOString(),
+        extracted: results.filter((r) => r.status === "extracted").length,
+        errors: results.filter((r) => r.status === "error").length,
+      };
+    }
+
+    return status;
+  });
+}
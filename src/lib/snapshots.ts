@@ -0,0 +1,120 @@
+/**
+ * Knowledge snapshots and their retention.
+ *
+ * Every extraction of a ref is kept as a snapshot keyed by the commit SHA (or
+ * the extraction time when there is no SHA, e.g. a working tree). Extracting
+ * the same commit again updates its snapshot: new outputs replace the stored
+ * ones, and outputs of extractors that did not run again are kept. A ref
+ * points at its latest snapshot; older ones stay loadable by SHA or "as of" a
+ * date until the retention policy expires them.
+ */
+
+export interface SnapshotInfo {
+  /** Snapshot id: the commit SHA, or `at-<epoch ms>` for extractions without one */
+  id: string;
+  sha?: string;
+  extractedAt: Date;
+  extractors: string[];
+}
+
+/**
+ * Which snapshot of a ref to load. Without any field, the latest.
+ */
+export interface SnapshotSelector {
+  /** Snapshot id as returned by listSnapshots() */
+  id?: string;
+  /** Commit SHA or unambiguous prefix */
+  sha?: string;
+  /** Latest snapshot extracted at or before this time */
+  asOf?: Date;
+}
+
+/**
+ * How long old snapshots are kept. The `last` most recent snapshots are kept,
+ * plus the newest snapshot extracted on each day (week, month) within the
+ * last `daily` days (`weekly` weeks, `monthly` months). The latest snapshot
+ * of a ref is always kept.
+ */
+export interface RetentionPolicy {
+  last?: number;
+  daily?: number;
+  weekly?: number;
+  monthly?: number;
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = { daily: 30, weekly: 52 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function snapshotId(sha: string | undefined, extractedAt: Date): string {
+  return sha ?? `at-${extractedAt.getTime()}`;
+}
+
+/**
+ * Parse a user-supplied snapshot reference: a commit SHA (7-40 hex characters)
+ * or a date/time. Returns null if it is neither.
+ */
+export function parseSnapshotSelector(value: string): SnapshotSelector | null {
+  const trimmed = value.trim();
+  if (/^[0-9a-f]{7,40}$/i.test(trimmed)) return { sha: trimmed.toLowerCase() };
+
+  const time = Date.parse(trimmed);
+  return Number.isNaN(time) ? null : { asOf: new Date(time) };
+}
+
+/**
+ * Pick a snapshot from a ref's snapshots (newest first)
+ */
+export function selectSnapshot(snapshots: SnapshotInfo[], at: SnapshotSelector = {}): SnapshotInfo | undefined {
+  return snapshots.find(
+    (snapshot) =>
+      (!at.id || snapshot.id === at.id) &&
+      (!at.sha || Boolean(snapshot.sha?.startsWith(at.sha.toLowerCase()))) &&
+      (!at.asOf || snapshot.extractedAt.getTime() <= at.asOf.getTime())
+  );
+}
+
+function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
+
+/** Monday of the date's week */
+function weekKey(date: Date): string {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+  return dayKey(monday);
+}
+
+function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}`;
+}
+
+/**
+ * Snapshots (newest first) that the retention policy no longer keeps
+ */
+export function expiredSnapshots(
+  snapshots: SnapshotInfo[],
+  policy: RetentionPolicy = DEFAULT_RETENTION,
+  now: Date = new Date()
+): SnapshotInfo[] {
+  const keep = new Set<SnapshotInfo>(snapshots.slice(0, Math.max(policy.last ?? 0, 1)));
+
+  const monthsAgo = new Date(now.getFullYear(), now.getMonth() - (policy.monthly ?? 0), now.getDate());
+  const buckets: Array<{ since: number; key: (date: Date) => string }> = [
+    { since: now.getTime() - (policy.daily ?? 0) * DAY_MS, key: dayKey },
+    { since: now.getTime() - (policy.weekly ?? 0) * 7 * DAY_MS, key: weekKey },
+    { since: monthsAgo.getTime(), key: monthKey },
+  ];
+
+  for (const { since, key } of buckets) {
+    const seen = new Set<string>();
+    for (const snapshot of snapshots) {
+      if (snapshot.extractedAt.getTime() < since) break;
+      const bucket = key(snapshot.extractedAt);
+      if (seen.has(bucket)) continue;
+      seen.add(bucket);
+      keep.add(snapshot);
+    }
+  }
+
+  return snapshots.filter((snapshot) => !keep.has(snapshot));
+}
@@ -0,0 +1,906 @@
+/**
+ * SQLite storage backend for the knowledge store.
+ *
+ * Everything lives in `<knowledge_dir>/knowledge.db`. Each extraction is a row
+ * in `snapshots` (one per repo and commit); `extractor_data` maps its extractor
+ * outputs (and their output versions and budget truncations) to
+ * content-addressed, gzip-compressed JSON in `blobs`, so outputs that did not
+ * change between snapshots are stored once. `ref_snapshots` records which
+ * snapshots each ref had, and when they were extracted. On save, types,
+ * relationships, routes, screens, services and k8s resources are also written
+ * to indexed tables (see knowledge-index.ts), so queries filter in SQL instead
+ * of parsing every repo's JSON.
+ */
+
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import { join } from "path";
+import {
+  mergeSnapshot,
+  outputVersionsOf,
+  type KnowledgeBackend,
+  type KnowledgeManifest,
+  type KnowledgeVersion,
+  type StoredOutput,
+  type VersionedKnowledge,
+} from "./knowledge-store.js";
+import {
+  knowledgeRows,
+  normalizeTypeName,
+  type TypeRow,
+  type RelationshipRow,
+  type RouteRow,
+  type ScreenRow,
+  type ServiceRow,
+  type K8sResourceRow,
+  type TypeFilter,
+  type RelationshipFilter,
+  type RouteFilter,
+  type ScreenFilter,
+  type ServiceFilter,
+  type K8sResourceFilter,
+  type KnowledgeRows,
+} from "./knowledge-index.js";
+import { decodeBlob, encodeBlob, type GcResult } from "./blob-store.js";
+import type { Truncation } from "./extraction-budget.js";
+import { selectSnapshot, snapshotId as snapshotKey, type SnapshotInfo, type SnapshotSelector } from "./snapshots.js";
+
+export const SQLITE_DB_FILE = "knowledge.db";
+
+/** Bump when the table layout changes (see openDatabase for upgrades) */
+const SCHEMA_VERSION = 6;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS snapshots (
+  id INTEGER PRIMARY KEY,
+  repo TEXT NOT NULL,
+  key TEXT NOT NULL,
+  sha TEXT,
+  extractors TEXT NOT NULL,
+  UNIQUE (repo, key)
+);
+
+CREATE TABLE IF NOT EXISTS refs (
+  id INTEGER PRIMARY KEY,
+  repo TEXT NOT NULL,
+  ref_type TEXT NOT NULL,
+  ref TEXT NOT NULL,
+  UNIQUE (repo, ref_type, ref)
+);
+
+CREATE TABLE IF NOT EXISTS ref_snapshots (
+  ref_id INTEGER NOT NULL REFERENCES refs (id) ON DELETE CASCADE,
+  snapshot_id INTEGER NOT NULL REFERENCES snapshots (id) ON DELETE CASCADE,
+  extracted_at TEXT NOT NULL,
+  PRIMARY KEY (ref_id, snapshot_id)
+);
+CREATE INDEX IF NOT EXISTS ref_snapshots_latest ON ref_snapshots (ref_id, extracted_at);
+CREATE INDEX IF NOT EXISTS ref_snapshots_snapshot ON ref_snapshots (snapshot_id);
+
+CREATE TABLE IF NOT EXISTS blobs (
+  hash TEXT PRIMARY KEY,
+  data BLOB NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS extractor_data (
+  snapshot_id INTEGER NOT NULL REFERENCES snapshots (id) ON DELETE CASCADE,
+  extractor TEXT NOT NULL,
+  hash TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  truncated TEXT,
+  PRIMARY KEY (snapshot_id, extractor)
+);
+CREATE INDEX IF NOT EXISTS extractor_data_hash ON extractor_data (hash);
+
+CREATE TABLE IF NOT EXISTS types (
+  id INTEGER PRIMARY KEY,
+  snapshot_id INTEGER NOT NULL REFERENCES snapshots (id) ON DELETE CASCADE,
+  repo TEXT NOT NULL,
+  name TEXT NOT NULL,
+  normalized_name TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  language TEXT NOT NULL,
+  file TEXT NOT NULL,
+  line INTEGER NOT NULL,
+  visibility TEXT,
+  field_count INTEGER NOT NULL,
+  definition TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS types_snapshot ON types (snapshot_id);
+CREATE INDEX IF NOT EXISTS types_name ON types (normalized_name);
+CREATE INDEX IF NOT EXISTS types_kind ON types (kind, language);
+
+CREATE TABLE IF NOT EXISTS relationships (
+  id INTEGER PRIMARY KEY,
+  snapshot_id INTEGER NOT NULL REFERENCES snapshots (id) ON DELETE CASCADE,
+  repo TEXT NOT NULL,
+  from_type TEXT NOT NULL,
+  to_type TEXT NOT NULL,
+  normalized_from TEXT NOT NULL,
+  normalized_to TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  via_field TEXT,
+  file TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS relationships_snapshot ON relationships (snapshot_id);
+CREATE INDEX IF NOT EXISTS relationships_to ON relationships (normalized_to);
+
+CREATE TABLE IF NOT EXISTS routes (
+  id INTEGER PRIMARY KEY,
+  snapshot_id INTEGER NOT NULL REFERENCES snapshots (id) ON DELETE CASCADE,
+  repo TEXT NOT NULL,
+  source TEXT NOT NULL,
+  path TEXT NOT NULL,
+  method TEXT,
+  component TEXT,
+  file TEXT,
+  line INTEGER
+);
+CREATE INDEX IF NOT EXISTS routes_snapshot ON routes (snapshot_id);
+CREATE INDEX IF NOT EXISTS routes_path ON routes (path);
+
+CREATE TABLE IF NOT EXISTS screens (
+  id INTEGER PRIMARY KEY,
+  snapshot_id INTEGER NOT NULL REFERENCES snapshots (id) ON DELETE CASCADE,
+  repo TEXT NOT NULL,
+  name TEXT NOT NULL,
+  file TEXT NOT NULL,
+  route TEXT
+);
+CREATE INDEX IF NOT EXISTS screens_snapshot ON screens (snapshot_id);
+
+CREATE TABLE IF NOT EXISTS services (
+  id INTEGER PRIMARY KEY,
+  snapshot_id INTEGER NOT NULL REFERENCES snapshots (id) ON DELETE CASCADE,
+  repo TEXT NOT NULL,
+  source TEXT NOT NULL,
+  name TEXT NOT NULL,
+  namespace TEXT,
+  type TEXT,
+  file TEXT,
+  ingress_host TEXT,
+  ingress_paths TEXT,
+  dependencies TEXT
+);
+CREATE INDEX IF NOT EXISTS services_snapshot ON services (snapshot_id);
+CREATE INDEX IF NOT EXISTS services_name ON services (name);
+
+CREATE TABLE IF NOT EXISTS k8s_resources (
+  id INTEGER PRIMARY KEY,
+  snapshot_id INTEGER NOT NULL REFERENCES snapshots (id) ON DELETE CASCADE,
+  repo TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  name TEXT NOT NULL,
+  namespace TEXT,
+  api_version TEXT NOT NULL,
+  file TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS k8s_resources_snapshot ON k8s_resources (snapshot_id);
+CREATE INDEX IF NOT EXISTS k8s_resources_kind ON k8s_resources (kind, namespace);
+`;
+
+/** Tables of earlier schema versions, dropped when the schema is upgraded */
+const TABLES = [
+  "k8s_resources",
+  "services",
+  "screens",
+  "routes",
+  "relationships",
+  "fields",
+  "types",
+  "extractor_data",
+  "blobs",
+  "ref_snapshots",
+  "refs",
+  "snapshots",
+  "versions",
+];
+
+/** Tables holding rows derived from a snapshot's extractor outputs (see knowledge-index.ts) */
+const INDEX_TABLES = ["types", "relationships", "routes", "screens", "services", "k8s_resources"];
+
+/** Tables holding a snapshot's data (everything keyed by snapshot_id except ref_snapshots) */
+const SNAPSHOT_DATA_TABLES = ["extractor_data", ...INDEX_TABLES];
+
+/**
+ * The latest snapshot of each repo (optionally limited to some repos), as a
+ * CTE: the newest snapshot of the most recently extracted ref
+ */
+function latestSnapshots(repos?: string[]): { sql: string; params: string[] } {
+  const repoFilter = repos ? `WHERE r.repo IN (${repos.map(() => "?").join(", ") || "NULL"})` : "";
+  return {
+    sql: `WITH latest AS (
+      SELECT snapshot_id AS id FROM (
+        SELECT rs.snapshot_id, ROW_NUMBER() OVER (PARTITION BY r.repo ORDER BY rs.extracted_at DESC, r.ref_type, r.ref) AS n
+        FROM refs r JOIN ref_snapshots rs ON rs.ref_id = r.id ${repoFilter}
+      ) WHERE n = 1
+    )`,
+    params: repos ?? [],
+  };
+}
+
+/**
+ * WHERE clause builder: collects conditions and their parameters
+ */
+class Conditions {
+  private clauses: string[] = [];
+  readonly params: unknown[] = [];
+
+  add(clause: string, ...params: unknown[]): this {
+    this.clauses.push(clause);
+    this.params.push(...params);
+    return this;
+  }
+
+  toString(): string {
+    return this.clauses.length > 0 ? `AND ${this.clauses.join(" AND ")}` : "";
+  }
+}
+
+/**
+ * The stored outputs of a snapshot, with their versions and truncations
+ */
+function readStoredSnapshot(db: Database.Database, snapshotId: number, extractors: string[]) {
+  const rows = db
+    .prepare("SELECT e.extractor, e.version, e.truncated, b.data FROM extractor_data e JOIN blobs b ON b.hash = e.hash WHERE e.snapshot_id = ?")
+    .all(snapshotId) as Array<{ extractor: string; version: number; truncated: string | null; data: Buffer }>;
+
+  return {
+    manifest: {
+      extractors,
+      outputVersions: Object.fromEntries(rows.map((row) => [row.extractor, row.version])),
+      truncated: Object.fromEntries(rows.filter((row) => row.truncated).map((row) => [row.extractor, JSON.parse(row.truncated!)])),
+    },
+    data: Object.fromEntries(rows.map((row) => [row.extractor, decodeBlob(row.data)])),
+  };
+}
+
+/**
+ * Store a snapshot and make it the latest of its ref. A snapshot with the
+ * same id (same commit) is updated in place, keeping other refs' links to it
+ * and the outputs of extractors the new extraction did not run.
+ */
+function writeSnapshot(db: Database.Database, saved: KnowledgeManifest, savedData: Record<string, unknown>): void {
+  const { repo, refType, ref } = saved;
+  const extractedAt = new Date(saved.extractedAt);
+  const key = snapshotKey(saved.sha, extractedAt);
+
+  db.transaction(() => {
+    const existing = db.prepare("SELECT id, extractors FROM snapshots WHERE repo = ? AND key = ?").get(repo, key) as
+      | { id: number; extractors: string }
+      | undefined;
+    const { manifest, data } = existing
+      ? mergeSnapshot(readStoredSnapshot(db, existing.id, JSON.parse(existing.extractors)), { manifest: saved, data: savedData })
+      : { manifest: saved, data: savedData };
+    const rows = knowledgeRows(repo, data);
+
+    let snapshotId: number | bigint;
+    if (existing) {
+      snapshotId = existing.id;
+      db.prepare("UPDATE snapshots SET sha = ?, extractors = ? WHERE id = ?").run(
+        manifest.sha ?? null,
+        JSON.stringify(manifest.extractors),
+        snapshotId
+      );
+      for (const table of SNAPSHOT_DATA_TABLES) {
+        db.prepare(`DELETE FROM ${table} WHERE snapshot_id = ?`).run(snapshotId);
+      }
+    } else {
+      snapshotId = db
+        .prepare("INSERT INTO snapshots (repo, key, sha, extractors) VALUES (?, ?, ?, ?)")
+        .run(repo, key, manifest.sha ?? null, JSON.stringify(manifest.extractors)).lastInsertRowid;
+    }
+
+    db.prepare("INSERT INTO refs (repo, ref_type, ref) VALUES (?, ?, ?) ON CONFLICT DO NOTHING").run(repo, refType, ref);
+    const { id: refId } = db.prepare("SELECT id FROM refs WHERE repo = ? AND ref_type = ? AND ref = ?").get(repo, refType, ref) as {
+      id: number;
+    };
+    db.prepare("INSERT OR REPLACE INTO ref_snapshots (ref_id, snapshot_id, extracted_at) VALUES (?, ?, ?)").run(
+      refId,
+      snapshotId,
+      extractedAt.toISOString()
+    );
+
+    const insertBlob = db.prepare("INSERT OR IGNORE INTO blobs (hash, data) VALUES (?, ?)");
+    const insertData = db.prepare(
+      "INSERT INTO extractor_data (snapshot_id, extractor, hash, version, truncated) VALUES (?, ?, ?, ?, ?)"
+    );
+    for (const [extractor, value] of Object.entries(data)) {
+      const blob = encodeBlob(value);
+      const truncated = manifest.truncated?.[extractor];
+      insertBlob.run(blob.hash, blob.data);
+      insertData.run(
+        snapshotId,
+        extractor,
+        blob.hash,
+        manifest.outputVersions?.[extractor] ?? 1,
+        truncated ? JSON.stringify(truncated) : null
+      );
+    }
+
+    writeIndexRows(db, snapshotId, repo, rows);
+  })();
+}
+
+/**
+ * Write a snapshot's index rows (the caller runs this in a transaction)
+ */
+function writeIndexRows(db: Database.Database, snapshotId: number | bigint, repo: string, rows: KnowledgeRows): void {
+  const insertType = db.prepare(
+    `INSERT INTO types (snapshot_id, repo, name, normalized_name, kind, language, file, line, visibility, field_count, definition)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  for (const t of rows.types) {
+    insertType.run(
+      snapshotId,
+      repo,
+      t.name,
+      normalizeTypeName(t.name),
+      t.kind,
+      t.language,
+      t.file,
+      t.line,
+      t.visibility ?? null,
+      t.fieldCount,
+      JSON.stringify(t.definition)
+    );
+  }
+
+  const insertRelationship = db.prepare(
+    `INSERT INTO relationships (snapshot_id, repo, from_type, to_type, normalized_from, normalized_to, kind, via_field, file)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  for (const r of rows.relationships) {
+    insertRelationship.run(
+      snapshotId,
+      repo,
+      r.from,
+      r.to,
+      normalizeTypeName(r.from),
+      normalizeTypeName(r.to),
+      r.kind,
+      r.viaField ?? null,
+      r.file
+    );
+  }
+
+  const insertRoute = db.prepare(
+    "INSERT INTO routes (snapshot_id, repo, source, path, method, component, file, line) VALUES (?, ?, ?, ?, ?, ?, ?, ?)"
+  );
+  for (const r of rows.routes) {
+    insertRoute.run(snapshotId, repo, r.source, r.path, r.method ?? null, r.component ?? null, r.file ?? null, r.line ?? null);
+  }
+
+  const insertScreen = db.prepare("INSERT INTO screens (snapshot_id, repo, name, file, route) VALUES (?, ?, ?, ?, ?)");
+  for (const screen of rows.screens) {
+    insertScreen.run(snapshotId, repo, screen.name, screen.file, screen.route ?? null);
+  }
+
+  const insertService = db.prepare(
+    `INSERT INTO services (snapshot_id, repo, source, name, namespace, type, file, ingress_host, ingress_paths, dependencies)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  for (const s of rows.services) {
+    insertService.run(
+      snapshotId,
+      repo,
+      s.source,
+      s.name,
+      s.namespace ?? null,
+      s.type ?? null,
+      s.file ?? null,
+      s.ingressHost ?? null,
+      s.ingressPaths ? JSON.stringify(s.ingressPaths) : null,
+      s.dependencies ? JSON.stringify(s.dependencies) : null
+    );
+  }
+
+  const insertResource = db.prepare(
+    "INSERT INTO k8s_resources (snapshot_id, repo, kind, name, namespace, api_version, file) VALUES (?, ?, ?, ?, ?, ?, ?)"
+  );
+  for (const r of rows.k8sResources) {
+    insertResource.run(snapshotId, repo, r.kind, r.name, r.namespace ?? null, r.apiVersion, r.file);
+  }
+}
+
+/**
+ * Rebuild the index rows of every snapshot from its stored extractor outputs,
+ * for upgrades that index more of them
+ */
+function reindexSnapshots(db: Database.Database): void {
+  const snapshots = db.prepare("SELECT id, repo FROM snapshots").all() as Array<{ id: number; repo: string }>;
+
+  db.transaction(() => {
+    for (const snapshot of snapshots) {
+      const { data } = readStoredSnapshot(db, snapshot.id, []);
+      for (const table of INDEX_TABLES) {
+        db.prepare(`DELETE FROM ${table} WHERE snapshot_id = ?`).run(snapshot.id);
+      }
+      writeIndexRows(db, snapshot.id, snapshot.repo, knowledgeRows(snapshot.repo, data));
+    }
+  })();
+}
+
+/**
+ * Read every version of a schema 1 database (one row per ref, no history) so
+ * it can be re-written as snapshots
+ */
+function readSchema1(db: Database.Database): VersionedKnowledge[] {
+  const versions = db.prepare("SELECT id, repo, ref_type, ref, sha, extracted_at, extractors FROM versions").all() as Array<{
+    id: number;
+    repo: string;
+    ref_type: "branch" | "tag";
+    ref: string;
+    sha: string | null;
+    extracted_at: string;
+    extractors: string;
+  }>;
+  const readData = db.prepare("SELECT extractor, data FROM extractor_data WHERE version_id = ?");
+
+  return versions.map((version) => ({
+    manifest: {
+      repo: version.repo,
+      ref: version.ref,
+      refType: version.ref_type,
+      extractedAt: new Date(version.extracted_at),
+      extractors: JSON.parse(version.extractors),
+      sha: version.sha ?? undefined,
+    },
+    data: Object.fromEntries(
+      (readData.all(version.id) as Array<{ extractor: string; data: string }>).map((row) => [row.extractor, JSON.parse(row.data)])
+    ),
+  }));
+}
+
+/**
+ * Read every snapshot of a schema 2 database (extractor outputs stored inline)
+ * as it was saved for each ref, oldest first, so it can be re-written with blobs
+ */
+function readSchema2(db: Database.Database): VersionedKnowledge[] {
+  const saves = db
+    .prepare(
+      `SELECT s.id, s.repo, s.key, s.sha, s.extractors, r.ref_type, r.ref, rs.extracted_at
+       FROM ref_snapshots rs JOIN refs r ON r.id = rs.ref_id JOIN snapshots s ON s.id = rs.snapshot_id
+       ORDER BY rs.extracted_at`
+    )
+    .all() as Array<{
+    id: number;
+    repo: string;
+    key: string;
+    sha: string | null;
+    extractors: string;
+    ref_type: "branch" | "tag";
+    ref: string;
+    extracted_at: string;
+  }>;
+  const readData = db.prepare("SELECT extractor, data FROM extractor_data WHERE snapshot_id = ?");
+
+  return saves.map((save) => ({
+    manifest: {
+      repo: save.repo,
+      ref: save.ref,
+      refType: save.ref_type,
+      extractedAt: new Date(save.extracted_at),
+      extractors: JSON.parse(save.extractors),
+      sha: save.sha ?? undefined,
+      snapshot: save.key,
+    },
+    data: Object.fromEntries(
+      (readData.all(save.id) as Array<{ extractor: string; data: string }>).map((row) => [row.extractor, JSON.parse(row.data)])
+    ),
+  }));
+}
+
+/** Connections shared by every store using the same database file */
+const connections = new Map<string, Database.Database>();
+
+function openDatabase(file: string): Database.Database {
+  let db = connections.get(file);
+  if (!db) {
+    db = new Database(file);
+    db.pragma("journal_mode = WAL");
+    db.pragma("foreign_keys = ON");
+    db.pragma("busy_timeout = 5000");
+
+    const version = db.pragma("user_version", { simple: true }) as number;
+    if (version >= 3 && version <= 5) {
+      // Outputs stored before extractors had output versions are version 1
+      if (version === 3) db.exec("ALTER TABLE extractor_data ADD COLUMN version INTEGER NOT NULL DEFAULT 1");
+      // ...and were not truncated by budgets
+      if (version <= 4) db.exec("ALTER TABLE extractor_data ADD COLUMN truncated TEXT");
+      // Schema 6 indexes screens and service dependencies, and no longer fields
+      db.exec("ALTER TABLE services ADD COLUMN dependencies TEXT");
+      db.exec("DROP TABLE IF EXISTS fields");
+      db.exec(SCHEMA);
+      reindexSnapshots(db);
+      db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    } else if (version !== SCHEMA_VERSION) {
+      const carried = version === 1 ? readSchema1(db) : version === 2 ? readSchema2(db) : [];
+      db.exec(TABLES.map((table) => `DROP TABLE IF EXISTS ${table};`).join("\n"));
+      db.exec(SCHEMA);
+      for (const { manifest, data } of carried) writeSnapshot(db, manifest, data);
+      db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    }
+    connections.set(file, db);
+  }
+  return db;
+}
+
+interface SnapshotRow {
+  id: number;
+  key: string;
+  sha: string | null;
+  extracted_at: string;
+  extractors: string;
+}
+
+function toSnapshotInfo(row: SnapshotRow): SnapshotInfo {
+  return {
+    id: row.key,
+    sha: row.sha ?? undefined,
+    extractedAt: new Date(row.extracted_at),
+    extractors: JSON.parse(row.extractors),
+  };
+}
+
+export class SqliteKnowledgeBackend implements KnowledgeBackend {
+  private db: Database.Database;
+
+  constructor(baseDir: string) {
+    mkdirSync(baseDir, { recursive: true });
+    this.db = openDatabase(join(baseDir, SQLITE_DB_FILE));
+  }
+
+  async save(manifest: KnowledgeManifest, data: Record<string, unknown>): Promise<void> {
+    writeSnapshot(this.db, manifest, data);
+  }
+
+  /** A ref's snapshots, newest first */
+  private snapshotRows(repo: string, refType: string, ref: string): SnapshotRow[] {
+    return this.db
+      .prepare(
+        `SELECT s.id, s.key, s.sha, rs.extracted_at, s.extractors
+         FROM refs r JOIN ref_snapshots rs ON rs.ref_id = r.id JOIN snapshots s ON s.id = rs.snapshot_id
+         WHERE r.repo = ? AND r.ref_type = ? AND r.ref = ?
+         ORDER BY rs.extracted_at DESC`
+      )
+      .all(repo, refType, ref) as SnapshotRow[];
+  }
+
+  private resolveSnapshot(repo: string, refType: string, ref: string, at?: SnapshotSelector): SnapshotRow | undefined {
+    const rows = this.snapshotRows(repo, refType, ref);
+    const selected = selectSnapshot(rows.map(toSnapshotInfo), at);
+    return selected && rows.find((row) => row.key === selected.id);
+  }
+
+  async load(repo: string, refType: "branch" | "tag", ref: string, at?: SnapshotSelector): Promise<VersionedKnowledge | null> {
+    const snapshot = this.resolveSnapshot(repo, refType, ref, at);
+    if (!snapshot) return null;
+
+    const manifest: KnowledgeManifest = {
+      repo,
+      ref,
+      refType,
+      extractedAt: new Date(snapshot.extracted_at),
+      extractors: JSON.parse(snapshot.extractors),
+      sha: snapshot.sha ?? undefined,
+      snapshot: snapshot.key,
+    };
+
+    const data: Record<string, unknown> = {};
+    const blobs: Record<string, string> = {};
+    const outputVersions: Record<string, number> = {};
+    const truncated: Record<string, Truncation[]> = {};
+    const rows = this.db
+      .prepare(
+        `SELECT d.extractor, d.hash, d.version, d.truncated, b.data
+         FROM extractor_data d JOIN blobs b ON b.hash = d.hash WHERE d.snapshot_id = ?`
+      )
+      .all(snapshot.id) as Array<{ extractor: string; hash: string; version: number; truncated: string | null; data: Buffer }>;
+    for (const row of rows) {
+      data[row.extractor] = decodeBlob(row.data);
+      blobs[row.extractor] = row.hash;
+      outputVersions[row.extractor] = row.version;
+      if (row.truncated) truncated[row.extractor] = JSON.parse(row.truncated);
+    }
+    manifest.blobs = blobs;
+    manifest.outputVersions = outputVersions;
+    if (Object.keys(truncated).length > 0) manifest.truncated = truncated;
+
+    return { manifest, data };
+  }
+
+  async loadExtractor(
+    repo: string,
+    refType: "branch" | "tag",
+    ref: string,
+    extractor: string,
+    at?: SnapshotSelector
+  ): Promise<StoredOutput | null> {
+    const snapshot = this.resolveSnapshot(repo, refType, ref, at);
+    if (!snapshot) return null;
+
+    const row = this.db
+      .prepare(
+        "SELECT d.version, b.data FROM extractor_data d JOIN blobs b ON b.hash = d.hash WHERE d.snapshot_id = ? AND d.extractor = ?"
+      )
+      .get(snapshot.id, extractor) as { version: number; data: Buffer } | undefined;
+    return row ? { data: decodeBlob(row.data), version: row.version } : null;
+  }
+
+  async listVersions(repo: string): Promise<KnowledgeVersion[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT ref_type, ref, extracted_at, sha, extractors, snapshots,
+           (SELECT json_group_object(extractor, version) FROM extractor_data d WHERE d.snapshot_id = latest.id) AS output_versions,
+           (SELECT json_group_object(extractor, json(truncated)) FROM extractor_data d
+            WHERE d.snapshot_id = latest.id AND truncated IS NOT NULL) AS truncated
+         FROM (
+           SELECT r.ref_type, r.ref, rs.extracted_at, s.id, s.sha, s.extractors,
+             COUNT(*) OVER (PARTITION BY r.id) AS snapshots,
+             ROW_NUMBER() OVER (PARTITION BY r.id ORDER BY rs.extracted_at DESC) AS n
+           FROM refs r JOIN ref_snapshots rs ON rs.ref_id = r.id JOIN snapshots s ON s.id = rs.snapshot_id
+           WHERE r.repo = ?
+         ) latest WHERE n = 1
+         ORDER BY extracted_at DESC, ref_type, ref`
+      )
+      .all(repo) as Array<{
+      ref_type: string;
+      ref: string;
+      extracted_at: string;
+      sha: string | null;
+      extractors: string;
+      snapshots: number;
+      output_versions: string;
+      truncated: string;
+    }>;
+    return rows.map((row) => ({
+      refType: row.ref_type,
+      ref: row.ref,
+      extractedAt: new Date(row.extracted_at),
+      sha: row.sha ?? undefined,
+      extractors: JSON.parse(row.extractors),
+      snapshots: row.snapshots,
+      outputVersions: outputVersionsOf(JSON.parse(row.extractors), JSON.parse(row.output_versions)),
+      truncated: JSON.parse(row.truncated),
+    }));
+  }
+
+  async listSnapshots(repo: string, refType: "branch" | "tag", ref: string): Promise<SnapshotInfo[]> {
+    return this.snapshotRows(repo, refType, ref).map(toSnapshotInfo);
+  }
+
+  async listRepos(): Promise<string[]> {
+    const rows = this.db.prepare("SELECT DISTINCT repo FROM refs ORDER BY repo").all() as Array<{ repo: string }>;
+    return rows.map((row) => row.repo);
+  }
+
+  /**
+   * Remove a repo's snapshots no ref points at any more
+   */
+  private removeUnreferencedSnapshots(repo: string): void {
+    this.db
+      .prepare("DELETE FROM snapshots WHERE repo = ? AND id NOT IN (SELECT snapshot_id FROM ref_snapshots)")
+      .run(repo);
+  }
+
+  async delete(repo: string, refType: "branch" | "tag", ref: string): Promise<void> {
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM refs WHERE repo = ? AND ref_type = ? AND ref = ?").run(repo, refType, ref);
+      this.removeUnreferencedSnapshots(repo);
+    })();
+  }
+
+  async deleteSnapshots(repo: string, refType: "branch" | "tag", ref: string, ids: string[]): Promise<void> {
+    const deleteLink = this.db.prepare(
+      `DELETE FROM ref_snapshots
+       WHERE ref_id = (SELECT id FROM refs WHERE repo = ? AND ref_type = ? AND ref = ?)
+         AND snapshot_id = (SELECT id FROM snapshots WHERE repo = ? AND key = ?)`
+    );
+
+    this.db.transaction(() => {
+      for (const id of ids) deleteLink.run(repo, refType, ref, repo, id);
+      this.db
+        .prepare("DELETE FROM refs WHERE repo = ? AND id NOT IN (SELECT ref_id FROM ref_snapshots)")
+        .run(repo);
+      this.removeUnreferencedSnapshots(repo);
+    })();
+  }
+
+  async deleteRepo(repo: string): Promise<void> {
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM refs WHERE repo = ?").run(repo);
+      this.db.prepare("DELETE FROM snapshots WHERE repo = ?").run(repo);
+    })();
+  }
+
+  async gc(): Promise<GcResult> {
+    // Blobs are written in the same transaction as the rows referencing them, so no grace period is needed
+    return this.db.transaction(() => {
+      const unreferenced = "FROM blobs WHERE hash NOT IN (SELECT hash FROM extractor_data)";
+      const { bytes } = this.db.prepare(`SELECT COALESCE(SUM(length(data)), 0) AS bytes ${unreferenced}`).get() as { bytes: number };
+      const removed = this.db.prepare(`DELETE ${unreferenced}`).run().changes;
+      const { kept } = this.db.prepare("SELECT COUNT(*) AS kept FROM blobs").get() as { kept: number };
+      return { removed, kept, bytesFreed: bytes };
+    })();
+  }
+
+  async loadLatestExtractor(extractor: string, repos?: string[]): Promise<Record<string, StoredOutput>> {
+    const latest = latestSnapshots(repos);
+    const rows = this.db
+      .prepare(
+        `${latest.sql}
+         SELECT s.repo, d.version, b.data FROM latest JOIN snapshots s ON s.id = latest.id
+         JOIN extractor_data d ON d.snapshot_id = s.id AND d.extractor = ?
+         JOIN blobs b ON b.hash = d.hash
+         ORDER BY s.repo`
+      )
+      .all(...latest.params, extractor) as Array<{ repo: string; version: number; data: Buffer }>;
+    return Object.fromEntries(rows.map((row) => [row.repo, { data: decodeBlob(row.data), version: row.version }]));
+  }
+
+  /**
+   * Rows of `table` in the latest snapshot of each repo matching `where`, in repo then insertion order
+   */
+  private select<T>(table: string, repos: string[] | undefined, where: Conditions, orderBy = "t.repo, t.id"): T[] {
+    const latest = latestSnapshots(repos);
+    return this.db
+      .prepare(`${latest.sql} SELECT t.* FROM ${table} t JOIN latest ON latest.id = t.snapshot_id WHERE 1 = 1 ${where} ORDER BY ${orderBy}`)
+      .all(...latest.params, ...where.params) as T[];
+  }
+
+  async queryTypes(filter: TypeFilter): Promise<TypeRow[]> {
+    const where = new Conditions();
+    if (filter.name) where.add("instr(t.normalized_name, ?) > 0", normalizeTypeName(filter.name));
+    if (filter.kind) where.add("t.kind = ?", filter.kind);
+    if (filter.language) where.add("t.language = ?", filter.language);
+
+    const rows = this.select<{
+      repo: string;
+      name: string;
+      kind: string;
+      language: string;
+      file: string;
+      line: number;
+      visibility: string | null;
+      field_count: number;
+      definition: string;
+    }>("types", filter.repos, where, "(CASE WHEN t.visibility = 'public' THEN 100 ELSE 0 END + t.field_count) DESC, t.repo, t.id");
+
+    return rows.map((row) => ({
+      repo: row.repo,
+      name: row.name,
+      kind: row.kind,
+      language: row.language,
+      file: row.file,
+      line: row.line,
+      visibility: row.visibility ?? undefined,
+      fieldCount: row.field_count,
+      definition: JSON.parse(row.definition),
+    }));
+  }
+
+  async countTypes(repos?: string[]): Promise<Record<string, Record<string, number>>> {
+    const latest = latestSnapshots(repos);
+    const rows = this.db
+      .prepare(
+        `${latest.sql} SELECT t.repo, t.kind, COUNT(*) AS count FROM types t JOIN latest ON latest.id = t.snapshot_id
+         GROUP BY t.repo, t.kind ORDER BY t.repo`
+      )
+      .all(...latest.params) as Array<{ repo: string; kind: string; count: number }>;
+
+    const counts: Record<string, Record<string, number>> = {};
+    for (const { repo, kind, count } of rows) {
+      counts[repo] ??= {};
+      counts[repo][kind] = count;
+    }
+    return counts;
+  }
+
+  async queryRelationships(filter: RelationshipFilter): Promise<RelationshipRow[]> {
+    const where = new Conditions();
+    if (filter.type) {
+      const type = normalizeTypeName(filter.type);
+      where.add("(instr(t.normalized_from, ?) > 0 OR instr(t.normalized_to, ?) > 0)", type, type);
+    }
+    if (filter.kind) where.add("t.kind = ?", filter.kind);
+
+    const rows = this.select<{ repo: string; from_type: string; to_type: string; kind: string; via_field: string | null; file: string }>(
+      "relationships",
+      filter.repos,
+      where
+    );
+    return rows.map((row) => ({
+      repo: row.repo,
+      from: row.from_type,
+      to: row.to_type,
+      kind: row.kind,
+      viaField: row.via_field ?? undefined,
+      file: row.file,
+    }));
+  }
+
+  async queryRoutes(filter: RouteFilter): Promise<RouteRow[]> {
+    const where = new Conditions();
+    if (filter.path) where.add("instr(t.path, ?) > 0", filter.path);
+    if (filter.method) where.add("lower(t.method) = ?", filter.method.toLowerCase());
+    if (filter.source) where.add("t.source = ?", filter.source);
+
+    const rows = this.select<{
+      repo: string;
+      source: RouteRow["source"];
+      path: string;
+      method: string | null;
+      component: string | null;
+      file: string | null;
+      line: number | null;
+    }>("routes", filter.repos, where);
+    return rows.map((row) => ({
+      repo: row.repo,
+      source: row.source,
+      path: row.path,
+      method: row.method ?? undefined,
+      component: row.component ?? undefined,
+      file: row.file ?? undefined,
+      line: row.line ?? undefined,
+    }));
+  }
+
+  async queryScreens(filter: ScreenFilter): Promise<ScreenRow[]> {
+    const where = new Conditions();
+    if (filter.name) where.add("instr(lower(t.name), ?) > 0", filter.name.toLowerCase());
+
+    const rows = this.select<{ repo: string; name: string; file: string; route: string | null }>("screens", filter.repos, where);
+    return rows.map((row) => ({ repo: row.repo, name: row.name, file: row.file, route: row.route ?? undefined }));
+  }
+
+  async queryServices(filter: ServiceFilter): Promise<ServiceRow[]> {
+    const where = new Conditions();
+    if (filter.name) where.add("instr(lower(t.name), ?) > 0", filter.name.toLowerCase());
+    if (filter.source) where.add("t.source = ?", filter.source);
+
+    const rows = this.select<{
+      repo: string;
+      source: ServiceRow["source"];
+      name: string;
+      namespace: string | null;
+      type: string | null;
+      file: string | null;
+      ingress_host: string | null;
+      ingress_paths: string | null;
+      dependencies: string | null;
+    }>("services", filter.repos, where);
+    return rows.map((row) => ({
+      repo: row.repo,
+      source: row.source,
+      name: row.name,
+      namespace: row.namespace ?? undefined,
+      type: row.type ?? undefined,
+      file: row.file ?? undefined,
+      ingressHost: row.ingress_host ?? undefined,
+      ingressPaths: row.ingress_paths ? JSON.parse(row.ingress_paths) : undefined,
+      dependencies: row.dependencies ? JSON.parse(row.dependencies) : undefined,
+    }));
+  }
+
+  async queryK8sResources(filter: K8sResourceFilter): Promise<K8sResourceRow[]> {
+    const where = new Conditions();
+    if (filter.kinds) where.add(`t.kind IN (${filter.kinds.map(() => "?").join(", ") || "NULL"})`, ...filter.kinds);
+    if (filter.namespace) where.add("t.namespace = ?", filter.namespace);
+    if (filter.name) where.add("instr(t.name, ?) > 0", filter.name);
+
+    const rows = this.select<{ repo: string; kind: string; name: string; namespace: string | null; api_version: string; file: string }>(
+      "k8s_resources",
+      filter.repos,
+      where
+    );
+    return rows.map((row) => ({
+      repo: row.repo,
+      kind: row.kind,
+      name: row.name,
+      namespace: row.namespace ?? undefined,
+      apiVersion: row.api_version,
+      file: row.file,
+    }));
+  }
+}
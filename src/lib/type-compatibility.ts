@@ -0,0 +1,354 @@
+/**
+ * Producer/consumer compatibility of two definitions of the same type.
+ *
+ * The producer's serialized form is checked against what the consumer
+ * expects: fields are matched on their wire names, field types are compared
+ * across languages by the JSON value they serialize to, and enum variants are
+ * compared in both directions. Nested types are compared by name only.
+ */
+
+import type { FieldDefinition, TypeDefinition, TypeRef, VariantDefinition } from "../extractors/types/schema.js";
+import { normalizeTypeName } from "./knowledge-index.js";
+
+export type CompatibilitySeverity = "error" | "warning" | "info";
+
+export const COMPATIBILITY_SEVERITIES: CompatibilitySeverity[] = ["error", "warning", "info"];
+
+export type CompatibilityIssue =
+  | "kind_mismatch"
+  | "missing_required_field"
+  | "missing_optional_field"
+  | "unknown_field"
+  | "type_mismatch"
+  | "optionality_mismatch"
+  | "unknown_variant"
+  | "unused_variant";
+
+export interface CompatibilityFinding {
+  severity: CompatibilitySeverity;
+  issue: CompatibilityIssue;
+  /** Wire name of the field concerned */
+  field?: string;
+  /** Wire name of the variant concerned */
+  variant?: string;
+  /** Producer's type as written in source */
+  producerType?: string;
+  /** Consumer's type as written in source */
+  consumerType?: string;
+  message: string;
+}
+
+/**
+ * The JSON value a type serializes to, as far as it matters for compatibility
+ */
+type ValueShape =
+  | { kind: "any" }
+  | { kind: "bool" }
+  | { kind: "string" }
+  | { kind: "bytes" }
+  | { kind: "integer"; bits: number }
+  | { kind: "float" }
+  /** JavaScript number: a double, exact for integers up to 2^53 */
+  | { kind: "number" }
+  | { kind: "list"; element: ValueShape }
+  | { kind: "map" }
+  | { kind: "named"; name: string };
+
+const INTEGER_BITS: Record<string, number> = {
+  i8: 8, u8: 8, int8: 8, uint8: 8, byte: 8, sbyte: 8,
+  i16: 16, u16: 16, int16: 16, uint16: 16, short: 16, ushort: 16,
+  i32: 32, u32: 32, int32: 32, uint32: 32, integer: 32, rune: 32,
+  i64: 64, u64: 64, int64: 64, uint64: 64, long: 64, ulong: 64, isize: 64, usize: 64, nint: 64, nuint: 64, uintptr: 64,
+  i128: 128, u128: 128, biginteger: 128, bigint: 128,
+};
+
+/** Languages whose plain `int` is 64 bits wide (or unbounded) */
+const WIDE_INT_LANGUAGES = new Set(["go", "swift", "dart", "python"]);
+
+const FLOATS = new Set(["f32", "f64", "float", "double", "float32", "float64", "decimal", "bigdecimal", "num", "cgfloat"]);
+
+/** Strings, and values serialized as strings (identifiers, dates) */
+const STRINGS = new Set([
+  "string", "str", "char", "character", "uuid", "guid", "url", "uri",
+  "date", "datetime", "naivedate", "naivedatetime", "instant", "localdate", "localdatetime",
+  "offsetdatetime", "zoneddatetime", "datetimeoffset", "timestamp", "time",
+]);
+
+const BYTES = new Set(["bytes", "bytearray", "uint8array", "buffer", "bytestring", "data"]);
+
+const ANY = new Set([
+  "any", "unknown", "object", "dynamic", "value", "jsonvalue", "jsonelement", "jsonnode", "jsonobject",
+  "interface{}", "rawmessage", "anyobject", "anycodable", "void", "()",
+]);
+
+const LISTS = new Set([
+  "list", "vec", "array", "set", "hashset", "btreeset", "vecdeque", "sequence", "iterable", "collection",
+  "ienumerable", "icollection", "ilist", "ireadonlylist", "ireadonlycollection", "arraylist", "linkedlist",
+  "mutablelist", "mutableset", "tuple", "frozenset", "seq",
+]);
+
+const MAPS = new Set([
+  "map", "hashmap", "btreemap", "indexmap", "dictionary", "idictionary", "ireadonlydictionary", "dict",
+  "mapping", "record", "mutablemap", "linkedhashmap", "treemap", "concurrenthashmap", "defaultdict",
+]);
+
+/** Wrappers that serialize as their content */
+const TRANSPARENT = new Set(["box", "arc", "rc", "cow", "nullable", "optional", "option", "lazy", "mutex", "rwlock"]);
+
+/**
+ * JSON shape of a type written in `language`. `raw` may be a TypeRef name or
+ * a full type expression (generic arguments are only known from the text).
+ */
+function shapeOf(raw: string, language: string): ValueShape {
+  let text = raw.trim().replace(/^[&*]+(?:'\w+\s+)?(?:mut\s+)?/, "").replace(/[?!]$/, "");
+
+  // Unions with null: `string | null`, `int | None`
+  if (text.includes("|")) {
+    const members = text.split("|").map((m) => m.trim()).filter((m) => !["null", "undefined", "None", "nil"].includes(m));
+    if (members.length !== 1) return { kind: "any" };
+    text = members[0];
+  }
+
+  if (text.startsWith("[]")) return { kind: "list", element: shapeOf(text.slice(2), language) };
+  if (/^map\[/.test(text)) return { kind: "map" };
+  if (/^\[[^\]:]+:[^\]]+\]$/.test(text)) return { kind: "map" };
+  if (/^\[.+\]$/.test(text)) return { kind: "list", element: shapeOf(text.slice(1, -1), language) };
+  if (text.endsWith("[]")) return { kind: "list", element: shapeOf(text.slice(0, -2), language) };
+
+  const generic = text.match(/^([\w.:]+)\s*[<[]([\s\S]*)[>\]]$/);
+  const base = (generic ? generic[1] : text).split(/::|\./).pop()!;
+  const lower = base.toLowerCase();
+  const firstArgument = generic ? generic[2].split(",")[0] : undefined;
+
+  if (TRANSPARENT.has(lower) && firstArgument) return shapeOf(firstArgument, language);
+  if (LISTS.has(lower)) return { kind: "list", element: firstArgument ? shapeOf(firstArgument, language) : { kind: "any" } };
+  if (MAPS.has(lower)) return { kind: "map" };
+
+  if (lower === "number" && language === "typescript") return { kind: "number" };
+  if (lower === "int" || lower === "uint") return { kind: "integer", bits: WIDE_INT_LANGUAGES.has(language) ? 64 : 32 };
+  if (INTEGER_BITS[lower] !== undefined) return { kind: "integer", bits: INTEGER_BITS[lower] };
+  if (FLOATS.has(lower)) return { kind: "float" };
+  if (lower === "bool" || lower === "boolean") return { kind: "bool" };
+  if (STRINGS.has(lower)) return { kind: "string" };
+  if (BYTES.has(lower)) return { kind: "bytes" };
+  if (ANY.has(lower) || lower === "") return { kind: "any" };
+
+  return { kind: "named", name: normalizeTypeName(base) };
+}
+
+/**
+ * JSON shape of a field's type
+ */
+function fieldShape(typeRef: TypeRef, language: string): ValueShape {
+  // Parsers strip collections and optionality from the name; generics keep the text
+  const element = shapeOf(typeRef.generics?.length && !typeRef.isCollection ? typeRef.raw : typeRef.name, language);
+  return typeRef.isCollection && element.kind !== "list" ? { kind: "list", element } : element;
+}
+
+function describeShape(shape: ValueShape): string {
+  switch (shape.kind) {
+    case "integer":
+      return `${shape.bits}-bit integer`;
+    case "list":
+      return `list of ${describeShape(shape.element)}`;
+    case "named":
+      return `type ${shape.name}`;
+    default:
+      return shape.kind;
+  }
+}
+
+interface ShapeMismatch {
+  severity: CompatibilitySeverity;
+  message: string;
+}
+
+/**
+ * Whether values of the producer's shape can be read as the consumer's
+ */
+function compareShapes(producer: ValueShape, consumer: ValueShape): ShapeMismatch | undefined {
+  if (producer.kind === "any" || consumer.kind === "any") return undefined;
+
+  const mismatch = (severity: CompatibilitySeverity, reason?: string): ShapeMismatch => ({
+    severity,
+    message: `${describeShape(producer)} vs ${describeShape(consumer)}${reason ? `: ${reason}` : ""}`,
+  });
+
+  if (producer.kind === "list" || consumer.kind === "list") {
+    if (producer.kind !== "list" || consumer.kind !== "list") {
+      // Byte strings are arrays of bytes in some serializers
+      return producer.kind === "bytes" || consumer.kind === "bytes" ? undefined : mismatch("error");
+    }
+    const element = compareShapes(producer.element, consumer.element);
+    return element && { severity: element.severity, message: `elements: ${element.message}` };
+  }
+
+  if (producer.kind === "named" || consumer.kind === "named") {
+    if (producer.kind === "named" && consumer.kind === "named") {
+      return producer.name === consumer.name ? undefined : mismatch("warning", "different types");
+    }
+    // Objects; or a newtype, enum or custom scalar that serializes as the primitive
+    if (producer.kind === "map" || consumer.kind === "map") return undefined;
+    return mismatch("info", "check what the named type serializes to");
+  }
+
+  if (producer.kind === "map" || consumer.kind === "map") {
+    return producer.kind === consumer.kind ? undefined : mismatch("error");
+  }
+
+  if (producer.kind === "integer") {
+    if (consumer.kind === "integer") {
+      return producer.bits > consumer.bits ? mismatch("warning", "values may overflow") : undefined;
+    }
+    if (consumer.kind === "number") {
+      return producer.bits > 53 ? mismatch("warning", "values above 2^53 lose precision") : undefined;
+    }
+    if (consumer.kind === "float") return undefined;
+  }
+  if (producer.kind === "float" || producer.kind === "number") {
+    if (consumer.kind === "integer") {
+      return producer.kind === "number"
+        ? mismatch("warning", "fractional values are rejected")
+        : mismatch("error", "fractional values are rejected");
+    }
+    if (consumer.kind === "float" || consumer.kind === "number") return undefined;
+  }
+
+  const stringLike = ["string", "bytes"];
+  if (stringLike.includes(producer.kind) && stringLike.includes(consumer.kind)) return undefined;
+
+  return producer.kind === consumer.kind ? undefined : mismatch("error");
+}
+
+/**
+ * Fields that are serialized, by exact wire name: `user_id` and `userId` are
+ * different keys in JSON
+ */
+function wireFields(type: TypeDefinition): Map<string, FieldDefinition> {
+  const fields = new Map<string, FieldDefinition>();
+  for (const field of type.fields ?? []) {
+    if (field.serialized === false) continue;
+    fields.set(field.wireName ?? field.name, field);
+  }
+  return fields;
+}
+
+/**
+ * Serialized name of a variant: string values stand for TypeScript and
+ * Python enum members
+ */
+function variantWireName(variant: VariantDefinition, language: string): string {
+  if (variant.wireName) return variant.wireName;
+  if (typeof variant.value === "string" && (language === "typescript" || language === "python")) return variant.value;
+  return variant.name;
+}
+
+function wireVariants(type: TypeDefinition): Map<string, string> {
+  return new Map(
+    (type.variants ?? []).map((variant) => {
+      const wireName = variantWireName(variant, type.language);
+      return [normalizeTypeName(wireName), wireName];
+    })
+  );
+}
+
+const RECORD_KINDS = new Set(["struct", "class", "interface", "input", "message", "model"]);
+
+function isOptional(field: FieldDefinition): boolean {
+  return Boolean(field.optional || field.typeRef.optional);
+}
+
+/**
+ * Compare what `producer` serializes with what `consumer` expects to read
+ */
+export function checkTypeCompatibility(producer: TypeDefinition, consumer: TypeDefinition): CompatibilityFinding[] {
+  const findings: CompatibilityFinding[] = [];
+
+  const producerIsEnum = producer.kind === "enum";
+  const consumerIsEnum = consumer.kind === "enum";
+  if (
+    producerIsEnum !== consumerIsEnum &&
+    (producerIsEnum || RECORD_KINDS.has(producer.kind)) &&
+    (consumerIsEnum || RECORD_KINDS.has(consumer.kind))
+  ) {
+    return [
+      {
+        severity: "error",
+        issue: "kind_mismatch",
+        message: `The producer's ${producer.name} is a ${producer.kind}, the consumer's is a ${consumer.kind}`,
+      },
+    ];
+  }
+
+  // Fields: only when both sides list them
+  const producerFields = wireFields(producer);
+  const consumerFields = wireFields(consumer);
+  if (producerFields.size > 0 && consumerFields.size > 0) {
+    for (const [field, consumerField] of consumerFields) {
+      const producerField = producerFields.get(field);
+
+      if (!producerField) {
+        findings.push(
+          isOptional(consumerField)
+            ? { severity: "info", issue: "missing_optional_field", field, message: `Optional field ${field} is never sent by the producer` }
+            : { severity: "error", issue: "missing_required_field", field, message: `Required field ${field} is missing from the producer` }
+        );
+        continue;
+      }
+
+      const types = { producerType: producerField.typeRef.raw, consumerType: consumerField.typeRef.raw };
+      if (isOptional(producerField) && !isOptional(consumerField)) {
+        findings.push({
+          severity: "error",
+          issue: "optionality_mismatch",
+          field,
+          ...types,
+          message: `Field ${field} may be missing or null in the producer but is required by the consumer`,
+        });
+      }
+
+      const mismatch = compareShapes(
+        fieldShape(producerField.typeRef, producer.language),
+        fieldShape(consumerField.typeRef, consumer.language)
+      );
+      if (mismatch) {
+        findings.push({
+          severity: mismatch.severity,
+          issue: "type_mismatch",
+          field,
+          ...types,
+          message: `Field ${field}: ${types.producerType} vs ${types.consumerType} (${mismatch.message})`,
+        });
+      }
+    }
+
+    for (const field of producerFields.keys()) {
+      if (consumerFields.has(field)) continue;
+      findings.push({ severity: "info", issue: "unknown_field", field, message: `Field ${field} is sent but not read by the consumer` });
+    }
+  }
+
+  // Variants: values the consumer can't decode, and values it waits for in vain
+  const producerVariants = wireVariants(producer);
+  const consumerVariants = wireVariants(consumer);
+  if (producerVariants.size > 0 && consumerVariants.size > 0) {
+    for (const [key, variant] of producerVariants) {
+      if (consumerVariants.has(key)) continue;
+      findings.push({ severity: "error", issue: "unknown_variant", variant, message: `Variant ${variant} is unknown to the consumer` });
+    }
+    for (const [key, variant] of consumerVariants) {
+      if (producerVariants.has(key)) continue;
+      findings.push({ severity: "info", issue: "unused_variant", variant, message: `Variant ${variant} is never sent by the producer` });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Whether any finding is at least as severe as `failOn`
+ */
+export function hasFindingsAtOrAbove(findings: CompatibilityFinding[], failOn: CompatibilitySeverity): boolean {
+  const threshold = COMPATIBILITY_SEVERITIES.indexOf(failOn);
+  return findings.some((finding) => COMPATIBILITY_SEVERITIES.indexOf(finding.severity) <= threshold);
+}
@@ -6,7 +6,8 @@
 
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { loadConfig, clearConfigCache } from "./lib/config-loader.js";
+import { loadConfig, reloadConfig } from "./lib/config-loader.js";
+import { formatConfigIssue } from "./lib/config-schema.js";
 
 /**
  * Sanitize user input for use in prompt text
@@ -432,11 +433,14 @@ Configuration shows ${repoCount} repositories (${enabledCount} enabled).${config
   });
 
   // Reload configuration
-  server.prompt("reload-config", "Reload the repos.yaml configuration (clears cache)", {}, async () => {
-    clearConfigCache();
-
+  server.prompt("reload-config", "Reload the repos.yaml configuration (kept if the new one is invalid)", {}, async () => {
     try {
-      const config = await loadConfig();
+      const result = await reloadConfig();
+      if (!result.valid) {
+        throw new Error(`${result.path} is invalid:\n${result.issues.map((i) => `  ${formatConfigIssue(i)}`).join("\n")}`);
+      }
+
+      const config = result.config!;
       const repoCount = Object.keys(config.repositories).length;
       const enabledCount = Object.values(config.repositories).filter((r) => r.enabled !== false).length;
       const disabledRepos = Object.entries(config.repositories)
@@ -456,7 +460,7 @@ Configuration shows ${repoCount} repositories (${enabledCount} enabled).${config
 - Enabled: ${enabledCount}
 - Disabled: ${disabledRepos.length > 0 ? disabledRepos.join(", ") : "none"}
 
-The config cache has been cleared and the latest repos.yaml has been loaded.`,
+The latest repos.yaml (and its includes) has been loaded.`,
             },
           },
         ],
@@ -472,8 +476,8 @@ The config cache has been cleared and the latest repos.yaml has been loaded.`,
 
 Error: ${error instanceof Error ? error.message : String(error)}
 
-The config cache has been cleared, but the configuration file could not be loaded.
-Please check that your repos.yaml file exists and is valid YAML.`,
+The previous configuration is still in use.
+Please check that your repos.yaml file exists and is valid (see validate_config).`,
             },
           },
         ],
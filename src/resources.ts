@@ -8,7 +8,8 @@ import { fileURLToPath } from "url";
 import { glob } from "glob";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { loadConfig } from "./lib/config-loader.js";
+import { getAccessPolicy, assertResourceAllowed, isResourceAllowed, isRepoAllowed } from "./lib/auth.js";
+import { getStore } from "./tools/shared.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -38,9 +39,14 @@ function isPathSafe(fullPath: string, baseDir: string): boolean {
   return normalizedPath.startsWith(normalizedBase + "/") || normalizedPath === normalizedBase;
 }
 
+/**
+ * URI segment for a ref, e.g. "branch-main" (path separators replaced)
+ */
+function refSegment(refType: string, ref: string): string {
+  return `${refType}-${ref.replace(/[/\\:*?"<>|]/g, "-")}`;
+}
+
 export async function registerResources(server: McpServer): Promise<void> {
-  const config = await loadConfig();
-  const knowledgeDir = join(__dirname, "..", config.knowledge_dir || "knowledge/extracted");
   const staticKnowledgeDir = join(__dirname, "..", "knowledge");
 
   // Register resource template for extracted knowledge
@@ -48,7 +54,8 @@ export async function registerResources(server: McpServer): Promise<void> {
   server.resource(
     "extracted-knowledge",
     new ResourceTemplate("knowledge://extracted/{repo}/{ref}/{extractor}", {
-      list: async () => {
+      list: async (extra) => {
+        const policy = getAccessPolicy(extra.authInfo);
         const resources: Array<{
           uri: string;
           name: string;
@@ -56,17 +63,20 @@ export async function registerResources(server: McpServer): Promise<void> {
         }> = [];
 
         try {
-          const files = await glob("**/*.json", { cwd: knowledgeDir });
-          for (const file of files) {
-            if (file.includes("manifest")) continue;
-            const parts = file.replace(".json", "").split("/");
-            if (parts.length >= 3) {
-              const [repo, ref, extractor] = parts;
-              resources.push({
-                uri: `knowledge://extracted/${repo}/${ref}/${extractor}`,
-                name: `${repo}/${ref}/${extractor}`,
-                mimeType: "application/json",
-              });
+          const store = await getStore();
+          for (const repo of await store.listRepos()) {
+            if (!isRepoAllowed(policy, repo)) continue;
+            for (const version of await store.listVersions(repo)) {
+              const ref = refSegment(version.refType, version.ref);
+              for (const extractor of version.extractors) {
+                const uri = `knowledge://extracted/${repo}/${ref}/${extractor}`;
+                if (!isResourceAllowed(policy, uri)) continue;
+                resources.push({
+                  uri,
+                  name: `${repo}/${ref}/${extractor}`,
+                  mimeType: "application/json",
+                });
+              }
             }
           }
         } catch {
@@ -77,8 +87,9 @@ export async function registerResources(server: McpServer): Promise<void> {
       },
     }),
     { description: "Extracted knowledge data (user_flows, data_flow, kubernetes, terraform, etc.)" },
-    async (uri, vars) => {
+    async (uri, vars, extra) => {
       const repo = Array.isArray(vars.repo) ? vars.repo[0] : vars.repo;
+      assertResourceAllowed(getAccessPolicy(extra.authInfo), uri.href, repo);
       const ref = Array.isArray(vars.ref) ? vars.ref[0] : vars.ref;
       const extractor = Array.isArray(vars.extractor) ? vars.extractor[0] : vars.extractor;
 
@@ -97,26 +108,20 @@ export async function registerResources(server: McpServer): Promise<void> {
         };
       }
 
-      const filePath = join(knowledgeDir, safeRepo, safeRef, `${safeExtractor}.json`);
-
-      // Double-check the path is within the knowledge directory
-      if (!isPathSafe(filePath, knowledgeDir)) {
-        return {
-          contents: [{
-            uri: uri.href,
-            mimeType: "text/plain",
-            text: "Error: Access denied - path traversal not allowed.",
-          }],
-        };
-      }
-
       try {
-        const content = await fs.readFile(filePath, "utf-8");
+        const store = await getStore();
+        const version = (await store.listVersions(safeRepo)).find((v) => refSegment(v.refType, v.ref) === safeRef);
+        const data = version
+          ? await store.loadExtractor(safeRepo, version.refType as "branch" | "tag", version.ref, safeExtractor)
+          : null;
+        if (data === null) {
+          throw new Error(`no ${safeExtractor} data for ${safeRepo}/${safeRef}`);
+        }
         return {
           contents: [{
             uri: uri.href,
             mimeType: "application/json",
-            text: content,
+            text: JSON.stringify(data, null, 2),
           }],
         };
       } catch (error) {
@@ -136,7 +141,8 @@ export async function registerResources(server: McpServer): Promise<void> {
   server.resource(
     "static-knowledge",
     new ResourceTemplate("knowledge://static/{+path}", {
-      list: async () => {
+      list: async (extra) => {
+        const policy = getAccessPolicy(extra.authInfo);
         const resources: Array<{
           uri: string;
           name: string;
@@ -149,6 +155,7 @@ export async function registerResources(server: McpServer): Promise<void> {
             ignore: ["extracted/**"],
           });
           for (const file of files) {
+            if (!isResourceAllowed(policy, `knowledge://static/${file}`)) continue;
             resources.push({
               uri: `knowledge://static/${file}`,
               name: file,
@@ -163,7 +170,8 @@ export async function registerResources(server: McpServer): Promise<void> {
       },
     }),
     { description: "Static knowledge files (markdown documentation, matrices)" },
-    async (uri, vars) => {
+    async (uri, vars, extra) => {
+      assertResourceAllowed(getAccessPolicy(extra.authInfo), uri.href);
       const path = Array.isArray(vars.path) ? vars.path.join("/") : vars.path;
 
       // Validate path to prevent directory traversal
@@ -228,7 +236,9 @@ export async function registerResources(server: McpServer): Promise<void> {
     "knowledge-index",
     "knowledge://index",
     { description: "Index of all available knowledge resources" },
-    async (uri) => {
+    async (uri, extra) => {
+      const policy = getAccessPolicy(extra.authInfo);
+      assertResourceAllowed(policy, uri.href);
       const index: {
         extracted: Array<{ repo: string; ref: string; extractors: string[] }>;
         static: string[];
@@ -239,24 +249,11 @@ export async function registerResources(server: McpServer): Promise<void> {
 
       // List extracted repos
       try {
-        const repos = await fs.readdir(knowledgeDir);
-        for (const repo of repos) {
-          const repoPath = join(knowledgeDir, repo);
-          const stat = await fs.stat(repoPath);
-          if (!stat.isDirectory()) continue;
-
-          const refs = await fs.readdir(repoPath);
-          for (const ref of refs) {
-            const refPath = join(repoPath, ref);
-            const refStat = await fs.stat(refPath);
-            if (!refStat.isDirectory()) continue;
-
-            const files = await fs.readdir(refPath);
-            const extractors = files
-              .filter((f) => f.endsWith(".json") && f !== "manifest.json")
-              .map((f) => f.replace(".json", ""));
-
-            index.extracted.push({ repo, ref, extractors });
+        const store = await getStore();
+        for (const repo of await store.listRepos()) {
+          if (!isRepoAllowed(policy, repo)) continue;
+          for (const version of await store.listVersions(repo)) {
+            index.extracted.push({ repo, ref: refSegment(version.refType, version.ref), extractors: version.extractors });
           }
         }
       } catch {
@@ -8,8 +8,10 @@ import { promises as fs } from "fs";
 import { glob } from "glob";
 import { fileURLToPath } from "url";
 import { dirname, join, resolve, relative } from "path";
-import { KnowledgeStore } from "./lib/knowledge-store.js";
+import { KnowledgeStore, knowledgeStoreOptions } from "./lib/knowledge-store.js";
 import { loadConfig } from "./lib/config-loader.js";
+import { filterAllowedRepos } from "./lib/auth.js";
+import { paginate, paginationSchema } from "./tools/shared.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -108,6 +110,11 @@ export const toolHandlers: ToolHandler[] = [
             tools: ["extract_ref", "extract_all"],
             example: 'extract_ref(repo: "my-app", ref: "v1.0.0")',
           },
+          share: {
+            description: "Export extracted knowledge to an archive, or load a prebuilt one",
+            tools: ["export_knowledge", "import_knowledge"],
+            example: 'import_knowledge(path: "knowledge.bundle.json.gz")',
+          },
           query: {
             description: "Query aggregated knowledge across repos",
             tools: ["query_nips", "query_flows", "query_data_flow", "query_infra"],
@@ -144,10 +151,12 @@ export const toolHandlers: ToolHandler[] = [
       type: "object",
       properties: {
         query: { type: "string", description: "Case-insensitive search term" },
+        ...paginationSchema(20),
       },
       required: ["query"],
     },
-    handler: async ({ query }) => {
+    handler: async (args) => {
+      const { query } = args;
       const searchQuery = validateSearchQuery(query);
       if (!searchQuery) {
         return safeJson({
@@ -157,7 +166,7 @@ export const toolHandlers: ToolHandler[] = [
       }
 
       const searchLower = searchQuery.toLowerCase();
-      const files = await glob("**/*.{md,json}", { cwd: KNOWLEDGE_DIR });
+      const files = (await glob("**/*.{md,json}", { cwd: KNOWLEDGE_DIR })).sort();
       const results: Array<{ file: string; matches: string[] }> = [];
 
       for (const file of files) {
@@ -186,7 +195,19 @@ export const toolHandlers: ToolHandler[] = [
         }
       }
 
-      return safeJson(results);
+      const page = paginate(results, args, {
+        tool: "search_knowledge",
+        defaultLimit: 20,
+        summarize: (r) => ({ file: r.file, matches: r.matches.slice(0, 1) }),
+      });
+
+      return safeJson({
+        query: searchQuery,
+        total: page.total,
+        results: page.items,
+        nextCursor: page.nextCursor,
+        summarized: page.summarized,
+      });
     },
   },
   {
@@ -224,14 +245,15 @@ export const toolHandlers: ToolHandler[] = [
   {
     name: "list_knowledge",
     description: "List all knowledge resources (md/json) with URIs",
-    schema: { type: "object", properties: {} },
-    handler: async () => {
+    schema: { type: "object", properties: { ...paginationSchema(100) } },
+    handler: async (args) => {
       const files = await glob("**/*.{md,json}", { cwd: KNOWLEDGE_DIR });
-      const resources = files.map((file) => {
+      const resources = files.sort().map((file) => {
         const uri = `knowledge://${file.replace(/\.(md|json)$/, "")}`;
         return { file, uri };
       });
-      return safeJson(resources);
+      const page = paginate(resources, args, { tool: "list_knowledge", defaultLimit: 100 });
+      return safeJson({ total: page.total, resources: page.items, nextCursor: page.nextCursor });
     },
   },
   {
@@ -239,10 +261,11 @@ export const toolHandlers: ToolHandler[] = [
     description: "Search extracted nip_usage data for a given NIP number",
     schema: {
       type: "object",
-      properties: { nip_number: { type: "number" } },
+      properties: { nip_number: { type: "number" }, ...paginationSchema(50) },
       required: ["nip_number"],
     },
-    handler: async ({ nip_number }) => {
+    handler: async (args) => {
+      const { nip_number } = args;
       const nipNum = validateNipNumber(nip_number);
       if (nipNum === null) {
         return safeJson({
@@ -253,8 +276,11 @@ export const toolHandlers: ToolHandler[] = [
 
       try {
         const config = await loadConfig();
-        const store = new KnowledgeStore(join(__dirname, "..", config.knowledge_dir || "knowledge/extracted"));
-        const repos = await store.listRepos();
+        const store = new KnowledgeStore(
+          join(__dirname, "..", config.knowledge_dir || "knowledge/extracted"),
+          knowledgeStoreOptions(config)
+        );
+        const repos = filterAllowedRepos(await store.listRepos());
         const hits: Array<{ repo: string; files: string[] }> = [];
 
         for (const repo of repos) {
@@ -273,7 +299,18 @@ export const toolHandlers: ToolHandler[] = [
           return { content: [{ type: "text", text: `NIP-${nipNum} not found in extracted data.` }] };
         }
 
-        return safeJson(hits);
+        const page = paginate(hits, args, {
+          tool: "find_nip_in_extracted",
+          defaultLimit: 50,
+          summarize: (hit) => ({ repo: hit.repo, files: hit.files.slice(0, 10) }),
+        });
+
+        return safeJson({
+          total: page.total,
+          hits: page.items,
+          nextCursor: page.nextCursor,
+          summarized: page.summarized,
+        });
       } catch (error) {
         return safeJson({
           error: "Failed to search extracted data",
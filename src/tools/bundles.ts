@@ -0,0 +1,181 @@
+/**
+ * Bundle tools - export/import prebuilt knowledge
+ */
+
+import { isAbsolute, join, resolve, sep } from "path";
+import { filterAllowedRepos } from "../lib/auth.js";
+import {
+  createBundle,
+  writeBundle,
+  readBundle,
+  importBundle,
+  BUNDLE_CONFLICT_POLICIES,
+  type BundleConflictPolicy,
+} from "../lib/knowledge-bundle.js";
+import { ToolHandler, safeJson, getStore, getEnabledExtractedRepos, getKnowledgeDir } from "./shared.js";
+
+/** Bundles read and written by the tools live here, under the knowledge dir (dot-prefixed so it is not taken for a repo) */
+const BUNDLES_DIR = ".bundles";
+
+async function getBundlesDir(): Promise<string> {
+  return resolve(join(await getKnowledgeDir(), BUNDLES_DIR));
+}
+
+/**
+ * Resolve a bundle path inside the bundles directory. Returns undefined for
+ * absolute paths, paths containing `..` and anything resolving outside it.
+ */
+async function resolveBundlePath(path: string): Promise<string | undefined> {
+  if (isAbsolute(path) || path.includes("..")) return undefined;
+
+  const dir = await getBundlesDir();
+  const file = resolve(dir, path);
+  return file.startsWith(dir + sep) ? file : undefined;
+}
+
+async function invalidPathResult(path: string) {
+  return safeJson({
+    error: "Invalid path",
+    message: `Bundle paths are relative to ${await getBundlesDir()}; absolute paths and '..' are not allowed.`,
+    path,
+  });
+}
+
+/**
+ * Repo names from an array or comma-separated string argument
+ */
+function parseList(value: unknown): string[] | undefined {
+  if (value === undefined) return undefined;
+  const items = Array.isArray(value) ? value : String(value).split(",");
+  const list = items.map((item) => String(item).trim()).filter((item) => item.length > 0);
+  return list.length > 0 ? list : undefined;
+}
+
+const REPOS_ARGUMENT = {
+  oneOf: [
+    { type: "array", items: { type: "string", pattern: "^[a-zA-Z0-9._-]{1,100}$" }, maxItems: 500, uniqueItems: true },
+    { type: "string", maxLength: 1000 },
+  ],
+};
+
+export const bundleTools: ToolHandler[] = [
+  {
+    name: "export_knowledge",
+    description:
+      "Pack extracted knowledge (the latest snapshot of each ref, manifests included) into one versioned, checksummed archive file, e.g. so CI can publish a prebuilt knowledge base. Load it elsewhere with import_knowledge.",
+    schema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "File to write, relative to the bundles directory (<knowledge_dir>/.bundles), e.g. 'knowledge.bundle.json.gz'",
+        },
+        repos: {
+          ...REPOS_ARGUMENT,
+          description: "Only export these repos (default: all enabled, extracted repos)",
+        },
+        refs: {
+          type: "array",
+          items: { type: "string", minLength: 1, maxLength: 250 },
+          description: "Only export these branches/tags (default: every extracted ref)",
+        },
+      },
+      required: ["path"],
+    },
+    handler: async (args) => {
+      const path = args.path;
+      if (!path || typeof path !== "string") {
+        return safeJson({ error: "Missing path", message: "Provide the file to write the bundle to." });
+      }
+      const file = await resolveBundlePath(path);
+      if (!file) return invalidPathResult(path);
+
+      const enabled = await getEnabledExtractedRepos();
+      const requested = parseList(args.repos);
+      const repos = requested ? requested.filter((repo) => enabled.includes(repo)) : enabled;
+      if (requested && repos.length === 0) {
+        return safeJson({ error: "No matching repos", message: "None of the requested repos have been extracted.", requested });
+      }
+
+      try {
+        const bundle = await createBundle(await getStore(), { repos, refs: parseList(args.refs) });
+        const bytes = await writeBundle(file, bundle);
+
+        return safeJson({
+          path: file,
+          bytes,
+          schemaVersion: bundle.schemaVersion,
+          checksum: bundle.checksum,
+          refs: bundle.entries.map(({ manifest }) => ({
+            repo: manifest.repo,
+            refType: manifest.refType,
+            ref: manifest.ref,
+            sha: manifest.sha,
+            extractedAt: manifest.extractedAt,
+          })),
+        });
+      } catch (error) {
+        return safeJson({ error: "Export failed", message: error instanceof Error ? error.message : String(error) });
+      }
+    },
+  },
+  {
+    name: "import_knowledge",
+    description:
+      "Merge a knowledge archive written by export_knowledge into the store. Verifies its checksum and schema version. Refs already in the store are resolved with on_conflict: 'newer' keeps the more recent extraction (default), 'keep' leaves existing refs alone, 'replace' overwrites them.",
+    schema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Bundle file to read, relative to the bundles directory (<knowledge_dir>/.bundles)",
+        },
+        repos: {
+          ...REPOS_ARGUMENT,
+          description: "Only import these repos (default: every repo in the bundle)",
+        },
+        on_conflict: {
+          type: "string",
+          enum: BUNDLE_CONFLICT_POLICIES,
+          description: "How to handle refs that are already in the store (default: newer)",
+        },
+      },
+      required: ["path"],
+    },
+    handler: async (args) => {
+      const path = args.path;
+      if (!path || typeof path !== "string") {
+        return safeJson({ error: "Missing path", message: "Provide the bundle file to import." });
+      }
+      const file = await resolveBundlePath(path);
+      if (!file) return invalidPathResult(path);
+
+      const conflict = (args.on_conflict as BundleConflictPolicy | undefined) ?? "newer";
+      if (!BUNDLE_CONFLICT_POLICIES.includes(conflict)) {
+        return safeJson({
+          error: "Invalid on_conflict",
+          message: `on_conflict must be one of: ${BUNDLE_CONFLICT_POLICIES.join(", ")}`,
+        });
+      }
+
+      try {
+        const bundle = await readBundle(file);
+        const requested = parseList(args.repos);
+        const bundled = [...new Set(bundle.entries.map(({ manifest }) => manifest.repo))];
+        const repos = filterAllowedRepos(requested ? bundled.filter((repo) => requested.includes(repo)) : bundled);
+
+        const result = await importBundle(await getStore(), bundle, { repos, conflict });
+
+        return safeJson({
+          schemaVersion: bundle.schemaVersion,
+          createdAt: bundle.createdAt,
+          conflict,
+          imported: result.imported,
+          skipped: result.skipped,
+        });
+      } catch (error) {
+        return safeJson({ error: "Import failed", message: error instanceof Error ? error.message : String(error) });
+      }
+    },
+  },
+];
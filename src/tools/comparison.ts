@@ -3,6 +3,24 @@
  */
 
 import { ToolHandler, safeJson, getStore, getEnabledExtractedRepos, sanitize } from "./shared.js";
+import type { KnowledgeManifest } from "../lib/knowledge-store.js";
+import { parseSnapshotSelector } from "../lib/snapshots.js";
+
+interface SnapshotSummary {
+  sha?: string;
+  extractedAt: string;
+}
+
+const SNAPSHOT_OUTPUT_SCHEMA = {
+  type: "object",
+  description: "Snapshot compared (commit and extraction time)",
+  properties: { sha: { type: "string" }, extractedAt: { type: "string" } },
+  required: ["extractedAt"],
+};
+
+function snapshotSummary(manifest: KnowledgeManifest): SnapshotSummary {
+  return { sha: manifest.sha, extractedAt: new Date(manifest.extractedAt).toISOString() };
+}
 
 /**
  * Validate git ref format (branch/tag name)
@@ -96,22 +114,48 @@ export const comparisonTools: ToolHandler[] = [
     description:
       "Show available repos/refs for comparison. Use extract_ref to pull new refs first, then diff_versions to compare.",
     schema: { type: "object", properties: {} },
+    outputSchema: {
+      type: "object",
+      properties: {
+        message: { type: "string" },
+        availableVersions: {
+          type: "object",
+          description: "Extracted refs keyed by repo name",
+          additionalProperties: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                refType: { type: "string" },
+                ref: { type: "string" },
+                snapshots: { type: "integer", description: "Snapshots kept for the ref (see from_at/to_at)" },
+              },
+              required: ["refType", "ref"],
+            },
+          },
+        },
+        example: { type: "object" },
+      },
+      required: ["message", "availableVersions"],
+    },
     handler: async () => {
       const s = await getStore();
       const repos = await getEnabledExtractedRepos();
-      const repoVersions: Record<string, Array<{ refType: string; ref: string }>> = {};
+      const repoVersions: Record<string, Array<{ refType: string; ref: string; snapshots: number }>> = {};
 
       for (const repo of repos) {
         const versions = await s.listVersions(repo);
-        repoVersions[repo] = versions.map((v) => ({ refType: v.refType, ref: v.ref }));
+        repoVersions[repo] = versions.map((v) => ({ refType: v.refType, ref: v.ref, snapshots: v.snapshots }));
       }
 
       return safeJson({
-        message: "Use diff_versions tool with from_ref and to_ref to compare. Optionally filter by repo or extractor.",
+        message:
+          "Use diff_versions tool with from_ref and to_ref to compare. Optionally filter by repo or extractor, or compare earlier snapshots of a ref with from_at/to_at.",
         availableVersions: repoVersions,
         example: {
           from_ref: "v1.0.0",
           to_ref: "main",
+          from_at: "(optional) 2024-01-15 or a commit SHA: from_ref as it was then",
           repo: "(optional) filter to one repo",
           extractor: "(optional) nip_usage | user_flows | data_flow | kubernetes | terraform",
         },
@@ -120,7 +164,8 @@ export const comparisonTools: ToolHandler[] = [
   },
   {
     name: "diff_versions",
-    description: "Compare ecosystem or repo between two refs (branches/tags). Shows added/removed/changed items.",
+    description:
+      "Compare ecosystem or repo between two refs (branches/tags), or between two snapshots of the same ref (from_at/to_at). Shows added/removed/changed items.",
     schema: {
       type: "object",
       properties: {
@@ -132,6 +177,14 @@ export const comparisonTools: ToolHandler[] = [
           type: "string",
           description: "Target ref (branch or tag name) to compare to",
         },
+        from_at: {
+          type: "string",
+          description: "Optional: use from_ref as it was at this date/time (ISO 8601) or commit SHA, instead of its latest snapshot",
+        },
+        to_at: {
+          type: "string",
+          description: "Optional: use to_ref as it was at this date/time (ISO 8601) or commit SHA, instead of its latest snapshot",
+        },
         repo: {
           type: "string",
           description: "Optional: limit diff to a specific repo",
@@ -144,11 +197,89 @@ export const comparisonTools: ToolHandler[] = [
       },
       required: ["from_ref", "to_ref"],
     },
+    outputSchema: {
+      type: "object",
+      properties: {
+        summary: {
+          type: "object",
+          properties: {
+            reposCompared: { type: "integer" },
+            reposWithChanges: { type: "integer" },
+            fromRef: { type: "string" },
+            toRef: { type: "string" },
+          },
+          required: ["reposCompared", "reposWithChanges", "fromRef", "toRef"],
+        },
+        byRepo: {
+          type: "object",
+          additionalProperties: {
+            type: "object",
+            properties: {
+              fromFound: { type: "boolean" },
+              toFound: { type: "boolean" },
+              fromSnapshot: SNAPSHOT_OUTPUT_SCHEMA,
+              toSnapshot: SNAPSHOT_OUTPUT_SCHEMA,
+              extractorDiffs: { type: "object" },
+            },
+            required: ["fromFound", "toFound", "extractorDiffs"],
+          },
+        },
+        aggregated: {
+          type: "object",
+          properties: {
+            nips: {
+              type: "object",
+              properties: {
+                added: { type: "array", items: { type: "string" } },
+                removed: { type: "array", items: { type: "string" } },
+              },
+            },
+            eventKinds: {
+              type: "object",
+              properties: {
+                added: { type: "array", items: { type: "number" } },
+                removed: { type: "array", items: { type: "number" } },
+              },
+            },
+            screens: {
+              type: "object",
+              properties: {
+                added: { type: "array", items: { type: "string" } },
+                removed: { type: "array", items: { type: "string" } },
+              },
+            },
+            services: {
+              type: "object",
+              properties: {
+                added: { type: "array", items: { type: "string" } },
+                removed: { type: "array", items: { type: "string" } },
+              },
+            },
+            k8sResources: {
+              type: "object",
+              properties: {
+                added: { type: "array", items: { type: "string" } },
+                removed: { type: "array", items: { type: "string" } },
+              },
+            },
+            tfResources: {
+              type: "object",
+              properties: { added: { type: "number" }, removed: { type: "number" } },
+            },
+          },
+        },
+        mermaid: { type: "string" },
+        hint: { type: "string" },
+      },
+      required: ["summary", "byRepo", "aggregated", "mermaid"],
+    },
     handler: async (args) => {
       const fromRef = args.from_ref;
       const toRef = args.to_ref;
       const repoFilter = args.repo;
       const extractorFilter = args.extractor;
+      const fromAt = args.from_at === undefined ? undefined : parseSnapshotSelector(String(args.from_at));
+      const toAt = args.to_at === undefined ? undefined : parseSnapshotSelector(String(args.to_at));
 
       // Validate from_ref
       if (!isValidGitRef(fromRef)) {
@@ -166,6 +297,13 @@ export const comparisonTools: ToolHandler[] = [
         });
       }
 
+      if (fromAt === null || toAt === null) {
+        return safeJson({
+          error: "Invalid from_at/to_at",
+          message: "Use an ISO 8601 date/time (e.g. 2024-01-15 or 2024-01-15T12:00:00Z) or a commit SHA (7-40 hex characters).",
+        });
+      }
+
       // Validate repo filter if provided
       if (repoFilter !== undefined && !isValidRepoName(repoFilter)) {
         return safeJson({
@@ -202,6 +340,8 @@ export const comparisonTools: ToolHandler[] = [
           {
             fromFound: boolean;
             toFound: boolean;
+            fromSnapshot?: SnapshotSummary;
+            toSnapshot?: SnapshotSummary;
             extractorDiffs: Record<string, unknown>;
           }
         >;
@@ -245,11 +385,17 @@ export const comparisonTools: ToolHandler[] = [
 
         if (!fromVersion || !toVersion) continue;
 
-        const fromData = await s.load(repo, fromVersion.refType as "branch" | "tag", fromRef);
-        const toData = await s.load(repo, toVersion.refType as "branch" | "tag", toRef);
+        const fromData = await s.load(repo, fromVersion.refType as "branch" | "tag", fromRef, fromAt);
+        const toData = await s.load(repo, toVersion.refType as "branch" | "tag", toRef, toAt);
 
+        // Either side may have no snapshot old enough (or with that SHA)
+        diff.byRepo[repo].fromFound = !!fromData;
+        diff.byRepo[repo].toFound = !!toData;
         if (!fromData || !toData) continue;
 
+        diff.byRepo[repo].fromSnapshot = snapshotSummary(fromData.manifest);
+        diff.byRepo[repo].toSnapshot = snapshotSummary(toData.manifest);
+
         let hasChanges = false;
 
         // Compare NIPs
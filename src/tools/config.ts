@@ -0,0 +1,152 @@
+/**
+ * Config tools - validate repos.yaml and inspect the effective config
+ */
+
+import { relative, dirname } from "path";
+import { validateConfigFile, loadComposedConfig, type ComposedConfig } from "../lib/config-loader.js";
+import { filterAllowedRepos } from "../lib/auth.js";
+import { ToolHandler, safeJson, paginate, paginationSchema, PAGE_OUTPUT_PROPERTIES } from "./shared.js";
+
+export const configTools: ToolHandler[] = [
+  {
+    name: "validate_config",
+    description:
+      "Validate repos.yaml (with its includes, env interpolation, defaults and profiles) against the config schema, including each extractor's config block. Reports every problem with its file, line and column. Pass 'content' to check an edited config before saving it.",
+    schema: {
+      type: "object",
+      properties: {
+        content: {
+          type: "string",
+          maxLength: 1_000_000,
+          description: "YAML to validate in place of the active config file (includes resolve relative to it)",
+        },
+      },
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        valid: { type: "boolean" },
+        path: { type: "string", description: "Config file that was validated" },
+        files: { type: "array", items: { type: "string" }, description: "Files merged, in order (includes first)" },
+        issues: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              file: { type: "string" },
+              path: { type: "string" },
+              message: { type: "string" },
+              line: { type: "integer" },
+              column: { type: "integer" },
+            },
+            required: ["path", "message"],
+          },
+        },
+      },
+      required: ["valid", "issues"],
+    },
+    handler: async (args) => {
+      const content = args.content as string | undefined;
+
+      let result: ComposedConfig;
+      try {
+        result = await validateConfigFile(undefined, content);
+      } catch (error) {
+        return safeJson({
+          error: "Failed to read config",
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      return safeJson({ valid: result.valid, path: result.path, files: result.files, issues: result.issues });
+    },
+  },
+  {
+    name: "get_effective_config",
+    description:
+      "Show the effective config after includes, ${ENV} interpolation, defaults and profiles are applied. With 'repo', returns exactly what that repo's extraction uses; otherwise lists every repo's effective config.",
+    schema: {
+      type: "object",
+      properties: {
+        repo: { type: "string", description: "Repository name (omit to list all)" },
+        ...paginationSchema(50),
+      },
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "Main config file" },
+        files: { type: "array", items: { type: "string" }, description: "Files merged, in order (includes first)" },
+        profiles: { type: "array", items: { type: "string" }, description: "Defined profile names" },
+        defaults: { type: "object" },
+        auth: {
+          type: "array",
+          description: "Configured API tokens (names and roles only)",
+          items: {
+            type: "object",
+            properties: { name: { type: "string" }, role: { type: "string" } },
+            required: ["name", "role"],
+          },
+        },
+        repositories: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              source: { type: "string", description: "File defining the repo (relative to the main config)" },
+              profiles: { type: "array", items: { type: "string" } },
+              config: { type: "object" },
+            },
+            required: ["name", "source", "profiles", "config"],
+          },
+        },
+        ...PAGE_OUTPUT_PROPERTIES,
+      },
+      required: ["path", "files", "profiles", "repositories", "total"],
+    },
+    handler: async (args) => {
+      const repo = args.repo as string | undefined;
+
+      let composed: ComposedConfig;
+      try {
+        composed = await loadComposedConfig();
+      } catch (error) {
+        return safeJson({
+          error: "Failed to load config",
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      const config = composed.config!;
+      const baseDir = dirname(composed.path);
+      const names = filterAllowedRepos(Object.keys(config.repositories));
+
+      if (repo && !names.includes(repo)) {
+        return safeJson({ error: "Repository not found", message: `No repository named ${repo} in config` });
+      }
+
+      const entries = (repo ? [repo] : names).map((name) => {
+        const repoConfig = config.repositories[name];
+        return {
+          name,
+          source: relative(baseDir, composed.repoSources[name]),
+          profiles: [repoConfig.profile ?? []].flat(),
+          config: repoConfig,
+        };
+      });
+      const page = paginate(entries, args, { tool: "get_effective_config", defaultLimit: 50 });
+
+      return safeJson({
+        path: composed.path,
+        files: composed.files.map((file) => relative(baseDir, file)),
+        profiles: Object.keys(config.profiles || {}),
+        defaults: config.defaults,
+        auth: config.auth?.tokens.map((token) => ({ name: token.name, role: token.role ?? "reader" })),
+        repositories: page.items,
+        total: page.total,
+        nextCursor: page.nextCursor,
+      });
+    },
+  },
+];
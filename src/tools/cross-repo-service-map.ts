@@ -5,7 +5,8 @@
  * in other repositories to build a complete service-to-service call graph.
  */
 
-import { KnowledgeStore } from "../lib/knowledge-store.js";
+import { KnowledgeStore, type KnowledgeStoreOptions } from "../lib/knowledge-store.js";
+import { filterAllowedRepos } from "../lib/auth.js";
 import { promises as fs } from "fs";
 import { join } from "path";
 
@@ -38,63 +39,46 @@ export interface CrossRepoServiceMap {
 }
 
 /**
- * Extract service endpoints from a repository's data
+ * Service endpoints of the repos, from the indexed routes and services
  */
-function extractEndpoints(repo: string, data: Record<string, unknown>): ServiceEndpoint[] {
+async function collectEndpoints(store: KnowledgeStore, repos: string[]): Promise<ServiceEndpoint[]> {
   const endpoints: ServiceEndpoint[] = [];
 
-  // Extract from cloudflare_workers (has endpoints)
-  if (data.cloudflare_workers) {
-    const cfWorkers = data.cloudflare_workers as { endpoints?: Array<{ method: string; path: string; file: string }> };
-    if (cfWorkers.endpoints) {
-      cfWorkers.endpoints.forEach(endpoint => {
-        endpoints.push({
-          repo,
-          service: inferServiceFromFile(endpoint.file),
-          method: endpoint.method,
-          path: endpoint.path,
-          file: endpoint.file,
-        });
-      });
-    }
+  // Cloudflare Worker endpoints
+  for (const route of await store.queryRoutes({ repos, source: "cloudflare_workers" })) {
+    endpoints.push({
+      repo: route.repo,
+      service: inferServiceFromFile(route.file ?? ""),
+      method: route.method ?? "GET",
+      path: route.path,
+      file: route.file ?? "",
+    });
   }
 
-  // Extract from kubernetes (services expose endpoints)
-  if (data.kubernetes) {
-    const k8s = data.kubernetes as { services?: Array<{ name: string; namespace: string; ingress?: { host: string; paths: string[] } }> };
-    if (k8s.services) {
-      k8s.services.forEach(service => {
-        if (service.ingress) {
-          service.ingress.paths.forEach(path => {
-            endpoints.push({
-              repo,
-              service: service.name,
-              method: "GET", // Default, could be enhanced
-              path: path,
-              file: `${service.namespace}/${service.name}`,
-            });
-          });
-        }
+  // Kubernetes services expose their ingress paths
+  for (const service of await store.queryServices({ repos, source: "kubernetes" })) {
+    for (const path of service.ingressPaths ?? []) {
+      endpoints.push({
+        repo: service.repo,
+        service: service.name,
+        method: "GET", // Default, could be enhanced
+        path,
+        file: `${service.namespace}/${service.name}`,
       });
     }
   }
 
-  // Extract from data_flow services (infer endpoints from service names/files)
-  if (data.data_flow) {
-    const dataFlow = data.data_flow as { services?: Array<{ name: string; file: string }> };
-    if (dataFlow.services) {
-      dataFlow.services.forEach(service => {
-        // Try to infer common endpoint patterns
-        const serviceName = service.name.toLowerCase().replace(/\s+/g, "-");
-        endpoints.push({
-          repo,
-          service: service.name,
-          method: "POST", // Default for services
-          path: `/api/${serviceName}`,
-          file: service.file,
-        });
-      });
-    }
+  // data_flow services (infer endpoints from service names/files)
+  for (const service of await store.queryServices({ repos, source: "data_flow" })) {
+    // Try to infer common endpoint patterns
+    const serviceName = service.name.toLowerCase().replace(/\s+/g, "-");
+    endpoints.push({
+      repo: service.repo,
+      service: service.name,
+      method: "POST", // Default for services
+      path: `/api/${serviceName}`,
+      file: service.file ?? "",
+    });
   }
 
   return endpoints;
@@ -195,31 +179,21 @@ function matchUrlToEndpoint(url: string, endpoints: ServiceEndpoint[]): ServiceE
  * Build cross-repository service dependency map
  */
 export async function buildCrossRepoServiceMap(
-  knowledgeDir: string = "knowledge/extracted"
+  knowledgeDir: string = "knowledge/extracted",
+  storeOptions: KnowledgeStoreOptions = {}
 ): Promise<CrossRepoServiceMap> {
-  const store = new KnowledgeStore(knowledgeDir);
-  const repos = await store.listRepos();
+  const store = new KnowledgeStore(knowledgeDir, storeOptions);
+  const repos = filterAllowedRepos(await store.listRepos());
 
-  const allEndpoints: ServiceEndpoint[] = [];
+  const allEndpoints = await collectEndpoints(store, repos);
   const allCalls: ServiceCall[] = [];
 
-  // Collect endpoints and calls from all repos
+  // Calls are not indexed: load only the extractor they come from
+  const dataFlow = await store.loadLatestExtractor("data_flow", repos);
+
   for (const repo of repos) {
     try {
-      const versions = await store.listVersions(repo);
-      if (versions.length === 0) continue;
-
-      const latest = versions[0];
-      const data = await store.load(repo, latest.refType as "branch" | "tag", latest.ref);
-      if (!data) continue;
-
-      // Extract endpoints
-      const endpoints = extractEndpoints(repo, data.data);
-      allEndpoints.push(...endpoints);
-
-      // Extract calls
-      const calls = extractCalls(repo, data.data);
-      allCalls.push(...calls);
+      allCalls.push(...extractCalls(repo, { data_flow: dataFlow[repo] }));
     } catch (error) {
       console.warn(`Failed to process ${repo}:`, error);
     }
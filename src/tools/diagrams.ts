@@ -1179,6 +1179,38 @@ IMPORTANT: Display the returned 'mermaid' field in a \`\`\`mermaid code block to
         },
       },
     },
+    outputSchema: {
+      type: "object",
+      properties: {
+        mode: { type: "string", enum: ["ecosystem"] },
+        repo: { type: "string" },
+        ref: { type: "string" },
+        type: { type: "string" },
+        detailed: { type: "boolean" },
+        mermaid: { type: "string" },
+        stats: { type: "object", additionalProperties: { type: "integer" } },
+        repos: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: { name: { type: "string" }, category: { type: "string" } },
+            required: ["name", "category"],
+          },
+        },
+        availableTypes: { type: "array", items: { type: "string" } },
+        ecosystemNote: { type: "string" },
+        exportTo: {
+          type: "object",
+          properties: {
+            suggestedPath: { type: "string" },
+            instruction: { type: "string" },
+          },
+          required: ["suggestedPath", "instruction"],
+        },
+        hint: { type: "string" },
+      },
+      required: ["type", "detailed", "mermaid", "availableTypes"],
+    },
     handler: async (args) => {
       const targetRepo = args.repo as string | undefined;
       const diagramType = args.type as string | undefined;
@@ -1543,6 +1575,31 @@ IMPORTANT: Display the returned 'mermaid' field in a \`\`\`mermaid code block to
         },
       },
     },
+    outputSchema: {
+      type: "object",
+      properties: {
+        mode: { type: "string", enum: ["ecosystem"] },
+        repo: { type: "string" },
+        ref: { type: "string" },
+        mermaid: { type: "string" },
+        stats: {
+          type: "object",
+          properties: {
+            screens: { type: "integer" },
+            services: { type: "integer" },
+            packages: { type: "integer" },
+          },
+          required: ["screens", "services", "packages"],
+        },
+        nipUsage: {
+          type: "object",
+          description: "NIPs used, keyed by repo name",
+          additionalProperties: { type: "array", items: { type: "string" } },
+        },
+        hint: { type: "string" },
+      },
+      required: ["mermaid"],
+    },
     handler: async (args) => {
       const targetRepo = args.repo as string | undefined;
 
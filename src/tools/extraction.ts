@@ -3,10 +3,15 @@
  */
 
 import { loadConfig, isRepoEnabled } from "../lib/config-loader.js";
-import { runExtractors } from "../lib/extractor-base.js";
-import { runExtraction } from "../lib/extraction-runner.js";
+import { runExtractors, listExtractors, outdatedOutputs } from "../lib/extractor-base.js";
+import { runExtraction, type ExtractionOptions } from "../lib/extraction-runner.js";
+import { WORKING_TREE_REF } from "../lib/git-manager.js";
+import { registerJobType, startJob, waitForJob, type Job } from "../lib/job-manager.js";
+import { ParseCache, parseCacheHitRate } from "../lib/parse-cache.js";
+import { getScheduleStatus, isSchedulerRunning } from "../lib/scheduler.js";
+import { filterAllowedRepos } from "../lib/auth.js";
 import "../extractors/index.js"; // Register all extractors
-import { ToolHandler, safeJson, getStore, getGitManager } from "./shared.js";
+import { ToolHandler, safeJson, getStore, getGitManager, getEnabledExtractedRepos, paginate, paginationSchema } from "./shared.js";
 
 /**
  * Validate repository name format
@@ -28,6 +33,42 @@ function isValidGitRef(ref: unknown): ref is string {
   return true;
 }
 
+/**
+ * Background job for extract_all. Resumable: after a restart, refs that were
+ * already extracted are fresh and skipped, so the job continues where it stopped.
+ */
+async function runExtractAll(job: Job): Promise<unknown> {
+  const summaries = await runExtraction(job.params as ExtractionOptions);
+
+  const results = summaries.map((s) => ({
+    repo: s.repo,
+    ref: s.ref,
+    status: s.success ? "extracted" : "error",
+    extractors: s.extractors.length > 0 ? s.extractors : undefined,
+    duration: s.duration,
+    parseCache: s.parseCache,
+    truncated: s.truncated,
+    error: s.error,
+  }));
+  const parseCache = {
+    hits: summaries.reduce((sum, s) => sum + (s.parseCache?.hits ?? 0), 0),
+    misses: summaries.reduce((sum, s) => sum + (s.parseCache?.misses ?? 0), 0),
+  };
+
+  return {
+    summary: {
+      total: results.length,
+      extracted: results.filter((r) => r.status === "extracted").length,
+      errors: results.filter((r) => r.status === "error").length,
+      totalDuration: summaries.reduce((sum, s) => sum + s.duration, 0),
+      parseCache: { ...parseCache, hitRate: Number(parseCacheHitRate(parseCache).toFixed(2)) },
+    },
+    results,
+  };
+}
+
+registerJobType("extract_all", runExtractAll, { resumable: true });
+
 /**
  * Summarize extracted knowledge for response
  */
@@ -93,7 +134,7 @@ export const extractionTools: ToolHandler[] = [
         },
         ref: {
           type: "string",
-          description: "Branch or tag name to extract (e.g., 'main', 'v1.0.0', 'feature/auth')",
+          description: "Branch or tag name to extract (e.g., 'main', 'v1.0.0', 'feature/auth'), or 'working-tree' for a local (path:) repo's uncommitted state",
         },
         force: {
           type: "boolean",
@@ -151,8 +192,11 @@ export const extractionTools: ToolHandler[] = [
       const s = await getStore();
       const gm = await getGitManager();
 
+      // A local checkout's working tree can change at any time, so it is never served from cache
+      const isWorkingTree = Boolean(repoConfig.path) && ref === WORKING_TREE_REF;
+
       // Check if we already have fresh data
-      if (!force) {
+      if (!force && !isWorkingTree) {
         const versions = await s.listVersions(repoName);
         const existing = versions.find((v) => v.ref === ref);
         if (existing) {
@@ -175,20 +219,21 @@ export const extractionTools: ToolHandler[] = [
       }
 
       try {
-        // Ensure repo is cloned/updated - force fetch to get latest commits
-        const repoPath = await gm.ensureRepo(repoName, repoConfig.url, { forceFetch: true });
+        // Ensure repo is cloned/updated - force fetch to get latest commits (local paths are used as-is)
+        const repoPath = await gm.resolveRepo(repoName, repoConfig, { forceFetch: true });
+        const hasGit = !repoConfig.path || (await gm.isGitRepo(repoPath));
 
         // Determine ref type
-        const branches = await gm.listBranches(repoPath, { verify: true });
-        const tags = await gm.listTags(repoPath);
+        const branches = hasGit ? await gm.listBranches(repoPath, { verify: true }) : [];
+        const tags = hasGit ? await gm.listTags(repoPath) : [];
 
-        const isBranch = branches.some((b) => b.name === ref);
+        const isBranch = isWorkingTree || branches.some((b) => b.name === ref);
         const isTag = tags.some((t) => t.name === ref);
 
         if (!isBranch && !isTag) {
           return safeJson({
             error: `Ref "${ref}" not found in repository "${repoName}"`,
-            availableBranches: branches.slice(0, 10).map((b) => b.name),
+            availableBranches: [...(repoConfig.path ? [WORKING_TREE_REF] : []), ...branches.slice(0, 10).map((b) => b.name)],
             availableTags: tags.slice(0, 10).map((t) => t.name),
           });
         }
@@ -200,8 +245,8 @@ export const extractionTools: ToolHandler[] = [
         const refInfo = isBranch ? branches.find((b) => b.name === ref) : tags.find((t) => t.name === ref);
         sha = refInfo?.sha;
         
-        // Fallback: get SHA directly from git if not found in list
-        if (!sha) {
+        // Fallback: get SHA directly from git if not found in list (the working tree has none)
+        if (!sha && !isWorkingTree) {
           const refSha = await gm.getRefSha(repoPath, ref);
           if (refSha) {
             sha = refSha;
@@ -262,6 +307,7 @@ export const extractionTools: ToolHandler[] = [
 
         // Run extractors
         const startTime = Date.now();
+        const parseCache = new ParseCache(gm.parseCacheDir);
         const results = await runExtractors(
           {
             repoName,
@@ -269,6 +315,8 @@ export const extractionTools: ToolHandler[] = [
             ref,
             refType,
             gitManager: gm,
+            parseCache,
+            budget: repoConfig.budget,
           },
           extractors
         );
@@ -288,6 +336,10 @@ export const extractionTools: ToolHandler[] = [
           extractedAt: new Date().toISOString(),
           duration: `${duration}ms`,
           extractors: results.map((r) => r.extractor),
+          parseCache: { ...parseCache.stats(), hitRate: Number(parseCacheHitRate(parseCache.stats()).toFixed(2)) },
+          truncated: results.some((r) => r.truncated)
+            ? Object.fromEntries(results.filter((r) => r.truncated).map((r) => [r.extractor, r.truncated]))
+            : undefined,
           summary: summarizeKnowledge(results.reduce((acc, r) => ({ ...acc, [r.extractor]: r.data }), {})),
         });
       } catch (error) {
@@ -303,7 +355,7 @@ export const extractionTools: ToolHandler[] = [
   {
     name: "extract_all",
     description:
-      "Extract knowledge from all enabled repos at their configured refs. Useful for initial setup or full refresh. Uses parallel fetching and extraction for speed. Use 'refs' parameter to override branches for specific repos (e.g., extract all repos but use a different branch for one repo).",
+      "Extract knowledge from all enabled repos at their configured refs. Useful for initial setup or full refresh. Uses parallel fetching and extraction for speed. Use 'refs' parameter to override branches for specific repos (e.g., extract all repos but use a different branch for one repo). Runs as a job: set 'background' to get a job ID immediately, then use job_status / cancel_job.",
     schema: {
       type: "object",
       properties: {
@@ -312,35 +364,53 @@ export const extractionTools: ToolHandler[] = [
           description: "Force re-extraction even if data is fresh (default: false)",
         },
         repos: {
-          type: "string",
-          description: "Optional: limit to specific repos (comma-separated). Example: 'repo1,repo2'",
+          oneOf: [
+            {
+              type: "array",
+              items: { type: "string", pattern: "^[a-zA-Z0-9._-]{1,100}$" },
+              maxItems: 500,
+              uniqueItems: true,
+            },
+            { type: "string", maxLength: 1000 },
+          ],
+          description: "Optional: limit to specific repos. Example: ['repo1', 'repo2'] (a comma-separated string is also accepted)",
         },
         shallow: {
           type: "boolean",
           description: "Use shallow clones for faster fetching. Only gets default branch tip, no tags/history. (default: true)",
         },
         refs: {
-          type: "string",
-          description: "Optional: JSON string mapping repo names to branch/tag names to override. Only specified repos will use the override; others use their configured branches. Example: '{\"my-service\": \"feature/new-feature\"}' or '{\"repo1\": \"main\", \"repo2\": \"develop\"}'",
+          oneOf: [
+            {
+              type: "object",
+              additionalProperties: { type: "string", minLength: 1, maxLength: 250 },
+            },
+            { type: "string" },
+          ],
+          description: "Optional: map of repo names to a branch/tag name to override. Only specified repos will use the override; others use their configured branches. Example: {\"my-service\": \"feature/new-feature\"} (a JSON string of the same object is also accepted)",
+        },
+        background: {
+          type: "boolean",
+          description: "Return a job ID immediately instead of waiting for the extraction to finish (default: false)",
         },
       },
     },
     handler: async (args) => {
       const force = Boolean(args.force) || false;
       const shallow = args.shallow !== false; // Default to true for speed
-      const reposFilter = args.repos as string | undefined;
-      const refsOverride = args.refs as string | undefined;
+      const reposFilter = args.repos as string | string[] | undefined;
+      const refsOverride = args.refs as string | Record<string, string> | undefined;
 
       // Validate repos filter if provided
-      if (reposFilter !== undefined && typeof reposFilter !== "string") {
+      if (reposFilter !== undefined && typeof reposFilter !== "string" && !Array.isArray(reposFilter)) {
         return safeJson({
           error: "Invalid repos parameter",
-          message: "The 'repos' parameter must be a comma-separated string of repository names.",
+          message: "The 'repos' parameter must be an array (or comma-separated string) of repository names.",
         });
       }
 
       // Limit filter length to prevent abuse
-      if (reposFilter && reposFilter.length > 1000) {
+      if (typeof reposFilter === "string" && reposFilter.length > 1000) {
         return safeJson({
           error: "Repos filter too long",
           message: "The repos filter string must be less than 1000 characters.",
@@ -349,8 +419,10 @@ export const extractionTools: ToolHandler[] = [
 
       // Parse and validate repo names if filter provided
       let repos: string[] | undefined;
-      if (reposFilter) {
-        repos = reposFilter.split(",").map((r) => r.trim()).filter((r) => r.length > 0);
+      if (reposFilter && reposFilter.length > 0) {
+        repos = (Array.isArray(reposFilter) ? reposFilter : reposFilter.split(","))
+          .map((r) => r.trim())
+          .filter((r) => r.length > 0);
         // Validate each repo name
         for (const name of repos) {
           if (!isValidRepoName(name)) {
@@ -362,76 +434,162 @@ export const extractionTools: ToolHandler[] = [
         }
       }
 
-      // Parse refs override if provided
+      // Parse refs override if provided (object, or legacy JSON string)
       let refsMap: Record<string, string[]> | undefined;
       if (refsOverride) {
-        try {
-          const parsed = JSON.parse(refsOverride);
-          if (typeof parsed !== "object" || Array.isArray(parsed)) {
+        let parsed: unknown = refsOverride;
+        if (typeof refsOverride === "string") {
+          try {
+            parsed = JSON.parse(refsOverride);
+          } catch (error) {
             return safeJson({
-              error: "Invalid refs parameter",
-              message: "The 'refs' parameter must be a JSON object mapping repo names to branch/tag names.",
+              error: "Invalid refs JSON",
+              message: `Failed to parse refs parameter: ${error instanceof Error ? error.message : String(error)}`,
             });
           }
-          
-          // Convert to the format expected by ExtractionOptions
-          refsMap = {};
-          for (const [repoName, ref] of Object.entries(parsed)) {
-            if (!isValidRepoName(repoName)) {
-              return safeJson({
-                error: `Invalid repository name in refs: "${repoName}"`,
-                message: "Repository names must be 1-100 characters containing only alphanumeric characters, hyphens, underscores, and dots.",
-              });
-            }
-            if (typeof ref !== "string" || !isValidGitRef(ref)) {
-              return safeJson({
-                error: `Invalid ref for repo "${repoName}": "${ref}"`,
-                message: "Refs must be valid branch or tag names.",
-              });
-            }
-            refsMap[repoName] = [ref];
-          }
-        } catch (error) {
+        }
+
+        if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
           return safeJson({
-            error: "Invalid refs JSON",
-            message: `Failed to parse refs parameter: ${error instanceof Error ? error.message : String(error)}`,
+            error: "Invalid refs parameter",
+            message: "The 'refs' parameter must be an object mapping repo names to branch/tag names.",
           });
         }
+
+        // Convert to the format expected by ExtractionOptions
+        refsMap = {};
+        for (const [repoName, ref] of Object.entries(parsed)) {
+          if (!isValidRepoName(repoName)) {
+            return safeJson({
+              error: `Invalid repository name in refs: "${repoName}"`,
+              message: "Repository names must be 1-100 characters containing only alphanumeric characters, hyphens, underscores, and dots.",
+            });
+          }
+          if (typeof ref !== "string" || !isValidGitRef(ref)) {
+            return safeJson({
+              error: `Invalid ref for repo "${repoName}": "${ref}"`,
+              message: "Refs must be valid branch or tag names.",
+            });
+          }
+          refsMap[repoName] = [ref];
+        }
       }
 
-      try {
-        // Use the parallel extraction runner
-        const summaries = await runExtraction({
-          repos,
-          force,
-          shallow,
-          refs: refsMap,
+      const options: ExtractionOptions = { repos, force, shallow, refs: refsMap };
+      const job = startJob("extract_all", { ...options });
+
+      if (args.background) {
+        return safeJson({
+          jobId: job.id,
+          status: job.status,
+          message: `Extraction started in the background. Use job_status with jobId "${job.id}" to check progress, or cancel_job to stop it.`,
         });
+      }
 
-        const results = summaries.map((s) => ({
-          repo: s.repo,
-          ref: s.ref,
-          status: s.success ? "extracted" : "error",
-          extractors: s.extractors.length > 0 ? s.extractors : undefined,
-          duration: s.duration,
-          error: s.error,
-        }));
+      const finished = await waitForJob(job.id);
+      if (finished?.status !== "completed") {
+        return safeJson({
+          error: finished?.status === "cancelled" ? "Extraction cancelled" : "Extraction failed",
+          message: finished?.error,
+          jobId: job.id,
+        });
+      }
 
+      return safeJson({ jobId: job.id, ...(finished.result as Record<string, unknown>) });
+    },
+  },
+  {
+    name: "schedule_status",
+    description:
+      "Show scheduled re-extraction per repo: its cron schedule, next run, and last run (job ID, status, refs re-extracted). Configure with `schedule` in repos.yaml.",
+    schema: {
+      type: "object",
+      properties: {
+        repo: {
+          type: "string",
+          description: "Only show this repository",
+        },
+        ...paginationSchema(50),
+      },
+    },
+    handler: async (args) => {
+      const repo = args.repo as string | undefined;
+      const config = await loadConfig();
+
+      const allowed = new Set(filterAllowedRepos(Object.keys(config.repositories)));
+      const repos = getScheduleStatus(config).filter((status) => allowed.has(status.repo));
+
+      if (repo && !repos.some((status) => status.repo === repo)) {
         return safeJson({
-          summary: {
-            total: results.length,
-            extracted: results.filter((r) => r.status === "extracted").length,
-            errors: results.filter((r) => r.status === "error").length,
-            totalDuration: summaries.reduce((sum, s) => sum + s.duration, 0),
-          },
-          results,
+          error: "Repository not scheduled",
+          message: `No enabled repository named ${repo} has a schedule. Set \`schedule\` globally or on the repo in repos.yaml.`,
         });
-      } catch (error) {
+      }
+
+      const page = paginate(
+        repo ? repos.filter((status) => status.repo === repo) : repos,
+        args,
+        { tool: "schedule_status", defaultLimit: 50 }
+      );
+
+      return safeJson({
+        schedulerRunning: isSchedulerRunning(),
+        schedule: config.schedule,
+        repos: page.items,
+        total: page.total,
+        nextCursor: page.nextCursor,
+      });
+    },
+  },
+  {
+    name: "stale_knowledge",
+    description:
+      "List stored refs whose data was written by an older version of an extractor's output format. Outputs with a registered migration are upgraded when loaded; others may be missing fields tools expect. Re-extract the listed refs (extract_ref with force: true) to refresh them.",
+    schema: {
+      type: "object",
+      properties: {
+        repo: {
+          type: "string",
+          description: "Only check this repository",
+        },
+        ...paginationSchema(50),
+      },
+    },
+    handler: async (args) => {
+      const repo = args.repo as string | undefined;
+      const enabled = await getEnabledExtractedRepos();
+      if (repo && !enabled.includes(repo)) {
         return safeJson({
-          error: "Extraction failed",
-          message: error instanceof Error ? error.message : String(error),
+          error: "Repository not found",
+          message: `No enabled, extracted repository named ${repo}. Use list_repos to see what is available.`,
         });
       }
+
+      const s = await getStore();
+      const stale = [];
+      for (const name of repo ? [repo] : enabled) {
+        for (const version of await s.listVersions(name)) {
+          const outputs = outdatedOutputs(version.outputVersions);
+          if (outputs.length === 0) continue;
+          stale.push({
+            repo: name,
+            refType: version.refType,
+            ref: version.ref,
+            extractedAt: version.extractedAt.toISOString(),
+            outputs,
+            reextract: `extract_ref(repo: "${name}", ref: "${version.ref}", force: true)`,
+          });
+        }
+      }
+
+      const page = paginate(stale, args, { tool: "stale_knowledge", defaultLimit: 50 });
+      return safeJson({
+        currentVersions: Object.fromEntries(listExtractors().map((e) => [e.name, e.outputVersion ?? 1])),
+        refs: page.items,
+        total: page.total,
+        nextCursor: page.nextCursor,
+        message: stale.length === 0 ? "All stored knowledge matches the current extractor output versions" : undefined,
+      });
     },
   },
 ];
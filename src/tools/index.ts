@@ -9,6 +9,8 @@ export { extractionTools } from "./extraction.js";
 export { comparisonTools } from "./comparison.js";
 export { orgTools } from "./org.js";
 export { typeTools } from "./types.js";
+export { configTools } from "./config.js";
+export { bundleTools } from "./bundles.js";
 
 import { queryTools } from "./queries.js";
 import { diagramTools } from "./diagrams.js";
@@ -16,8 +18,19 @@ import { extractionTools } from "./extraction.js";
 import { comparisonTools } from "./comparison.js";
 import { orgTools } from "./org.js";
 import { typeTools } from "./types.js";
+import { configTools } from "./config.js";
+import { bundleTools } from "./bundles.js";
 
 /**
  * All v2 tools combined
  */
-export const allTools = [...queryTools, ...diagramTools, ...extractionTools, ...comparisonTools, ...orgTools, ...typeTools];
+export const allTools = [
+  ...queryTools,
+  ...diagramTools,
+  ...extractionTools,
+  ...comparisonTools,
+  ...orgTools,
+  ...typeTools,
+  ...configTools,
+  ...bundleTools,
+];
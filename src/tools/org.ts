@@ -8,11 +8,25 @@ import { join, dirname } from "path";
 import { fileURLToPath } from "url";
 import pLimit from "p-limit";
 import YAML from "yaml";
-import { ToolHandler, safeJson, getStore, getGitManager } from "./shared.js";
+import { ToolHandler, safeJson, getStore, getGitManager, paginate, paginationSchema } from "./shared.js";
 import { runExtractors } from "../lib/extractor-base.js";
+import { ParseCache } from "../lib/parse-cache.js";
+import type { BudgetConfig } from "../lib/extraction-budget.js";
 import "../extractors/index.js"; // Register all extractors
-import { clearConfigCache } from "../lib/config-loader.js";
-import { createJob, getJob, updateJob, listJobs, listActiveJobs, type Job } from "../lib/job-manager.js";
+import { reloadConfig, composeConfig } from "../lib/config-loader.js";
+import {
+  startJob,
+  getJob,
+  updateJob,
+  cancelJob,
+  listJobs,
+  listActiveJobs,
+  registerJobType,
+  reportJobEvent,
+  JOB_STATUSES,
+  type Job,
+  type JobStatus,
+} from "../lib/job-manager.js";
 
 // Concurrency limit for parallel repo extraction in connect_org
 const REPO_CONCURRENCY = parseInt(process.env.ORGBRAIN_REPO_CONCURRENCY || "6", 10);
@@ -82,7 +96,8 @@ interface RepoConfig {
     branches: string[];
     tags?: { pattern: string; latest: number };
   };
-  extractors: Array<{ name: string; config?: Record<string, unknown> }>;
+  budget?: BudgetConfig;
+  extractors: Array<{ name: string; config?: Record<string, unknown>; budget?: BudgetConfig }>;
 }
 
 interface Config {
@@ -197,10 +212,12 @@ function buildRepoConfig(repo: GHRepo, options: { includeNips?: boolean } = {}):
   return config;
 }
 
-async function loadConfigFile(): Promise<Config> {
+async function loadConfigFile(path = CONFIG_PATH): Promise<Config> {
   try {
-    const existing = await fs.readFile(CONFIG_PATH, "utf-8");
-    return YAML.parse(existing) as Config;
+    const existing = await fs.readFile(path, "utf-8");
+    const config = YAML.parse(existing) as Config;
+    config.repositories ??= {};
+    return config;
   } catch {
     return {
       version: "1.0",
@@ -219,8 +236,16 @@ async function loadConfigFile(): Promise<Config> {
   }
 }
 
-async function saveConfigFile(config: Config): Promise<void> {
-  await fs.writeFile(CONFIG_PATH, YAML.stringify(config));
+async function saveConfigFile(config: Config, path = CONFIG_PATH): Promise<void> {
+  await fs.writeFile(path, YAML.stringify(config));
+}
+
+/**
+ * Config file that defines a repo (an included file, if that's where it lives)
+ */
+async function repoConfigFile(repoName: string): Promise<string> {
+  const { repoSources } = await composeConfig(CONFIG_PATH);
+  return repoSources[repoName] ?? CONFIG_PATH;
 }
 
 /**
@@ -286,286 +311,290 @@ interface ConnectOrgOptions {
 }
 
 /**
- * Core logic for connecting an org - runs as background job
+ * Core logic for connecting an org - runs as background job.
+ * Not resumable: it replaces the config and knowledge, so a restart marks it interrupted.
  */
-async function runConnectOrg(job: Job, options: ConnectOrgOptions): Promise<void> {
-  const { org, includeForks, includeArchived, includeNips, filterPattern, excludePattern } = options;
+async function runConnectOrg(job: Job, signal: AbortSignal): Promise<unknown> {
+  const { org, includeForks, includeArchived, includeNips, filterPattern, excludePattern } =
+    job.params as unknown as ConnectOrgOptions;
 
-  try {
-    updateJob(job.id, {
-      status: "running",
-      progress: { current: 0, total: 5, message: "Fetching repos from GitHub..." },
-    });
+  updateJob(job.id, {
+    progress: { current: 0, total: 5, message: "Fetching repos from GitHub..." },
+  });
 
-    // Step 1: Fetch repos
-    let repos: GHRepo[];
-    try {
-      repos = await fetchGHRepos(org);
-    } catch (error) {
-      updateJob(job.id, {
-        status: "failed",
-        error: (error as Error).message,
-        completedAt: new Date(),
-      });
-      return;
-    }
+  // Step 1: Fetch repos
+  let repos = await fetchGHRepos(org);
+  signal.throwIfAborted();
 
-    const initialCount = repos.length;
+  const initialCount = repos.length;
 
-    updateJob(job.id, {
-      progress: { current: 1, total: 5, message: `Fetched ${initialCount} repos, filtering...` },
-    });
+  updateJob(job.id, {
+    progress: { current: 1, total: 5, message: `Fetched ${initialCount} repos, filtering...` },
+  });
 
-    // Step 2: Apply filters
-    const ORG_META_REPOS = [".github", "profile", ".github-private"];
-    const filter = filterPattern ? new RegExp(filterPattern) : undefined;
-    const exclude = excludePattern ? new RegExp(excludePattern) : undefined;
-
-    repos = repos.filter((repo) => {
-      if (!includeForks && repo.isFork) return false;
-      if (!includeArchived && repo.isArchived) return false;
-      if (ORG_META_REPOS.includes(repo.name)) return false;
-      if (filter && !filter.test(repo.name)) return false;
-      if (exclude && exclude.test(repo.name)) return false;
-      return true;
-    });
+  // Step 2: Apply filters
+  const ORG_META_REPOS = [".github", "profile", ".github-private"];
+  const filter = filterPattern ? new RegExp(filterPattern) : undefined;
+  const exclude = excludePattern ? new RegExp(excludePattern) : undefined;
+
+  repos = repos.filter((repo) => {
+    if (!includeForks && repo.isFork) return false;
+    if (!includeArchived && repo.isArchived) return false;
+    if (ORG_META_REPOS.includes(repo.name)) return false;
+    if (filter && !filter.test(repo.name)) return false;
+    if (exclude && exclude.test(repo.name)) return false;
+    return true;
+  });
 
-    updateJob(job.id, {
-      progress: { current: 2, total: 5, message: `${repos.length} repos after filters, clearing old data...` },
-    });
+  updateJob(job.id, {
+    progress: { current: 2, total: 5, message: `${repos.length} repos after filters, clearing old data...` },
+  });
 
-    // Step 3: Clear existing data and update config
-    const config = await loadConfigFile();
-
-    // Clear all existing repos - connect_org gives a fresh start
-    const removed = Object.keys(config.repositories).length;
-    
-    // Clear extracted knowledge for all repos
-    const store = await getStore();
-    const deletedKnowledge = await store.deleteAll();
-    
-    config.repositories = {};
-
-    // Add repos
-    let added = 0;
-    let disabled = 0;
-
-    for (const repo of repos) {
-      const repoConfig = buildRepoConfig(repo, { includeNips });
-      config.repositories[repo.name] = repoConfig;
-      added++;
-
-      if (repoConfig.enabled === false) {
-        disabled++;
-      }
+  // Step 3: Clear existing data and update config (last point where cancelling leaves the old setup intact)
+  signal.throwIfAborted();
+  const config = await loadConfigFile();
+
+  // Clear all existing repos - connect_org gives a fresh start
+  const removed = Object.keys(config.repositories).length;
+  
+  // Clear extracted knowledge for all repos
+  const store = await getStore();
+  const deletedKnowledge = await store.deleteAll();
+  
+  config.repositories = {};
+
+  // Add repos
+  let added = 0;
+  let disabled = 0;
+
+  for (const repo of repos) {
+    const repoConfig = buildRepoConfig(repo, { includeNips });
+    config.repositories[repo.name] = repoConfig;
+    added++;
+
+    if (repoConfig.enabled === false) {
+      disabled++;
     }
+  }
 
-    updateJob(job.id, {
-      progress: { current: 3, total: 5, message: "Saving config..." },
-    });
+  updateJob(job.id, {
+    progress: { current: 3, total: 5, message: "Saving config..." },
+  });
+
+  // Step 4: Save config
+  await saveConfigFile(config);
+  await reloadConfig();
 
-    // Step 4: Save config
-    await saveConfigFile(config);
-    clearConfigCache();
+  // Step 5: Extract knowledge from all enabled repos (in parallel)
+  const enabledRepos = repos.filter((r) => {
+    const repoConfig = config.repositories[r.name];
+    return repoConfig && repoConfig.enabled !== false;
+  });
 
-    // Step 5: Extract knowledge from all enabled repos (in parallel)
-    const enabledRepos = repos.filter((r) => {
-      const repoConfig = config.repositories[r.name];
-      return repoConfig && repoConfig.enabled !== false;
+  const gm = await getGitManager();
+  const extractionResults: Array<{
+    repo: string;
+    ref: string;
+    status: string;
+    extractors?: string[];
+    error?: string;
+  }> = [];
+
+  // Track progress for parallel extraction
+  let completedCount = 0;
+  let failedCount = 0;
+  const activeRepos = new Map<string, { startedAt: Date; status: string }>();
+  const limit = pLimit(REPO_CONCURRENCY);
+
+  const updateProgress = () => {
+    const active = Array.from(activeRepos.entries()).map(([name, info]) => ({
+      name,
+      status: info.status,
+      startedAt: info.startedAt.toISOString(),
+    }));
+
+    // Steps 1-4 are done; each extracted repo is one more step
+    updateJob(job.id, {
+      progress: {
+        current: 4 + completedCount,
+        total: 4 + enabledRepos.length,
+        message: `Extracting repos (${REPO_CONCURRENCY} concurrent)...`,
+        active,
+        completed: completedCount,
+        failed: failedCount,
+      },
     });
+  };
 
-    const gm = await getGitManager();
-    const extractionResults: Array<{
-      repo: string;
-      ref: string;
-      status: string;
-      extractors?: string[];
-      error?: string;
-    }> = [];
-
-    // Track progress for parallel extraction
-    let completedCount = 0;
-    let failedCount = 0;
-    const activeRepos = new Map<string, { startedAt: Date; status: string }>();
-    const limit = pLimit(REPO_CONCURRENCY);
-
-    const updateProgress = () => {
-      const active = Array.from(activeRepos.entries()).map(([name, info]) => ({
-        name,
-        status: info.status,
-        startedAt: info.startedAt.toISOString(),
-      }));
-
-      updateJob(job.id, {
-        progress: {
-          current: 4,
-          total: 5,
-          message: `Extracting repos (${REPO_CONCURRENCY} concurrent)...`,
-          active,
-          completed: completedCount,
-          failed: failedCount,
-        },
-      });
-    };
+  updateProgress();
 
-    updateProgress();
+  // Extract repos in parallel with concurrency limit
+  const extractRepo = async (repo: GHRepo) => {
+    signal.throwIfAborted();
+    const repoConfig = config.repositories[repo.name];
+    const ref = repoConfig.default_branch || "main";
 
-    // Extract repos in parallel with concurrency limit
-    const extractRepo = async (repo: GHRepo) => {
-      const repoConfig = config.repositories[repo.name];
-      const ref = repoConfig.default_branch || "main";
+    // Track this repo as active
+    activeRepos.set(repo.name, { startedAt: new Date(), status: "cloning" });
+    reportJobEvent({ level: "info", message: `Extracting ${repo.name}`, repo: repo.name, ref });
+    updateProgress();
 
-      // Track this repo as active
-      activeRepos.set(repo.name, { startedAt: new Date(), status: "cloning" });
+    try {
+      // Use shallow clone for faster initial setup (we only need current state)
+      const repoPath = await gm.ensureRepo(repo.name, repoConfig.url, { shallow: true });
+      
+      activeRepos.set(repo.name, { startedAt: activeRepos.get(repo.name)!.startedAt, status: "analyzing" });
       updateProgress();
-
-      try {
-        // Use shallow clone for faster initial setup (we only need current state)
-        const repoPath = await gm.ensureRepo(repo.name, repoConfig.url, { shallow: true });
-        
-        activeRepos.set(repo.name, { startedAt: activeRepos.get(repo.name)!.startedAt, status: "analyzing" });
-        updateProgress();
-        
-        const files = await gm.listFilesAtRef(repoPath, ref);
-
-        // Auto-detect and add extractors based on actual file contents
-        let extractors = [...repoConfig.extractors];
-
-        // Auto-detect monorepo
-        const hasMonorepoExtractor = extractors.some((e) => e.name === "monorepo");
-        if (!hasMonorepoExtractor) {
-          const isMonorepo = files.some(
-            (f) =>
-              f === "turbo.json" ||
-              f === "pnpm-workspace.yaml" ||
-              f === "nx.json" ||
-              f === "lerna.json"
-          );
-          if (isMonorepo) {
-            extractors = [{ name: "monorepo" }, ...extractors];
-          }
+      
+      const files = await gm.listFilesAtRef(repoPath, ref);
+
+      // Auto-detect and add extractors based on actual file contents
+      let extractors = [...repoConfig.extractors];
+
+      // Auto-detect monorepo
+      const hasMonorepoExtractor = extractors.some((e) => e.name === "monorepo");
+      if (!hasMonorepoExtractor) {
+        const isMonorepo = files.some(
+          (f) =>
+            f === "turbo.json" ||
+            f === "pnpm-workspace.yaml" ||
+            f === "nx.json" ||
+            f === "lerna.json"
+        );
+        if (isMonorepo) {
+          extractors = [{ name: "monorepo" }, ...extractors];
         }
+      }
 
-        // Auto-detect Terraform files
-        const hasTerraformExtractor = extractors.some((e) => e.name === "terraform");
-        if (!hasTerraformExtractor) {
-          const hasTerraform = files.some(
-            (f) => f.endsWith(".tf") || f.endsWith(".tfvars") || f.includes("terraform")
-          );
-          if (hasTerraform) {
-            extractors.push({ name: "terraform" });
-          }
+      // Auto-detect Terraform files
+      const hasTerraformExtractor = extractors.some((e) => e.name === "terraform");
+      if (!hasTerraformExtractor) {
+        const hasTerraform = files.some(
+          (f) => f.endsWith(".tf") || f.endsWith(".tfvars") || f.includes("terraform")
+        );
+        if (hasTerraform) {
+          extractors.push({ name: "terraform" });
         }
+      }
 
-        // Auto-detect Kubernetes manifests
-        const hasKubernetesExtractor = extractors.some((e) => e.name === "kubernetes");
-        if (!hasKubernetesExtractor) {
-          const hasK8s = files.some(
-            (f) =>
-              f.includes("k8s/") ||
-              f.includes("kubernetes/") ||
-              f.includes("kube/") ||
-              f.includes("manifests/") ||
-              f.includes("helm/") ||
-              f.includes("charts/") ||
-              (f.endsWith(".yaml") && (f.includes("deploy") || f.includes("service") || f.includes("ingress")))
-          );
-          if (hasK8s) {
-            extractors.push({ name: "kubernetes" });
-          }
+      // Auto-detect Kubernetes manifests
+      const hasKubernetesExtractor = extractors.some((e) => e.name === "kubernetes");
+      if (!hasKubernetesExtractor) {
+        const hasK8s = files.some(
+          (f) =>
+            f.includes("k8s/") ||
+            f.includes("kubernetes/") ||
+            f.includes("kube/") ||
+            f.includes("manifests/") ||
+            f.includes("helm/") ||
+            f.includes("charts/") ||
+            (f.endsWith(".yaml") && (f.includes("deploy") || f.includes("service") || f.includes("ingress")))
+        );
+        if (hasK8s) {
+          extractors.push({ name: "kubernetes" });
         }
+      }
 
-        // Auto-detect Cloudflare Workers
-        const hasCloudflareWorkersExtractor = extractors.some((e) => e.name === "cloudflare_workers");
-        if (!hasCloudflareWorkersExtractor) {
-          const hasWorkers = files.some((f) => f === "wrangler.toml" || f.endsWith("/wrangler.toml"));
-          if (hasWorkers) {
-            extractors.push({ name: "cloudflare_workers" });
-          }
+      // Auto-detect Cloudflare Workers
+      const hasCloudflareWorkersExtractor = extractors.some((e) => e.name === "cloudflare_workers");
+      if (!hasCloudflareWorkersExtractor) {
+        const hasWorkers = files.some((f) => f === "wrangler.toml" || f.endsWith("/wrangler.toml"));
+        if (hasWorkers) {
+          extractors.push({ name: "cloudflare_workers" });
         }
+      }
 
-        activeRepos.set(repo.name, { 
-          startedAt: activeRepos.get(repo.name)!.startedAt, 
-          status: `extracting (${extractors.length} extractors)` 
-        });
-        updateProgress();
-
-        const extractResults = await runExtractors(
-          { repoName: repo.name, repoPath, ref, refType: "branch", gitManager: gm },
-          extractors
-        );
+      activeRepos.set(repo.name, { 
+        startedAt: activeRepos.get(repo.name)!.startedAt, 
+        status: `extracting (${extractors.length} extractors)` 
+      });
+      updateProgress();
 
-        await store.save(repo.name, "branch", ref, extractResults);
+      const extractResults = await runExtractors(
+        {
+          repoName: repo.name,
+          repoPath,
+          ref,
+          refType: "branch",
+          gitManager: gm,
+          parseCache: new ParseCache(gm.parseCacheDir),
+          budget: repoConfig.budget,
+        },
+        extractors
+      );
+
+      await store.save(repo.name, "branch", ref, extractResults);
+
+      // Mark as complete
+      activeRepos.delete(repo.name);
+      completedCount++;
+      reportJobEvent({
+        level: "info",
+        message: `Finished ${repo.name} (${extractResults.length} extractors)`,
+        repo: repo.name,
+        ref,
+      });
+      updateProgress();
 
-        // Mark as complete
-        activeRepos.delete(repo.name);
-        completedCount++;
-        updateProgress();
+      return {
+        repo: repo.name,
+        ref,
+        status: "extracted" as const,
+        extractors: extractResults.map((r) => r.extractor),
+      };
+    } catch (error) {
+      activeRepos.delete(repo.name);
+      completedCount++;
+      failedCount++;
+      reportJobEvent({ level: "error", message: `Failed to extract ${repo.name}: ${error}`, repo: repo.name, ref });
+      updateProgress();
 
-        return {
-          repo: repo.name,
-          ref,
-          status: "extracted" as const,
-          extractors: extractResults.map((r) => r.extractor),
-        };
-      } catch (error) {
-        activeRepos.delete(repo.name);
-        completedCount++;
-        failedCount++;
-        updateProgress();
+      return {
+        repo: repo.name,
+        ref,
+        status: "error" as const,
+        error: String(error),
+      };
+    }
+  };
 
-        return {
-          repo: repo.name,
-          ref,
-          status: "error" as const,
-          error: String(error),
-        };
-      }
-    };
+  // Run all extractions in parallel with limit
+  const results = await Promise.all(
+    enabledRepos.map((repo) => limit(() => extractRepo(repo)))
+  );
+  extractionResults.push(...results);
 
-    // Run all extractions in parallel with limit
-    const results = await Promise.all(
-      enabledRepos.map((repo) => limit(() => extractRepo(repo)))
-    );
-    extractionResults.push(...results);
+  const extracted = extractionResults.filter((r) => r.status === "extracted").length;
+  const errors = extractionResults.filter((r) => r.status === "error").length;
 
-    const extracted = extractionResults.filter((r) => r.status === "extracted").length;
-    const errors = extractionResults.filter((r) => r.status === "error").length;
+  updateJob(job.id, {
+    progress: { current: 4 + enabledRepos.length, total: 4 + enabledRepos.length, message: "Done" },
+  });
 
-    updateJob(job.id, {
-      status: "completed",
-      progress: { current: 5, total: 5, message: "Done" },
-      result: {
-        org,
-        summary: {
-          fetched: initialCount,
-          afterFilters: repos.length,
-          removed,
-          removedKnowledge: deletedKnowledge,
-          added,
-          autoDisabled: disabled,
-          totalRepos: Object.keys(config.repositories).length,
-          extracted,
-          extractionErrors: errors,
-        },
-        message: `Connected ${org}! Removed ${removed} old repos, added ${added} new (${disabled} disabled). Extracted ${extracted}/${enabledRepos.length} repos.${errors > 0 ? ` ${errors} errors.` : ""}`,
-        extraction: extractionResults,
-        nextSteps: [
-          "Use list_repos to see all connected repositories",
-          "Use generate_diagram to visualize the architecture",
-        ],
-      },
-      completedAt: new Date(),
-    });
-  } catch (error) {
-    updateJob(job.id, {
-      status: "failed",
-      error: (error as Error).message,
-      completedAt: new Date(),
-    });
-  }
+  return {
+    org,
+    summary: {
+      fetched: initialCount,
+      afterFilters: repos.length,
+      removed,
+      removedKnowledge: deletedKnowledge,
+      added,
+      autoDisabled: disabled,
+      totalRepos: Object.keys(config.repositories).length,
+      extracted,
+      extractionErrors: errors,
+    },
+    message: `Connected ${org}! Removed ${removed} old repos, added ${added} new (${disabled} disabled). Extracted ${extracted}/${enabledRepos.length} repos.${errors > 0 ? ` ${errors} errors.` : ""}`,
+    extraction: extractionResults,
+    nextSteps: [
+      "Use list_repos to see all connected repositories",
+      "Use generate_diagram to visualize the architecture",
+    ],
+  };
 }
 
+registerJobType("connect_org", runConnectOrg);
+
 export const orgTools: ToolHandler[] = [
   {
     name: "connect_org",
@@ -629,18 +658,16 @@ export const orgTools: ToolHandler[] = [
         });
       }
 
-      // Create background job
-      const job = createJob(`connect_org:${org}`);
-
-      // Start the work in the background (don't await)
-      runConnectOrg(job, {
+      // Start the work as a background job
+      const options: ConnectOrgOptions = {
         org,
         includeForks,
         includeArchived,
         includeNips,
         filterPattern,
         excludePattern,
-      });
+      };
+      const job = startJob("connect_org", { ...options });
 
       return safeJson({
         status: "started",
@@ -651,14 +678,25 @@ export const orgTools: ToolHandler[] = [
   },
   {
     name: "job_status",
-    description: "Check the status of a background job, or list all recent jobs if no jobId provided.",
+    description:
+      "Check the status of a background job, or query job history (optionally filtered by type and status) if no jobId provided.",
     schema: {
       type: "object",
       properties: {
         jobId: {
           type: "string",
-          description: "Job ID to check. If omitted, lists all recent jobs.",
+          description: "Job ID to check. If omitted, lists recent jobs.",
         },
+        type: {
+          type: "string",
+          description: "Only list jobs of this type (e.g., 'connect_org', 'extract_all')",
+        },
+        status: {
+          type: "string",
+          enum: [...JOB_STATUSES],
+          description: "Only list jobs with this status",
+        },
+        ...paginationSchema(50),
       },
     },
     handler: async (args) => {
@@ -685,9 +723,11 @@ export const orgTools: ToolHandler[] = [
           id: job.id,
           type: job.type,
           status: job.status,
+          params: job.params,
           progress: job.progress,
           result: job.result,
           error: job.error,
+          resumed: job.resumed,
           startedAt: job.startedAt.toISOString(),
           completedAt: job.completedAt?.toISOString(),
           duration: job.completedAt
@@ -696,21 +736,74 @@ export const orgTools: ToolHandler[] = [
         });
       }
 
-      // List all jobs
-      const jobs = listJobs();
-      return safeJson({
-        jobs: jobs.map((j) => ({
+      // Query job history
+      const jobs = listJobs({ type: args.type as string | undefined, status: args.status as JobStatus | undefined });
+      const page = paginate(
+        jobs.map((j) => ({
           id: j.id,
           type: j.type,
           status: j.status,
           progress: j.progress?.message,
+          error: j.error,
+          resumed: j.resumed,
           startedAt: j.startedAt.toISOString(),
           completedAt: j.completedAt?.toISOString(),
         })),
+        args,
+        { tool: "job_status", defaultLimit: 50 }
+      );
+      return safeJson({
+        jobs: page.items,
+        total: page.total,
+        nextCursor: page.nextCursor,
+        summarized: page.summarized,
         activeCount: listActiveJobs().length,
       });
     },
   },
+  {
+    name: "cancel_job",
+    description:
+      "Cancel a pending or running background job. In-flight git commands and extraction stop; poll job_status until it reports 'cancelled'.",
+    schema: {
+      type: "object",
+      properties: {
+        jobId: {
+          type: "string",
+          description: "Job ID to cancel",
+        },
+      },
+      required: ["jobId"],
+    },
+    handler: async (args) => {
+      const jobId = args.jobId as string;
+
+      const job = cancelJob(jobId);
+      if (!job) {
+        return safeJson({
+          error: `Job "${jobId}" not found`,
+          activeJobs: listActiveJobs().map((j) => ({ id: j.id, type: j.type, status: j.status })),
+        });
+      }
+
+      if (job.status !== "pending" && job.status !== "running" && job.status !== "cancelled") {
+        return safeJson({
+          error: `Job "${jobId}" is not active`,
+          message: `The job already finished with status "${job.status}".`,
+        });
+      }
+
+      return safeJson({
+        id: job.id,
+        type: job.type,
+        status: job.status === "cancelled" ? "cancelled" : "cancelling",
+        message:
+          job.status === "cancelled"
+            ? "Job cancelled."
+            : `Cancellation requested. Use job_status with jobId "${job.id}" to confirm it stopped.`,
+      });
+    },
+  },
   {
     name: "disconnect_repo",
     description: "Remove a repository from the config",
@@ -736,7 +829,8 @@ export const orgTools: ToolHandler[] = [
       }
 
       try {
-        const config = await loadConfigFile();
+        const configFile = await repoConfigFile(repoName);
+        const config = await loadConfigFile(configFile);
 
         if (!config.repositories[repoName]) {
           return safeJson({
@@ -746,8 +840,8 @@ export const orgTools: ToolHandler[] = [
         }
 
         delete config.repositories[repoName];
-        await saveConfigFile(config);
-        clearConfigCache();
+        await saveConfigFile(config, configFile);
+        await reloadConfig();
 
         return safeJson({
           status: "disconnected",
@@ -800,7 +894,8 @@ export const orgTools: ToolHandler[] = [
       }
 
       try {
-        const config = await loadConfigFile();
+        const configFile = await repoConfigFile(repoName);
+        const config = await loadConfigFile(configFile);
 
         if (!config.repositories[repoName]) {
           return safeJson({
@@ -815,8 +910,8 @@ export const orgTools: ToolHandler[] = [
           config.repositories[repoName].enabled = false;
         }
 
-        await saveConfigFile(config);
-        clearConfigCache();
+        await saveConfigFile(config, configFile);
+        await reloadConfig();
 
         return safeJson({
           status: enabled ? "enabled" : "disabled",
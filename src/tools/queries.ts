@@ -3,13 +3,18 @@
  */
 
 import { loadConfig } from "../lib/config-loader.js";
+import { filterAllowedRepos } from "../lib/auth.js";
 import {
   ToolHandler,
   safeJson,
   loadFromAllRepos,
+  getEnabledExtractedRepos,
   getEcosystemOverview,
   getStore,
   getGitManager,
+  paginate,
+  paginationSchema,
+  PAGE_OUTPUT_PROPERTIES,
 } from "./shared.js";
 
 export const queryTools: ToolHandler[] = [
@@ -17,16 +22,66 @@ export const queryTools: ToolHandler[] = [
     name: "list_repos",
     description:
       "List repos with their latest extracted ref. Use extract_ref(repo, ref) to extract new branches/tags on-demand.",
-    schema: { type: "object", properties: {} },
-    handler: async () => {
+    schema: { type: "object", properties: { ...paginationSchema(100) } },
+    outputSchema: {
+      type: "object",
+      properties: {
+        repos: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              ref: { type: "string" },
+              refType: { type: "string" },
+              extractedAt: { type: "string" },
+              extractors: { type: "array", items: { type: "string" } },
+              sha: { type: "string" },
+              commitDate: { type: "string" },
+            },
+            required: ["name", "ref", "refType", "extractedAt", "extractors"],
+          },
+        },
+        ...PAGE_OUTPUT_PROPERTIES,
+      },
+      required: ["repos", "total"],
+    },
+    handler: async (args) => {
       const overview = await getEcosystemOverview();
-      return safeJson(overview);
+      const page = paginate(overview.repos, args, { tool: "list_repos", defaultLimit: 100 });
+      return safeJson({ repos: page.items, total: page.total, nextCursor: page.nextCursor });
     },
   },
   {
     name: "list_refs",
     description: "List branches and tags for each configured repo from local cache. Tags are sorted by date (latest first), branches are unsorted. Only fetches from remote if repo doesn't exist locally.",
     schema: { type: "object", properties: {} },
+    outputSchema: {
+      type: "object",
+      description: "Refs keyed by repo name",
+      additionalProperties: {
+        type: "object",
+        properties: {
+          branches: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { name: { type: "string" }, sha: { type: "string" }, date: { type: "string" } },
+              required: ["name", "sha", "date"],
+            },
+          },
+          tags: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { name: { type: "string" }, sha: { type: "string" }, date: { type: "string" } },
+              required: ["name", "sha", "date"],
+            },
+          },
+          error: { type: "string" },
+        },
+      },
+    },
     handler: async () => {
       const config = await loadConfig();
       const gm = await getGitManager();
@@ -34,12 +89,13 @@ export const queryTools: ToolHandler[] = [
 
       // Process repos in parallel for better performance
       // Use skipFetch=true and verify=false to read from local cache only (fast, no verification)
-      const repoEntries = Object.entries(config.repositories);
+      const allowed = new Set(filterAllowedRepos(Object.keys(config.repositories)));
+      const repoEntries = Object.entries(config.repositories).filter(([name]) => allowed.has(name));
       const promises = repoEntries.map(async ([repoName, repoConfig]) => {
         try {
           // Skip verification and cloning for list_refs - we just want to list refs from local cache
           // If repo doesn't exist, return error instead of cloning (which is slow)
-          const state = await gm.getRepoState(repoName, repoConfig.url, { skipFetch: true, verify: false, skipClone: true });
+          const state = await gm.getRepoState(repoName, repoConfig, { skipFetch: true, verify: false, skipClone: true });
           return {
             repoName,
             data: {
@@ -75,6 +131,41 @@ export const queryTools: ToolHandler[] = [
     name: "query_nips",
     description: "Aggregate NIP usage and event kinds across all extracted repos",
     schema: { type: "object", properties: {} },
+    outputSchema: {
+      type: "object",
+      properties: {
+        summary: {
+          type: "object",
+          properties: {
+            totalNips: { type: "integer" },
+            totalKinds: { type: "integer" },
+            reposWithNips: { type: "integer" },
+          },
+          required: ["totalNips", "totalKinds", "reposWithNips"],
+        },
+        nipUsage: {
+          type: "object",
+          additionalProperties: {
+            type: "object",
+            properties: {
+              repos: { type: "array", items: { type: "string" } },
+              files: { type: "array", items: { type: "string" } },
+              kinds: { type: "array", items: { type: "number" } },
+            },
+            required: ["repos", "files", "kinds"],
+          },
+        },
+        kindUsage: {
+          type: "object",
+          additionalProperties: {
+            type: "object",
+            properties: { repos: { type: "array", items: { type: "string" } } },
+            required: ["repos"],
+          },
+        },
+      },
+      required: ["summary", "nipUsage", "kindUsage"],
+    },
     handler: async () => {
       const allNipData = await loadFromAllRepos("nip_usage");
 
@@ -129,8 +220,29 @@ export const queryTools: ToolHandler[] = [
     name: "query_flows",
     description: "Aggregate user flows/screens across all frontend repos",
     schema: { type: "object", properties: {} },
+    outputSchema: {
+      type: "object",
+      properties: {
+        totalScreens: { type: "integer" },
+        totalFlows: { type: "integer" },
+        byRepo: {
+          type: "object",
+          additionalProperties: {
+            type: "object",
+            properties: {
+              screens: { type: "integer" },
+              flows: { type: "array", items: { type: "string" } },
+              routes: { type: "array", items: { type: "string" } },
+            },
+            required: ["screens", "flows", "routes"],
+          },
+        },
+      },
+      required: ["totalScreens", "totalFlows", "byRepo"],
+    },
     handler: async () => {
-      const allFlowData = await loadFromAllRepos("user_flows");
+      const store = await getStore();
+      const screens = await store.queryScreens({ repos: await getEnabledExtractedRepos() });
 
       const aggregated: {
         totalScreens: number;
@@ -142,23 +254,17 @@ export const queryTools: ToolHandler[] = [
         byRepo: {},
       };
 
-      for (const [repo, data] of Object.entries(allFlowData)) {
-        const flowData = data as {
-          screens?: Array<{ name: string; file: string }>;
-          routes?: string[];
-        };
-
-        const screens = flowData.screens || [];
-        const routes = flowData.routes || [];
-
-        aggregated.totalScreens += screens.length;
-        aggregated.totalFlows += routes.length;
+      for (const screen of screens) {
+        const repoFlows = (aggregated.byRepo[screen.repo] ??= { screens: 0, flows: [], routes: [] });
+        repoFlows.screens++;
+        repoFlows.flows.push(screen.name);
+        if (screen.route && !repoFlows.routes.includes(screen.route)) repoFlows.routes.push(screen.route);
+      }
 
-        aggregated.byRepo[repo] = {
-          screens: screens.length,
-          flows: screens.map((s) => s.name),
-          routes,
-        };
+      for (const repoFlows of Object.values(aggregated.byRepo)) {
+        repoFlows.routes.sort();
+        aggregated.totalScreens += repoFlows.screens;
+        aggregated.totalFlows += repoFlows.routes.length;
       }
 
       return safeJson(aggregated);
@@ -168,8 +274,58 @@ export const queryTools: ToolHandler[] = [
     name: "query_infra",
     description: "Aggregate Kubernetes and Terraform data across all extracted repos",
     schema: { type: "object", properties: {} },
+    outputSchema: {
+      type: "object",
+      properties: {
+        kubernetes: {
+          type: "object",
+          properties: {
+            totalDeployments: { type: "integer" },
+            totalServices: { type: "integer" },
+            byRepo: {
+              type: "object",
+              additionalProperties: {
+                type: "object",
+                properties: {
+                  deployments: { type: "array", items: { type: "string" } },
+                  services: { type: "array", items: { type: "string" } },
+                },
+                required: ["deployments", "services"],
+              },
+            },
+          },
+          required: ["totalDeployments", "totalServices", "byRepo"],
+        },
+        terraform: {
+          type: "object",
+          properties: {
+            totalResources: { type: "number" },
+            totalModules: { type: "number" },
+            providers: { type: "array", items: { type: "string" } },
+            byRepo: {
+              type: "object",
+              additionalProperties: {
+                type: "object",
+                properties: {
+                  resources: { type: "number" },
+                  modules: { type: "number" },
+                  providers: { type: "array", items: { type: "string" } },
+                },
+                required: ["resources", "modules", "providers"],
+              },
+            },
+          },
+          required: ["totalResources", "totalModules", "providers", "byRepo"],
+        },
+      },
+      required: ["kubernetes", "terraform"],
+    },
     handler: async () => {
-      const allK8sData = await loadFromAllRepos("kubernetes");
+      const store = await getStore();
+      const repos = await getEnabledExtractedRepos();
+      const workloads = await store.queryK8sResources({ repos, kinds: ["Deployment", "StatefulSet"] });
+      const k8sServices = await store.queryServices({ repos, source: "kubernetes" });
+      // Terraform output is not indexed
       const allTfData = await loadFromAllRepos("terraform");
 
       const aggregated: {
@@ -198,19 +354,15 @@ export const queryTools: ToolHandler[] = [
         },
       };
 
-      for (const [repo, data] of Object.entries(allK8sData)) {
-        const k8s = data as {
-          deployments?: Array<{ name: string }>;
-          services?: Array<{ name: string }>;
-        };
-
-        const deployments = (k8s.deployments || []).map((d) => d.name);
-        const services = (k8s.services || []).map((s) => s.name);
-
-        aggregated.kubernetes.totalDeployments += deployments.length;
-        aggregated.kubernetes.totalServices += services.length;
-        aggregated.kubernetes.byRepo[repo] = { deployments, services };
+      const k8sRepo = (repo: string) => (aggregated.kubernetes.byRepo[repo] ??= { deployments: [], services: [] });
+      for (const workload of workloads) {
+        k8sRepo(workload.repo).deployments.push(workload.name);
+      }
+      for (const service of k8sServices) {
+        k8sRepo(service.repo).services.push(service.name);
       }
+      aggregated.kubernetes.totalDeployments = workloads.length;
+      aggregated.kubernetes.totalServices = k8sServices.length;
 
       for (const [repo, data] of Object.entries(allTfData)) {
         const tf = data as {
@@ -243,8 +395,49 @@ export const queryTools: ToolHandler[] = [
     name: "query_data_flow",
     description: "Aggregate service dependencies and event flows across repos",
     schema: { type: "object", properties: {} },
+    outputSchema: {
+      type: "object",
+      properties: {
+        summary: {
+          type: "object",
+          properties: {
+            totalServices: { type: "integer" },
+            totalEventFlows: { type: "integer" },
+            crossRepoConnections: { type: "integer" },
+          },
+          required: ["totalServices", "totalEventFlows", "crossRepoConnections"],
+        },
+        services: {
+          type: "object",
+          description: "Services keyed by '<repo>/<index>'",
+          additionalProperties: {
+            type: "object",
+            properties: {
+              repo: { type: "string" },
+              dependencies: { type: "array", items: { type: "string" } },
+              dependents: { type: "array", items: { type: "string" } },
+            },
+            required: ["repo", "dependencies", "dependents"],
+          },
+        },
+        crossRepoConnections: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              from: { type: "string" },
+              to: { type: "string" },
+              type: { type: "string" },
+            },
+            required: ["from", "to", "type"],
+          },
+        },
+      },
+      required: ["summary", "services", "crossRepoConnections"],
+    },
     handler: async () => {
-      const allDataFlow = await loadFromAllRepos("data_flow");
+      const store = await getStore();
+      const dataFlowServices = await store.queryServices({ repos: await getEnabledExtractedRepos(), source: "data_flow" });
 
       const services: Record<
         string,
@@ -261,22 +454,15 @@ export const queryTools: ToolHandler[] = [
         type: string;
       }> = [];
 
-      for (const [repo, data] of Object.entries(allDataFlow)) {
-        const flowData = data as {
-          services?: Array<{ name: string; dependencies?: string[] }>;
-          externalCalls?: Array<{ target: string }>;
+      const indexByRepo: Record<string, number> = {};
+      for (const svc of dataFlowServices) {
+        const idx = indexByRepo[svc.repo] ?? 0;
+        indexByRepo[svc.repo] = idx + 1;
+        services[`${svc.repo}/${idx}`] = {
+          repo: svc.repo,
+          dependencies: svc.dependencies || [],
+          dependents: [],
         };
-
-        if (flowData.services) {
-          for (const [idx, svc] of flowData.services.entries()) {
-            const svcKey = `${repo}/${idx}`;
-            services[svcKey] = {
-              repo,
-              dependencies: svc.dependencies || [],
-              dependents: [],
-            };
-          }
-        }
       }
 
       return safeJson({
@@ -294,6 +480,53 @@ export const queryTools: ToolHandler[] = [
     name: "query_monorepos",
     description: "Aggregate monorepo structure data across all repos - packages, apps, dependencies",
     schema: { type: "object", properties: {} },
+    outputSchema: {
+      type: "object",
+      properties: {
+        totalMonorepos: { type: "integer" },
+        byRepo: {
+          type: "object",
+          additionalProperties: {
+            type: "object",
+            properties: {
+              tool: { type: "string" },
+              packages: { type: "integer" },
+              apps: { type: "integer" },
+              libs: { type: "integer" },
+              frameworks: { type: "array", items: { type: "string" } },
+            },
+            required: ["tool", "packages", "apps", "libs", "frameworks"],
+          },
+        },
+        allPackages: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              repo: { type: "string" },
+              name: { type: "string" },
+              path: { type: "string" },
+              type: { type: "string" },
+              framework: { type: "string" },
+            },
+            required: ["repo", "name"],
+          },
+        },
+        frameworks: { type: "object", additionalProperties: { type: "integer" } },
+        dependencyGraph: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              from: { type: "string" },
+              to: { type: "string" },
+            },
+            required: ["from", "to"],
+          },
+        },
+      },
+      required: ["totalMonorepos", "byRepo", "allPackages", "frameworks", "dependencyGraph"],
+    },
     handler: async () => {
       const allMonorepoData = await loadFromAllRepos("monorepo");
 
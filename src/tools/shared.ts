@@ -2,11 +2,15 @@
  * Shared utilities for MCP tools
  */
 
+import { createHash } from "crypto";
 import { fileURLToPath } from "url";
 import { dirname, join } from "path";
-import { KnowledgeStore } from "../lib/knowledge-store.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { KnowledgeStore, knowledgeStoreOptions } from "../lib/knowledge-store.js";
 import { GitManager } from "../lib/git-manager.js";
-import { loadConfig, isRepoEnabled } from "../lib/config-loader.js";
+import { loadConfig, isRepoEnabled, onConfigChange } from "../lib/config-loader.js";
+import { filterAllowedRepos } from "../lib/auth.js";
+import { describeTruncation, type TruncationNotice } from "../lib/extraction-budget.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -14,22 +18,42 @@ const __dirname = dirname(__filename);
 // Tool types
 export type ToolContent = { type: "text"; text: string };
 
+export type ToolResult = {
+  content: ToolContent[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
+
 export type ToolHandler = {
   name: string;
   description: string;
   schema: Record<string, unknown>;
-  handler: (args: Record<string, unknown>) => Promise<{ content: ToolContent[] }>;
+  /** JSON Schema for structuredContent; tools that declare one return typed results */
+  outputSchema?: Record<string, unknown>;
+  handler: (args: Record<string, unknown>) => Promise<ToolResult>;
 };
 
 // Singleton instances
 let store: KnowledgeStore | null = null;
 let gitManager: GitManager | null = null;
 
+// Rebuild singletons whose directories (or storage backend) changed when the config is reloaded
+onConfigChange((next, previous) => {
+  if (next.knowledge_dir !== previous?.knowledge_dir || JSON.stringify(next.storage) !== JSON.stringify(previous?.storage)) {
+    store = null;
+  }
+  if (next.cache_dir !== previous?.cache_dir) gitManager = null;
+});
+
+export async function getKnowledgeDir(): Promise<string> {
+  const config = await loadConfig();
+  return join(__dirname, "..", "..", config.knowledge_dir || "knowledge/extracted");
+}
+
 export async function getStore(): Promise<KnowledgeStore> {
   if (!store) {
     const config = await loadConfig();
-    const knowledgeDir = join(__dirname, "..", "..", config.knowledge_dir || "knowledge/extracted");
-    store = new KnowledgeStore(knowledgeDir);
+    store = new KnowledgeStore(await getKnowledgeDir(), knowledgeStoreOptions(config));
   }
   return store;
 }
@@ -45,7 +69,8 @@ export async function getGitManager(): Promise<GitManager> {
 
 /**
  * Get repos that are both extracted AND enabled in config.
- * This filters out old data from repos that have since been disabled.
+ * This filters out old data from repos that have since been disabled,
+ * and repos the calling token is not allowed to see.
  */
 export async function getEnabledExtractedRepos(): Promise<string[]> {
   const s = await getStore();
@@ -53,10 +78,12 @@ export async function getEnabledExtractedRepos(): Promise<string[]> {
   const extractedRepos = await s.listRepos();
 
   // Filter to only repos that exist in config AND are enabled
-  return extractedRepos.filter((repo) => {
-    const repoConfig = config.repositories[repo];
-    return repoConfig && isRepoEnabled(repoConfig);
-  });
+  return filterAllowedRepos(
+    extractedRepos.filter((repo) => {
+      const repoConfig = config.repositories[repo];
+      return repoConfig && isRepoEnabled(repoConfig);
+    })
+  );
 }
 
 /**
@@ -64,17 +91,7 @@ export async function getEnabledExtractedRepos(): Promise<string[]> {
  */
 export async function loadFromAllRepos(extractor: string): Promise<Record<string, unknown>> {
   const s = await getStore();
-  const repos = await getEnabledExtractedRepos();
-  const result: Record<string, unknown> = {};
-
-  for (const repo of repos) {
-    const knowledge = await s.getLatest(repo);
-    if (knowledge?.data?.[extractor]) {
-      result[repo] = knowledge.data[extractor];
-    }
-  }
-
-  return result;
+  return s.loadLatestExtractor(extractor, await getEnabledExtractedRepos());
 }
 
 /**
@@ -138,7 +155,7 @@ export async function getEcosystemOverview(): Promise<{
           const repoConfig = config.repositories[repo];
           if (repoConfig) {
             // Use skipFetch to avoid unnecessary network calls, but commit date should be available from local cache
-            const repoPath = await gm.ensureRepo(repo, repoConfig.url, { skipFetch: true });
+            const repoPath = await gm.resolveRepo(repo, repoConfig, { skipFetch: true });
             const commitDate = await gm.getCommitDate(repoPath, knowledge.manifest.sha);
             if (commitDate) {
               repoInfo.commitDate = commitDate.toISOString();
@@ -158,10 +175,182 @@ export async function getEcosystemOverview(): Promise<{
 }
 
 /**
- * Safely convert value to JSON response
+ * Safely convert value to JSON response.
+ * Plain objects are also returned as structuredContent (parsed back from the
+ * text so both carry exactly the same data).
  */
-export function safeJson(value: unknown): { content: ToolContent[] } {
-  return { content: [{ type: "text", text: JSON.stringify(value, null, 2) }] };
+export function safeJson(value: unknown): ToolResult {
+  const text = JSON.stringify(value, null, 2);
+  const result: ToolResult = { content: [{ type: "text", text }] };
+
+  if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+    result.structuredContent = JSON.parse(text) as Record<string, unknown>;
+  }
+
+  return result;
+}
+
+/**
+ * Whether a tool result is an error payload ({ error: "..." }) rather than data
+ */
+export function isErrorResult(result: ToolResult): boolean {
+  return typeof result.structuredContent?.error === "string";
+}
+
+/**
+ * Add a warning naming the truncated extractor outputs a tool answered from
+ * (see collectTruncations); error results are returned unchanged
+ */
+export function withTruncationWarning(result: ToolResult, notices: TruncationNotice[]): ToolResult {
+  if (notices.length === 0 || isErrorResult(result)) return result;
+
+  const text = [
+    "⚠️ Answered from truncated extraction data, so results may be incomplete:",
+    ...notices.map(({ repo, extractor, truncated }) => `- ${repo} ${extractor}: ${truncated.map(describeTruncation).join("; ")}`),
+    "Raise the budget for these extractors in the config and re-extract for complete results.",
+  ].join("\n");
+  return { ...result, content: [...result.content, { type: "text", text }] };
+}
+
+// Pagination
+
+/** Upper bound for `limit` on any paginated tool */
+export const MAX_PAGE_SIZE = 1000;
+
+/** Arguments that control paging rather than what is queried */
+const PAGING_ARGUMENTS = ["limit", "cursor", "maxChars"];
+
+/**
+ * One page of a list result. Tools spread `total`, `nextCursor` and
+ * `summarized` into their response next to the page items.
+ */
+export interface Page<T> {
+  items: T[];
+  total: number;
+  nextCursor?: string;
+  summarized?: boolean;
+}
+
+export interface PaginateOptions<T> {
+  /** Tool name, used to tie cursors to the query that produced them */
+  tool: string;
+  defaultLimit: number;
+  /** Compact form of an item, used when the full item does not fit the maxChars budget */
+  summarize?: (item: T) => T;
+}
+
+/**
+ * JSON Schema properties for the shared paging arguments (limit, cursor, maxChars)
+ */
+export function paginationSchema(defaultLimit: number): Record<string, unknown> {
+  return {
+    limit: {
+      type: "integer",
+      minimum: 1,
+      maximum: MAX_PAGE_SIZE,
+      description: `Max items per page (default: ${defaultLimit})`,
+    },
+    cursor: {
+      type: "string",
+      maxLength: 200,
+      description: "Opaque cursor from a previous response's nextCursor, to fetch the next page",
+    },
+    maxChars: {
+      type: "integer",
+      minimum: 200,
+      description:
+        "Optional character budget for the page. Items that don't fit move to the next page; oversized items are summarized.",
+    },
+  };
+}
+
+/**
+ * JSON Schema properties for the paging fields of a response (for outputSchema)
+ */
+export const PAGE_OUTPUT_PROPERTIES: Record<string, unknown> = {
+  total: { type: "integer", description: "Total number of items across all pages" },
+  nextCursor: { type: "string", description: "Pass as 'cursor' to fetch the next page; absent on the last page" },
+  summarized: { type: "boolean", description: "Some items were summarized to fit the maxChars budget" },
+};
+
+/**
+ * Fingerprint of the query arguments, so a cursor can't be replayed against a different query
+ */
+function queryKey(tool: string, args: Record<string, unknown>): string {
+  const query = Object.keys(args)
+    .filter((key) => !PAGING_ARGUMENTS.includes(key) && args[key] !== undefined)
+    .sort()
+    .map((key) => [key, args[key]]);
+  return createHash("sha256").update(JSON.stringify([tool, query])).digest("base64url").slice(0, 12);
+}
+
+function encodeCursor(offset: number, key: string): string {
+  return Buffer.from(JSON.stringify({ o: offset, k: key })).toString("base64url");
+}
+
+function decodeCursor(cursor: string, key: string): number {
+  let decoded: { o?: unknown; k?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, "Invalid cursor");
+  }
+
+  if (typeof decoded.o !== "number" || !Number.isInteger(decoded.o) || decoded.o < 0) {
+    throw new McpError(ErrorCode.InvalidParams, "Invalid cursor");
+  }
+  if (decoded.k !== key) {
+    throw new McpError(ErrorCode.InvalidParams, "Cursor does not belong to this query - repeat the query without a cursor");
+  }
+
+  return decoded.o;
+}
+
+/**
+ * Cut a page out of `items` according to the limit/cursor/maxChars arguments.
+ * Throws an InvalidParams MCP error for a malformed or foreign cursor.
+ */
+export function paginate<T>(items: T[], args: Record<string, unknown>, options: PaginateOptions<T>): Page<T> {
+  const key = queryKey(options.tool, args);
+  const offset = typeof args.cursor === "string" ? decodeCursor(args.cursor, key) : 0;
+  const limit = Math.min((args.limit as number) || options.defaultLimit, MAX_PAGE_SIZE);
+  const window = items.slice(offset, offset + limit);
+  const maxChars = args.maxChars as number | undefined;
+
+  let pageItems = window;
+  let summarized = false;
+
+  if (maxChars) {
+    pageItems = [];
+    let used = 0;
+
+    for (const item of window) {
+      let entry = item;
+      let size = JSON.stringify(item, null, 2).length;
+
+      if (used + size > maxChars && options.summarize) {
+        const summary = options.summarize(item);
+        const summarySize = JSON.stringify(summary, null, 2).length;
+        if (used + summarySize <= maxChars || pageItems.length === 0) {
+          entry = summary;
+          size = summarySize;
+          summarized = true;
+        }
+      }
+
+      // Always return at least one item so paging makes progress
+      if (used + size > maxChars && pageItems.length > 0) break;
+
+      pageItems.push(entry);
+      used += size;
+    }
+  }
+
+  const next = offset + pageItems.length;
+  const page: Page<T> = { items: pageItems, total: items.length };
+  if (next < items.length) page.nextCursor = encodeCursor(next, key);
+  if (summarized) page.summarized = true;
+  return page;
 }
 
 /**
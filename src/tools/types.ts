@@ -13,30 +13,41 @@ import {
   safeJson,
   loadFromAllRepos,
   getStore,
+  getEnabledExtractedRepos,
   sanitize,
   sanitizeLabel,
+  paginate,
+  paginationSchema,
+  PAGE_OUTPUT_PROPERTIES,
 } from "./shared.js";
-import type {
-  TypeDefinition,
-  TypeRelationship,
-  TypeDefinitionsResult,
+import {
+  buildModules,
+  type TypeDefinition,
+  type TypeDefinitionsResult,
+  type TypeRelationship,
 } from "../extractors/types/schema.js";
+import { normalizeTypeName } from "../lib/knowledge-index.js";
+import {
+  checkTypeCompatibility,
+  hasFindingsAtOrAbove,
+  COMPATIBILITY_SEVERITIES,
+  type CompatibilitySeverity,
+} from "../lib/type-compatibility.js";
 
 // =============================================================================
 // Type Matching Utilities
 // =============================================================================
 
 /**
- * Normalize a type name for matching (handle naming convention differences)
- * - Rust: snake_case struct names (BlobDescriptor)
- * - TypeScript: PascalCase interfaces (BlobDescriptor)
- * - Dart: PascalCase classes (BlobDescriptor)
- * - Go: PascalCase structs (BlobDescriptor)
+ * Normalized names of the fields a type puts on the wire: serialized names
+ * where the parser found one, leaving out fields that are never serialized
  */
-function normalizeTypeName(name: string): string {
-  return name
-    .replace(/[_-]/g, "") // Remove underscores/hyphens
-    .toLowerCase();
+function wireFieldNames(type: TypeDefinition): Set<string> {
+  return new Set(
+    (type.fields ?? [])
+      .filter((f) => f.serialized !== false)
+      .map((f) => normalizeTypeName(f.wireName ?? f.name))
+  );
 }
 
 /**
@@ -53,9 +64,10 @@ function calculateTypeSimilarity(a: TypeDefinition, b: TypeDefinition): number {
 
   // Same kind (struct/class/interface are equivalent)
   const equivalentKinds: Record<string, string[]> = {
-    struct: ["struct", "class", "interface"],
-    class: ["struct", "class", "interface"],
+    struct: ["struct", "class", "interface", "input"],
+    class: ["struct", "class", "interface", "input"],
     interface: ["struct", "class", "interface", "trait", "protocol"],
+    input: ["struct", "class", "input"],
     enum: ["enum"],
     trait: ["trait", "interface", "protocol"],
     type_alias: ["type_alias"],
@@ -64,10 +76,10 @@ function calculateTypeSimilarity(a: TypeDefinition, b: TypeDefinition): number {
     score += 20;
   }
 
-  // Field matching (for structs/classes)
-  if (a.fields && b.fields && a.fields.length > 0 && b.fields.length > 0) {
-    const aFieldNames = new Set(a.fields.map((f) => normalizeTypeName(f.name)));
-    const bFieldNames = new Set(b.fields.map((f) => normalizeTypeName(f.name)));
+  // Field matching (for structs/classes), on serialized names
+  const aFieldNames = wireFieldNames(a);
+  const bFieldNames = wireFieldNames(b);
+  if (aFieldNames.size > 0 && bFieldNames.size > 0) {
     const intersection = [...aFieldNames].filter((n) => bFieldNames.has(n));
     const fieldOverlap = intersection.length / Math.max(aFieldNames.size, bFieldNames.size);
     score += Math.round(fieldOverlap * 30);
@@ -76,6 +88,28 @@ function calculateTypeSimilarity(a: TypeDefinition, b: TypeDefinition): number {
   return score;
 }
 
+/**
+ * Definitions of a type (names compared with normalizeTypeName), at most one
+ * per repo: the one spelled exactly like `name`, else the most detailed
+ */
+function findTypeInstances(
+  allTypeData: Record<string, TypeDefinitionsResult>,
+  name: string,
+  repo?: string
+): Array<{ repo: string; type: TypeDefinition }> {
+  const normalized = normalizeTypeName(name);
+  const detail = (t: TypeDefinition) => (t.name === name ? 1_000_000 : 0) + (t.fields?.length ?? 0) + (t.variants?.length ?? 0);
+
+  const instances: Array<{ repo: string; type: TypeDefinition }> = [];
+  for (const [typeRepo, data] of Object.entries(allTypeData)) {
+    if (repo && typeRepo !== repo) continue;
+    const candidates = data.types.filter((t) => normalizeTypeName(t.name) === normalized);
+    if (candidates.length === 0) continue;
+    instances.push({ repo: typeRepo, type: candidates.reduce((best, t) => (detail(t) > detail(best) ? t : best)) });
+  }
+  return instances;
+}
+
 /**
  * Find types that appear in multiple repos (shared contracts)
  */
@@ -162,8 +196,8 @@ function buildTypeFlowEdges(matches: CrossRepoMatch[]): TypeFlowEdge[] {
         const b = match.instances[j];
 
         // Find shared fields
-        const aFields = new Set(a.type.fields?.map((f) => normalizeTypeName(f.name)) || []);
-        const bFields = new Set(b.type.fields?.map((f) => normalizeTypeName(f.name)) || []);
+        const aFields = wireFieldNames(a.type);
+        const bFields = wireFieldNames(b.type);
         const sharedFields = [...aFields].filter((f) => bFields.has(f));
 
         edges.push({
@@ -185,6 +219,18 @@ function buildTypeFlowEdges(matches: CrossRepoMatch[]): TypeFlowEdge[] {
 // Tool Handlers
 // =============================================================================
 
+const TYPE_INSTANCE_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    repo: { type: "string" },
+    name: { type: "string" },
+    kind: { type: "string" },
+    language: { type: "string" },
+    file: { type: "string" },
+  },
+  required: ["repo", "name"],
+};
+
 export const typeTools: ToolHandler[] = [
   {
     name: "query_types",
@@ -194,7 +240,7 @@ OPTIONS:
 - No args: Summary of all types across all repos
 - repo: Types in a specific repo
 - name: Search for types by name (fuzzy match)
-- kind: Filter by kind (struct, class, interface, enum, trait, type_alias)
+- kind: Filter by kind (struct, class, interface, enum, trait, type_alias, input, service, directive)
 
 Returns type definitions with fields, relationships, and module organization.`,
     schema: {
@@ -210,95 +256,120 @@ Returns type definitions with fields, relationships, and module organization.`,
         },
         kind: {
           type: "string",
-          enum: ["struct", "class", "interface", "enum", "trait", "type_alias", "protocol", "union"],
+          enum: ["struct", "class", "interface", "enum", "trait", "type_alias", "protocol", "union", "input", "service", "directive"],
           description: "Filter by type kind",
         },
-        limit: {
-          type: "number",
-          description: "Max results to return (default: 50)",
+        ...paginationSchema(50),
+      },
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        totalMatches: { type: "integer" },
+        types: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              repo: { type: "string" },
+              name: { type: "string" },
+              kind: { type: "string" },
+              file: { type: "string" },
+              language: { type: "string" },
+              visibility: { type: "string" },
+              fields: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    name: { type: "string" },
+                    wireName: { type: "string" },
+                    type: { type: "string" },
+                    optional: { type: "boolean" },
+                  },
+                },
+              },
+              fieldCount: { type: "integer" },
+              variants: { type: "array", items: { type: "string" } },
+              extends: { type: "array", items: { type: "string" } },
+              implements: { type: "array", items: { type: "string" } },
+              decorators: { type: "array" },
+            },
+            required: ["repo", "name", "kind"],
+          },
+        },
+        summary: {
+          type: "object",
+          description: "Type counts by kind, keyed by repo",
+          additionalProperties: { type: "object", additionalProperties: { type: "number" } },
         },
+        hint: { type: "string" },
+        ...PAGE_OUTPUT_PROPERTIES,
       },
+      required: ["totalMatches", "total", "types", "summary"],
     },
     handler: async (args) => {
       const targetRepo = args.repo as string | undefined;
       const searchName = args.name as string | undefined;
       const filterKind = args.kind as string | undefined;
-      const limit = (args.limit as number) || 50;
-
-      const allTypeData = (await loadFromAllRepos("type_definitions")) as Record<
-        string,
-        TypeDefinitionsResult
-      >;
 
-      // Filter repos
-      const reposToSearch = targetRepo
-        ? { [targetRepo]: allTypeData[targetRepo] }
-        : allTypeData;
+      const store = await getStore();
+      const repos = await getEnabledExtractedRepos();
+      const summary = await store.countTypes(repos);
 
-      if (targetRepo && !allTypeData[targetRepo]) {
+      if (targetRepo && !summary[targetRepo]) {
         return safeJson({
           error: `No type data for repo '${targetRepo}'. Run type_definitions extractor first.`,
         });
       }
 
-      // Collect matching types
-      const results: Array<{
-        repo: string;
-        type: TypeDefinition;
-      }> = [];
-
-      for (const [repo, data] of Object.entries(reposToSearch)) {
-        if (!data?.types) continue;
-
-        for (const type of data.types) {
-          // Apply filters
-          if (filterKind && type.kind !== filterKind) continue;
-          if (searchName) {
-            const normalized = normalizeTypeName(searchName);
-            if (!normalizeTypeName(type.name).includes(normalized)) continue;
-          }
-
-          results.push({ repo, type });
-        }
-      }
+      // Filtered and sorted by importance (public types with more fields first) in the store
+      const results = (
+        await store.queryTypes({ repos: targetRepo ? [targetRepo] : repos, name: searchName, kind: filterKind })
+      ).map((row) => ({ repo: row.repo, type: row.definition }));
 
-      // Sort by importance (public types with more fields first)
-      results.sort((a, b) => {
-        const aScore = (a.type.visibility === "public" ? 100 : 0) + (a.type.fields?.length || 0);
-        const bScore = (b.type.visibility === "public" ? 100 : 0) + (b.type.fields?.length || 0);
-        return bScore - aScore;
+      const types = results.map(({ repo, type }) => ({
+        repo,
+        name: type.name,
+        kind: type.kind,
+        file: type.file,
+        language: type.language,
+        visibility: type.visibility,
+        fields: type.fields?.slice(0, 10).map((f) => ({
+          name: f.name,
+          wireName: f.wireName,
+          type: f.typeRef.raw,
+          optional: f.optional,
+        })),
+        fieldCount: type.fields?.length,
+        variants: type.variants?.map((v) => v.name),
+        extends: type.extends?.map((e) => e.name),
+        implements: type.implements?.map((i) => i.name),
+        decorators: type.decorators,
+      }));
+
+      const page = paginate(types, args, {
+        tool: "query_types",
+        defaultLimit: 50,
+        summarize: (t) => ({
+          ...t,
+          fields: undefined,
+          variants: undefined,
+          extends: undefined,
+          implements: undefined,
+          decorators: undefined,
+        }),
       });
 
-      // Build summary
-      const summary: Record<string, Record<string, number>> = {};
-      for (const [repo, data] of Object.entries(allTypeData)) {
-        if (!data?.summary) continue;
-        summary[repo] = data.summary.byKind;
-      }
-
       return safeJson({
         totalMatches: results.length,
-        types: results.slice(0, limit).map(({ repo, type }) => ({
-          repo,
-          name: type.name,
-          kind: type.kind,
-          file: type.file,
-          language: type.language,
-          visibility: type.visibility,
-          fields: type.fields?.slice(0, 10).map((f) => ({
-            name: f.name,
-            type: f.typeRef.raw,
-            optional: f.optional,
-          })),
-          fieldCount: type.fields?.length,
-          variants: type.variants?.map((v) => v.name),
-          extends: type.extends?.map((e) => e.name),
-          implements: type.implements?.map((i) => i.name),
-          decorators: type.decorators,
-        })),
+        total: page.total,
+        types: page.items,
+        nextCursor: page.nextCursor,
+        summarized: page.summarized,
         summary,
-        hint: results.length > limit
-          ? `Showing ${limit} of ${results.length} matches. Use 'limit' param for more.`
+        hint: page.nextCursor
+          ? `Showing ${page.items.length} of ${page.total} matches. Pass cursor: nextCursor for the next page.`
           : undefined,
       });
     },
@@ -309,7 +380,8 @@ Returns type definitions with fields, relationships, and module organization.`,
 
 This is KEY for understanding cross-service data flow:
 - Types with the same name in different repos indicate API boundaries
-- High similarity scores mean the types have matching fields (strong contract)
+- High similarity scores mean the types have matching fields (strong contract);
+  fields are compared by serialized name (serde renames, json tags, aliases)
 - Low similarity might indicate drift or versioning issues
 
 Returns: Shared types ranked by similarity, with field comparison.`,
@@ -318,17 +390,62 @@ Returns: Shared types ranked by similarity, with field comparison.`,
       properties: {
         minSimilarity: {
           type: "number",
+          minimum: 0,
+          maximum: 100,
           description: "Minimum similarity score (0-100). Default: 50",
         },
-        limit: {
-          type: "number",
-          description: "Max shared types to return. Default: 20",
+        ...paginationSchema(20),
+      },
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        totalSharedTypes: { type: "integer" },
+        sharedTypes: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              similarity: { type: "number" },
+              repos: { type: "array", items: { type: "string" } },
+              instances: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    repo: { type: "string" },
+                    name: { type: "string" },
+                    kind: { type: "string" },
+                    language: { type: "string" },
+                    file: { type: "string" },
+                    fields: {
+                      type: "array",
+                      items: {
+                        type: "object",
+                        properties: {
+                          name: { type: "string" },
+                          wireName: { type: "string" },
+                          type: { type: "string" },
+                        },
+                      },
+                    },
+                    fieldCount: { type: "integer" },
+                  },
+                  required: ["repo", "name"],
+                },
+              },
+            },
+            required: ["name", "similarity", "repos", "instances"],
+          },
         },
+        insight: { type: "string" },
+        ...PAGE_OUTPUT_PROPERTIES,
       },
+      required: ["totalSharedTypes", "total", "sharedTypes", "insight"],
     },
     handler: async (args) => {
       const minSimilarity = (args.minSimilarity as number) || 50;
-      const limit = (args.limit as number) || 20;
 
       const allTypeData = (await loadFromAllRepos("type_definitions")) as Record<
         string,
@@ -338,25 +455,40 @@ Returns: Shared types ranked by similarity, with field comparison.`,
       const matches = findCrossRepoTypes(allTypeData);
       const filtered = matches.filter((m) => m.similarity >= minSimilarity);
 
-      return safeJson({
-        totalSharedTypes: filtered.length,
-        sharedTypes: filtered.slice(0, limit).map((match) => ({
-          name: match.normalizedName,
-          similarity: match.similarity,
-          repos: [...new Set(match.instances.map((i) => i.repo))],
-          instances: match.instances.map((inst) => ({
-            repo: inst.repo,
-            name: inst.type.name,
-            kind: inst.type.kind,
-            language: inst.type.language,
-            file: inst.type.file,
-            fields: inst.type.fields?.slice(0, 8).map((f) => ({
-              name: f.name,
-              type: f.typeRef.raw,
-            })),
-            fieldCount: inst.type.fields?.length,
+      const sharedTypes = filtered.map((match) => ({
+        name: match.normalizedName,
+        similarity: match.similarity,
+        repos: [...new Set(match.instances.map((i) => i.repo))],
+        instances: match.instances.map((inst) => ({
+          repo: inst.repo,
+          name: inst.type.name,
+          kind: inst.type.kind,
+          language: inst.type.language,
+          file: inst.type.file,
+          fields: inst.type.fields?.slice(0, 8).map((f) => ({
+            name: f.name,
+            wireName: f.wireName,
+            type: f.typeRef.raw,
           })),
+          fieldCount: inst.type.fields?.length,
         })),
+      }));
+
+      const page = paginate(sharedTypes, args, {
+        tool: "query_shared_types",
+        defaultLimit: 20,
+        summarize: (t) => ({
+          ...t,
+          instances: t.instances.map((inst) => ({ ...inst, fields: undefined })),
+        }),
+      });
+
+      return safeJson({
+        totalSharedTypes: filtered.length,
+        total: page.total,
+        sharedTypes: page.items,
+        nextCursor: page.nextCursor,
+        summarized: page.summarized,
         insight:
           filtered.length > 0
             ? `Found ${filtered.length} shared types indicating data contracts between repos.`
@@ -364,6 +496,150 @@ Returns: Shared types ranked by similarity, with field comparison.`,
       });
     },
   },
+  {
+    name: "check_type_compatibility",
+    description: `Check whether the definitions of a shared type agree, producer against consumer.
+
+Compares what the producer serializes with what the consumer expects:
+- Missing fields the consumer requires (fields are matched by serialized name)
+- Type mismatches across languages (e.g. i64 vs number, Option<T> vs a required field)
+- Enum variants the consumer doesn't know
+Each finding has a severity (error, warning, info). Nested types are compared by name only.
+
+USAGE:
+- name: check every pair of repos defining the type, in both directions
+- producerRepo/consumerRepo (with name): check one direction
+- producerType/consumerType: compare differently named types (e.g. UserDto vs User)
+- failOn: severity that makes the result incompatible (default: error), for CI gates`,
+    schema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Type name (matched ignoring case, _ and -)" },
+        producerRepo: { type: "string", description: "Repo that serializes the type" },
+        producerType: { type: "string", description: "Producer's type name. Default: name" },
+        consumerRepo: { type: "string", description: "Repo that deserializes the type" },
+        consumerType: { type: "string", description: "Consumer's type name. Default: name, or producerType" },
+        failOn: {
+          type: "string",
+          enum: COMPATIBILITY_SEVERITIES,
+          description: "Lowest severity that makes the types incompatible. Default: error",
+        },
+      },
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        compatible: { type: "boolean" },
+        failOn: { type: "string" },
+        summary: {
+          type: "object",
+          properties: {
+            error: { type: "integer" },
+            warning: { type: "integer" },
+            info: { type: "integer" },
+          },
+          required: ["error", "warning", "info"],
+        },
+        pairs: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              producer: TYPE_INSTANCE_OUTPUT_SCHEMA,
+              consumer: TYPE_INSTANCE_OUTPUT_SCHEMA,
+              compatible: { type: "boolean" },
+              findings: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    severity: { type: "string" },
+                    issue: { type: "string" },
+                    field: { type: "string" },
+                    variant: { type: "string" },
+                    producerType: { type: "string" },
+                    consumerType: { type: "string" },
+                    message: { type: "string" },
+                  },
+                  required: ["severity", "issue", "message"],
+                },
+              },
+            },
+            required: ["producer", "consumer", "compatible", "findings"],
+          },
+        },
+      },
+      required: ["compatible", "failOn", "summary", "pairs"],
+    },
+    handler: async (args) => {
+      const name = args.name as string | undefined;
+      const producerRepo = args.producerRepo as string | undefined;
+      const consumerRepo = args.consumerRepo as string | undefined;
+      const producerType = (args.producerType as string | undefined) ?? name;
+      const consumerType = (args.consumerType as string | undefined) ?? name ?? producerType;
+      const failOn = (args.failOn as CompatibilitySeverity | undefined) ?? "error";
+
+      if (!producerType || !consumerType) {
+        return safeJson({ error: "Missing type", message: "Provide name, or producerType and consumerType." });
+      }
+      if (!COMPATIBILITY_SEVERITIES.includes(failOn)) {
+        return safeJson({ error: "Invalid failOn", message: `failOn must be one of: ${COMPATIBILITY_SEVERITIES.join(", ")}` });
+      }
+
+      const allTypeData = (await loadFromAllRepos("type_definitions")) as Record<
+        string,
+        TypeDefinitionsResult
+      >;
+      for (const repo of [producerRepo, consumerRepo]) {
+        if (repo && !allTypeData[repo]) {
+          return safeJson({ error: "Repository not found", message: `No extracted type definitions for ${repo}` });
+        }
+      }
+
+      const producers = findTypeInstances(allTypeData, producerType, producerRepo);
+      const consumers = findTypeInstances(allTypeData, consumerType, consumerRepo);
+      const describe = ({ repo, type }: { repo: string; type: TypeDefinition }) => ({
+        repo,
+        name: type.name,
+        kind: type.kind,
+        language: type.language,
+        file: type.file,
+      });
+
+      // Without a repo on either side, only definitions in different repos are paired
+      const crossRepoOnly = !producerRepo && !consumerRepo;
+      const pairs = producers.flatMap((producer) =>
+        consumers
+          .filter((consumer) => (crossRepoOnly ? consumer.repo !== producer.repo : consumer.type !== producer.type))
+          .map((consumer) => {
+            const findings = checkTypeCompatibility(producer.type, consumer.type);
+            return {
+              producer: describe(producer),
+              consumer: describe(consumer),
+              compatible: !hasFindingsAtOrAbove(findings, failOn),
+              findings,
+            };
+          })
+      );
+
+      if (pairs.length === 0) {
+        return safeJson({
+          error: "No type pairs",
+          message: `Found ${producers.length} definition(s) of ${producerType} and ${consumers.length} of ${consumerType}; need one on each side, in different repos or under different names.`,
+        });
+      }
+
+      const findings = pairs.flatMap((pair) => pair.findings);
+      return safeJson({
+        compatible: pairs.every((pair) => pair.compatible),
+        failOn,
+        summary: Object.fromEntries(
+          COMPATIBILITY_SEVERITIES.map((severity) => [severity, findings.filter((f) => f.severity === severity).length])
+        ),
+        pairs,
+      });
+    },
+  },
   {
     name: "generate_type_flow_diagram",
     description: `Generate a Mermaid diagram showing how types flow between repos.
@@ -379,6 +655,8 @@ IMPORTANT: Display the returned 'mermaid' field in a \`\`\`mermaid code block.`,
       properties: {
         minSimilarity: {
           type: "number",
+          minimum: 0,
+          maximum: 100,
           description: "Minimum similarity to show edge (0-100). Default: 60",
         },
         focusRepo: {
@@ -387,6 +665,36 @@ IMPORTANT: Display the returned 'mermaid' field in a \`\`\`mermaid code block.`,
         },
       },
     },
+    outputSchema: {
+      type: "object",
+      properties: {
+        mermaid: { type: "string" },
+        stats: {
+          type: "object",
+          properties: {
+            repos: { type: "integer" },
+            sharedTypes: { type: "integer" },
+            strongContracts: { type: "integer" },
+          },
+          required: ["repos", "sharedTypes", "strongContracts"],
+        },
+        edges: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              from: { type: "string" },
+              to: { type: "string" },
+              confidence: { type: "number" },
+              sharedFields: { type: "array", items: { type: "string" } },
+            },
+            required: ["from", "to", "confidence", "sharedFields"],
+          },
+        },
+        hint: { type: "string" },
+      },
+      required: ["mermaid", "stats", "edges"],
+    },
     handler: async (args) => {
       const minSimilarity = (args.minSimilarity as number) || 60;
       const focusRepo = args.focusRepo as string | undefined;
@@ -492,9 +800,49 @@ Returns:
           type: "string",
           description: "Optional: Focus on relationships for a specific type",
         },
+        ...paginationSchema(100),
       },
       required: ["repo"],
     },
+    outputSchema: {
+      type: "object",
+      properties: {
+        repo: { type: "string" },
+        ref: { type: "string" },
+        totalRelationships: { type: "integer" },
+        byKind: {
+          type: "object",
+          description: "Relationships grouped by kind (extends, implements, contains, collection)",
+          additionalProperties: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                from: { type: "string" },
+                to: { type: "string" },
+                viaField: { type: "string" },
+              },
+              required: ["from", "to"],
+            },
+          },
+        },
+        modules: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              path: { type: "string" },
+              types: { type: "integer" },
+              internalRelationships: { type: "integer" },
+              externalRelationships: { type: "integer" },
+            },
+            required: ["path", "types", "internalRelationships", "externalRelationships"],
+          },
+        },
+        ...PAGE_OUTPUT_PROPERTIES,
+      },
+      required: ["repo", "ref", "totalRelationships", "total", "byKind", "modules"],
+    },
     handler: async (args) => {
       const repo = args.repo as string;
       const focusType = args.type as string | undefined;
@@ -506,51 +854,36 @@ Returns:
       }
 
       const latest = versions[0];
-      const data = (await s.loadExtractor(
-        repo,
-        latest.refType as "branch" | "tag",
-        latest.ref,
-        "type_definitions"
-      )) as TypeDefinitionsResult | null;
-
-      if (!data) {
+      if (!latest.extractors.includes("type_definitions")) {
         return safeJson({ error: `No type_definitions data for '${repo}'` });
       }
 
-      let relationships = data.relationships;
-
+      const types = (await s.queryTypes({ repos: [repo] })).map((row) => row.definition);
+      const allRelationships = (await s.queryRelationships({ repos: [repo] })) as TypeRelationship[];
       // Filter to focus type if specified
-      if (focusType) {
-        const normalized = normalizeTypeName(focusType);
-        relationships = relationships.filter(
-          (r) =>
-            normalizeTypeName(r.from).includes(normalized) ||
-            normalizeTypeName(r.to).includes(normalized)
-        );
-      }
-
-      // Group by kind
-      const byKind: Record<string, TypeRelationship[]> = {};
-      for (const rel of relationships) {
-        if (!byKind[rel.kind]) byKind[rel.kind] = [];
-        byKind[rel.kind].push(rel);
+      const relationships = focusType ? await s.queryRelationships({ repos: [repo], type: focusType }) : allRelationships;
+
+      const page = paginate(
+        relationships.map((r) => ({ kind: r.kind, from: r.from, to: r.to, viaField: r.viaField })),
+        args,
+        { tool: "query_type_relationships", defaultLimit: 100 }
+      );
+
+      // Group this page by kind
+      const byKind: Record<string, Array<{ from: string; to: string; viaField?: string }>> = {};
+      for (const { kind, ...rel } of page.items) {
+        if (!byKind[kind]) byKind[kind] = [];
+        byKind[kind].push(rel);
       }
 
       return safeJson({
         repo,
         ref: latest.ref,
         totalRelationships: relationships.length,
-        byKind: Object.fromEntries(
-          Object.entries(byKind).map(([kind, rels]) => [
-            kind,
-            rels.slice(0, 20).map((r) => ({
-              from: r.from,
-              to: r.to,
-              viaField: r.viaField,
-            })),
-          ])
-        ),
-        modules: data.modules.map((m) => ({
+        total: page.total,
+        nextCursor: page.nextCursor,
+        byKind,
+        modules: buildModules(types, allRelationships).map((m) => ({
           path: m.path,
           types: m.types.length,
           internalRelationships: m.internalRelationships.length,
@@ -596,11 +929,14 @@ IMPORTANT: Display the returned 'mermaid' field in a \`\`\`mermaid code block.`,
           description: "Direction to traverse. Default: both",
         },
         depth: {
-          type: "number",
+          type: "integer",
+          minimum: 1,
+          maximum: 5,
           description: "Levels to traverse (1-5). Default: 2",
         },
         limit: {
-          type: "number",
+          type: "integer",
+          minimum: 1,
           description: "Max nodes to show. Default: 30",
         },
         format: {
@@ -611,6 +947,40 @@ IMPORTANT: Display the returned 'mermaid' field in a \`\`\`mermaid code block.`,
       },
       required: ["repo"],
     },
+    outputSchema: {
+      type: "object",
+      properties: {
+        repo: { type: "string" },
+        ref: { type: "string" },
+        format: { type: "string" },
+        mermaid: { type: "string" },
+        stats: {
+          type: "object",
+          properties: {
+            totalCalls: { type: "integer" },
+            uniqueCallers: { type: "integer" },
+            uniqueCallees: { type: "integer" },
+            nodesShown: { type: "integer" },
+            edgesShown: { type: "integer" },
+          },
+          required: ["totalCalls", "uniqueCallers", "uniqueCallees", "nodesShown", "edgesShown"],
+        },
+        focus: { type: "array", items: { type: "string" } },
+        topCalledFunctions: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              function: { type: "string" },
+              callCount: { type: "integer" },
+            },
+            required: ["function", "callCount"],
+          },
+        },
+        hint: { type: "string" },
+      },
+      required: ["repo", "ref", "format", "mermaid", "stats", "focus", "topCalledFunctions"],
+    },
     handler: async (args) => {
       const repo = args.repo as string;
       const focusFunction = args.function as string | undefined;
@@ -1014,6 +1384,40 @@ Returns impact tree showing: Service → Functions → Screens → User Impact`,
       },
       required: ["repo"],
     },
+    outputSchema: {
+      type: "object",
+      properties: {
+        repo: { type: "string" },
+        ref: { type: "string" },
+        format: { type: "string" },
+        output: { type: "string" },
+        summary: {
+          type: "object",
+          properties: {
+            totalExternalServices: { type: "integer" },
+            servicesAnalyzed: { type: "integer" },
+            highRiskServices: { type: "integer" },
+            mediumRiskServices: { type: "integer" },
+          },
+          required: ["totalExternalServices", "servicesAnalyzed", "highRiskServices", "mediumRiskServices"],
+        },
+        impacts: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              service: { type: "string" },
+              totalDependents: { type: "integer" },
+              affectedScreens: { type: "array", items: { type: "string" } },
+              riskLevel: { type: "string", enum: ["high", "medium", "low"] },
+            },
+            required: ["service", "totalDependents", "affectedScreens", "riskLevel"],
+          },
+        },
+        hint: { type: "string" },
+      },
+      required: ["repo", "ref", "format", "output", "summary", "impacts"],
+    },
     handler: async (args) => {
       const repo = args.repo as string;
       const focusService = args.service as string | undefined;
@@ -1313,6 +1717,53 @@ Example: "If divine-relay goes down, divine-web and divine-mobile break"`,
         },
       },
     },
+    outputSchema: {
+      type: "object",
+      properties: {
+        format: { type: "string" },
+        output: { type: "string" },
+        summary: {
+          type: "object",
+          properties: {
+            totalReposAnalyzed: { type: "integer" },
+            layers: {
+              type: "object",
+              properties: {
+                edge: { type: "integer" },
+                backend: { type: "integer" },
+                internal: { type: "integer" },
+              },
+              required: ["edge", "backend", "internal"],
+            },
+            totalServices: { type: "integer" },
+            crossRepoDependencies: { type: "integer" },
+            sharedTypeContracts: { type: "integer" },
+          },
+          required: ["totalReposAnalyzed", "layers", "totalServices", "crossRepoDependencies", "sharedTypeContracts"],
+        },
+        criticalRepos: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              repo: { type: "string" },
+              services: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: { name: { type: "string" }, layer: { type: "string" } },
+                  required: ["name", "layer"],
+                },
+              },
+              dependedBy: { type: "array", items: { type: "string" } },
+            },
+            required: ["repo", "services", "dependedBy"],
+          },
+        },
+        hint: { type: "string" },
+      },
+      required: ["format", "output", "summary", "criticalRepos"],
+    },
     handler: async (args) => {
       const focusRepo = args.repo as string | undefined;
       const format = (args.format as "tree" | "mermaid") || "mermaid";
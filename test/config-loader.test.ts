@@ -0,0 +1,26 @@
+import assert from "node:assert/strict";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import { validateConfigFile } from "../src/lib/config-loader.js";
+
+test("an unknown repo key is reported once", async () => {
+  const content = `version: "1.0"
+repositories:
+  app:
+    url: https://github.com/org/app.git
+    type: backend
+    track:
+      branches: [main]
+    extractor: types
+    extractors:
+      - name: type_definitions
+`;
+
+  const result = await validateConfigFile(join(tmpdir(), "repos.yaml"), content);
+
+  assert.deepEqual(
+    result.issues.filter((issue) => issue.message.startsWith("unknown property")),
+    [{ file: join(tmpdir(), "repos.yaml"), path: "repositories.app.extractor", message: `unknown property "extractor"`, line: 8, column: 5 }]
+  );
+});
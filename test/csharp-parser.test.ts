@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { getParser } from "../src/extractors/types/parsers/index.js";
+
+function parse(content: string) {
+  return getParser("csharp")!.parse({ content, file: "UserDto.cs", includePrivate: false });
+}
+
+test("fields and private members are not serialized", () => {
+  const [dto] = parse(`
+public class UserDto
+{
+    private readonly ILogger _logger;
+    public long Id { get; set; }
+    private string Secret { get; set; }
+    public string Legacy;
+    [JsonInclude] public string Included;
+}
+`);
+
+  assert.deepEqual(
+    dto.fields?.map((f) => [f.name, f.serialized]),
+    [
+      ["_logger", false],
+      ["Id", undefined],
+      ["Secret", false],
+      ["Legacy", false],
+      ["Included", undefined],
+    ]
+  );
+});
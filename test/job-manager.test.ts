@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import { hostname, tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import { getJob, initJobStore } from "../src/lib/job-manager.js";
+
+async function writeJob(dir: string, id: string, owner: { pid: number; hostname: string; heartbeatAt: Date }) {
+  const job = { id, type: "connect_org", status: "running", startedAt: new Date(), owner };
+  await fs.writeFile(join(dir, `${id}.json`), JSON.stringify(job));
+}
+
+async function readStatus(dir: string, id: string): Promise<string> {
+  return JSON.parse(await fs.readFile(join(dir, `${id}.json`), "utf-8")).status;
+}
+
+test("only jobs whose owner is gone are recovered", async () => {
+  const dir = await fs.mkdtemp(join(tmpdir(), "jobs-"));
+  const now = new Date();
+  // The test runner's parent process is alive on this host
+  await writeJob(dir, "job_live", { pid: process.ppid, hostname: hostname(), heartbeatAt: now });
+  await writeJob(dir, "job_exited", { pid: 2 ** 22 + 1, hostname: hostname(), heartbeatAt: now });
+  await writeJob(dir, "job_stale", { pid: 1, hostname: "elsewhere", heartbeatAt: new Date(now.getTime() - 10 * 60_000) });
+
+  const { resumed, interrupted } = await initJobStore(dir);
+
+  assert.deepEqual(resumed, []);
+  assert.deepEqual(interrupted.map((job) => job.id).sort(), ["job_exited", "job_stale"]);
+  assert.equal(getJob("job_live"), undefined);
+
+  // Wait for the recovered jobs to be written back
+  const recovered = async () =>
+    (await readStatus(dir, "job_exited")) === "interrupted" && (await readStatus(dir, "job_stale")) === "interrupted";
+  for (let attempt = 0; attempt < 50 && !(await recovered()); attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  assert.ok(await recovered());
+  assert.equal(await readStatus(dir, "job_live"), "running");
+
+  await fs.rm(dir, { recursive: true, force: true });
+});
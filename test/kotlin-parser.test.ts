@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { getParser } from "../src/extractors/types/parsers/index.js";
+
+function parse(content: string) {
+  return getParser("kotlin")!.parse({ content, file: "User.kt", includePrivate: false });
+}
+
+test("getter-only body properties are not serialized", () => {
+  const [user] = parse(`
+@Serializable
+data class User(val firstName: String, val lastName: String) {
+    val displayName: String get() = "$firstName $lastName"
+    val initials: String
+        get() = firstName.take(1) + lastName.take(1)
+    var nickname: String = ""
+        get() = field.trim()
+}
+`);
+
+  assert.deepEqual(
+    user.fields?.map((f) => [f.name, f.serialized]),
+    [
+      ["firstName", undefined],
+      ["lastName", undefined],
+      ["displayName", false],
+      ["initials", false],
+      ["nickname", undefined],
+    ]
+  );
+});
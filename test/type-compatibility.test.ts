@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { FieldDefinition, TypeDefinition } from "../src/extractors/types/schema.js";
+import { checkTypeCompatibility } from "../src/lib/type-compatibility.js";
+
+function field(name: string, type: string, extra: Partial<FieldDefinition> = {}): FieldDefinition {
+  return { name, typeRef: { name: type, raw: type }, ...extra };
+}
+
+function struct(language: TypeDefinition["language"], fields: FieldDefinition[]): TypeDefinition {
+  return { name: "User", kind: language === "typescript" ? "interface" : "struct", file: "user", line: 1, language, fields };
+}
+
+test("fields are paired by exact wire name", () => {
+  const producer = struct("rust", [field("user_id", "i64")]);
+  const consumer = struct("typescript", [field("userId", "number")]);
+
+  const findings = checkTypeCompatibility(producer, consumer);
+
+  assert.deepEqual(
+    findings.map(({ severity, issue, field }) => ({ severity, issue, field })),
+    [
+      { severity: "error", issue: "missing_required_field", field: "userId" },
+      { severity: "info", issue: "unknown_field", field: "user_id" },
+    ]
+  );
+});
+
+test("a renamed field matches the consumer's name", () => {
+  const producer = struct("rust", [field("user_id", "i32", { wireName: "userId" })]);
+  const consumer = struct("typescript", [field("userId", "number")]);
+
+  assert.deepEqual(checkTypeCompatibility(producer, consumer), []);
+});